@@ -0,0 +1,54 @@
+-- Migration: Email Ingestion Records
+-- Description: Persist one record per inbound email so webhook retries are
+-- detected and failed emails can be retried without duplicating leaves or uploads
+
+-- ============================================================================
+-- STEP 1: Create email_ingestions table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_ingestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id VARCHAR,
+  content_hash VARCHAR NOT NULL,
+  provider VARCHAR,
+  status VARCHAR NOT NULL DEFAULT 'processing',
+  recipient VARCHAR,
+  sender VARCHAR,
+  subject TEXT,
+  leaf_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  error_message TEXT,
+  attempt_count INTEGER NOT NULL DEFAULT 1,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE email_ingestions
+  ADD CONSTRAINT email_ingestions_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'skipped'));
+
+-- Message-ID is the primary idempotency key; the content hash is only the key
+-- for emails that arrive without a Message-ID
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_ingestions_message_id
+  ON email_ingestions (message_id) WHERE message_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_ingestions_content_hash
+  ON email_ingestions (content_hash) WHERE message_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_email_ingestions_status ON email_ingestions (status);
+CREATE INDEX IF NOT EXISTS idx_email_ingestions_leaf ON email_ingestions (leaf_id);
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+-- Only the service role (webhooks) reads and writes ingestion records
+ALTER TABLE email_ingestions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP TABLE IF EXISTS email_ingestions CASCADE;
+*/
+
+-- Migration completed successfully
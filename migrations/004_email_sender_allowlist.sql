@@ -0,0 +1,114 @@
+-- Migration: Email Sender Allowlist and Quarantine
+-- Description: Only verified senders may post into a person tree by email.
+-- Mail from anyone else is held in a quarantine queue until a tree manager
+-- approves or rejects it.
+
+-- ============================================================================
+-- STEP 1: Create tree_verified_senders table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tree_verified_senders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tree_id UUID NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+  email_address VARCHAR NOT NULL,
+  profile_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  label VARCHAR,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tree_id, email_address)
+);
+
+-- Addresses are always stored lowercase so lookups are exact matches
+ALTER TABLE tree_verified_senders
+  ADD CONSTRAINT tree_verified_senders_lowercase_check
+  CHECK (email_address = LOWER(email_address));
+
+CREATE INDEX IF NOT EXISTS idx_tree_verified_senders_tree ON tree_verified_senders (tree_id);
+CREATE INDEX IF NOT EXISTS idx_tree_verified_senders_profile ON tree_verified_senders (profile_id);
+
+-- ============================================================================
+-- STEP 2: Create email_quarantine table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tree_id UUID NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+  ingestion_id UUID NOT NULL UNIQUE REFERENCES email_ingestions(id) ON DELETE CASCADE,
+  sender VARCHAR NOT NULL,
+  recipient VARCHAR NOT NULL,
+  subject TEXT,
+  email_payload JSONB NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  leaf_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE email_quarantine
+  ADD CONSTRAINT email_quarantine_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_email_quarantine_tree_status ON email_quarantine (tree_id, status);
+
+-- ============================================================================
+-- STEP 3: Allow quarantined ingestion records
+-- ============================================================================
+
+ALTER TABLE email_ingestions DROP CONSTRAINT IF EXISTS email_ingestions_status_check;
+ALTER TABLE email_ingestions
+  ADD CONSTRAINT email_ingestions_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'skipped', 'quarantined'));
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE tree_verified_senders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_quarantine ENABLE ROW LEVEL SECURITY;
+
+-- Tree managers can manage the sender allowlist
+CREATE POLICY "Tree managers can manage verified senders" ON tree_verified_senders
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = tree_verified_senders.tree_id
+      AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- Tree managers can review quarantined email; inserts come from the service role
+CREATE POLICY "Tree managers can view quarantined email" ON email_quarantine
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = email_quarantine.tree_id
+      AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+CREATE POLICY "Tree managers can review quarantined email" ON email_quarantine
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = email_quarantine.tree_id
+      AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP TABLE IF EXISTS email_quarantine CASCADE;
+DROP TABLE IF EXISTS tree_verified_senders CASCADE;
+ALTER TABLE email_ingestions DROP CONSTRAINT IF EXISTS email_ingestions_status_check;
+ALTER TABLE email_ingestions
+  ADD CONSTRAINT email_ingestions_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'skipped'));
+*/
+
+-- Migration completed successfully
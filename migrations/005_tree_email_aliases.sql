@@ -0,0 +1,60 @@
+-- Migration: Tree Email Aliases
+-- Description: Let tree managers claim readable addresses such as
+-- emma.smith@colinrodrigues.com alongside the generated person-{treeId} address,
+-- and deactivate or rotate them later
+
+-- ============================================================================
+-- STEP 1: Extend tree_email_addresses
+-- ============================================================================
+
+ALTER TABLE tree_email_addresses
+  ADD COLUMN IF NOT EXISTS address_type VARCHAR NOT NULL DEFAULT 'system',
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE tree_email_addresses
+  ADD CONSTRAINT tree_email_addresses_type_check
+  CHECK (address_type IN ('system', 'alias'));
+
+-- Addresses are matched exactly, so they must be stored lowercase
+UPDATE tree_email_addresses SET email_address = LOWER(email_address)
+WHERE email_address <> LOWER(email_address);
+
+ALTER TABLE tree_email_addresses
+  ADD CONSTRAINT tree_email_addresses_lowercase_check
+  CHECK (email_address = LOWER(email_address));
+
+-- email_address stays globally UNIQUE, including deactivated rows, so a retired
+-- alias can never be claimed by another tree and receive mail meant for the old one
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+-- Managers can deactivate and reactivate addresses for their trees
+DROP POLICY IF EXISTS "tree_email_addresses_update" ON tree_email_addresses;
+CREATE POLICY "tree_email_addresses_update" ON tree_email_addresses
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = tree_email_addresses.tree_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "tree_email_addresses_update" ON tree_email_addresses;
+ALTER TABLE tree_email_addresses DROP CONSTRAINT IF EXISTS tree_email_addresses_lowercase_check;
+ALTER TABLE tree_email_addresses DROP CONSTRAINT IF EXISTS tree_email_addresses_type_check;
+DELETE FROM tree_email_addresses WHERE address_type = 'alias';
+ALTER TABLE tree_email_addresses
+  DROP COLUMN IF EXISTS address_type,
+  DROP COLUMN IF EXISTS deactivated_at,
+  DROP COLUMN IF EXISTS updated_at;
+*/
+
+-- Migration completed successfully
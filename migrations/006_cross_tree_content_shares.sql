@@ -0,0 +1,63 @@
+-- Migration: Cross-Tree Content Shares
+-- Description: Record that one leaf belongs to several person trees, so an email
+-- sent to two siblings creates a single leaf (and stores its media once) that
+-- appears in both trees
+
+-- ============================================================================
+-- STEP 1: Create cross_tree_content_shares
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS cross_tree_content_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaf_id UUID NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  primary_tree_id UUID NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+  shared_tree_ids UUID[] NOT NULL DEFAULT '{}',
+  sharing_reason VARCHAR NOT NULL DEFAULT 'manual',
+  shared_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  shared_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE cross_tree_content_shares
+  ADD CONSTRAINT cross_tree_content_shares_reason_check
+  CHECK (sharing_reason IN ('manual', 'auto_detected', 'relationship_based'));
+
+CREATE INDEX IF NOT EXISTS idx_cross_tree_content_shares_primary_tree
+  ON cross_tree_content_shares (primary_tree_id);
+-- Tree feeds look up leaves shared into them with shared_tree_ids @> ARRAY[tree_id]
+CREATE INDEX IF NOT EXISTS idx_cross_tree_content_shares_shared_trees
+  ON cross_tree_content_shares USING GIN (shared_tree_ids);
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+ALTER TABLE cross_tree_content_shares ENABLE ROW LEVEL SECURITY;
+
+-- Members and managers of any tree involved can see the share; inserts come from the service role
+CREATE POLICY "Tree members can view content shares" ON cross_tree_content_shares
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tree_members tm
+      WHERE (tm.tree_id = cross_tree_content_shares.primary_tree_id
+          OR tm.tree_id = ANY(cross_tree_content_shares.shared_tree_ids))
+        AND tm.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE (t.id = cross_tree_content_shares.primary_tree_id
+          OR t.id = ANY(cross_tree_content_shares.shared_tree_ids))
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Tree members can view content shares" ON cross_tree_content_shares;
+DROP TABLE IF EXISTS cross_tree_content_shares;
+*/
+
+-- Migration completed successfully
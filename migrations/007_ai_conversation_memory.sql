@@ -0,0 +1,67 @@
+-- Migration: AI Conversation Memory
+-- Description: Keep Sage's conversation history per user and branch, next to
+-- user_conversation_states, so it survives server restarts. Older turns are
+-- condensed into one summary row per user and branch
+
+-- ============================================================================
+-- STEP 1: Create ai_conversation_messages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  role VARCHAR NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ai_conversation_messages
+  ADD CONSTRAINT ai_conversation_messages_role_check
+  CHECK (role IN ('user', 'assistant'));
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversation_messages_user_branch
+  ON ai_conversation_messages (user_id, branch_id, created_at);
+
+-- ============================================================================
+-- STEP 2: Create ai_conversation_summaries
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_conversation_summaries (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  summarized_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, branch_id)
+);
+
+-- ============================================================================
+-- STEP 3: Row Level Security
+-- ============================================================================
+
+ALTER TABLE ai_conversation_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_conversation_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Conversation history is private to the user it belongs to
+CREATE POLICY "Users manage their own AI conversation messages" ON ai_conversation_messages
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage their own AI conversation summaries" ON ai_conversation_summaries
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Users manage their own AI conversation summaries" ON ai_conversation_summaries;
+DROP POLICY IF EXISTS "Users manage their own AI conversation messages" ON ai_conversation_messages;
+DROP TABLE IF EXISTS ai_conversation_summaries;
+DROP TABLE IF EXISTS ai_conversation_messages;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,113 @@
+-- Migration: AI Enhancement Queue
+-- Description: Background queue for AI captions and tags on leaves created by
+-- email or import, with a result cache keyed by content hash and daily token
+-- usage per user and per tree for budgets
+
+-- ============================================================================
+-- STEP 1: Create ai_enhancement_jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_enhancement_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaf_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  job_type VARCHAR NOT NULL,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tree_id UUID REFERENCES trees(id) ON DELETE SET NULL,
+  request JSONB NOT NULL,
+  content_hash VARCHAR NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_error TEXT,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (leaf_id, job_type)
+);
+
+ALTER TABLE ai_enhancement_jobs
+  ADD CONSTRAINT ai_enhancement_jobs_type_check
+  CHECK (job_type IN ('ai_caption', 'ai_tags'));
+
+ALTER TABLE ai_enhancement_jobs
+  ADD CONSTRAINT ai_enhancement_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_ai_enhancement_jobs_due
+  ON ai_enhancement_jobs (status, next_attempt_at);
+
+-- ============================================================================
+-- STEP 2: Create ai_enhancement_cache
+-- ============================================================================
+
+-- One validated enhancement per distinct leaf content and media
+CREATE TABLE IF NOT EXISTS ai_enhancement_cache (
+  content_hash VARCHAR PRIMARY KEY,
+  result JSONB NOT NULL,
+  provider VARCHAR,
+  model VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- STEP 3: Create ai_token_usage
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_token_usage (
+  usage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  scope VARCHAR NOT NULL,
+  scope_id UUID NOT NULL,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (usage_date, scope, scope_id)
+);
+
+ALTER TABLE ai_token_usage
+  ADD CONSTRAINT ai_token_usage_scope_check
+  CHECK (scope IN ('user', 'tree'));
+
+-- Add tokens to today's user and tree totals in one statement, so
+-- concurrent workers never overwrite each other's counts
+CREATE OR REPLACE FUNCTION record_ai_token_usage(p_user_id UUID, p_tree_id UUID, p_tokens INTEGER)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+AS $$
+  INSERT INTO ai_token_usage (usage_date, scope, scope_id, tokens)
+  SELECT (NOW() AT TIME ZONE 'UTC')::DATE, usage.scope, usage.scope_id, p_tokens
+  FROM (VALUES ('user', p_user_id), ('tree', p_tree_id)) AS usage(scope, scope_id)
+  WHERE usage.scope_id IS NOT NULL
+  ON CONFLICT (usage_date, scope, scope_id)
+  DO UPDATE SET tokens = ai_token_usage.tokens + EXCLUDED.tokens, updated_at = NOW();
+$$;
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE ai_enhancement_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_enhancement_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_token_usage ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are queued and processed by the service role; authors can follow their own
+CREATE POLICY "Users can view their own enhancement jobs" ON ai_enhancement_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own token usage" ON ai_token_usage
+  FOR SELECT USING (scope = 'user' AND auth.uid() = scope_id);
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Users can view their own token usage" ON ai_token_usage;
+DROP POLICY IF EXISTS "Users can view their own enhancement jobs" ON ai_enhancement_jobs;
+DROP FUNCTION IF EXISTS record_ai_token_usage(UUID, UUID, INTEGER);
+DROP TABLE IF EXISTS ai_token_usage;
+DROP TABLE IF EXISTS ai_enhancement_cache;
+DROP TABLE IF EXISTS ai_enhancement_jobs;
+*/
+
+-- Migration completed successfully
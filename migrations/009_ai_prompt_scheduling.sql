@@ -0,0 +1,71 @@
+-- Migration: AI Prompt Scheduling
+-- Description: Proactive prompt frequency preference and a delivery log, so
+-- the prompt scheduler can send at most one prompt per user at a time, in
+-- the user's own timezone, and record what happened to each one
+
+-- ============================================================================
+-- STEP 1: Add prompt_frequency to user_notification_preferences
+-- ============================================================================
+
+ALTER TABLE user_notification_preferences
+  ADD COLUMN IF NOT EXISTS prompt_frequency VARCHAR(20) NOT NULL DEFAULT 'every_few_days';
+
+ALTER TABLE user_notification_preferences
+  ADD CONSTRAINT user_notification_preferences_prompt_frequency_check
+  CHECK (prompt_frequency IN ('daily', 'every_few_days', 'weekly', 'never'));
+
+-- ============================================================================
+-- STEP 2: Create ai_prompt_deliveries
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_prompt_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  status VARCHAR NOT NULL DEFAULT 'scheduled',
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  timezone VARCHAR(50) NOT NULL DEFAULT 'UTC',
+  prompt_id UUID, -- ai_system_messages row created when sent
+  outcome_reason TEXT,
+  attempted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ai_prompt_deliveries
+  ADD CONSTRAINT ai_prompt_deliveries_status_check
+  CHECK (status IN ('scheduled', 'sent', 'skipped', 'failed'));
+
+-- One scheduled prompt per user, whichever branch it is for
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_prompt_deliveries_one_scheduled
+  ON ai_prompt_deliveries (user_id)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_deliveries_due
+  ON ai_prompt_deliveries (status, scheduled_for);
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_deliveries_user
+  ON ai_prompt_deliveries (user_id, created_at DESC);
+
+-- ============================================================================
+-- STEP 3: Row Level Security
+-- ============================================================================
+
+ALTER TABLE ai_prompt_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the service role; users can see their own
+CREATE POLICY "Users can view their own prompt deliveries" ON ai_prompt_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Users can view their own prompt deliveries" ON ai_prompt_deliveries;
+DROP TABLE IF EXISTS ai_prompt_deliveries;
+ALTER TABLE user_notification_preferences DROP CONSTRAINT IF EXISTS user_notification_preferences_prompt_frequency_check;
+ALTER TABLE user_notification_preferences DROP COLUMN IF EXISTS prompt_frequency;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,261 @@
+-- Migration: Prompt Template Library
+-- Description: Store Sage's prompt templates in the database, so families can
+-- write their own, turn built-in templates on or off per branch and share
+-- templates with other person trees
+
+-- ============================================================================
+-- STEP 1: Create prompt_templates
+-- ============================================================================
+
+-- Built-in templates have no tree_id and keep their template_key from
+-- src/lib/ai/promptTemplates.ts; family templates belong to one tree
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key VARCHAR UNIQUE,
+  tree_id UUID REFERENCES trees(id) ON DELETE CASCADE,
+  shared_tree_ids UUID[] NOT NULL DEFAULT '{}',
+  type VARCHAR NOT NULL,
+  category VARCHAR NOT NULL,
+  title VARCHAR(100) NOT NULL,
+  prompt TEXT NOT NULL,
+  follow_up_questions TEXT[] NOT NULL DEFAULT '{}',
+  suggested_responses TEXT[] NOT NULL DEFAULT '{}',
+  triggers JSONB NOT NULL DEFAULT '{}',
+  personalization JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE prompt_templates
+  ADD CONSTRAINT prompt_templates_type_check
+  CHECK (type IN ('checkin', 'milestone', 'memory', 'followup', 'celebration'));
+
+ALTER TABLE prompt_templates
+  ADD CONSTRAINT prompt_templates_category_check
+  CHECK (category IN ('daily', 'weekly', 'special', 'milestone', 'seasonal'));
+
+ALTER TABLE prompt_templates
+  ADD CONSTRAINT prompt_templates_owner_check
+  CHECK (tree_id IS NOT NULL OR template_key IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_tree
+  ON prompt_templates (tree_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_shared_trees
+  ON prompt_templates USING GIN (shared_tree_ids);
+
+-- ============================================================================
+-- STEP 2: Create branch_prompt_template_settings
+-- ============================================================================
+
+-- Templates are on in every branch that can see them unless a row turns them off
+CREATE TABLE IF NOT EXISTS branch_prompt_template_settings (
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (branch_id, template_id)
+);
+
+-- ============================================================================
+-- STEP 3: Seed built-in templates
+-- ============================================================================
+
+INSERT INTO prompt_templates (
+  template_key, type, category, title, prompt,
+  follow_up_questions, suggested_responses, triggers, personalization
+) VALUES
+  ('morning-checkin',
+   'checkin',
+   'daily',
+   'Morning Check-in',
+   'Good morning! I hope everyone''s having a great start to their day. What''s on the agenda for {branchName} today?',
+   ARRAY['That sounds exciting! How is everyone feeling about it?', 'Are there any special preparations you''re doing?', 'What are you most looking forward to?']::TEXT[],
+   ARRAY['Pretty typical morning', 'We have something special planned', 'Just the usual routine', 'Everyone''s excited today!']::TEXT[],
+   '{"timeOfDay":["morning"]}'::JSONB,
+   '{}'::JSONB),
+  ('evening-reflection',
+   'checkin',
+   'daily',
+   'Evening Reflection',
+   'How did the day go for {branchName}? I''d love to hear about the highlights - or even the challenging moments that made you stronger!',
+   ARRAY['That sounds like it was really meaningful. How did it make you feel?', 'What was the best part about that experience?', 'Were there any surprises during the day?']::TEXT[],
+   ARRAY['It was a great day!', 'Had some ups and downs', 'Busy but good', 'Something special happened']::TEXT[],
+   '{"timeOfDay":["evening"]}'::JSONB,
+   '{}'::JSONB),
+  ('first-steps-celebration',
+   'celebration',
+   'milestone',
+   'First Steps Milestone',
+   'OH MY GOODNESS! First steps are such an incredible milestone! I''m so excited for your family. Tell me everything - where did it happen? Who saw it? How did everyone react?',
+   ARRAY['How many steps did they take?', 'What was their expression like?', 'Did they seem surprised by their own achievement?', 'How are the parents feeling about this big moment?']::TEXT[],
+   ARRAY['It was amazing to watch!', 'We got it on video!', 'Everyone was so proud', 'They looked so determined']::TEXT[],
+   '{"milestones":["first_steps"],"keywords":["steps","walking","walked"]}'::JSONB,
+   '{}'::JSONB),
+  ('first-word-celebration',
+   'celebration',
+   'milestone',
+   'First Word Milestone',
+   'What a special moment! A first word is such a precious milestone. What did they say? Was it what you expected? I bet everyone''s hearts just melted!',
+   ARRAY['Have they said it again since then?', 'Who were they looking at when they said it?', 'Are they trying to say other words now too?', 'How long have you been waiting for this moment?']::TEXT[],
+   ARRAY['It was "mama" or "dada"', 'So unexpected!', 'We''ve been practicing', 'Everyone got emotional']::TEXT[],
+   '{"milestones":["first_word"],"keywords":["word","said","talking","spoke"]}'::JSONB,
+   '{}'::JSONB),
+  ('weekend-memories',
+   'memory',
+   'weekly',
+   'Weekend Memories',
+   'Sunday evening is perfect for reflecting! What was the most memorable part of your weekend with {branchName}? I love hearing about these family moments!',
+   ARRAY['That sounds wonderful! What made it so special?', 'Did everyone enjoy it equally?', 'Are you planning to do something similar again?']::TEXT[],
+   ARRAY['We had family time', 'Tried something new', 'Just relaxed together', 'Made some memories']::TEXT[],
+   '{"dayOfWeek":["Sunday"]}'::JSONB,
+   '{}'::JSONB),
+  ('photo-memory-prompt',
+   'memory',
+   'special',
+   'Photo Memory Sharing',
+   'I notice you don''t share photos very often, but when you do, they''re always so special! Do you have any recent pictures that capture a sweet family moment?',
+   ARRAY['What''s the story behind this photo?', 'Who took the picture?', 'What was happening just before or after this moment?']::TEXT[],
+   ARRAY['I have a few good ones', 'Let me find something', 'Here''s from last week', 'This one''s my favorite']::TEXT[],
+   '{}'::JSONB,
+   '{}'::JSONB),
+  ('season-activities',
+   'checkin',
+   'seasonal',
+   'Seasonal Activities',
+   'I love how each season brings new opportunities for family fun! What {season} activities have you been enjoying with {branchName} lately?',
+   ARRAY['That sounds like so much fun! Is this a new tradition for your family?', 'What did everyone enjoy most about it?', 'Are you planning any other seasonal activities?']::TEXT[],
+   ARRAY['We love this season!', 'Trying new activities', 'Same favorites as always', 'Making new traditions']::TEXT[],
+   '{}'::JSONB,
+   '{}'::JSONB),
+  ('growth-followup',
+   'followup',
+   'special',
+   'Growth and Development',
+   'I''ve noticed you mentioned some new developments with the little one recently. How are they doing with {previousTopic}? It''s amazing how quickly they grow and change!',
+   ARRAY['Have you noticed any other new skills emerging?', 'How are they handling this new phase?', 'What has surprised you most about their development?']::TEXT[],
+   ARRAY['They''re doing great!', 'Still working on it', 'Lots of new things', 'Growing so fast']::TEXT[],
+   '{}'::JSONB,
+   '{}'::JSONB),
+  ('birthday-celebration',
+   'celebration',
+   'special',
+   'Birthday Celebration',
+   'HAPPY BIRTHDAY! Birthdays are such special family occasions. How are you celebrating? I''d love to hear about all the birthday magic happening in {branchName}!',
+   ARRAY['What was their favorite part of the celebration?', 'Did you do anything special or traditional?', 'How did they react to their gifts?', 'Any funny or sweet birthday moments?']::TEXT[],
+   ARRAY['It was perfect!', 'They loved everything', 'Small but sweet celebration', 'Made wonderful memories']::TEXT[],
+   '{"keywords":["birthday","born","cake","party"],"milestones":["birthday"]}'::JSONB,
+   '{}'::JSONB),
+  ('tough-day-support',
+   'checkin',
+   'special',
+   'Supportive Check-in',
+   'Some days are tougher than others, and that''s completely normal in family life. How is everyone holding up? Remember, even the challenging days can become meaningful memories.',
+   ARRAY['What helped you get through the tough moments?', 'Is there anything that brought a smile despite the challenges?', 'How can I help you capture the resilience your family shows?']::TEXT[],
+   ARRAY['We got through it together', 'Found some bright spots', 'Taking it one moment at a time', 'Tomorrow will be better']::TEXT[],
+   '{}'::JSONB,
+   '{}'::JSONB),
+  ('mealtime-memories',
+   'memory',
+   'daily',
+   'Mealtime Moments',
+   'Family meals often create the sweetest memories! Have you had any fun, funny, or heartwarming mealtime moments with {branchName} recently?',
+   ARRAY['What made this mealtime special?', 'Did anyone try something new?', 'Are there any favorite family meal traditions?']::TEXT[],
+   ARRAY['Trying new foods', 'Funny conversation', 'Cooked together', 'Family favorite meal']::TEXT[],
+   '{"keywords":["eat","food","dinner","lunch","cooking","meal"]}'::JSONB,
+   '{}'::JSONB),
+  ('bedtime-routine',
+   'memory',
+   'daily',
+   'Bedtime Stories',
+   'Bedtime routines can be so precious - all those quiet, cozy moments together. How have bedtimes been going with {branchName}? Any sweet bedtime stories or routines to share?',
+   ARRAY['Do you have favorite bedtime books or songs?', 'What helps everyone wind down best?', 'Any cute things they say before sleep?']::TEXT[],
+   ARRAY['Love our bedtime routine', 'Reading together', 'Sometimes challenging', 'Sweet sleepy moments']::TEXT[],
+   '{"keywords":["sleep","bedtime","nap","story","book"]}'::JSONB,
+   '{}'::JSONB)
+ON CONFLICT (template_key) DO NOTHING;
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE branch_prompt_template_settings ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read built-ins; a family template is visible in its own tree
+-- and in every tree it is shared with
+CREATE POLICY "Users can view available prompt templates" ON prompt_templates
+  FOR SELECT USING (
+    tree_id IS NULL
+    OR
+    EXISTS (
+      SELECT 1 FROM tree_members tm
+      WHERE (tm.tree_id = prompt_templates.tree_id
+          OR tm.tree_id = ANY(prompt_templates.shared_tree_ids))
+        AND tm.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE (t.id = prompt_templates.tree_id
+          OR t.id = ANY(prompt_templates.shared_tree_ids))
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+CREATE POLICY "Tree managers can manage their prompt templates" ON prompt_templates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = prompt_templates.tree_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = prompt_templates.tree_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+CREATE POLICY "Branch members can view prompt template settings" ON branch_prompt_template_settings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM branch_members bm
+      WHERE bm.branch_id = branch_prompt_template_settings.branch_id
+        AND bm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Tree managers can manage prompt template settings" ON branch_prompt_template_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM branches b
+      JOIN trees t ON t.id = b.tree_id
+      WHERE b.id = branch_prompt_template_settings.branch_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM branches b
+      JOIN trees t ON t.id = b.tree_id
+      WHERE b.id = branch_prompt_template_settings.branch_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Tree managers can manage prompt template settings" ON branch_prompt_template_settings;
+DROP POLICY IF EXISTS "Branch members can view prompt template settings" ON branch_prompt_template_settings;
+DROP POLICY IF EXISTS "Tree managers can manage their prompt templates" ON prompt_templates;
+DROP POLICY IF EXISTS "Users can view available prompt templates" ON prompt_templates;
+DROP TABLE IF EXISTS branch_prompt_template_settings;
+DROP TABLE IF EXISTS prompt_templates;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,95 @@
+-- Migration: AI Response Analysis
+-- Description: Store the sentiment, topics, people and places found in prompt
+-- responses and new leaves, so search and personalized prompting can use them.
+-- Rows for leaves point at the leaf; prompt responses have no leaf
+
+-- ============================================================================
+-- STEP 1: Create ai_response_analysis
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_response_analysis (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  branch_id UUID REFERENCES branches(id) ON DELETE CASCADE, -- null for unassigned leaves
+  response_text TEXT NOT NULL,
+  categories JSONB NOT NULL DEFAULT '[]',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  sentiment VARCHAR NOT NULL DEFAULT 'neutral',
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  urgency VARCHAR NOT NULL DEFAULT 'low',
+  milestone VARCHAR,
+  people TEXT[] NOT NULL DEFAULT '{}',
+  locations TEXT[] NOT NULL DEFAULT '{}',
+  time_references TEXT[] NOT NULL DEFAULT '{}',
+  confidence_score NUMERIC NOT NULL DEFAULT 0.5,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Earlier installs created the table without these
+ALTER TABLE ai_response_analysis
+  ADD COLUMN IF NOT EXISTS leaf_id UUID UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS analyzer VARCHAR NOT NULL DEFAULT 'keyword',
+  ALTER COLUMN branch_id DROP NOT NULL;
+
+ALTER TABLE ai_response_analysis
+  ADD CONSTRAINT ai_response_analysis_sentiment_check
+  CHECK (sentiment IN ('positive', 'neutral', 'negative'));
+
+ALTER TABLE ai_response_analysis
+  ADD CONSTRAINT ai_response_analysis_urgency_check
+  CHECK (urgency IN ('low', 'medium', 'high'));
+
+ALTER TABLE ai_response_analysis
+  ADD CONSTRAINT ai_response_analysis_analyzer_check
+  CHECK (analyzer IN ('keyword', 'model'));
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_analysis_user_branch
+  ON ai_response_analysis (user_id, branch_id, created_at DESC);
+
+-- Leaf search matches topics, people, places and tags
+CREATE INDEX IF NOT EXISTS idx_ai_response_analysis_topics
+  ON ai_response_analysis USING GIN (topics);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_analysis_people
+  ON ai_response_analysis USING GIN (people);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_analysis_locations
+  ON ai_response_analysis USING GIN (locations);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_analysis_tags
+  ON ai_response_analysis USING GIN (tags);
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+ALTER TABLE ai_response_analysis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own response analysis" ON ai_response_analysis
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Branch members search each other's leaves
+CREATE POLICY "Branch members can view leaf analysis" ON ai_response_analysis
+  FOR SELECT USING (
+    leaf_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM posts p
+      JOIN branch_members bm ON bm.branch_id = p.branch_id
+      WHERE p.id = ai_response_analysis.leaf_id
+        AND bm.user_id = auth.uid()
+        AND bm.status = 'active'
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Branch members can view leaf analysis" ON ai_response_analysis;
+DROP POLICY IF EXISTS "Users manage their own response analysis" ON ai_response_analysis;
+DROP TABLE IF EXISTS ai_response_analysis;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,88 @@
+-- Migration: Person Recaps
+-- Description: Monthly and yearly recap stories per person tree. A recap is
+-- written as a draft that tree managers can edit; publishing it adds a
+-- system leaf to one of the tree's branches and includes it in email digests
+
+-- ============================================================================
+-- STEP 1: Create person_recaps
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS person_recaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tree_id UUID NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+  period_type VARCHAR NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL, -- exclusive
+  status VARCHAR NOT NULL DEFAULT 'draft',
+  title TEXT NOT NULL,
+  narrative TEXT NOT NULL,
+  highlights JSONB NOT NULL DEFAULT '{}', -- leaf counts, milestones and top photos the story was built from
+  ai_metadata JSONB NOT NULL DEFAULT '{}',
+  leaf_id UUID REFERENCES posts(id) ON DELETE SET NULL, -- set once published
+  published_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tree_id, period_type, period_start)
+);
+
+ALTER TABLE person_recaps
+  ADD CONSTRAINT person_recaps_period_type_check
+  CHECK (period_type IN ('monthly', 'yearly'));
+
+ALTER TABLE person_recaps
+  ADD CONSTRAINT person_recaps_status_check
+  CHECK (status IN ('draft', 'published'));
+
+ALTER TABLE person_recaps
+  ADD CONSTRAINT person_recaps_period_check
+  CHECK (period_end > period_start);
+
+-- Digests look up recaps published in their period
+CREATE INDEX IF NOT EXISTS idx_person_recaps_published
+  ON person_recaps (published_at)
+  WHERE status = 'published';
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+ALTER TABLE person_recaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tree members can view published recaps" ON person_recaps
+  FOR SELECT USING (
+    status = 'published'
+    AND EXISTS (
+      SELECT 1 FROM tree_members tm
+      WHERE tm.tree_id = person_recaps.tree_id
+        AND tm.user_id = auth.uid()
+    )
+  );
+
+-- Drafts are only visible to the people who can edit and publish them
+CREATE POLICY "Tree managers can manage recaps" ON person_recaps
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = person_recaps.tree_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = person_recaps.tree_id
+        AND auth.uid() = ANY(t.managed_by)
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Tree managers can manage recaps" ON person_recaps;
+DROP POLICY IF EXISTS "Tree members can view published recaps" ON person_recaps;
+DROP TABLE IF EXISTS person_recaps;
+*/
+
+-- Migration completed successfully
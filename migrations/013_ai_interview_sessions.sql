@@ -0,0 +1,55 @@
+-- Migration: AI Interview Sessions
+-- Description: Guided interviews where Sage asks a few follow-up questions
+-- about a photo or event, then writes the answers up as a leaf draft for the
+-- user to approve in the leaf creator
+
+-- ============================================================================
+-- STEP 1: Create ai_interview_sessions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_interview_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tree_id UUID REFERENCES trees(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL, -- what the photo or event is, in the user's words
+  media_count INTEGER NOT NULL DEFAULT 0,
+  question_count INTEGER NOT NULL DEFAULT 4, -- questions to ask before drafting
+  turns JSONB NOT NULL DEFAULT '[]', -- [{ question, answer }], the last answer null while waiting
+  status VARCHAR NOT NULL DEFAULT 'active',
+  draft JSONB, -- set once drafted
+  ai_metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ai_interview_sessions
+  ADD CONSTRAINT ai_interview_sessions_status_check
+  CHECK (status IN ('active', 'drafted'));
+
+ALTER TABLE ai_interview_sessions
+  ADD CONSTRAINT ai_interview_sessions_question_count_check
+  CHECK (question_count BETWEEN 3 AND 5);
+
+CREATE INDEX IF NOT EXISTS idx_ai_interview_sessions_user
+  ON ai_interview_sessions (user_id, created_at DESC);
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+ALTER TABLE ai_interview_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own interview sessions" ON ai_interview_sessions
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Users can manage their own interview sessions" ON ai_interview_sessions;
+DROP TABLE IF EXISTS ai_interview_sessions;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,85 @@
+-- Migration: Expiring Role Grants
+-- Description: Role grants that end on their own, e.g. a babysitter who can
+-- view a branch for one weekend or a guest admin for 30 days. Expired grants
+-- stop counting as soon as they lapse; a cron job warns the grantee and the
+-- granter beforehand and later deletes the expired rows. The application
+-- types already declared user_roles.expires_at, but not every database has
+-- the column, so it is added where missing.
+
+-- ============================================================================
+-- STEP 1: Track expiry on user_roles
+-- ============================================================================
+
+ALTER TABLE user_roles
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE; -- NULL never expires
+
+ALTER TABLE user_roles
+  ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMP WITH TIME ZONE; -- when the expiry warning went out
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_expires_at
+  ON user_roles (expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- ============================================================================
+-- STEP 2: Ignore expired grants in permission checks
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION user_has_permission(
+  check_user_id UUID,
+  context_type TEXT,
+  context_id UUID,
+  permission_name TEXT
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = check_user_id
+      AND ur.context_type = user_has_permission.context_type
+      AND ur.context_id IS NOT DISTINCT FROM user_has_permission.context_id
+      AND (ur.expires_at IS NULL OR ur.expires_at > NOW())
+      AND p.name = permission_name
+  );
+$$;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+-- Count every grant again, whatever its expiry
+CREATE OR REPLACE FUNCTION user_has_permission(
+  check_user_id UUID,
+  context_type TEXT,
+  context_id UUID,
+  permission_name TEXT
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = check_user_id
+      AND ur.context_type = user_has_permission.context_type
+      AND ur.context_id IS NOT DISTINCT FROM user_has_permission.context_id
+      AND p.name = permission_name
+  );
+$$;
+
+DROP INDEX IF EXISTS idx_user_roles_expires_at;
+ALTER TABLE user_roles DROP COLUMN IF EXISTS expiry_notified_at;
+-- Only drop expires_at if this migration added it; databases that already
+-- had the column may hold expiry dates set before it ran
+-- ALTER TABLE user_roles DROP COLUMN IF EXISTS expires_at;
+*/
+
+-- Migration completed successfully
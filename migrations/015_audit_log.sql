@@ -0,0 +1,193 @@
+-- Migration: Audit Log
+-- Description: Append-only trail of role, membership, invitation and sharing
+-- changes. Triggers record who changed what, with the row before and after,
+-- so changes made from the browser client are covered as well as API routes.
+
+-- ============================================================================
+-- STEP 1: Create audit_log
+-- ============================================================================
+
+-- No foreign keys: entries must outlive the trees, branches and rows they describe
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tree_id UUID,
+  branch_id UUID,
+  actor_id UUID, -- NULL when the service role made the change, e.g. the role expiry cron
+  action VARCHAR NOT NULL,
+  target_table VARCHAR NOT NULL,
+  target_id UUID,
+  target_user_id UUID, -- the member the change is about, when there is one
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE audit_log
+  ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('insert', 'update', 'delete'));
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_tree
+  ON audit_log (tree_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_branch
+  ON audit_log (branch_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+  ON audit_log (actor_id, created_at DESC);
+
+-- ============================================================================
+-- STEP 2: Keep it append-only
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- ============================================================================
+-- STEP 3: Record changes
+-- ============================================================================
+
+-- Trigger arguments, when given, limit before/after to those columns
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  entry_row JSONB := COALESCE(new_row, old_row);
+  entry_tree_id UUID;
+  entry_branch_id UUID;
+  audited_column TEXT;
+  before_value JSONB;
+  after_value JSONB;
+BEGIN
+  IF TG_NARGS > 0 THEN
+    before_value := CASE WHEN old_row IS NOT NULL THEN '{}'::JSONB END;
+    after_value := CASE WHEN new_row IS NOT NULL THEN '{}'::JSONB END;
+    FOREACH audited_column IN ARRAY TG_ARGV LOOP
+      before_value := before_value || jsonb_build_object(audited_column, old_row -> audited_column);
+      after_value := after_value || jsonb_build_object(audited_column, new_row -> audited_column);
+    END LOOP;
+  ELSE
+    before_value := old_row;
+    after_value := new_row;
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'trees' THEN
+      entry_tree_id := (entry_row ->> 'id')::UUID;
+    WHEN 'branches' THEN
+      entry_branch_id := (entry_row ->> 'id')::UUID;
+      entry_tree_id := (entry_row ->> 'tree_id')::UUID;
+    WHEN 'user_roles' THEN
+      IF entry_row ->> 'context_type' = 'tree' THEN
+        entry_tree_id := (entry_row ->> 'context_id')::UUID;
+      ELSIF entry_row ->> 'context_type' = 'branch' THEN
+        entry_branch_id := (entry_row ->> 'context_id')::UUID;
+      END IF;
+    WHEN 'cross_tree_content_shares' THEN
+      entry_tree_id := (entry_row ->> 'primary_tree_id')::UUID;
+    ELSE
+      entry_tree_id := (entry_row ->> 'tree_id')::UUID;
+      entry_branch_id := (entry_row ->> 'branch_id')::UUID;
+  END CASE;
+
+  -- Branch entries also show up in their tree's log
+  IF entry_branch_id IS NOT NULL AND entry_tree_id IS NULL THEN
+    SELECT tree_id INTO entry_tree_id FROM branches WHERE id = entry_branch_id;
+  END IF;
+
+  INSERT INTO audit_log (
+    tree_id, branch_id, actor_id, action, target_table, target_id, target_user_id, before, after
+  ) VALUES (
+    entry_tree_id,
+    entry_branch_id,
+    auth.uid(),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    (entry_row ->> 'id')::UUID,
+    (entry_row ->> 'user_id')::UUID,
+    before_value,
+    after_value
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON user_roles
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_tree_members
+  AFTER INSERT OR UPDATE OR DELETE ON tree_members
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_branch_members
+  AFTER INSERT OR UPDATE OR DELETE ON branch_members
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_invitations
+  AFTER INSERT OR UPDATE OR DELETE ON invitations
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_branch_invitations
+  AFTER INSERT OR UPDATE OR DELETE ON branch_invitations
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_cross_tree_access
+  AFTER INSERT OR UPDATE OR DELETE ON cross_tree_access
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_cross_tree_content_shares
+  AFTER INSERT OR UPDATE OR DELETE ON cross_tree_content_shares
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER audit_branch_privacy
+  AFTER UPDATE OF privacy ON branches
+  FOR EACH ROW
+  WHEN (OLD.privacy IS DISTINCT FROM NEW.privacy)
+  EXECUTE FUNCTION record_audit_entry('privacy');
+
+CREATE TRIGGER audit_tree_managers
+  AFTER UPDATE OF managed_by ON trees
+  FOR EACH ROW
+  WHEN (OLD.managed_by IS DISTINCT FROM NEW.managed_by)
+  EXECUTE FUNCTION record_audit_entry('managed_by');
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+-- No user policies: the audit log API routes check tree and branch
+-- permissions, then read with the service role
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP TRIGGER IF EXISTS audit_tree_managers ON trees;
+DROP TRIGGER IF EXISTS audit_branch_privacy ON branches;
+DROP TRIGGER IF EXISTS audit_cross_tree_content_shares ON cross_tree_content_shares;
+DROP TRIGGER IF EXISTS audit_cross_tree_access ON cross_tree_access;
+DROP TRIGGER IF EXISTS audit_branch_invitations ON branch_invitations;
+DROP TRIGGER IF EXISTS audit_invitations ON invitations;
+DROP TRIGGER IF EXISTS audit_branch_members ON branch_members;
+DROP TRIGGER IF EXISTS audit_tree_members ON tree_members;
+DROP TRIGGER IF EXISTS audit_user_roles ON user_roles;
+DROP FUNCTION IF EXISTS record_audit_entry();
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+DROP FUNCTION IF EXISTS prevent_audit_log_changes();
+DROP TABLE IF EXISTS audit_log;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,170 @@
+-- Migration: Custom Tree Roles
+-- Description: Tree owners can define their own roles, e.g. "Photo
+-- contributor" who can create posts but not comment, by picking permissions
+-- from the resource × action matrix. Custom roles belong to one tree and can
+-- only be granted in that tree or its branches; the five system roles stay
+-- global.
+
+-- ============================================================================
+-- STEP 1: Scope roles to a tree
+-- ============================================================================
+
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS tree_id UUID REFERENCES trees(id) ON DELETE CASCADE; -- NULL for system roles
+
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Role names only need to be unique within a tree
+ALTER TABLE roles DROP CONSTRAINT IF EXISTS roles_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_system_name
+  ON roles (name)
+  WHERE tree_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_tree_name
+  ON roles (tree_id, lower(name))
+  WHERE tree_id IS NOT NULL;
+
+ALTER TABLE roles
+  ADD CONSTRAINT roles_custom_roles_have_tree
+  CHECK (is_system_role OR tree_id IS NOT NULL);
+
+-- ============================================================================
+-- STEP 2: One permission for every resource × action pair
+-- ============================================================================
+
+INSERT INTO permissions (name, resource_type, action, description)
+SELECT
+  r.resource_type || '.' || a.action,
+  r.resource_type,
+  a.action,
+  initcap(a.action) || ' ' || r.resource_type || 's'
+FROM unnest(ARRAY['branch', 'post', 'comment', 'member', 'invitation']) AS r(resource_type)
+CROSS JOIN unnest(ARRAY['create', 'read', 'update', 'delete', 'moderate', 'invite', 'admin']) AS a(action)
+WHERE NOT EXISTS (
+  SELECT 1 FROM permissions p
+  WHERE p.resource_type = r.resource_type
+    AND p.action = a.action
+);
+
+-- ============================================================================
+-- STEP 3: Keep custom roles inside their tree
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_custom_role_context()
+RETURNS TRIGGER AS $$
+DECLARE
+  role_tree_id UUID;
+BEGIN
+  SELECT tree_id INTO role_tree_id FROM roles WHERE id = NEW.role_id;
+
+  IF role_tree_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.context_type = 'tree' AND NEW.context_id = role_tree_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.context_type = 'branch' AND EXISTS (
+    SELECT 1 FROM branches WHERE id = NEW.context_id AND tree_id = role_tree_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Custom role % can only be granted in its own tree', NEW.role_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER user_roles_custom_role_context
+  BEFORE INSERT OR UPDATE OF role_id, context_type, context_id ON user_roles
+  FOR EACH ROW EXECUTE FUNCTION check_custom_role_context();
+
+-- Creating, renaming and deleting custom roles shows up in the tree's audit log
+CREATE TRIGGER audit_custom_roles
+  AFTER INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view system roles" ON roles
+  FOR SELECT USING (tree_id IS NULL AND auth.uid() IS NOT NULL);
+
+CREATE POLICY "Tree members can view the tree's custom roles" ON roles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tree_members tm
+      WHERE tm.tree_id = roles.tree_id
+        AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Tree owners can manage custom roles" ON roles
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = roles.tree_id
+        AND t.created_by = auth.uid()
+    )
+  ) WITH CHECK (
+    NOT is_system_role AND EXISTS (
+      SELECT 1 FROM trees t
+      WHERE t.id = roles.tree_id
+        AND t.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone who can see a role can see its permissions" ON role_permissions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM roles r WHERE r.id = role_permissions.role_id)
+  );
+
+CREATE POLICY "Tree owners can manage custom role permissions" ON role_permissions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM roles r
+      JOIN trees t ON t.id = r.tree_id
+      WHERE r.id = role_permissions.role_id
+        AND t.created_by = auth.uid()
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM roles r
+      JOIN trees t ON t.id = r.tree_id
+      WHERE r.id = role_permissions.role_id
+        AND t.created_by = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Tree owners can manage custom role permissions" ON role_permissions;
+DROP POLICY IF EXISTS "Anyone who can see a role can see its permissions" ON role_permissions;
+DROP POLICY IF EXISTS "Tree owners can manage custom roles" ON roles;
+DROP POLICY IF EXISTS "Tree members can view the tree's custom roles" ON roles;
+DROP POLICY IF EXISTS "Anyone signed in can view system roles" ON roles;
+ALTER TABLE role_permissions DISABLE ROW LEVEL SECURITY;
+ALTER TABLE roles DISABLE ROW LEVEL SECURITY;
+DROP TRIGGER IF EXISTS audit_custom_roles ON roles;
+DROP TRIGGER IF EXISTS user_roles_custom_role_context ON user_roles;
+DROP FUNCTION IF EXISTS check_custom_role_context();
+DELETE FROM roles WHERE tree_id IS NOT NULL;
+ALTER TABLE roles DROP CONSTRAINT IF EXISTS roles_custom_roles_have_tree;
+DROP INDEX IF EXISTS idx_roles_tree_name;
+DROP INDEX IF EXISTS idx_roles_system_name;
+ALTER TABLE roles ADD CONSTRAINT roles_name_key UNIQUE (name);
+ALTER TABLE roles DROP COLUMN IF EXISTS created_by;
+ALTER TABLE roles DROP COLUMN IF EXISTS tree_id;
+-- the seeded permissions are harmless to keep
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,35 @@
+-- Migration: One Role Per Context
+-- Description: A member holds a single role in each tree or branch. A unique
+-- index on the grant's context lets a role change be one upsert, so there is
+-- no moment without a role and the audit log shows one "changed" entry
+-- instead of a removal followed by a new grant.
+
+-- ============================================================================
+-- STEP 1: Drop duplicate grants, keeping the most recent one
+-- ============================================================================
+
+DELETE FROM user_roles ur
+USING user_roles newer
+WHERE newer.user_id = ur.user_id
+  AND newer.context_type = ur.context_type
+  AND newer.context_id IS NOT DISTINCT FROM ur.context_id
+  AND (newer.granted_at, newer.id) > (ur.granted_at, ur.id);
+
+-- ============================================================================
+-- STEP 2: One grant per user and context
+-- ============================================================================
+
+-- Global grants have no context_id, so NULLs must count as equal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_roles_one_per_context
+  ON user_roles (user_id, context_type, context_id) NULLS NOT DISTINCT;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP INDEX IF EXISTS idx_user_roles_one_per_context;
+-- the duplicate grants removed in STEP 1 are in audit_log if they're needed
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,37 @@
+-- Migration: Backfill Tree Roles
+-- Description: Tree permissions are resolved from user_roles, but members who
+-- joined before roles were granted there only have tree_members.role. Copy
+-- those roles into user_roles so existing admins keep inviting and managing
+-- members. Grants that already exist in the tree win.
+
+-- ============================================================================
+-- STEP 1: Grant each tree member their membership role
+-- ============================================================================
+
+INSERT INTO user_roles (user_id, role_id, context_type, context_id, granted_by, granted_at)
+SELECT
+  tm.user_id,
+  r.id,
+  'tree',
+  tm.tree_id,
+  NULL, -- nobody granted it; it predates role grants
+  tm.joined_at
+FROM tree_members tm
+JOIN roles r ON r.name = tm.role AND r.tree_id IS NULL
+ON CONFLICT (user_id, context_type, context_id) DO NOTHING;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DELETE FROM user_roles ur
+USING tree_members tm
+WHERE ur.user_id = tm.user_id
+  AND ur.context_type = 'tree'
+  AND ur.context_id = tm.tree_id
+  AND ur.granted_by IS NULL
+  AND ur.granted_at = tm.joined_at;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,36 @@
+-- Migration: Sender Feedback Log
+-- Description: Senders without an account are told by email when their mail
+-- is held for review. There is no notification queue entry to count for
+-- them, so each such reply is logged by address to cap how many one address
+-- can receive per hour.
+
+-- ============================================================================
+-- STEP 1: Create sender_feedback_log table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sender_feedback_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address VARCHAR NOT NULL, -- lowercase sender address
+  reason VARCHAR NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sender_feedback_log_address_created
+  ON sender_feedback_log (address, created_at);
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+-- Only the service role (webhooks) reads and writes the log
+ALTER TABLE sender_feedback_log ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DROP TABLE IF EXISTS sender_feedback_log CASCADE;
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,32 @@
+-- Migration: Leaf Analysis Jobs
+-- Description: Leaf analysis calls the model, so it runs from the AI
+-- enhancement queue instead of inside the request that created the leaf.
+-- Allow 'analysis' as a job type alongside captions and tags.
+
+-- ============================================================================
+-- STEP 1: Allow analysis jobs
+-- ============================================================================
+
+ALTER TABLE ai_enhancement_jobs
+  DROP CONSTRAINT IF EXISTS ai_enhancement_jobs_type_check;
+
+ALTER TABLE ai_enhancement_jobs
+  ADD CONSTRAINT ai_enhancement_jobs_type_check
+  CHECK (job_type IN ('ai_caption', 'ai_tags', 'analysis'));
+
+-- ============================================================================
+-- ROLLBACK PLAN (commented out, uncomment if rollback needed)
+-- ============================================================================
+
+/*
+DELETE FROM ai_enhancement_jobs WHERE job_type = 'analysis';
+
+ALTER TABLE ai_enhancement_jobs
+  DROP CONSTRAINT IF EXISTS ai_enhancement_jobs_type_check;
+
+ALTER TABLE ai_enhancement_jobs
+  ADD CONSTRAINT ai_enhancement_jobs_type_check
+  CHECK (job_type IN ('ai_caption', 'ai_tags'));
+*/
+
+-- Migration completed successfully
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type Row = Record<string, unknown>
+export type FakeTables = Record<string, Row[]>
+
+type Filter = (row: Row) => boolean
+
+// Just enough of the Supabase query builder for the server-side stores, backed by arrays
+export function createFakeSupabase(tables: FakeTables, rpc: jest.Mock = jest.fn()) {
+  let nextId = 1
+
+  const client = {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      rpc(name, args)
+      return { data: null, error: null }
+    },
+
+    from(table: string) {
+      tables[table] = tables[table] || []
+
+      const filters: Filter[] = []
+      let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+      let payload: Row[] = []
+      let conflictColumns: string[] = []
+      let ignoreDuplicates = false
+      let sort: { column: string; ascending: boolean } | null = null
+      let limit = Infinity
+
+      const matching = () => tables[table].filter(row => filters.every(filter => filter(row)))
+      const withId = (row: Row) => ({ id: `${table}-${nextId++}`, ...row })
+
+      const run = () => {
+        switch (action) {
+          case 'insert': {
+            const inserted = payload.map(withId)
+            tables[table].push(...inserted)
+            return { data: inserted, error: null }
+          }
+          case 'upsert': {
+            const written: Row[] = []
+            for (const row of payload) {
+              const existing = tables[table].find(current =>
+                conflictColumns.every(column => current[column] === row[column])
+              )
+              if (existing && !ignoreDuplicates) {
+                written.push(Object.assign(existing, row))
+              } else if (!existing) {
+                const inserted = withId(row)
+                tables[table].push(inserted)
+                written.push(inserted)
+              }
+            }
+            return { data: written, error: null }
+          }
+          case 'update': {
+            const updated = matching()
+            updated.forEach(row => Object.assign(row, payload[0]))
+            return { data: updated, error: null }
+          }
+          case 'delete': {
+            const removed = matching()
+            tables[table] = tables[table].filter(row => !removed.includes(row))
+            return { data: removed, error: null }
+          }
+          default: {
+            const selected = matching()
+            if (sort) {
+              const { column, ascending } = sort
+              selected.sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1))
+            }
+            return { data: selected.slice(0, limit), error: null }
+          }
+        }
+      }
+
+      const builder = {
+        select: () => builder,
+        insert: (rows: Row | Row[]) => {
+          action = 'insert'
+          payload = Array.isArray(rows) ? rows : [rows]
+          return builder
+        },
+        upsert: (rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) => {
+          action = 'upsert'
+          payload = Array.isArray(rows) ? rows : [rows]
+          conflictColumns = (options.onConflict || 'id').split(',')
+          ignoreDuplicates = !!options.ignoreDuplicates
+          return builder
+        },
+        update: (values: Row) => {
+          action = 'update'
+          payload = [values]
+          return builder
+        },
+        delete: () => {
+          action = 'delete'
+          return builder
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push(row => row[column] === value)
+          return builder
+        },
+        neq: (column: string, value: unknown) => {
+          filters.push(row => row[column] !== value)
+          return builder
+        },
+        gte: (column: string, value: string) => {
+          filters.push(row => String(row[column]) >= value)
+          return builder
+        },
+        lte: (column: string, value: string) => {
+          filters.push(row => String(row[column]) <= value)
+          return builder
+        },
+        gt: (column: string, value: string) => {
+          filters.push(row => String(row[column]) > value)
+          return builder
+        },
+        lt: (column: string, value: string) => {
+          filters.push(row => String(row[column]) < value)
+          return builder
+        },
+        is: (column: string, value: null) => {
+          filters.push(row => (row[column] ?? null) === value)
+          return builder
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push(row => values.includes(row[column]))
+          return builder
+        },
+        // Only the `column.is.null`, `column.eq.value`, `column.gt.value` and single-element `column.cs.{value}` forms
+        or: (conditions: string) => {
+          const alternatives: Filter[] = conditions.split(',').map(condition => {
+            const [column, operator, ...rest] = condition.split('.')
+            const value = rest.join('.')
+            if (operator === 'is') return row => row[column] === null || row[column] === undefined
+            if (operator === 'gt') return row => row[column] != null && String(row[column]) > value
+            if (operator === 'cs') return row => ((row[column] as unknown[]) || []).includes(value.slice(1, -1).replace(/^"(.*)"$/, '$1'))
+            return row => row[column] === value
+          })
+          filters.push(row => alternatives.some(filter => filter(row)))
+          return builder
+        },
+        order: (column: string, options: { ascending: boolean }) => {
+          sort = { column, ...options }
+          return builder
+        },
+        limit: (count: number) => {
+          limit = count
+          return builder
+        },
+        maybeSingle: async () => ({ data: run().data?.[0] ?? null, error: null }),
+        single: async () => {
+          const row = run().data?.[0]
+          return row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } }
+        },
+        then: (resolve: (value: ReturnType<typeof run>) => unknown) => Promise.resolve(run()).then(resolve),
+      }
+      return builder
+    },
+  }
+
+  return client as unknown as SupabaseClient
+}
@@ -0,0 +1,26 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type LookupRows = Record<string, Array<Record<string, unknown>>>
+
+// Minimal query builder for single-row lookups: it filters rows by the eq() calls it receives
+export const createLookupSupabase = (rows: LookupRows) => ({
+  from: (table: string) => {
+    const filters: Array<[string, unknown]> = []
+    const find = () => (rows[table] || []).find(row =>
+      filters.every(([column, value]) => row[column] === value)
+    ) || null
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value])
+        return builder
+      },
+      maybeSingle: async () => ({ data: find(), error: null }),
+      single: async () => {
+        const data = find()
+        return { data, error: data ? null : { message: 'not found' } }
+      },
+    }
+    return builder
+  },
+}) as unknown as SupabaseClient
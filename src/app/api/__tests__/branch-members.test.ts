@@ -0,0 +1,146 @@
+/** @jest-environment node */
+
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { RBACService } from '@/lib/rbac'
+import { getSharedPermissionCache } from '@/lib/security/redisPermissionCache'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+import { DELETE, PATCH } from '../branches/[branchId]/members/[userId]/route'
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const OWNER_ID = '11111111-1111-4111-8111-111111111111'
+const MEMBER_ID = '22222222-2222-4222-8222-222222222222'
+const ADMIN_ID = '33333333-3333-4333-8333-333333333333'
+const OTHER_ADMIN_ID = '44444444-4444-4444-8444-444444444444'
+const DELETER_ROLE_ID = '55555555-5555-4555-8555-555555555555'
+const POSTER_ROLE_ID = '66666666-6666-4666-8666-666666666666'
+
+function signInAs(userId: string, tables: FakeTables) {
+  ;(createClient as jest.Mock).mockResolvedValue({
+    ...createFakeSupabase(tables),
+    auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+  })
+}
+
+describe('DELETE /api/branches/[branchId]/members/[userId]', () => {
+  it('drops the removed member\'s permissions from the shared cache', async () => {
+    const tables: FakeTables = {
+      branches: [{ id: 'branch-1', tree_id: 'tree-1', created_by: OWNER_ID }],
+      branch_members: [{ id: 'bm-1', branch_id: 'branch-1', user_id: MEMBER_ID, role: 'member' }],
+      user_roles: [
+        { user_id: MEMBER_ID, context_type: 'branch', context_id: 'branch-1', expires_at: null, role: { name: 'member' } },
+      ],
+    }
+    const client = createFakeSupabase(tables)
+    ;(createClient as jest.Mock).mockResolvedValue({
+      ...client,
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: OWNER_ID } }, error: null }) },
+    })
+
+    // Another request handler warmed the shared cache with the member's role
+    const otherInstance = new RBACService(client, getSharedPermissionCache())
+    const context = { type: 'branch' as const, id: 'branch-1' }
+    expect(await otherInstance.getUserRole(MEMBER_ID, context)).toBe('member')
+
+    const response = await DELETE(
+      new NextRequest(`http://localhost/api/branches/branch-1/members/${MEMBER_ID}`, { method: 'DELETE' }),
+      { params: Promise.resolve({ branchId: 'branch-1', userId: MEMBER_ID }) }
+    )
+
+    expect(response.status).toBe(200)
+    expect(tables.branch_members).toHaveLength(0)
+    expect(tables.user_roles).toHaveLength(0)
+    expect(await otherInstance.getUserRole(MEMBER_ID, context)).toBe('none')
+  })
+})
+
+describe('PATCH /api/branches/[branchId]/members/[userId]', () => {
+  const admin = { name: 'admin', is_system_role: true }
+  const member = { name: 'member', is_system_role: true }
+
+  function createTables(): FakeTables {
+    const branches = { tree_id: 'tree-1' }
+    return {
+      branches: [{ id: 'branch-1', tree_id: 'tree-1', created_by: OWNER_ID }],
+      branch_members: [
+        { id: 'bm-1', branch_id: 'branch-1', user_id: MEMBER_ID, role: 'member', branches },
+        { id: 'bm-2', branch_id: 'branch-1', user_id: ADMIN_ID, role: 'admin', branches },
+        { id: 'bm-3', branch_id: 'branch-1', user_id: OTHER_ADMIN_ID, role: 'admin', branches },
+        { id: 'bm-4', branch_id: 'branch-1', user_id: OWNER_ID, role: 'owner', branches },
+      ],
+      user_roles: [
+        { id: 'grant-1', user_id: MEMBER_ID, context_type: 'branch', context_id: 'branch-1', expires_at: null, role: member },
+        { id: 'grant-2', user_id: ADMIN_ID, context_type: 'branch', context_id: 'branch-1', expires_at: null, role: admin },
+        { id: 'grant-3', user_id: OTHER_ADMIN_ID, context_type: 'branch', context_id: 'branch-1', expires_at: null, role: admin },
+      ],
+      roles: [
+        { id: 'role-admin', name: 'admin', is_system_role: true, tree_id: null },
+        { id: 'role-member', name: 'member', is_system_role: true, tree_id: null },
+        { id: DELETER_ROLE_ID, name: 'Branch deleter', is_system_role: false, tree_id: 'tree-1' },
+        { id: POSTER_ROLE_ID, name: 'Photo contributor', is_system_role: false, tree_id: 'tree-1' },
+      ],
+      role_permissions: [
+        { role_id: DELETER_ROLE_ID, permission_id: 'perm-branch-delete' },
+        { role_id: POSTER_ROLE_ID, permission_id: 'perm-post-create' },
+      ],
+      permissions: [
+        { id: 'perm-branch-delete', resource_type: 'branch', action: 'delete' },
+        { id: 'perm-post-create', resource_type: 'post', action: 'create' },
+      ],
+    }
+  }
+
+  const patch = (memberId: string, role: string) => PATCH(
+    new NextRequest(`http://localhost/api/branches/branch-1/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }),
+    { params: Promise.resolve({ branchId: 'branch-1', userId: memberId }) }
+  )
+
+  beforeEach(async () => {
+    await getSharedPermissionCache().clear()
+  })
+
+  it('does not let members change their own role', async () => {
+    signInAs(ADMIN_ID, createTables())
+
+    const response = await patch(ADMIN_ID, 'member')
+
+    expect(response.status).toBe(403)
+  })
+
+  it('only assigns custom roles that allow no more than the assigner can do', async () => {
+    const tables = createTables()
+    signInAs(ADMIN_ID, tables)
+
+    expect((await patch(MEMBER_ID, DELETER_ROLE_ID)).status).toBe(403)
+    expect(tables.branch_members[0].role).toBe('member')
+
+    expect((await patch(MEMBER_ID, POSTER_ROLE_ID)).status).toBe(200)
+  })
+
+  it('keeps owners\' roles fixed and leaves admins to owners', async () => {
+    const tables = createTables()
+    signInAs(ADMIN_ID, tables)
+
+    expect((await patch(OWNER_ID, 'member')).status).toBe(403)
+    expect((await patch(OTHER_ADMIN_ID, 'member')).status).toBe(403)
+    expect(tables.branch_members[2].role).toBe('admin')
+
+    signInAs(OWNER_ID, tables)
+    expect((await patch(OTHER_ADMIN_ID, 'member')).status).toBe(200)
+    expect(tables.branch_members[2].role).toBe('member')
+  })
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { uuidSchema } from '@/lib/validation/schemas'
+import { createComponentLogger } from '@/lib/logger'
+import { ConversationMemoryStore } from '@/lib/ai/conversationMemory'
+
+const logger = createComponentLogger('ConversationMemoryAPI')
+
+/**
+ * DELETE /api/ai/conversation-memory
+ * Forget the signed-in user's AI conversation history. Pass ?branch_id= to
+ * forget a single branch; otherwise every branch is cleared.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const branchId = req.nextUrl.searchParams.get('branch_id') ?? undefined
+
+    if (branchId && !uuidSchema.safeParse(branchId).success) {
+      return NextResponse.json(
+        { error: 'Invalid branch id' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await new ConversationMemoryStore(supabase).forget(user.id, branchId)
+
+    return NextResponse.json({
+      success: true,
+      message: branchId ? 'AI history for this branch forgotten' : 'AI history forgotten'
+    })
+
+  } catch (error) {
+    logger.error('Failed to forget AI conversation history', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
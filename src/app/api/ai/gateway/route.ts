@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { aiGatewayRequestSchema } from '@/lib/validation/schemas'
+import { createComponentLogger } from '@/lib/logger'
+import { getAIGateway } from '@/lib/ai/gateway'
+import { AIGatewayError } from '@/lib/ai/providers'
+
+const logger = createComponentLogger('AIGatewayAPI')
+
+// 30 completions per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 30,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+/**
+ * GET /api/ai/gateway
+ * Whether a provider is configured, with per-provider request, error and token counts
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const gateway = getAIGateway()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        available: gateway.isAvailable(),
+        providers: gateway.getStats()
+      }
+    })
+
+  } catch (error) {
+    logger.error('Unexpected error reading AI gateway status', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ai/gateway
+ * Run a chat completion on the first configured provider that answers
+ */
+export async function POST(req: NextRequest) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = aiGatewayRequestSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const completion = await getAIGateway().complete(validationResult.data)
+
+      logger.info('AI gateway completion served', {
+        userId: user.id,
+        metadata: {
+          provider: completion.provider,
+          model: completion.model,
+          totalTokens: completion.usage.totalTokens
+        }
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: completion
+      })
+
+    } catch (error) {
+      if (error instanceof AIGatewayError) {
+        return NextResponse.json(
+          { error: error.message, failures: error.failures },
+          { status: error.statusCode }
+        )
+      }
+
+      logger.error('Unexpected error in AI gateway', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })(req)
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { interviewAnswerSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { InterviewSessionService } from '@/lib/ai/interviewSessions'
+
+const logger = createComponentLogger('InterviewAPI')
+
+// Each answer calls the AI provider: 30 per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 30,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ sessionId: string }> }
+
+/**
+ * GET /api/ai/interviews/[sessionId]
+ * One of the user's interviews, with its questions, answers and draft
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await new InterviewSessionService(supabase).getSession(sessionId, user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: session
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching interview')
+  }
+}
+
+/**
+ * POST /api/ai/interviews/[sessionId]
+ * Answer the current question. The session comes back with the next
+ * question, or with its leaf draft after the last one or when `finish` is set.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { sessionId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = interviewAnswerSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const service = new InterviewSessionService(supabase)
+      const session = await service.getSession(sessionId, user.id)
+      const updated = await service.answer(session, validationResult.data.answer, {
+        finish: validationResult.data.finish
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: updated
+      })
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error answering interview')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
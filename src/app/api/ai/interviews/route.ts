@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { interviewStartSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { InterviewSessionService } from '@/lib/ai/interviewSessions'
+
+const logger = createComponentLogger('InterviewsAPI')
+
+// 10 new interviews per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 10,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+/**
+ * POST /api/ai/interviews
+ * Start a guided interview about a photo or event. Returns the session with
+ * its first question.
+ */
+export async function POST(req: NextRequest) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = interviewStartSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const { subject, tree_id, media_count, question_count } = validationResult.data
+
+      if (tree_id) {
+        await requireTreePermission(supabase, tree_id, user.id, 'canRead')
+      }
+
+      const session = await new InterviewSessionService(supabase).start(user.id, {
+        subject,
+        treeId: tree_id,
+        mediaCount: media_count,
+        questionCount: question_count
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: session
+        },
+        { status: 201 }
+      )
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error starting interview')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
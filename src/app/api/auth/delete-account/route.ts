@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server'
 import { createServiceClient } from '@/lib/supabase/service'
 import { createComponentLogger } from '@/lib/logger'
 import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
 
 const logger = createComponentLogger('DeleteAccountAPI')
 
@@ -73,6 +74,9 @@ export async function DELETE(req: NextRequest) {
           logger.error('Failed to remove branch memberships', branchMembersError, { userId })
         }
 
+        // Drop the user's cached roles on every instance
+        await createServerRBAC(serviceSupabase).clearCache(userId)
+
         // 4. Delete invitations sent by user
         const { error: sentInvitationsError } = await serviceSupabase
           .from('invitations')
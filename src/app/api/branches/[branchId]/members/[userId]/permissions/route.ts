@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { uuidSchema } from '@/lib/validation/schemas'
+import { ValidationError, SecurityError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+
+const logger = createComponentLogger('MemberPermissionsAPI')
+
+/**
+ * GET /api/branches/[branchId]/members/[userId]/permissions
+ * What a member can actually do in the branch, from their system role,
+ * custom role and any cross-tree access
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ branchId: string; userId: string }> }
+) {
+  try {
+    const { branchId, userId } = await params
+
+    if (!uuidSchema.safeParse(userId).success) {
+      return NextResponse.json(
+        { error: 'A valid member id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const permissions = await createServerRBAC(supabase).getBranchPermissions(user.id, branchId)
+    if (!permissions.canManageMembers) {
+      throw new SecurityError('Only people who manage the branch\'s members can preview their permissions', 'branchId')
+    }
+
+    // Resolve the member's grants as the service; user_roles policies may
+    // hide other members' grants from the person asking
+    const serviceSupabase = createServiceClient()
+    const { data: membership } = await serviceSupabase
+      .from('branch_members')
+      .select('id')
+      .eq('branch_id', branchId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    const memberPermissions = await createServerRBAC(serviceSupabase).getBranchPermissions(userId, branchId)
+
+    return NextResponse.json({
+      success: true,
+      data: memberPermissions
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error previewing member permissions', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
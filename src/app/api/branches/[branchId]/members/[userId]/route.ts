@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { branchMemberRoleSchema, uuidSchema } from '@/lib/validation/schemas'
+import { ValidationError, SecurityError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+import { CustomRoleService, permissionsBeyond } from '@/lib/custom-roles'
+
+const logger = createComponentLogger('BranchMemberAPI')
+
+const MANAGE_MEMBERS_ONLY = 'Only people who manage the branch\'s members can change them'
+
+type RouteParams = { params: Promise<{ branchId: string; userId: string }> }
+
+/**
+ * PATCH /api/branches/[branchId]/members/[userId]
+ * Give a member a system role by name or one of the tree's custom roles by
+ * id, optionally only until expires_at. Role changes go through the server so
+ * the shared permission cache is cleared for every instance. Nobody changes
+ * their own role, owners' roles are fixed, only owners change admins, and a
+ * custom role may not allow more than the person assigning it can do.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { branchId, userId } = await params
+
+    if (!uuidSchema.safeParse(userId).success) {
+      return NextResponse.json(
+        { error: 'A valid member id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = branchMemberRoleSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { role, expires_at: expiresAt } = validationResult.data
+    const rbac = createServerRBAC(supabase)
+
+    const permissions = await rbac.getBranchPermissions(user.id, branchId)
+    if (!permissions.canManageMembers) {
+      throw new SecurityError(MANAGE_MEMBERS_ONLY, 'branchId')
+    }
+    if (userId === user.id) {
+      throw new SecurityError('You can\'t change your own role', 'userId')
+    }
+    if (role === 'owner' && !permissions.isOwner) {
+      throw new SecurityError('Only an owner can make someone else an owner', 'role')
+    }
+
+    const context = { type: 'branch' as const, id: branchId }
+    const currentRole = await rbac.getUserRole(userId, context)
+    if (currentRole === 'owner') {
+      throw new SecurityError('An owner\'s role can\'t be changed', 'userId')
+    }
+    if (currentRole === 'admin' && !permissions.isOwner) {
+      throw new SecurityError('Only an owner can change an admin\'s role', 'userId')
+    }
+
+    const { data: membership } = await supabase
+      .from('branch_members')
+      .select('id, branches(tree_id)')
+      .eq('branch_id', branchId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    // Custom roles are picked by id and must belong to the branch's tree
+    const isCustomRole = uuidSchema.safeParse(role).success
+    if (isCustomRole) {
+      const treeId = (membership.branches as unknown as { tree_id: string } | null)?.tree_id
+      const customRole = treeId ? await new CustomRoleService(supabase).getRole(treeId, role) : null
+      if (!customRole) {
+        throw new ValidationError('That role is not one of this tree\'s roles', { field: 'role', statusCode: 400 })
+      }
+      if (permissionsBeyond(permissions, customRole.permissions).length > 0) {
+        throw new SecurityError('That role allows more than you can do in this branch', 'role')
+      }
+    }
+
+    const assigned = isCustomRole
+      ? await rbac.assignCustomRole(userId, role, context, user.id, expiresAt)
+      : await rbac.assignRole(userId, role, context, user.id, expiresAt)
+
+    if (!assigned) {
+      throw new Error('Failed to assign role')
+    }
+
+    // branch_members.role only knows the system roles, so custom role holders count as members
+    const compatibleRole = isCustomRole ? 'member' : role
+    const { error: memberError } = await supabase
+      .from('branch_members')
+      .update({ role: compatibleRole })
+      .eq('id', membership.id)
+
+    if (memberError) throw memberError
+
+    logger.info('Branch member role changed', {
+      userId: user.id,
+      metadata: { branchId, memberId: userId, role, expiresAt }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { role: compatibleRole, custom_role_id: isCustomRole ? role : null, expires_at: expiresAt },
+      message: 'Member role updated'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error changing member role')
+  }
+}
+
+/**
+ * DELETE /api/branches/[branchId]/members/[userId]
+ * Remove a member and their role in the branch
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { branchId, userId } = await params
+
+    if (!uuidSchema.safeParse(userId).success) {
+      return NextResponse.json(
+        { error: 'A valid member id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const rbac = createServerRBAC(supabase)
+
+    const permissions = await rbac.getBranchPermissions(user.id, branchId)
+    if (!permissions.canManageMembers) {
+      throw new SecurityError(MANAGE_MEMBERS_ONLY, 'branchId')
+    }
+
+    const { data: removed, error: memberError } = await supabase
+      .from('branch_members')
+      .delete()
+      .eq('branch_id', branchId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (memberError) throw memberError
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await rbac.removeRole(userId, { type: 'branch', id: branchId })) {
+      throw new Error('Failed to remove role')
+    }
+
+    logger.info('Branch member removed', {
+      userId: user.id,
+      metadata: { branchId, memberId: userId }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error removing member')
+  }
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
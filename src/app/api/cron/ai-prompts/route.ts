@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createComponentLogger } from '@/lib/logger'
+import { createServiceClient } from '@/lib/supabase/service'
+import { ProactivePromptScheduler } from '@/lib/ai/promptScheduler'
+
+const logger = createComponentLogger('AIPromptCron')
+
+/**
+ * POST /api/cron/ai-prompts
+ * Cron job endpoint for scheduling and sending proactive AI prompts.
+ * Run it at least hourly so prompts go out close to their chosen time.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron job attempt', {
+        metadata: { authHeader: authHeader?.substring(0, 20) + '...' }
+      })
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const scheduler = new ProactivePromptScheduler(createServiceClient())
+    const summary = await scheduler.run()
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    logger.error('AI prompt cron job failed', error)
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for health checks
+export async function GET() {
+  return NextResponse.json({
+    status: 'healthy',
+    service: 'ai-prompt-cron',
+    timestamp: new Date().toISOString()
+  })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createComponentLogger } from '@/lib/logger'
+import { createServiceClient } from '@/lib/supabase/service'
+import { RecapStoryGenerator } from '@/lib/ai/recapStories'
+
+const logger = createComponentLogger('AIRecapCron')
+
+/**
+ * POST /api/cron/ai-recaps
+ * Cron job endpoint that writes last month's and last year's recap drafts.
+ * Run it daily; recaps that already exist are skipped.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron job attempt', {
+        metadata: { authHeader: authHeader?.substring(0, 20) + '...' }
+      })
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const generator = new RecapStoryGenerator(createServiceClient())
+    const summary = await generator.generateDueRecaps()
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    logger.error('AI recap cron job failed', error)
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for health checks
+export async function GET() {
+  return NextResponse.json({
+    status: 'healthy',
+    service: 'ai-recap-cron',
+    timestamp: new Date().toISOString()
+  })
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createComponentLogger } from '@/lib/logger'
+import { createServiceClient } from '@/lib/supabase/service'
+import { RoleGrantExpiryService } from '@/lib/role-grant-expiry'
+
+const logger = createComponentLogger('RoleExpiryCron')
+
+/**
+ * POST /api/cron/role-expiry
+ * Cron job endpoint that warns about role grants ending soon and deletes
+ * the ones that have expired. Run it hourly.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron job attempt', {
+        metadata: { authHeader: authHeader?.substring(0, 20) + '...' }
+      })
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await new RoleGrantExpiryService(createServiceClient()).run()
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    logger.error('Role expiry cron job failed', error)
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for health checks
+export async function GET() {
+  return NextResponse.json({
+    status: 'healthy',
+    service: 'role-expiry-cron',
+    timestamp: new Date().toISOString()
+  })
+}
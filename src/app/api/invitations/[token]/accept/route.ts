@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { ValidationError, SecurityError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+
+const logger = createComponentLogger('AcceptInvitationAPI')
+
+/**
+ * POST /api/invitations/[token]/accept
+ * Join the invited tree and its branches with the invited role. Only the
+ * invited email address can accept. Memberships and roles are written on the
+ * server so the shared permission cache is cleared for every instance.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // The invitee can't grant themselves roles, so the checked acceptance is
+    // written as the service
+    const serviceSupabase = createServiceClient()
+
+    const { data: invitation } = await serviceSupabase
+      .from('invitations')
+      .select('id, branch_id, email, role, invited_by')
+      .eq('token', token)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid, expired, or has already been used' },
+        { status: 404 }
+      )
+    }
+
+    if (invitation.email.toLowerCase() !== user.email?.toLowerCase()) {
+      throw new SecurityError('Sign in with the invited email address to accept this invitation', 'email')
+    }
+
+    const { data: branch, error: branchError } = await serviceSupabase
+      .from('branches')
+      .select('tree_id')
+      .eq('id', invitation.branch_id)
+      .single()
+
+    if (branchError || !branch) throw new Error('Branch not found')
+
+    const { error: updateError } = await serviceSupabase
+      .from('invitations')
+      .update({
+        status: 'accepted',
+        accepted_at: new Date().toISOString()
+      })
+      .eq('id', invitation.id)
+
+    if (updateError) throw updateError
+
+    const { error: memberError } = await serviceSupabase
+      .from('tree_members')
+      .insert({
+        tree_id: branch.tree_id,
+        user_id: user.id,
+        role: invitation.role
+      })
+
+    if (memberError) throw memberError
+
+    // For MVP, add user to all branches in the tree
+    const { data: branches, error: branchesError } = await serviceSupabase
+      .from('branches')
+      .select('id')
+      .eq('tree_id', branch.tree_id)
+
+    if (branchesError) throw branchesError
+
+    if (branches && branches.length > 0) {
+      const { error: branchMemberError } = await serviceSupabase
+        .from('branch_members')
+        .insert(branches.map(treeBranch => ({
+          branch_id: treeBranch.id,
+          user_id: user.id,
+          role: invitation.role
+        })))
+
+      if (branchMemberError) throw branchMemberError
+    }
+
+    // Permissions resolve through RBAC, so grant the invited role there too
+    const rbac = createServerRBAC(serviceSupabase)
+    const contexts = [
+      { type: 'tree' as const, id: branch.tree_id as string },
+      ...(branches || []).map(treeBranch => ({ type: 'branch' as const, id: treeBranch.id as string }))
+    ]
+    for (const context of contexts) {
+      if (!await rbac.assignRole(user.id, invitation.role, context, invitation.invited_by)) {
+        throw new Error(`Failed to assign ${invitation.role} role in ${context.type} ${context.id}`)
+      }
+    }
+
+    logger.info('Invitation accepted', {
+      userId: user.id,
+      metadata: { invitationId: invitation.id, treeId: branch.tree_id, branches: branches?.length || 0 }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { tree_id: branch.tree_id },
+      message: 'Invitation accepted'
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error accepting invitation', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
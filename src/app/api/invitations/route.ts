@@ -6,6 +6,7 @@ import { sanitizeEmail } from '@/lib/validation/sanitization'
 import { ValidationError, SecurityError } from '@/lib/validation/errors'
 import { createComponentLogger } from '@/lib/logger'
 import { getUserBranchPermissions } from '@/lib/rbac'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
 import { invitationEmailService } from '@/lib/email/invitation-email-service'
 import { notifications } from '@/lib/notifications/scheduler'
 
@@ -95,16 +96,8 @@ export async function POST(req: NextRequest) {
           throw new SecurityError('Insufficient permissions to invite members', 'branch_id')
         }
       } else if ('tree_id' in validatedData && validatedData.tree_id) {
-        // Check tree permissions (simplified)
-        const { data: treeMember } = await supabase
-          .from('tree_members')
-          .select('role')
-          .eq('tree_id', validatedData.tree_id)
-          .eq('user_id', user.id)
-          .eq('status', 'active')
-          .single()
-        
-        if (!treeMember || !['owner', 'admin'].includes(treeMember.role)) {
+        const permissions = await createServerRBAC(supabase).getTreePermissions(user.id, validatedData.tree_id)
+        if (!permissions.canInviteMembers) {
           throw new SecurityError('Insufficient permissions to invite to tree', 'tree_id')
         }
       }
@@ -5,6 +5,8 @@ import { createValidationMiddleware, createRateLimitMiddleware } from '@/lib/val
 import { createComponentLogger } from '@/lib/logger'
 import { createUnassignedLeaf, getUserUnassignedLeaves } from '@/lib/leaf-assignments'
 import { notifications } from '@/lib/notifications/scheduler'
+import { createServiceClient } from '@/lib/supabase/service'
+import { AIEnhancementQueue, LEAF_ANALYSIS_JOB_TYPE, type AIEnhancementJobType } from '@/lib/ai/enhancementQueue'
 
 const logger = createComponentLogger('LeavesAPI')
 
@@ -119,6 +121,10 @@ export async function POST(req: NextRequest) {
           }
         })
 
+        // Imported leaves are enhanced in the background rather than in the
+        // browser, and every leaf is analyzed there for search and prompting
+        await queueLeafJobs(leaf, validatedData, Boolean(isWebhookCall))
+
         // For webhook-created leaves (email processing), send notification about successful processing
         if (isWebhookCall && leaf.content) {
           try {
@@ -228,6 +234,44 @@ export async function GET(req: NextRequest) {
   })(req)
 }
 
+/**
+ * Queue the leaf's analysis and, for imports, the AI captions and tags the
+ * importer did not supply. A failure is logged, since the leaf already exists.
+ */
+async function queueLeafJobs(
+  leaf: { id: string; author_id: string; content: string | null; media_urls: string[] | null },
+  data: z.infer<typeof createUnassignedLeafSchema>,
+  isImport: boolean
+) {
+  const jobTypes: AIEnhancementJobType[] = [
+    LEAF_ANALYSIS_JOB_TYPE,
+    ...(isImport && !data.ai_caption ? ['ai_caption' as const] : []),
+    ...(isImport && !data.ai_tags?.length ? ['ai_tags' as const] : []),
+  ]
+
+  try {
+    await new AIEnhancementQueue(createServiceClient()).enqueue({
+      request: {
+        leafId: leaf.id,
+        content: leaf.content || undefined,
+        mediaUrls: leaf.media_urls || undefined,
+        context: {
+          authorName: '',
+          branchName: '',
+          treeName: '',
+          existingTags: data.tags,
+        },
+      },
+      userId: leaf.author_id,
+      jobTypes,
+    })
+  } catch (error) {
+    logger.warn('Could not queue AI jobs for leaf', {
+      metadata: { leafId: leaf.id, error: error instanceof Error ? error.message : error }
+    })
+  }
+}
+
 // Handle unsupported methods
 export async function PUT() {
   return NextResponse.json(
@@ -49,6 +49,7 @@ const updatePreferencesSchema = z.object({
   
   // Notification frequency and timing
   digest_frequency: z.enum(['daily', 'weekly', 'never']).optional(),
+  prompt_frequency: z.enum(['daily', 'every_few_days', 'weekly', 'never']).optional(),
   quiet_hours_start: z.string().regex(/^\d{2}:\d{2}:\d{2}$/).optional(),
   quiet_hours_end: z.string().regex(/^\d{2}:\d{2}:\d{2}$/).optional(),
   timezone: z.string().optional(),
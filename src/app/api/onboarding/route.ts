@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { onboardingSchema } from '@/lib/validation/schemas'
+import { createComponentLogger } from '@/lib/logger'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+
+const logger = createComponentLogger('OnboardingAPI')
+
+/**
+ * POST /api/onboarding
+ * Create a new user's first tree and its family branches, with the user as
+ * owner of each. Roles are granted on the server so the shared permission
+ * cache is cleared for every instance.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = onboardingSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { tree: treeInput, branches } = validationResult.data
+    const rbac = createServerRBAC(supabase)
+
+    const { data: tree, error: treeError } = await supabase
+      .from('trees')
+      .insert({
+        name: treeInput.name,
+        description: treeInput.description || null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (treeError) throw treeError
+
+    // The tree creator gets the owner role
+    if (!await rbac.assignRole(user.id, 'owner', { type: 'tree', id: tree.id }, user.id)) {
+      throw new Error('Failed to assign owner role to tree')
+    }
+
+    // Add user as member for backward compatibility
+    const { error: memberError } = await supabase
+      .from('tree_members')
+      .insert({
+        tree_id: tree.id,
+        user_id: user.id,
+        role: 'owner'
+      })
+
+    if (memberError) throw memberError
+
+    const branchIds: string[] = []
+    for (const branch of branches) {
+      // Family branches are always private and not discoverable
+      const { data: newBranch, error: branchError } = await supabase
+        .from('branches')
+        .insert({
+          tree_id: tree.id,
+          name: branch.name,
+          description: branch.description,
+          color: branch.color,
+          type: 'family',
+          privacy: 'private',
+          created_by: user.id
+        })
+        .select()
+        .single()
+
+      if (branchError) throw branchError
+
+      if (!await rbac.assignRole(user.id, 'owner', { type: 'branch', id: newBranch.id }, user.id)) {
+        throw new Error('Failed to assign owner role to branch')
+      }
+
+      // Add user to branch_members for backward compatibility
+      const { error: branchMemberError } = await supabase
+        .from('branch_members')
+        .insert({
+          branch_id: newBranch.id,
+          user_id: user.id,
+          role: 'owner',
+          join_method: 'admin_added',
+          status: 'active'
+        })
+
+      if (branchMemberError) throw branchMemberError
+      branchIds.push(newBranch.id)
+    }
+
+    logger.info('Onboarding tree created', {
+      userId: user.id,
+      metadata: { treeId: tree.id, branches: branchIds.length }
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { tree_id: tree.id, branch_ids: branchIds },
+        message: 'Tree created'
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    logger.error('Unexpected error creating onboarding tree', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
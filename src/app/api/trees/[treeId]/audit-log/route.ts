@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { auditLogQuerySchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { getAuditLog } from '@/lib/audit-log'
+
+const logger = createComponentLogger('TreeAuditLogAPI')
+
+/**
+ * GET /api/trees/[treeId]/audit-log
+ * Role, membership, invitation and sharing changes across the tree and its
+ * branches, newest first. Filter with `actor_id` and `category`; page back
+ * with `before`.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ treeId: string }> }
+) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const validationResult = auditLogQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams))
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageMembers', 'Only people who manage the tree\'s members can view its audit log')
+
+    const { actor_id, category, before, limit } = validationResult.data
+    // audit_log has no user policies; the permission check above stands in for them
+    const entries = await getAuditLog(createServiceClient(), { treeId }, {
+      actorId: actor_id,
+      category,
+      before,
+      limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error fetching tree audit log', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { emailAddressUpdateSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+
+const logger = createComponentLogger('TreeEmailAddressAPI')
+
+const EMAIL_SETTINGS_MANAGER_ONLY = 'Only tree managers can manage email settings'
+
+/**
+ * PATCH /api/trees/[treeId]/email-addresses/[addressId]
+ * Deactivate or reactivate an alias. The generated person address cannot be changed.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ treeId: string; addressId: string }> }
+) {
+  try {
+    const { treeId, addressId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = emailAddressUpdateSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { is_active } = validationResult.data
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    const { data: address } = await supabase
+      .from('tree_email_addresses')
+      .select('id, address_type, is_active')
+      .eq('id', addressId)
+      .eq('tree_id', treeId)
+      .maybeSingle()
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Email address not found' },
+        { status: 404 }
+      )
+    }
+
+    if (address.address_type !== 'alias') {
+      throw new ValidationError('The generated person address cannot be deactivated', { field: 'addressId' })
+    }
+
+    if (is_active && !address.is_active) {
+      const { count } = await supabase
+        .from('tree_email_addresses')
+        .select('id', { count: 'exact', head: true })
+        .eq('tree_id', treeId)
+        .eq('address_type', 'alias')
+        .eq('is_active', true)
+
+      if ((count || 0) >= WEBHOOK_CONFIG.ALIASES.MAX_ACTIVE_PER_TREE) {
+        throw new ValidationError(
+          `A tree can have at most ${WEBHOOK_CONFIG.ALIASES.MAX_ACTIVE_PER_TREE} active aliases`,
+          { field: 'is_active' }
+        )
+      }
+    }
+
+    const { data: updated, error } = await supabase
+      .from('tree_email_addresses')
+      .update({
+        is_active,
+        deactivated_at: is_active ? null : new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', addressId)
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Failed to update tree email address', error, {
+        userId: user.id,
+        metadata: { treeId, addressId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to update email address' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Tree alias updated', {
+      userId: user.id,
+      metadata: { treeId, addressId, isActive: is_active }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: is_active ? 'Alias reactivated' : 'Alias deactivated'
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error updating tree email address', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { emailAliasCreateSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { buildAliasAddress } from '@/lib/email/email-alias'
+
+const logger = createComponentLogger('TreeEmailAddressesAPI')
+
+const EMAIL_SETTINGS_MANAGER_ONLY = 'Only tree managers can manage email settings'
+
+// Aliases are claimed rarely; keep guessing at taken names slow
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 10,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ treeId: string }> }
+
+/**
+ * GET /api/trees/[treeId]/email-addresses
+ * List the generated address and all aliases of a person tree
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    const { data: addresses, error } = await supabase
+      .from('tree_email_addresses')
+      .select('*')
+      .eq('tree_id', treeId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch tree email addresses', error, {
+        userId: user.id,
+        metadata: { treeId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to fetch email addresses' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: addresses || []
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching tree email addresses')
+  }
+}
+
+/**
+ * POST /api/trees/[treeId]/email-addresses
+ * Claim a readable alias. Passing `replaces` rotates an existing alias: the
+ * new one is claimed first, then the old one is deactivated.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { treeId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = emailAliasCreateSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const { alias, replaces } = validationResult.data
+
+      await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+      const { data: activeAliases, error: countError } = await supabase
+        .from('tree_email_addresses')
+        .select('id')
+        .eq('tree_id', treeId)
+        .eq('address_type', 'alias')
+        .eq('is_active', true)
+
+      if (countError) {
+        logger.error('Failed to count tree aliases', countError, {
+          userId: user.id,
+          metadata: { treeId }
+        })
+        return NextResponse.json(
+          { error: 'Failed to claim alias' },
+          { status: 500 }
+        )
+      }
+
+      if (replaces && !activeAliases?.some(active => active.id === replaces)) {
+        throw new ValidationError('Only an active alias of this tree can be replaced', { field: 'replaces' })
+      }
+
+      const remainingCount = (activeAliases?.length || 0) - (replaces ? 1 : 0)
+      if (remainingCount >= WEBHOOK_CONFIG.ALIASES.MAX_ACTIVE_PER_TREE) {
+        throw new ValidationError(
+          `A tree can have at most ${WEBHOOK_CONFIG.ALIASES.MAX_ACTIVE_PER_TREE} active aliases`,
+          { field: 'alias' }
+        )
+      }
+
+      const { data: address, error: insertError } = await supabase
+        .from('tree_email_addresses')
+        .insert({
+          tree_id: treeId,
+          email_address: buildAliasAddress(alias),
+          address_type: 'alias',
+          created_by: user.id
+        })
+        .select()
+        .single()
+
+      if (insertError) {
+        if (insertError.code === '23505') { // Unique constraint violation
+          return NextResponse.json(
+            { error: 'This alias is already taken' },
+            { status: 409 }
+          )
+        }
+
+        logger.error('Failed to claim alias', insertError, {
+          userId: user.id,
+          metadata: { treeId, alias }
+        })
+        return NextResponse.json(
+          { error: 'Failed to claim alias' },
+          { status: 500 }
+        )
+      }
+
+      if (replaces) {
+        const { error: deactivateError } = await supabase
+          .from('tree_email_addresses')
+          .update({
+            is_active: false,
+            deactivated_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', replaces)
+          .eq('tree_id', treeId)
+
+        if (deactivateError) {
+          logger.error('Failed to deactivate replaced alias', deactivateError, {
+            userId: user.id,
+            metadata: { treeId, replaces }
+          })
+        }
+      }
+
+      logger.info('Tree alias claimed', {
+        userId: user.id,
+        metadata: { treeId, addressId: address.id, replaces }
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: address,
+          message: replaces ? 'Alias rotated' : 'Alias claimed'
+        },
+        { status: 201 }
+      )
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error claiming alias')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { quarantineReviewSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { EmailQuarantineStore } from '@/lib/email/quarantine-store'
+import { EmailIngestionPipeline } from '@/lib/email/ingestion-pipeline'
+import { normalizeEmailAddress } from '@/lib/email/user-resolver'
+
+const logger = createComponentLogger('EmailQuarantineReviewAPI')
+
+const EMAIL_SETTINGS_MANAGER_ONLY = 'Only tree managers can manage email settings'
+
+/**
+ * POST /api/trees/[treeId]/email-quarantine/[quarantineId]
+ * Approve or reject a quarantined email. Approval creates the leaf, credited
+ * to the sender's profile when they have one, otherwise to the approving manager.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ treeId: string; quarantineId: string }> }
+) {
+  try {
+    const { treeId, quarantineId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = quarantineReviewSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { action, trust_sender } = validationResult.data
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    // Leaf creation and storage uploads need the service role
+    const serviceClient = createServiceClient()
+    const quarantineStore = new EmailQuarantineStore(serviceClient)
+
+    const item = await quarantineStore.get(quarantineId)
+    if (!item || item.tree_id !== treeId) {
+      return NextResponse.json(
+        { error: 'Quarantined email not found' },
+        { status: 404 }
+      )
+    }
+
+    // Claim the item first so two managers cannot both approve it
+    const reviewed = await quarantineStore.markReviewed(quarantineId, {
+      status: action === 'approve' ? 'approved' : 'rejected',
+      reviewedBy: user.id
+    })
+
+    if (!reviewed) {
+      return NextResponse.json(
+        { error: 'This email has already been reviewed' },
+        { status: 409 }
+      )
+    }
+
+    if (action === 'reject') {
+      logger.info('Quarantined email rejected', {
+        userId: user.id,
+        metadata: { treeId, quarantineId }
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: { id: quarantineId, status: 'rejected' },
+        message: 'Email rejected'
+      })
+    }
+
+    const sender = normalizeEmailAddress(item.sender)
+    const { data: senderProfile } = await serviceClient
+      .from('profiles')
+      .select('id')
+      .eq('email', sender)
+      .maybeSingle()
+
+    let result
+    try {
+      const pipeline = new EmailIngestionPipeline(serviceClient)
+      result = await pipeline.releaseQuarantined(item, senderProfile?.id || user.id)
+    } catch (releaseError) {
+      await quarantineStore.reopen(quarantineId)
+      throw releaseError
+    }
+
+    if (result.leafId) {
+      await quarantineStore.recordLeaf(quarantineId, result.leafId)
+    }
+
+    if (trust_sender) {
+      const { error: trustError } = await serviceClient
+        .from('tree_verified_senders')
+        .upsert({
+          tree_id: treeId,
+          email_address: sender,
+          profile_id: senderProfile?.id || null,
+          is_active: true,
+          added_by: user.id
+        }, { onConflict: 'tree_id,email_address' })
+
+      if (trustError) {
+        logger.error('Failed to add approved sender to allowlist', trustError, {
+          userId: user.id,
+          metadata: { treeId, quarantineId }
+        })
+      }
+    }
+
+    logger.info('Quarantined email approved', {
+      userId: user.id,
+      metadata: {
+        treeId,
+        quarantineId,
+        leafId: result.leafId,
+        creditedToSender: !!senderProfile,
+        trustSender: trust_sender
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: quarantineId,
+        status: 'approved',
+        leafId: result.leafId,
+        leafType: result.leafType
+      },
+      message: 'Email approved and added as a memory'
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error reviewing quarantined email', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { EmailQuarantineStore } from '@/lib/email/quarantine-store'
+
+const logger = createComponentLogger('EmailQuarantineAPI')
+
+const EMAIL_SETTINGS_MANAGER_ONLY = 'Only tree managers can manage email settings'
+
+/**
+ * GET /api/trees/[treeId]/email-quarantine
+ * List emails from unverified senders that are waiting for manager review
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ treeId: string }> }
+) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    const pending = await new EmailQuarantineStore(supabase).listPending(treeId)
+
+    // The review list only needs a preview, not the stored attachment data
+    const data = pending.map(({ email_payload, ...item }) => ({
+      ...item,
+      preview: email_payload.text.slice(0, 500),
+      attachment_count: email_payload.rawAttachments?.length || 0
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error fetching quarantined email', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { promptTemplateBranchSettingSchema, promptTemplateUpdateSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreeBranch, requireTreePermission } from '@/lib/email/tree-manager-access'
+
+const logger = createComponentLogger('PromptTemplateAPI')
+
+const TEMPLATE_MANAGER_ONLY = 'Only tree managers can manage prompt templates'
+
+type RouteParams = { params: Promise<{ treeId: string; templateId: string }> }
+
+/**
+ * PATCH /api/trees/[treeId]/prompt-templates/[templateId]
+ * Edit one of the tree's own templates. Built-ins and templates shared by
+ * other trees can only be turned on or off.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, templateId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = promptTemplateUpdateSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+
+    const { data: existing } = await supabase
+      .from('prompt_templates')
+      .select('id')
+      .eq('id', templateId)
+      .eq('tree_id', treeId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      )
+    }
+
+    const updates = { ...validationResult.data }
+    if (updates.shared_tree_ids) {
+      updates.shared_tree_ids = [...new Set(updates.shared_tree_ids)].filter(id => id !== treeId)
+      for (const id of updates.shared_tree_ids) {
+        await requireTreePermission(supabase, id, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+      }
+    }
+
+    const { data: template, error: updateError } = await supabase
+      .from('prompt_templates')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select()
+      .single()
+
+    if (updateError) {
+      logger.error('Failed to update prompt template', updateError, {
+        userId: user.id,
+        metadata: { treeId, templateId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to update prompt template' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Prompt template updated', {
+      userId: user.id,
+      metadata: { treeId, templateId, fields: Object.keys(updates) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: 'Prompt template updated'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error updating prompt template')
+  }
+}
+
+/**
+ * PUT /api/trees/[treeId]/prompt-templates/[templateId]
+ * Turn any template the tree can use on or off in one of its branches
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, templateId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = promptTemplateBranchSettingSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { branch_id, enabled } = validationResult.data
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+    await requireTreeBranch(supabase, treeId, branch_id)
+
+    const { data: template } = await supabase
+      .from('prompt_templates')
+      .select('id, tree_id, shared_tree_ids')
+      .eq('id', templateId)
+      .maybeSingle()
+
+    const usable = template && (
+      template.tree_id === null ||
+      template.tree_id === treeId ||
+      (template.shared_tree_ids || []).includes(treeId)
+    )
+    if (!usable) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: upsertError } = await supabase
+      .from('branch_prompt_template_settings')
+      .upsert(
+        {
+          branch_id,
+          template_id: templateId,
+          enabled,
+          updated_by: user.id,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'branch_id,template_id' }
+      )
+
+    if (upsertError) {
+      logger.error('Failed to save branch template setting', upsertError, {
+        userId: user.id,
+        metadata: { treeId, templateId, branchId: branch_id }
+      })
+      return NextResponse.json(
+        { error: 'Failed to save branch template setting' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Branch template setting saved', {
+      userId: user.id,
+      metadata: { treeId, templateId, branchId: branch_id, enabled }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { branch_id, template_id: templateId, enabled },
+      message: enabled ? 'Prompt template turned on' : 'Prompt template turned off'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error saving branch template setting')
+  }
+}
+
+/**
+ * DELETE /api/trees/[treeId]/prompt-templates/[templateId]
+ * Remove one of the tree's own templates, including from trees it was shared with
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, templateId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('tree_id', treeId)
+      .select('id')
+
+    if (deleteError) {
+      logger.error('Failed to delete prompt template', deleteError, {
+        userId: user.id,
+        metadata: { treeId, templateId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to delete prompt template' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Prompt template deleted', {
+      userId: user.id,
+      metadata: { treeId, templateId }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Prompt template deleted'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error deleting prompt template')
+  }
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { promptTemplateCreateSchema, uuidSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreeBranch, requireTreePermission } from '@/lib/email/tree-manager-access'
+import { PromptTemplateLibrary } from '@/lib/ai/promptTemplateLibrary'
+
+const logger = createComponentLogger('PromptTemplatesAPI')
+
+const TEMPLATE_MANAGER_ONLY = 'Only tree managers can manage prompt templates'
+
+// 20 template changes per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 20,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ treeId: string }> }
+
+/**
+ * GET /api/trees/[treeId]/prompt-templates?branch_id=<branchId>
+ * List the built-in, family and shared templates a tree can use. With a
+ * branch, each template says whether it is on in that branch.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const branchId = req.nextUrl.searchParams.get('branch_id') || undefined
+
+    if (branchId && !uuidSchema.safeParse(branchId).success) {
+      return NextResponse.json(
+        { error: 'A valid branch id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+    if (branchId) {
+      await requireTreeBranch(supabase, treeId, branchId)
+    }
+
+    const templates = await new PromptTemplateLibrary(supabase).listTreeTemplates(treeId, branchId)
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching prompt templates')
+  }
+}
+
+/**
+ * POST /api/trees/[treeId]/prompt-templates
+ * Add a family template, optionally shared with other trees the user manages
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { treeId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = promptTemplateCreateSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const sharedTreeIds = [...new Set(validationResult.data.shared_tree_ids)].filter(id => id !== treeId)
+      for (const id of [treeId, ...sharedTreeIds]) {
+        await requireTreePermission(supabase, id, user.id, 'canManagePerson', TEMPLATE_MANAGER_ONLY)
+      }
+
+      const { data: template, error: insertError } = await supabase
+        .from('prompt_templates')
+        .insert({
+          ...validationResult.data,
+          tree_id: treeId,
+          shared_tree_ids: sharedTreeIds,
+          created_by: user.id
+        })
+        .select()
+        .single()
+
+      if (insertError) {
+        logger.error('Failed to create prompt template', insertError, {
+          userId: user.id,
+          metadata: { treeId }
+        })
+        return NextResponse.json(
+          { error: 'Failed to create prompt template' },
+          { status: 500 }
+        )
+      }
+
+      logger.info('Prompt template created', {
+        userId: user.id,
+        metadata: { treeId, templateId: template.id, sharedWith: sharedTreeIds.length }
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: template,
+          message: 'Prompt template created'
+        },
+        { status: 201 }
+      )
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error creating prompt template')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { recapUpdateSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreeBranch, requireTreePermission } from '@/lib/email/tree-manager-access'
+import { RecapStoryGenerator, type PersonRecap } from '@/lib/ai/recapStories'
+
+const logger = createComponentLogger('RecapAPI')
+
+const RECAP_MANAGER_ONLY = 'Only tree managers can manage recaps'
+
+type RouteParams = { params: Promise<{ treeId: string; recapId: string }> }
+
+/**
+ * PATCH /api/trees/[treeId]/recaps/[recapId]
+ * Edit a recap's title or story, and optionally publish it to a branch
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, recapId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = recapUpdateSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', RECAP_MANAGER_ONLY)
+
+    const { title, narrative, publish, branch_id } = validationResult.data
+    if (branch_id) {
+      await requireTreeBranch(supabase, treeId, branch_id)
+    }
+
+    const { data: existing } = await supabase
+      .from('person_recaps')
+      .select('*')
+      .eq('id', recapId)
+      .eq('tree_id', treeId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Recap not found' },
+        { status: 404 }
+      )
+    }
+
+    // Publishing posts into a branch the manager may not belong to
+    const generator = new RecapStoryGenerator(createServiceClient())
+    let recap = existing as PersonRecap
+
+    if (title !== undefined || narrative !== undefined) {
+      recap = await generator.updateRecap(recap, { title, narrative })
+    }
+    if (publish) {
+      recap = await generator.publishRecap(recap, user.id, branch_id)
+    }
+
+    logger.info('Recap updated', {
+      userId: user.id,
+      metadata: { treeId, recapId, published: Boolean(publish) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: recap,
+      message: publish ? 'Recap published' : 'Recap updated'
+    })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    logger.error('Unexpected error updating recap', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { recapGenerateSchema } from '@/lib/validation/schemas'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { getPreviousRecapPeriod, RecapStoryGenerator } from '@/lib/ai/recapStories'
+
+const logger = createComponentLogger('RecapsAPI')
+
+const RECAP_MANAGER_ONLY = 'Only tree managers can manage recaps'
+
+// Writing a recap calls the AI provider: 5 per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 5,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ treeId: string }> }
+
+/**
+ * GET /api/trees/[treeId]/recaps
+ * List a tree's recaps, drafts included, newest period first
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', RECAP_MANAGER_ONLY)
+
+    const { data: recaps, error } = await supabase
+      .from('person_recaps')
+      .select('*')
+      .eq('tree_id', treeId)
+      .order('period_start', { ascending: false })
+      .limit(24)
+
+    if (error) {
+      logger.error('Failed to fetch recaps', error, { userId: user.id, metadata: { treeId } })
+      return NextResponse.json(
+        { error: 'Failed to fetch recaps' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: recaps || []
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching recaps')
+  }
+}
+
+/**
+ * POST /api/trees/[treeId]/recaps
+ * Write the draft recap for a month or year, by default the last full one
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { treeId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = recapGenerateSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      await requireTreePermission(supabase, treeId, user.id, 'canManagePerson', RECAP_MANAGER_ONLY)
+
+      const { period_type, period_date, regenerate } = validationResult.data
+      const date = period_date
+        ? new Date(`${period_date}T00:00:00.000Z`)
+        : new Date(`${getPreviousRecapPeriod(period_type, new Date()).start}T00:00:00.000Z`)
+
+      // Recaps read leaves from every branch of the tree, so the manager's
+      // own branch memberships don't limit what the story covers
+      const generator = new RecapStoryGenerator(createServiceClient())
+      const recap = await generator.generateRecap(treeId, period_type, date, { regenerate })
+
+      if (!recap) {
+        return NextResponse.json(
+          { error: 'No memories were shared in this period' },
+          { status: 404 }
+        )
+      }
+
+      logger.info('Recap requested', {
+        userId: user.id,
+        metadata: { treeId, recapId: recap.id, periodType: period_type, periodStart: recap.period_start }
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: recap,
+        message: recap.status === 'published' ? 'This recap is already published' : 'Recap draft ready'
+      })
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error writing recap')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
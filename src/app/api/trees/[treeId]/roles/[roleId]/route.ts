@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { customRoleUpdateSchema } from '@/lib/validation/schemas'
+import { SecurityError, ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+import { CustomRoleService } from '@/lib/custom-roles'
+
+const logger = createComponentLogger('TreeRoleAPI')
+
+const ROLE_OWNER_ONLY = 'Only the tree owner can change custom roles'
+
+type RouteParams = { params: Promise<{ treeId: string; roleId: string }> }
+
+/**
+ * PATCH /api/trees/[treeId]/roles/[roleId]
+ * Rename a custom role or change its permissions. Members who hold it get
+ * the new permissions on their next request.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, roleId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let requestData: unknown
+    try {
+      requestData = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = customRoleUpdateSchema.safeParse(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err =>
+            `${err.path.join('.')}: ${err.message}`
+          ),
+        },
+        { status: 400 }
+      )
+    }
+
+    const tree = await requireTreePermission(supabase, treeId, user.id, 'canRead')
+    if (!tree.permissions.isOwner) {
+      throw new SecurityError(ROLE_OWNER_ONLY, 'treeId')
+    }
+
+    const role = await new CustomRoleService(supabase).updateRole(treeId, roleId, validationResult.data)
+
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Custom role not found' },
+        { status: 404 }
+      )
+    }
+
+    // Drop cached permissions so the change applies right away. The owner
+    // may not see every member's grants, so look holders up as the service.
+    const holders = await new CustomRoleService(createServiceClient()).getRoleHolders(roleId)
+    const rbac = createServerRBAC(supabase)
+    for (const holderId of holders) {
+      await rbac.clearCache(holderId)
+    }
+
+    logger.info('Custom role updated', {
+      userId: user.id,
+      metadata: { treeId, roleId, fields: Object.keys(validationResult.data), holders: holders.length }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: role,
+      message: 'Custom role updated'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error updating custom role')
+  }
+}
+
+/**
+ * DELETE /api/trees/[treeId]/roles/[roleId]
+ * Remove a custom role nobody holds any more
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId, roleId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const tree = await requireTreePermission(supabase, treeId, user.id, 'canRead')
+    if (!tree.permissions.isOwner) {
+      throw new SecurityError(ROLE_OWNER_ONLY, 'treeId')
+    }
+
+    const holders = await new CustomRoleService(createServiceClient()).getRoleHolders(roleId)
+    if (holders.length > 0) {
+      throw new ValidationError(
+        `Give the ${holders.length === 1 ? 'member' : `${holders.length} members`} with this role another role first`,
+        { code: 'ROLE_IN_USE', statusCode: 409 }
+      )
+    }
+
+    const deleted = await new CustomRoleService(supabase).deleteRole(treeId, roleId)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Custom role not found' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Custom role deleted', {
+      userId: user.id,
+      metadata: { treeId, roleId }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Custom role deleted'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error deleting custom role')
+  }
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { customRoleCreateSchema } from '@/lib/validation/schemas'
+import { SecurityError, ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+import { CustomRoleService } from '@/lib/custom-roles'
+
+const logger = createComponentLogger('TreeRolesAPI')
+
+const ROLE_OWNER_ONLY = 'Only the tree owner can define custom roles'
+
+// 20 role changes per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 20,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ treeId: string }> }
+
+/**
+ * GET /api/trees/[treeId]/roles
+ * The tree's custom roles with the permissions each one grants
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canRead')
+
+    const roles = await new CustomRoleService(supabase).listTreeRoles(treeId)
+
+    return NextResponse.json({
+      success: true,
+      data: roles
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching custom roles')
+  }
+}
+
+/**
+ * POST /api/trees/[treeId]/roles
+ * Define a custom role, e.g. "Photo contributor" with post create and read
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { treeId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = customRoleCreateSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const tree = await requireTreePermission(supabase, treeId, user.id, 'canRead')
+      if (!tree.permissions.isOwner) {
+        throw new SecurityError(ROLE_OWNER_ONLY, 'treeId')
+      }
+
+      const role = await new CustomRoleService(supabase).createRole(treeId, validationResult.data, user.id)
+
+      logger.info('Custom role created', {
+        userId: user.id,
+        metadata: { treeId, roleId: role.id, permissions: role.permissions.length }
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: role,
+          message: 'Custom role created'
+        },
+        { status: 201 }
+      )
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error creating custom role')
+    }
+  })(req)
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
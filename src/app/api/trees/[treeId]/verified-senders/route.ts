@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimitMiddleware } from '@/lib/validation/middleware'
+import { verifiedSenderCreateSchema, uuidSchema } from '@/lib/validation/schemas'
+import { sanitizeEmail } from '@/lib/validation/sanitization'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '@/lib/logger'
+import { requireTreePermission } from '@/lib/email/tree-manager-access'
+
+const logger = createComponentLogger('VerifiedSendersAPI')
+
+const EMAIL_SETTINGS_MANAGER_ONLY = 'Only tree managers can manage email settings'
+
+// 20 allowlist changes per minute per user
+const rateLimitMiddleware = createRateLimitMiddleware({
+  maxRequests: 20,
+  windowMs: 60 * 1000, // 1 minute
+  keyGenerator: (req) => {
+    const userId = req.headers.get('x-user-id')
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    return userId ? `user:${userId}` : `ip:${ip}`
+  },
+})
+
+type RouteParams = { params: Promise<{ treeId: string }> }
+
+/**
+ * GET /api/trees/[treeId]/verified-senders
+ * List the addresses allowed to email memories into a person tree
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    const { data: senders, error } = await supabase
+      .from('tree_verified_senders')
+      .select('*')
+      .eq('tree_id', treeId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch verified senders', error, {
+        userId: user.id,
+        metadata: { treeId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to fetch verified senders' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: senders || []
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error fetching verified senders')
+  }
+}
+
+/**
+ * POST /api/trees/[treeId]/verified-senders
+ * Add a sender to the allowlist, linked to their profile when they have one
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  return rateLimitMiddleware(async (req: NextRequest) => {
+    try {
+      const { treeId } = await params
+      const supabase = await createClient()
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      let requestData: unknown
+      try {
+        requestData = await req.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = verifiedSenderCreateSchema.safeParse(requestData)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues.map(err =>
+              `${err.path.join('.')}: ${err.message}`
+            ),
+          },
+          { status: 400 }
+        )
+      }
+
+      const emailAddress = sanitizeEmail(validationResult.data.email_address)?.toLowerCase()
+      if (!emailAddress) {
+        throw new ValidationError('Invalid email address', { field: 'email_address' })
+      }
+
+      await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', emailAddress)
+        .maybeSingle()
+
+      const { data: sender, error: insertError } = await supabase
+        .from('tree_verified_senders')
+        .insert({
+          tree_id: treeId,
+          email_address: emailAddress,
+          profile_id: profile?.id || null,
+          label: validationResult.data.label || null,
+          added_by: user.id
+        })
+        .select()
+        .single()
+
+      if (insertError) {
+        if (insertError.code === '23505') { // Unique constraint violation
+          return NextResponse.json(
+            { error: 'This sender is already on the allowlist' },
+            { status: 409 }
+          )
+        }
+
+        logger.error('Failed to add verified sender', insertError, {
+          userId: user.id,
+          metadata: { treeId }
+        })
+        return NextResponse.json(
+          { error: 'Failed to add verified sender' },
+          { status: 500 }
+        )
+      }
+
+      logger.info('Verified sender added', {
+        userId: user.id,
+        metadata: { treeId, senderId: sender.id, linkedProfile: !!profile }
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: sender,
+          message: 'Sender added to allowlist'
+        },
+        { status: 201 }
+      )
+
+    } catch (error) {
+      return handleError(error, 'Unexpected error adding verified sender')
+    }
+  })(req)
+}
+
+/**
+ * DELETE /api/trees/[treeId]/verified-senders?id=<senderId>
+ * Remove a sender from the allowlist
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { treeId } = await params
+    const senderId = req.nextUrl.searchParams.get('id')
+
+    if (!senderId || !uuidSchema.safeParse(senderId).success) {
+      return NextResponse.json(
+        { error: 'A valid sender id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await requireTreePermission(supabase, treeId, user.id, 'canManageEmailAddresses', EMAIL_SETTINGS_MANAGER_ONLY)
+
+    const { data: removed, error } = await supabase
+      .from('tree_verified_senders')
+      .delete()
+      .eq('id', senderId)
+      .eq('tree_id', treeId)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to remove verified sender', error, {
+        userId: user.id,
+        metadata: { treeId, senderId }
+      })
+      return NextResponse.json(
+        { error: 'Failed to remove verified sender' },
+        { status: 500 }
+      )
+    }
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Verified sender not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Sender removed from allowlist'
+    })
+
+  } catch (error) {
+    return handleError(error, 'Unexpected error removing verified sender')
+  }
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    )
+  }
+
+  logger.error(message, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
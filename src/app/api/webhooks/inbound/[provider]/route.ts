@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleInboundEmailWebhook } from '@/lib/email/webhook-handler'
+import { getInboundAdapter } from '@/lib/email/providers'
+import { withSecurity } from '@/lib/security/middleware'
+
+/**
+ * POST /api/webhooks/inbound/[provider]
+ * Provider-agnostic inbound email endpoint (sendgrid, mailgun, postmark, raw)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+  const adapter = getInboundAdapter(provider)
+
+  if (!adapter) {
+    return NextResponse.json(
+      { error: `Unsupported inbound email provider: ${provider}` },
+      { status: 404 }
+    )
+  }
+
+  const securedHandler = withSecurity(
+    (request: NextRequest) => handleInboundEmailWebhook(request, adapter),
+    {
+      rateLimit: 'webhooks',
+      allowedMethods: ['POST']
+    }
+  )
+
+  return securedHandler(req)
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
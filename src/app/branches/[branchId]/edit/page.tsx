@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
 import { rbac, getUserBranchPermissions, getCrossTreeAccess, createCrossTreeAccess, revokeCrossTreeAccess } from '@/lib/rbac'
 import type { User } from '@supabase/supabase-js'
-import type { BranchPermissions, CrossTreeAccess, Branch } from '@/types/database'
+import type { BranchPermissions, CrossTreeAccess, Branch, CustomRole } from '@/types/database'
 import { BranchMemberWithProfile, TreeInfo } from '@/types/common'
 import {
   BranchGeneralSettings,
@@ -26,6 +26,9 @@ export default function BranchEditPage({ params }: PageProps) {
   const [user, setUser] = useState<User | null>(null)
   const [branch, setBranch] = useState<Branch | null>(null)
   const [members, setMembers] = useState<BranchMemberWithProfile[]>([])
+  const [roleExpiries, setRoleExpiries] = useState<Record<string, string>>({})
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([])
+  const [customRoleIds, setCustomRoleIds] = useState<Record<string, string>>({})
   const [permissions, setPermissions] = useState<BranchPermissions | null>(null)
   const [crossTreeAccess, setCrossTreeAccess] = useState<CrossTreeAccess[]>([])
   const [availableTrees, setAvailableTrees] = useState<TreeInfo[]>([])
@@ -112,6 +115,22 @@ export default function BranchEditPage({ params }: PageProps) {
           setMembers(formattedMembers)
         }
 
+        // Temporary roles end at their grant's expires_at
+        const grants = await rbac.getRoleGrants({ type: 'branch', id: branchId })
+        setRoleExpiries(Object.fromEntries(
+          grants.filter(grant => grant.expires_at).map(grant => [grant.user_id, grant.expires_at!])
+        ))
+        setCustomRoleIds(Object.fromEntries(
+          grants.filter(grant => grant.role?.is_system_role === false).map(grant => [grant.user_id, grant.role_id])
+        ))
+
+        // The tree's own roles can be given alongside the system ones
+        const rolesResponse = await fetch(`/api/trees/${branchData.tree_id}/roles`)
+        if (rolesResponse.ok) {
+          const rolesResult = await rolesResponse.json()
+          setCustomRoles(rolesResult.data as CustomRole[])
+        }
+
         // Load cross-tree access
         const accessData = await getCrossTreeAccess(branchId)
         setCrossTreeAccess(accessData)
@@ -187,32 +206,38 @@ export default function BranchEditPage({ params }: PageProps) {
     }
   }
 
-  const handleRoleChange = async (memberId: string, newRole: string, memberUserId: string) => {
+  const handleRoleChange = async (memberId: string, newRole: string, memberUserId: string, expiresAt: string | null = null) => {
     try {
-      // Use RBAC to assign the new role
-      const roleAssigned = await rbac.assignRole(
-        memberUserId,
-        newRole as 'owner' | 'admin' | 'moderator' | 'member',
-        { type: 'branch', id: branchId },
-        user!.id
-      )
-
-      if (!roleAssigned) {
-        throw new Error('Failed to assign role')
-      }
+      // Custom roles are picked by id, system roles by name
+      const response = await fetch(`/api/branches/${branchId}/members/${memberUserId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: newRole, expires_at: expiresAt })
+      })
+      const result = await response.json()
 
-      // Update the member's role in the branch_members table for compatibility
-      const { error: memberError } = await supabase
-        .from('branch_members')
-        .update({ role: newRole })
-        .eq('id', memberId)
+      if (!response.ok) {
+        throw new Error(result.details?.join(', ') || result.error || 'Failed to assign role')
+      }
 
-      if (memberError) throw memberError
+      const { role: compatibleRole, custom_role_id: customRoleId } = result.data as { role: string; custom_role_id: string | null }
 
       // Update local state
       setMembers(prev => prev.map(member => 
-        member.id === memberId ? { ...member, role: newRole } : member
+        member.id === memberId ? { ...member, role: compatibleRole } : member
       ))
+      setCustomRoleIds(prev => {
+        const next = { ...prev }
+        delete next[memberUserId]
+        if (customRoleId) next[memberUserId] = customRoleId
+        return next
+      })
+      setRoleExpiries(prev => {
+        const next = { ...prev }
+        delete next[memberUserId]
+        if (expiresAt) next[memberUserId] = expiresAt
+        return next
+      })
 
       showSuccess('Member role updated successfully!')
       
@@ -224,16 +249,12 @@ export default function BranchEditPage({ params }: PageProps) {
 
   const handleRemoveMember = async (memberId: string, memberName: string, memberUserId: string) => {
     try {
-      // Remove from branch_members table
-      const { error: memberError } = await supabase
-        .from('branch_members')
-        .delete()
-        .eq('id', memberId)
-
-      if (memberError) throw memberError
+      const response = await fetch(`/api/branches/${branchId}/members/${memberUserId}`, { method: 'DELETE' })
+      const result = await response.json()
 
-      // Remove from RBAC system
-      await rbac.removeRole(memberUserId, { type: 'branch', id: branchId })
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove member')
+      }
 
       // Update local state
       setMembers(prev => prev.filter(member => member.id !== memberId))
@@ -400,7 +421,12 @@ export default function BranchEditPage({ params }: PageProps) {
 
           {activeTab === 'members' && (
             <BranchMembersManager
+              branchId={branchId}
+              treeId={branch.tree_id}
               members={members}
+              roleExpiries={roleExpiries}
+              customRoles={customRoles}
+              customRoleIds={customRoleIds}
               permissions={permissions}
               currentUserId={user!.id}
               onRoleChange={handleRoleChange}
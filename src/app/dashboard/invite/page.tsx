@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
 import InviteClient from './invite-client'
 
 export default async function InvitePage() {
@@ -11,8 +12,8 @@ export default async function InvitePage() {
     redirect('/auth/login')
   }
 
-  // Get user's trees where they are admin or have permission to invite
-  const { data: trees, error: treesError } = await supabase
+  // Get the user's trees, then keep the ones they may invite to
+  const { data: memberTrees, error: treesError } = await supabase
     .from('trees')
     .select(`
       *,
@@ -27,9 +28,14 @@ export default async function InvitePage() {
       )
     `)
     .eq('tree_members.user_id', user.id)
-    .in('tree_members.role', ['admin', 'member'])
 
-  if (treesError || !trees || trees.length === 0) {
+  const rbac = createServerRBAC(supabase)
+  const permissions = await Promise.all(
+    (memberTrees || []).map(tree => rbac.getTreePermissions(user.id, tree.id))
+  )
+  const trees = (memberTrees || []).filter((_, index) => permissions[index].canInviteMembers)
+
+  if (treesError || trees.length === 0) {
     redirect('/dashboard')
   }
 
@@ -42,58 +42,11 @@ export default function AcceptInviteClient({ invitation, currentUser }: AcceptIn
       const user = currentUser
       if (!user) throw new Error('No user found')
 
-      // Mark invitation as accepted
-      const { error: updateError } = await supabase
-        .from('invitations')
-        .update({
-          status: 'accepted',
-          accepted_at: new Date().toISOString()
-        })
-        .eq('id', invitation.id)
+      const response = await fetch(`/api/invitations/${invitation.token}/accept`, { method: 'POST' })
+      const result = await response.json()
 
-      if (updateError) throw updateError
-
-      // Get the tree_id from the branch first
-      const { data: branch, error: branchError } = await supabase
-        .from('branches')
-        .select('tree_id')
-        .eq('id', invitation.branch_id)
-        .single()
-
-      if (branchError || !branch) throw new Error('Branch not found')
-
-      // Add user to tree
-      const { error: memberError } = await supabase
-        .from('tree_members')
-        .insert({
-          tree_id: branch.tree_id,
-          user_id: user.id,
-          role: invitation.role
-        })
-
-      if (memberError) throw memberError
-
-      // For MVP, add user to all branches in the tree
-      // In a full implementation, you'd store specific branch selections
-      const { data: branches, error: branchesError } = await supabase
-        .from('branches')
-        .select('id')
-        .eq('tree_id', branch.tree_id)
-
-      if (branchesError) throw branchesError
-
-      if (branches && branches.length > 0) {
-        const branchMemberInserts = branches.map(branch => ({
-          branch_id: branch.id,
-          user_id: user.id,
-          role: invitation.role
-        }))
-
-        const { error: branchMemberError } = await supabase
-          .from('branch_members')
-          .insert(branchMemberInserts)
-
-        if (branchMemberError) throw branchMemberError
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to accept invitation')
       }
 
       // Success! Redirect to dashboard
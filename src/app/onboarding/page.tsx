@@ -3,7 +3,6 @@
 import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase/client'
-import { rbac } from '@/lib/rbac'
 import { useRouter } from 'next/navigation'
 import { createComponentLogger } from '@/lib/logger'
 import GuidedTour, { useGuidedTour } from '@/components/tour/GuidedTour'
@@ -134,90 +133,21 @@ export default function OnboardingPage() {
 
     setLoading(true)
     try {
-      let tree = null
-      
-      // Create required tree
-      const { data: treeData, error: treeError } = await supabase
-        .from('trees')
-        .insert({
-          name: treeName.trim(),
-          description: treeDescription.trim() || null,
-          created_by: user.id
-        })
-        .select()
-        .single()
-
-      if (treeError) throw treeError
-      tree = treeData
-
-      // Assign owner role using RBAC system (tree creator gets owner role)
-      const ownerAssigned = await rbac.assignRole(
-        user.id,
-        'owner',
-        { type: 'tree', id: tree.id },
-        user.id
-      )
-
-      if (!ownerAssigned) {
-        throw new Error('Failed to assign owner role to tree')
-      }
-
-      // Add user as member for backward compatibility
-      const { error: memberError } = await supabase
-        .from('tree_members')
-        .insert({
-          tree_id: tree.id,
-          user_id: user.id,
-          role: 'owner'
+      // Empty branch rows are left out
+      const response = await fetch('/api/onboarding', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tree: { name: treeName.trim(), description: treeDescription.trim() },
+          branches: branches
+            .filter(branch => branch.name.trim())
+            .map(({ name, description, color }) => ({ name, description, color }))
         })
+      })
+      const result = await response.json()
 
-      if (memberError) throw memberError
-
-      // Create branches within the tree
-      for (const branch of branches) {
-        if (branch.name.trim()) {
-          const { data: newBranch, error: branchError } = await supabase
-            .from('branches')
-            .insert({
-              tree_id: tree.id, // Required tree association
-              name: branch.name,
-              description: branch.description,
-              color: branch.color,
-              type: branch.type,
-              privacy: branch.privacy,
-              created_by: user.id,
-              // Family branches are always private and not discoverable
-            })
-            .select()
-            .single()
-
-          if (branchError) throw branchError
-
-          // Assign owner role using RBAC system (branch creator gets owner role)
-          const ownerAssigned = await rbac.assignRole(
-            user.id,
-            'owner',
-            { type: 'branch', id: newBranch.id },
-            user.id
-          )
-
-          if (!ownerAssigned) {
-            throw new Error('Failed to assign owner role to branch')
-          }
-
-          // Add user to branch_members for backward compatibility
-          const { error: branchMemberError } = await supabase
-            .from('branch_members')
-            .insert({
-              branch_id: newBranch.id,
-              user_id: user.id,
-              role: 'owner',
-              join_method: 'admin_added',
-              status: 'active'
-            })
-
-          if (branchMemberError) throw branchMemberError
-        }
+      if (!response.ok) {
+        throw new Error(result.details?.join(', ') || result.error || 'Failed to create tree')
       }
 
       router.push('/dashboard')
@@ -6,6 +6,8 @@ import { Tree, Branch, LeafWithDetails, Milestone, ReactionType } from '@/types/
 import TreeTimeline from '@/components/leaves/TreeTimeline'
 import LeafCreator from '@/components/leaves/LeafCreator'
 import LeafViewer from '@/components/leaves/LeafViewer'
+import MilestoneTrackerPanel from '@/components/leaves/MilestoneTrackerPanel'
+import RecapDraftsPanel from '@/components/leaves/RecapDraftsPanel'
 import { 
   getTreeLeaves, 
   addLeafReaction, 
@@ -16,7 +18,9 @@ import {
 ,
   CreateLeafData
 } from '@/lib/leaves'
+import { calculateAgeInMonths, getMilestoneProgress, MilestoneProgress } from '@/lib/milestone-tracker'
 import { supabase } from '@/lib/supabase/client'
+import { getUserTreePermissions } from '@/lib/rbac'
 import { createComponentLogger } from '@/lib/logger'
 
 const logger = createComponentLogger('TreeLeavesPage')
@@ -26,6 +30,11 @@ const logger = createComponentLogger('TreeLeavesPage')
  */
 function calculateChildAge(tree: Tree): number | undefined {
   try {
+    const ageMonths = calculateAgeInMonths(tree.person_birth_date)
+    if (ageMonths !== null) {
+      return ageMonths
+    }
+
     // Check if there's a birth date in tree settings
     if (tree.settings?.custom_fields?.child_birth_date) {
       const birthDate = new Date(tree.settings.custom_fields.child_birth_date as string)
@@ -61,12 +70,15 @@ export default function TreeLeavesPage() {
   const [branches, setBranches] = useState<Branch[]>([])
   const [leaves, setLeaves] = useState<LeafWithDetails[]>([])
   const [milestones, setMilestones] = useState<Milestone[]>([])
+  const [milestoneProgress, setMilestoneProgress] = useState<MilestoneProgress | null>(null)
+  const [isTreeManager, setIsTreeManager] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [hasMore, setHasMore] = useState(true)
   const [offset, setOffset] = useState(0)
 
   // UI State
   const [showCreator, setShowCreator] = useState(false)
+  const [creatorMilestone, setCreatorMilestone] = useState<string | undefined>(undefined)
   const [viewerIndex, setViewerIndex] = useState<number | null>(null)
   // Tree stats removed as they're not used in the UI
 
@@ -94,6 +106,12 @@ export default function TreeLeavesPage() {
 
       setTree(treeData)
 
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        const permissions = await getUserTreePermissions(user.id, treeId)
+        setIsTreeManager(permissions.canManagePerson)
+      }
+
       // Load branches for this tree
       const { data: branchData, error: branchError } = await supabase
         .from('branches')
@@ -118,6 +136,8 @@ export default function TreeLeavesPage() {
       const milestonesData = await getMilestones()
       setMilestones(milestonesData)
 
+      setMilestoneProgress(await getMilestoneProgress(treeId))
+
       // Load initial leaves
       const leavesData = await getTreeLeaves(treeId, 20, 0)
       setLeaves(leavesData)
@@ -187,6 +207,16 @@ export default function TreeLeavesPage() {
     }
   }
 
+  const openCreator = (milestone?: Milestone) => {
+    setCreatorMilestone(milestone?.name)
+    setShowCreator(true)
+  }
+
+  const closeCreator = () => {
+    setShowCreator(false)
+    setCreatorMilestone(undefined)
+  }
+
   const handleCreateLeaf = async (leafData: CreateLeafData) => {
     try {
       const newLeaf = await createLeaf({
@@ -198,7 +228,11 @@ export default function TreeLeavesPage() {
         // Refresh leaves list
         const updatedLeaves = await getTreeLeaves(treeId, 20, 0)
         setLeaves(updatedLeaves)
-        setShowCreator(false)
+        closeCreator()
+
+        if (newLeaf.milestone_type) {
+          setMilestoneProgress(await getMilestoneProgress(treeId))
+        }
 
         // Stats update removed
       }
@@ -253,7 +287,7 @@ export default function TreeLeavesPage() {
             </div>
             
             <button
-              onClick={() => setShowCreator(true)}
+              onClick={() => openCreator()}
               className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors flex items-center space-x-2"
             >
               <span>+</span>
@@ -265,6 +299,20 @@ export default function TreeLeavesPage() {
 
       {/* Main Content */}
       <div className="py-6">
+        {milestoneProgress && (
+          <MilestoneTrackerPanel
+            progress={milestoneProgress}
+            onCaptureMilestone={openCreator}
+          />
+        )}
+
+        {isTreeManager && (
+          <RecapDraftsPanel
+            treeId={treeId}
+            onPublished={async () => setLeaves(await getTreeLeaves(treeId, 20, 0))}
+          />
+        )}
+
         <TreeTimeline
           treeId={treeId}
           treeName={tree.name}
@@ -288,8 +336,9 @@ export default function TreeLeavesPage() {
               treeName={tree.name}
               childAge={calculateChildAge(tree)}
               milestones={milestones}
+              initialMilestone={creatorMilestone}
               onSave={handleCreateLeaf}
-              onCancel={() => setShowCreator(false)}
+              onCancel={closeCreator}
             />
           </div>
         </div>
@@ -311,7 +360,7 @@ export default function TreeLeavesPage() {
 
       {/* Floating Action Button for Mobile */}
       <button
-        onClick={() => setShowCreator(true)}
+        onClick={() => openCreator()}
         className="fixed bottom-6 right-6 w-14 h-14 bg-green-500 text-white rounded-full shadow-lg hover:bg-green-600 transition-colors flex items-center justify-center text-2xl md:hidden"
       >
         +
@@ -0,0 +1,102 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase/client'
+import { getUserTreePermissions } from '@/lib/rbac'
+import type { Tree, TreePermissions } from '@/types/database'
+import TreeRolesManager from '@/components/trees/TreeRolesManager'
+import { createComponentLogger } from '@/lib/logger'
+
+const logger = createComponentLogger('TreeSettingsPage')
+
+export default function TreeSettingsPage() {
+  const params = useParams()
+  const router = useRouter()
+  const treeId = params?.treeId as string
+
+  const [tree, setTree] = useState<Tree | null>(null)
+  const [permissions, setPermissions] = useState<TreePermissions | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadTree = async () => {
+      try {
+        const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+        if (userError || !user) {
+          router.push('/auth/login')
+          return
+        }
+
+        const { data: treeData, error: treeError } = await supabase
+          .from('trees')
+          .select('*')
+          .eq('id', treeId)
+          .single()
+
+        if (treeError || !treeData) {
+          logger.error('Error loading tree', treeError, { metadata: { treeId } })
+          router.push('/trees')
+          return
+        }
+
+        const treePermissions = await getUserTreePermissions(user.id, treeId)
+        if (!treePermissions.canManageMembers) {
+          router.push('/trees')
+          return
+        }
+
+        setTree(treeData)
+        setPermissions(treePermissions)
+        setLoading(false)
+      } catch (error) {
+        logger.error('Error loading tree settings', error, { metadata: { treeId } })
+        router.push('/trees')
+      }
+    }
+
+    if (treeId) {
+      loadTree()
+    }
+  }, [treeId, router])
+
+  if (loading || !tree || !permissions) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/trees')}
+                className="mr-4 p-2 text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">
+                Tree Settings: {tree.name}
+              </h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6">
+          <TreeRolesManager treeId={treeId} canEdit={permissions.isOwner} />
+        </div>
+      </div>
+    </div>
+  )
+}
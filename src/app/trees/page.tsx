@@ -2,7 +2,7 @@
 
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { useCurrentUser, useUserTrees } from '@/hooks'
+import { useCurrentUser, useUserTrees, useUserTreePermissions } from '@/hooks'
 
 export default function TreesPage() {
   const router = useRouter()
@@ -13,6 +13,7 @@ export default function TreesPage() {
 
   const loading = userLoading || treesLoading
   const trees = treesData?.data || []
+  const treePermissions = useUserTreePermissions(user?.id || '', trees.map(treeData => treeData.tree_id))
 
   // Redirect to login if no user or error
   useEffect(() => {
@@ -65,49 +66,55 @@ export default function TreesPage() {
 
         {/* Trees Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {trees.map((treeData) => (
-            <div key={treeData.tree_id} className="bg-white rounded-lg shadow p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-gray-900">
-                  {treeData.trees?.name}
-                </h3>
-                <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                  treeData.role === 'owner' 
-                    ? 'bg-blue-100 text-blue-800' 
-                    : treeData.role === 'admin'
-                    ? 'bg-purple-100 text-purple-800'
-                    : 'bg-gray-100 text-gray-800'
-                }`}>
-                  {treeData.role}
-                </span>
-              </div>
+          {trees.map((treeData) => {
+            const permissions = treePermissions[treeData.tree_id]
+            // Members without an assigned role still belong to the tree
+            const role = permissions && permissions.userRole !== 'none' ? permissions.userRole : 'member'
 
-              {treeData.trees?.description && (
-                <p className="text-gray-600 text-sm mb-4">
-                  {treeData.trees.description}
-                </p>
-              )}
+            return (
+              <div key={treeData.tree_id} className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {treeData.trees?.name}
+                  </h3>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    role === 'owner' 
+                      ? 'bg-blue-100 text-blue-800' 
+                      : role === 'admin'
+                      ? 'bg-purple-100 text-purple-800'
+                      : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {role}
+                  </span>
+                </div>
 
-              <div className="text-xs text-gray-500 mb-4">
-                Created {treeData.trees?.created_at ? new Date(treeData.trees.created_at).toLocaleDateString() : 'Unknown'}
-              </div>
+                {treeData.trees?.description && (
+                  <p className="text-gray-600 text-sm mb-4">
+                    {treeData.trees.description}
+                  </p>
+                )}
 
-              <div className="flex items-center justify-between">
-                <div className="text-sm text-gray-600">
-                  {treeData.role === 'owner' ? 'You own this tree' : 'Tree member'}
+                <div className="text-xs text-gray-500 mb-4">
+                  Created {treeData.trees?.created_at ? new Date(treeData.trees.created_at).toLocaleDateString() : 'Unknown'}
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-gray-600">
+                    {permissions?.isOwner ? 'You own this tree' : 'Tree member'}
+                  </div>
                 
-                {(treeData.role === 'owner' || treeData.role === 'admin') && (
-                  <button
-                    onClick={() => router.push(`/trees/${treeData.tree_id}/settings`)}
-                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                  >
-                    Manage
-                  </button>
-                )}
+                  {permissions?.canManageMembers && (
+                    <button
+                      onClick={() => router.push(`/trees/${treeData.tree_id}/settings`)}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                    >
+                      Manage
+                    </button>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
 
         {/* Empty State */}
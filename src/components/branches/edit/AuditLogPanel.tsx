@@ -0,0 +1,124 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { AuditLogCategory, DescribedAuditLogEntry } from '@/lib/audit-log'
+import { createComponentLogger } from '@/lib/logger'
+
+const logger = createComponentLogger('AuditLogPanel')
+
+const PAGE_SIZE = 20
+
+interface AuditLogPanelProps {
+  branchId: string
+  treeId: string
+  category: AuditLogCategory
+  title: string
+}
+
+/**
+ * Who changed what, for the branch or its whole tree, filterable by actor
+ */
+export default function AuditLogPanel({ branchId, treeId, category, title }: AuditLogPanelProps) {
+  const [scope, setScope] = useState<'branch' | 'tree'>('branch')
+  const [actorId, setActorId] = useState('')
+  const [entries, setEntries] = useState<DescribedAuditLogEntry[]>([])
+  const [actors, setActors] = useState<Record<string, string>>({})
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async (before?: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const query = new URLSearchParams({ category, limit: String(PAGE_SIZE) })
+      if (actorId) query.set('actor_id', actorId)
+      if (before) query.set('before', before)
+
+      const basePath = scope === 'branch' ? `/api/branches/${branchId}` : `/api/trees/${treeId}`
+      const response = await fetch(`${basePath}/audit-log?${query}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Could not load the audit log')
+        return
+      }
+
+      const page = result.data as DescribedAuditLogEntry[]
+      setEntries(prev => before ? [...prev, ...page] : page)
+      setHasMore(page.length === PAGE_SIZE)
+      setActors(prev => {
+        const next = { ...prev }
+        page.forEach(entry => {
+          if (entry.actor_id) next[entry.actor_id] = entry.actor_name
+        })
+        return next
+      })
+    } catch (loadError) {
+      logger.error('Failed to load audit log', loadError, { metadata: { branchId, treeId, scope } })
+      setError('Could not load the audit log')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [branchId, treeId, category, scope, actorId])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <div className="flex items-center space-x-3">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'branch' | 'tree')}
+            aria-label="Audit log scope"
+            className="px-3 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="branch">This branch</option>
+            <option value="tree">Whole tree</option>
+          </select>
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            aria-label="Filter by person"
+            className="px-3 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Everyone</option>
+            {Object.entries(actors).map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+        {entries.map(entry => (
+          <li key={entry.id} className="px-4 py-3 text-sm">
+            <div className="text-gray-900">{entry.summary}</div>
+            <div className="text-xs text-gray-500 mt-1">
+              {entry.actor_name} · {new Date(entry.created_at).toLocaleString()}
+            </div>
+          </li>
+        ))}
+        {!isLoading && !error && entries.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-gray-500">No changes recorded yet.</li>
+        )}
+      </ul>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+      {hasMore && !isLoading && (
+        <button
+          onClick={() => loadEntries(entries[entries.length - 1]?.created_at)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Show older changes
+        </button>
+      )}
+    </div>
+  )
+}
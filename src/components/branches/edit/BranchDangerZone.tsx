@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import type { Branch } from '@/types/database'
+import AuditLogPanel from './AuditLogPanel'
 
 interface BranchDangerZoneProps {
   branch: Branch
@@ -130,6 +131,13 @@ export default function BranchDangerZone({ branch, onDelete }: BranchDangerZoneP
           </div>
         </div>
       </div>
+
+      <AuditLogPanel
+        branchId={branch.id}
+        treeId={branch.tree_id}
+        category="sharing"
+        title="Privacy and sharing history"
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,14 +1,24 @@
 'use client'
 
 import { useState } from 'react'
-import type { BranchPermissions } from '@/types/database'
+import type { BranchPermissions, CustomRole } from '@/types/database'
 import type { BranchMemberWithProfile } from '@/types/common'
+import { BRANCH_PERMISSION_LABELS, grantedBranchPermissions, type BranchPermissionFlag } from '@/lib/custom-roles'
+import { createComponentLogger } from '@/lib/logger'
+import AuditLogPanel from './AuditLogPanel'
+
+const logger = createComponentLogger('BranchMembersManager')
 
 interface BranchMembersManagerProps {
+  branchId: string
+  treeId: string
   members: BranchMemberWithProfile[]
+  roleExpiries?: Record<string, string> // user_id -> when their role ends
+  customRoles?: CustomRole[]             // the tree's own roles
+  customRoleIds?: Record<string, string> // user_id -> custom role they hold here
   permissions: BranchPermissions
   currentUserId: string
-  onRoleChange: (memberId: string, newRole: string, memberUserId: string) => Promise<void>
+  onRoleChange: (memberId: string, newRole: string, memberUserId: string, expiresAt?: string | null) => Promise<void>
   onRemoveMember: (memberId: string, memberName: string, memberUserId: string) => Promise<void>
   onInviteClick: () => void
 }
@@ -20,8 +30,21 @@ const roleOptions = [
   { value: 'member', label: 'Member', description: 'Can view and participate in the branch' }
 ]
 
+// How long a role lasts, e.g. a weekend for a babysitter or a month for a guest admin
+const accessDurationOptions = [
+  { value: 'permanent', label: 'Permanent', days: 0 },
+  { value: 'weekend', label: 'For 3 days', days: 3 },
+  { value: 'week', label: 'For 7 days', days: 7 },
+  { value: 'month', label: 'For 30 days', days: 30 }
+]
+
 export default function BranchMembersManager({
+  branchId,
+  treeId,
   members,
+  roleExpiries = {},
+  customRoles = [],
+  customRoleIds = {},
   permissions,
   currentUserId,
   onRoleChange,
@@ -29,11 +52,13 @@ export default function BranchMembersManager({
   onInviteClick
 }: BranchMembersManagerProps) {
   const [loadingActions, setLoadingActions] = useState<Record<string, boolean>>({})
+  const [previews, setPreviews] = useState<Record<string, BranchPermissions>>({})
+  const [previewError, setPreviewError] = useState<string | null>(null)
 
-  const handleRoleChange = async (memberId: string, newRole: string, memberUserId: string) => {
+  const handleRoleChange = async (memberId: string, newRole: string, memberUserId: string, expiresAt: string | null) => {
     setLoadingActions(prev => ({ ...prev, [`role-${memberId}`]: true }))
     try {
-      await onRoleChange(memberId, newRole, memberUserId)
+      await onRoleChange(memberId, newRole, memberUserId, expiresAt)
     } finally {
       setLoadingActions(prev => ({ ...prev, [`role-${memberId}`]: false }))
     }
@@ -52,6 +77,54 @@ export default function BranchMembersManager({
     }
   }
 
+  const handleDurationChange = (member: BranchMemberWithProfile, duration: string) => {
+    const days = accessDurationOptions.find(option => option.value === duration)?.days || 0
+    const expiresAt = days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null
+    return handleRoleChange(member.id, getMemberRoleValue(member), member.user_id, expiresAt)
+  }
+
+  // Custom roles are selected by id, system roles by name
+  const getMemberRoleValue = (member: BranchMemberWithProfile) => customRoleIds[member.user_id] || member.role
+
+  const getRoleDescription = (member: BranchMemberWithProfile) => {
+    const customRole = customRoles.find(role => role.id === customRoleIds[member.user_id])
+    if (!customRole) {
+      return roleOptions.find(r => r.value === member.role)?.description
+    }
+    return customRole.description ||
+      grantedBranchPermissions(customRole.permissions).map(flag => BRANCH_PERMISSION_LABELS[flag]).join(', ')
+  }
+
+  const togglePreview = async (member: BranchMemberWithProfile) => {
+    if (previews[member.user_id]) {
+      setPreviews(prev => {
+        const next = { ...prev }
+        delete next[member.user_id]
+        return next
+      })
+      return
+    }
+
+    setPreviewError(null)
+    setLoadingActions(prev => ({ ...prev, [`preview-${member.id}`]: true }))
+    try {
+      const response = await fetch(`/api/branches/${branchId}/members/${member.user_id}/permissions`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        setPreviewError(result.error || 'Could not load the member\'s permissions')
+        return
+      }
+
+      setPreviews(prev => ({ ...prev, [member.user_id]: result.data as BranchPermissions }))
+    } catch (error) {
+      logger.error('Failed to preview member permissions', error, { metadata: { branchId, memberId: member.user_id } })
+      setPreviewError('Could not load the member\'s permissions')
+    } finally {
+      setLoadingActions(prev => ({ ...prev, [`preview-${member.id}`]: false }))
+    }
+  }
+
   const getMemberDisplayName = (member: BranchMemberWithProfile) => {
     const firstName = member.profiles?.first_name || ''
     const lastName = member.profiles?.last_name || ''
@@ -99,6 +172,11 @@ export default function BranchMembersManager({
                   </div>
                   <div className="text-sm text-gray-500">
                     Joined {new Date(member.joined_at).toLocaleDateString()}
+                    {roleExpiries[member.user_id] && (
+                      <span className="text-amber-600">
+                        {' · '}Access until {new Date(roleExpiries[member.user_id]).toLocaleString()}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -106,8 +184,8 @@ export default function BranchMembersManager({
               <div className="flex items-center space-x-3">
                 {/* Role Selector */}
                 <select
-                  value={member.role}
-                  onChange={(e) => handleRoleChange(member.id, e.target.value, member.user_id)}
+                  value={getMemberRoleValue(member)}
+                  onChange={(e) => handleRoleChange(member.id, e.target.value, member.user_id, roleExpiries[member.user_id] || null)}
                   disabled={member.user_id === currentUserId || !permissions?.canManageMembers}
                   className="px-3 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                 >
@@ -116,8 +194,48 @@ export default function BranchMembersManager({
                       {role.label}
                     </option>
                   ))}
+                  {customRoles.length > 0 && (
+                    <optgroup label="Custom roles">
+                      {customRoles.map((role) => (
+                        <option key={role.id} value={role.id}>
+                          {role.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
                 </select>
 
+                {/* Access Duration */}
+                {member.user_id !== currentUserId && permissions?.canManageMembers && (
+                  <select
+                    value=""
+                    onChange={(e) => handleDurationChange(member, e.target.value)}
+                    disabled={loadingActions[`role-${member.id}`]}
+                    aria-label="Access duration"
+                    className="px-3 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <option value="" disabled>
+                      {roleExpiries[member.user_id] ? 'Access: temporary' : 'Access: permanent'}
+                    </option>
+                    {accessDurationOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {/* Permission Preview */}
+                {permissions?.canManageMembers && (
+                  <button
+                    onClick={() => togglePreview(member)}
+                    disabled={loadingActions[`preview-${member.id}`]}
+                    className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded text-sm disabled:opacity-50"
+                  >
+                    {previews[member.user_id] ? 'Hide permissions' : 'Preview permissions'}
+                  </button>
+                )}
+
                 {/* Remove Button */}
                 {member.user_id !== currentUserId && permissions?.canManageMembers && (
                   <button
@@ -134,18 +252,40 @@ export default function BranchMembersManager({
             {/* Role Description */}
             <div className="mt-2 ml-13">
               <div className="text-xs text-gray-500">
-                {roleOptions.find(r => r.value === member.role)?.description}
+                {getRoleDescription(member)}
               </div>
             </div>
+
+            {/* Effective Permissions */}
+            {previews[member.user_id] && (
+              <ul className="mt-3 ml-13 grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm">
+                {(Object.keys(BRANCH_PERMISSION_LABELS) as BranchPermissionFlag[]).map(flag => (
+                  <li key={flag} className={previews[member.user_id][flag] ? 'text-green-700' : 'text-gray-400'}>
+                    {previews[member.user_id][flag] ? '✓' : '✗'} {BRANCH_PERMISSION_LABELS[flag]}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         ))}
 
+        {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+
         {members.length === 0 && (
           <div className="text-center py-8 text-gray-500">
             No members found.
           </div>
         )}
       </div>
+
+      {permissions?.canManageMembers && (
+        <AuditLogPanel
+          branchId={branchId}
+          treeId={treeId}
+          category="members"
+          title="Member and role history"
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
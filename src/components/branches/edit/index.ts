@@ -1,4 +1,5 @@
 export { default as BranchGeneralSettings } from './BranchGeneralSettings'
 export { default as BranchMembersManager } from './BranchMembersManager'
 export { default as BranchPermissionsManager } from './BranchPermissionsManager'
-export { default as BranchDangerZone } from './BranchDangerZone'
\ No newline at end of file
+export { default as BranchDangerZone } from './BranchDangerZone'
+export { default as AuditLogPanel } from './AuditLogPanel'
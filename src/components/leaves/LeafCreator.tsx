@@ -17,6 +17,8 @@ import { LoadingButton, LoadingOverlay } from '@/components/ui/LoadingSpinner'
 import { ErrorDisplay, InlineError } from '@/components/ui/ErrorDisplay'
 import { ErrorBoundary } from '@/components/errors/ErrorBoundary'
 import { Icon } from '@/components/ui/IconLibrary'
+import LeafInterview from '@/components/leaves/LeafInterview'
+import type { InterviewDraft } from '@/lib/ai/interviewDraftSchema'
 
 const logger = createComponentLogger('LeafCreator')
 
@@ -25,6 +27,7 @@ interface LeafCreatorProps {
   treeName: string
   childAge?: number
   milestones: Milestone[]
+  initialMilestone?: string
   onSave: (leafData: LeafData) => Promise<void>
   onCancel: () => void
 }
@@ -47,19 +50,21 @@ export default function LeafCreator({
   treeName, 
   childAge,
   milestones,
+  initialMilestone,
   onSave, 
   onCancel 
 }: LeafCreatorProps) {
-  const [step, setStep] = useState<'capture' | 'enhance' | 'save'>('capture')
-  const [leafType, setLeafType] = useState<LeafType>('photo')
+  const [step, setStep] = useState<'capture' | 'interview' | 'enhance' | 'save'>('capture')
+  const [leafType, setLeafType] = useState<LeafType>(initialMilestone ? 'milestone' : 'photo')
   const [selectedBranch, setSelectedBranch] = useState<string>(branches[0]?.id || '')
   const [content, setContent] = useState('')
   const [tags, setTags] = useState<string[]>([])
-  const [selectedMilestone, setSelectedMilestone] = useState<string>('')
+  const [selectedMilestone, setSelectedMilestone] = useState<string>(initialMilestone || '')
   const [milestoneDate, setMilestoneDate] = useState('')
   const [season, setSeason] = useState('')
   const [isEnhancing, setIsEnhancing] = useState(false)
   const [enhancement, setEnhancement] = useState<LeafEnhancementResult | null>(null)
+  const [caption, setCaption] = useState('')
   const [isSaving, setIsSaving] = useState(false)
   const [userProfile, setUserProfile] = useState<{ first_name: string; last_name: string } | null>(null)
 
@@ -231,6 +236,26 @@ export default function LeafCreator({
     }
   }
 
+  const handleInterviewDraft = (draft: InterviewDraft) => {
+    setContent(draft.content)
+    setCaption(draft.caption)
+    setTags(prev => [...new Set([...prev, ...draft.tags])])
+
+    // Only milestones the creator can offer
+    if (draft.milestoneType && milestones.some(milestone => milestone.name === draft.milestoneType)) {
+      setSelectedMilestone(draft.milestoneType)
+      setLeafType('milestone')
+    }
+    if (draft.date) {
+      setMilestoneDate(draft.date)
+    }
+    if (draft.season) {
+      setSeason(draft.season)
+    }
+
+    setStep('enhance')
+  }
+
   const handleSave = async () => {
     setIsSaving(true)
     try {
@@ -266,7 +291,7 @@ export default function LeafCreator({
         milestone_type: selectedMilestone || undefined,
         milestone_date: milestoneDate || undefined,
         season,
-        ai_caption: enhancement?.suggestedCaption,
+        ai_caption: caption || enhancement?.suggestedCaption,
         ai_tags: enhancement?.suggestedTags || []
       }
 
@@ -444,14 +469,24 @@ export default function LeafCreator({
         >
           Cancel
         </button>
-        <button
-          onClick={() => setStep('enhance')}
-          disabled={!content.trim() && fileUpload.files.length === 0}
-          className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        >
-          <Icon name="sparkles" size="sm" className="mr-2" />
-          Next: Enhance
-        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setStep('interview')}
+            disabled={!content.trim() && fileUpload.files.length === 0}
+            className="px-4 py-2 text-purple-600 hover:text-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Icon name="sparkles" size="sm" className="mr-2" />
+            Let Sage interview me
+          </button>
+          <button
+            onClick={() => setStep('enhance')}
+            disabled={!content.trim() && fileUpload.files.length === 0}
+            className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Icon name="sparkles" size="sm" className="mr-2" />
+            Next: Enhance
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -502,6 +537,19 @@ export default function LeafCreator({
         </div>
       )}
 
+      {/* Caption from the interview */}
+      {caption && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Caption</label>
+          <input
+            type="text"
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
       {/* Tags */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">Tags</label>
@@ -549,7 +597,7 @@ export default function LeafCreator({
             </option>
           ))}
         </select>
-        {selectedMilestone && (
+        {(selectedMilestone || milestoneDate) && (
           <input
             type="date"
             value={milestoneDate}
@@ -602,6 +650,14 @@ export default function LeafCreator({
   return (
     <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg p-6">
       {step === 'capture' && renderCaptureStep()}
+      {step === 'interview' && (
+        <LeafInterview
+          subject={content.trim() || `A ${leafType} of ${treeName}`}
+          mediaCount={fileUpload.files.length}
+          onDraft={handleInterviewDraft}
+          onCancel={() => setStep('capture')}
+        />
+      )}
       {step === 'enhance' && renderEnhanceStep()}
     </div>
   )
@@ -0,0 +1,136 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import type { InterviewSession } from '@/lib/ai/interviewSessions'
+import type { InterviewDraft } from '@/lib/ai/interviewDraftSchema'
+import { createComponentLogger } from '@/lib/logger'
+import { Icon } from '@/components/ui/IconLibrary'
+
+const logger = createComponentLogger('LeafInterview')
+
+interface LeafInterviewProps {
+  subject: string
+  mediaCount: number
+  onDraft: (draft: InterviewDraft) => void
+  onCancel: () => void
+}
+
+/**
+ * Sage asks a few questions about the memory, then hands back a leaf draft
+ */
+export default function LeafInterview({ subject, mediaCount, onDraft, onCancel }: LeafInterviewProps) {
+  const [session, setSession] = useState<InterviewSession | null>(null)
+  const [answer, setAnswer] = useState('')
+  const [isWaiting, setIsWaiting] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = async (url: string, body: object): Promise<InterviewSession | null> => {
+    setIsWaiting(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Sage could not continue the interview')
+        return null
+      }
+      return result.data as InterviewSession
+    } catch (requestError) {
+      logger.error('Interview request failed', requestError, { metadata: { url } })
+      setError('Sage could not continue the interview')
+      return null
+    } finally {
+      setIsWaiting(false)
+    }
+  }
+
+  useEffect(() => {
+    request('/api/ai/interviews', { subject, media_count: mediaCount }).then(setSession)
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const sendAnswer = async (finish: boolean) => {
+    if (!session || !answer.trim()) return
+
+    const updated = await request(`/api/ai/interviews/${session.id}`, { answer: answer.trim(), finish })
+    if (!updated) return
+
+    setSession(updated)
+    setAnswer('')
+    if (updated.status === 'drafted' && updated.draft) {
+      onDraft(updated.draft)
+    }
+  }
+
+  const currentTurn = session?.turns[session.turns.length - 1]
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+        Tell Sage about it <Icon name="sparkles" size="md" className="text-flower-400" />
+      </h2>
+
+      <div className="space-y-3">
+        {session?.turns.filter(turn => turn.answer).map((turn, index) => (
+          <div key={index} className="text-sm">
+            <p className="text-purple-900 font-medium">{turn.question}</p>
+            <p className="text-gray-700 mt-1">{turn.answer}</p>
+          </div>
+        ))}
+      </div>
+
+      {currentTurn && !currentTurn.answer && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-purple-900">{currentTurn.question}</label>
+            <span className="text-xs text-gray-500">
+              {session.turns.length} of {session.question_count}
+            </span>
+          </div>
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            rows={3}
+            disabled={isWaiting}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+      )}
+
+      {isWaiting && (
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          <Icon name="sparkles" size="sm" className="animate-pulse" /> Sage is thinking...
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          ← Back
+        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => sendAnswer(true)}
+            disabled={isWaiting || !answer.trim()}
+            className="px-4 py-2 text-purple-600 hover:text-purple-800 disabled:opacity-50 transition-colors"
+          >
+            Answer and write it up
+          </button>
+          <button
+            onClick={() => sendAnswer(false)}
+            disabled={isWaiting || !answer.trim()}
+            className="px-6 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50 transition-colors"
+          >
+            Answer
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
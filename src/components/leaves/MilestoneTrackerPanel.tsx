@@ -0,0 +1,97 @@
+'use client'
+
+import React from 'react'
+import { format } from 'date-fns'
+import { Milestone } from '@/types/database'
+import { MilestoneProgress } from '@/lib/milestone-tracker'
+
+interface MilestoneTrackerPanelProps {
+  progress: MilestoneProgress
+  onCaptureMilestone?: (milestone: Milestone) => void
+}
+
+function formatAge(months: number): string {
+  if (months < 24) return `${months} month${months === 1 ? '' : 's'}`
+  const years = Math.floor(months / 12)
+  return `${years} years`
+}
+
+export default function MilestoneTrackerPanel({ progress, onCaptureMilestone }: MilestoneTrackerPanelProps) {
+  const { personName, ageMonths, achieved, upcoming, uncaptured } = progress
+
+  if (ageMonths === null && achieved.length === 0) {
+    return null
+  }
+
+  const renderMilestone = (milestone: Milestone, hint: string) => (
+    <li key={milestone.id} className="flex items-center justify-between py-1">
+      <span className="flex items-center space-x-2">
+        <span>{milestone.icon || '⭐'}</span>
+        <span className="text-gray-800">{milestone.display_name}</span>
+        <span className="text-xs text-gray-500">{hint}</span>
+      </span>
+      {onCaptureMilestone && (
+        <button
+          onClick={() => onCaptureMilestone(milestone)}
+          className="text-xs text-green-600 hover:text-green-700"
+        >
+          Capture
+        </button>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 pb-6">
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-900">Milestones</h2>
+          {ageMonths !== null && (
+            <span className="text-sm text-gray-600">{personName} is {formatAge(ageMonths)} old</span>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Captured ({achieved.length})</h3>
+            {achieved.length === 0 ? (
+              <p className="text-sm text-gray-500">No milestones captured yet</p>
+            ) : (
+              <ul className="text-sm">
+                {achieved.map(({ milestone, achievedAt }) => (
+                  <li key={milestone.id} className="flex items-center space-x-2 py-1">
+                    <span>{milestone.icon || '⭐'}</span>
+                    <span className="text-gray-800">{milestone.display_name}</span>
+                    <span className="text-xs text-gray-500">{format(new Date(achievedAt), 'MMM d, yyyy')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Coming up ({upcoming.length})</h3>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing due in the next few months</p>
+            ) : (
+              <ul className="text-sm">
+                {upcoming.map(milestone => renderMilestone(milestone, `around ${formatAge(milestone.typical_age_months ?? 0)}`))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Not captured ({uncaptured.length})</h3>
+            {uncaptured.length === 0 ? (
+              <p className="text-sm text-gray-500">All caught up</p>
+            ) : (
+              <ul className="text-sm">
+                {uncaptured.map(milestone => renderMilestone(milestone, `usually ${formatAge(milestone.typical_age_months ?? 0)}`))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import type { PersonRecap, RecapPeriodType } from '@/lib/ai/recapStories'
+import { createComponentLogger } from '@/lib/logger'
+
+const logger = createComponentLogger('RecapDraftsPanel')
+
+interface RecapDraftsPanelProps {
+  treeId: string
+  onPublished?: (recap: PersonRecap) => void
+}
+
+/**
+ * Lets tree managers write, edit and publish monthly and yearly recaps
+ */
+export default function RecapDraftsPanel({ treeId, onPublished }: RecapDraftsPanelProps) {
+  const [drafts, setDrafts] = useState<PersonRecap[]>([])
+  const [editing, setEditing] = useState<Record<string, { title: string; narrative: string }>>({})
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trees/${treeId}/recaps`)
+      if (!response.ok) {
+        return
+      }
+      const { data } = await response.json()
+      setDrafts((data as PersonRecap[]).filter(recap => recap.status === 'draft'))
+    } catch (loadError) {
+      logger.error('Error loading recap drafts', loadError, { metadata: { treeId } })
+    }
+  }, [treeId])
+
+  useEffect(() => {
+    loadDrafts()
+  }, [loadDrafts])
+
+  const request = async (key: string, url: string, method: string, body: object) => {
+    setBusy(key)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Something went wrong')
+        return null
+      }
+      return result.data as PersonRecap
+    } catch (requestError) {
+      logger.error('Recap request failed', requestError, { metadata: { treeId, key } })
+      setError('Something went wrong')
+      return null
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const writeRecap = async (periodType: RecapPeriodType) => {
+    const recap = await request(periodType, `/api/trees/${treeId}/recaps`, 'POST', { period_type: periodType })
+    if (recap) {
+      await loadDrafts()
+    }
+  }
+
+  const saveRecap = async (recap: PersonRecap, publish: boolean) => {
+    const edits = editing[recap.id]
+    const updated = await request(recap.id, `/api/trees/${treeId}/recaps/${recap.id}`, 'PATCH', {
+      ...(edits && { title: edits.title, narrative: edits.narrative }),
+      ...(publish && { publish: true })
+    })
+    if (!updated) {
+      return
+    }
+
+    setEditing(prev => {
+      const { [recap.id]: _saved, ...rest } = prev // eslint-disable-line @typescript-eslint/no-unused-vars
+      return rest
+    })
+    if (updated.status === 'published') {
+      setDrafts(prev => prev.filter(draft => draft.id !== recap.id))
+      onPublished?.(updated)
+    } else {
+      setDrafts(prev => prev.map(draft => draft.id === recap.id ? updated : draft))
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 pb-6">
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-900">Recaps</h2>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => writeRecap('monthly')}
+              disabled={busy !== null}
+              className="text-sm text-green-600 hover:text-green-700 disabled:opacity-50"
+            >
+              {busy === 'monthly' ? 'Writing...' : 'Recap last month'}
+            </button>
+            <button
+              onClick={() => writeRecap('yearly')}
+              disabled={busy !== null}
+              className="text-sm text-green-600 hover:text-green-700 disabled:opacity-50"
+            >
+              {busy === 'yearly' ? 'Writing...' : 'Recap last year'}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        {drafts.length === 0 ? (
+          <p className="text-sm text-gray-500">No recap drafts waiting. New ones are written at the start of each month.</p>
+        ) : (
+          <ul className="space-y-4">
+            {drafts.map(recap => {
+              const edits = editing[recap.id] || { title: recap.title, narrative: recap.narrative }
+              const setEdits = (changes: Partial<typeof edits>) =>
+                setEditing(prev => ({ ...prev, [recap.id]: { ...edits, ...changes } }))
+
+              return (
+                <li key={recap.id} className="border border-gray-200 rounded-lg p-3">
+                  <input
+                    value={edits.title}
+                    onChange={event => setEdits({ title: event.target.value })}
+                    className="w-full font-medium text-gray-900 border-b border-gray-200 mb-2 focus:outline-none focus:border-green-500"
+                  />
+                  <textarea
+                    value={edits.narrative}
+                    onChange={event => setEdits({ narrative: event.target.value })}
+                    rows={6}
+                    className="w-full text-sm text-gray-700 border border-gray-200 rounded p-2 focus:outline-none focus:border-green-500"
+                  />
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-xs text-gray-500">
+                      {recap.highlights.leafCount} memories · {recap.highlights.milestones.length} milestones
+                    </span>
+                    <div className="flex space-x-3">
+                      {editing[recap.id] && (
+                        <button
+                          onClick={() => saveRecap(recap, false)}
+                          disabled={busy !== null}
+                          className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                        >
+                          Save draft
+                        </button>
+                      )}
+                      <button
+                        onClick={() => saveRecap(recap, true)}
+                        disabled={busy !== null}
+                        className="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+                      >
+                        {busy === recap.id ? 'Saving...' : 'Publish'}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
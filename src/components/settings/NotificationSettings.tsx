@@ -30,6 +30,13 @@ export default function NotificationSettings() {
     setTimeout(() => setShowSuccess(false), 3000)
   }
 
+  const handlePromptFrequency = (promptFrequency: NotificationPreferencesForm['prompt_frequency']) => {
+    updatePreferences({ prompt_frequency: promptFrequency })
+
+    setShowSuccess(true)
+    setTimeout(() => setShowSuccess(false), 3000)
+  }
+
   const handleReset = () => {
     resetToDefaults()
     setShowSuccess(true)
@@ -308,6 +315,33 @@ export default function NotificationSettings() {
         </div>
       </div>
 
+      {/* Memory Prompts */}
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+          </svg>
+          Memory Prompts
+        </h3>
+        <label className="flex items-center justify-between">
+          <div>
+            <div className="font-medium text-gray-900">Prompt frequency</div>
+            <div className="text-sm text-gray-600">How often we suggest a memory to capture, outside your quiet hours</div>
+          </div>
+          <select
+            value={(preferences as unknown as NotificationPreferencesForm)?.prompt_frequency ?? 'every_few_days'}
+            onChange={(e) => handlePromptFrequency(e.target.value as NotificationPreferencesForm['prompt_frequency'])}
+            disabled={isUpdating}
+            className="border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:ring-amber-500 focus:border-amber-500 disabled:opacity-50"
+          >
+            <option value="daily">Daily</option>
+            <option value="every_few_days">Every few days</option>
+            <option value="weekly">Weekly</option>
+            <option value="never">Never</option>
+          </select>
+        </label>
+      </div>
+
       {/* In-App Notifications */}
       <div className="bg-green-50 border border-green-200 rounded-lg p-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
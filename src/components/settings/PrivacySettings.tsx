@@ -8,6 +8,29 @@ export default function PrivacySettings() {
   const [showEmail, setShowEmail] = useState(false)
   const [showJoinDate, setShowJoinDate] = useState(true)
   const [allowSearchByEmail, setAllowSearchByEmail] = useState(false)
+  const [forgettingHistory, setForgettingHistory] = useState(false)
+  const [historyStatus, setHistoryStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleForgetAIHistory = async () => {
+    if (!window.confirm('Forget everything Sage remembers from your conversations? This cannot be undone.')) {
+      return
+    }
+
+    setForgettingHistory(true)
+    setHistoryStatus(null)
+
+    try {
+      const response = await fetch('/api/ai/conversation-memory', { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to forget AI history')
+      }
+      setHistoryStatus({ type: 'success', text: 'Sage has forgotten your conversation history.' })
+    } catch (err) {
+      setHistoryStatus({ type: 'error', text: (err as Error).message || 'Failed to forget AI history' })
+    } finally {
+      setForgettingHistory(false)
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -120,6 +143,32 @@ export default function PrivacySettings() {
         </div>
       </div>
 
+      {/* AI Assistant History */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">AI Assistant History</h3>
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="font-medium text-gray-900">Forget my AI history</div>
+            <div className="text-sm text-gray-600">
+              Sage remembers your recent conversations in each branch for up to 180 days
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={handleForgetAIHistory}
+            disabled={forgettingHistory}
+            className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {forgettingHistory ? 'Forgetting...' : 'Forget History'}
+          </button>
+        </div>
+        {historyStatus && (
+          <p className={`text-sm mt-2 ${historyStatus.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+            {historyStatus.text}
+          </p>
+        )}
+      </div>
+
       {/* Information Box */}
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
         <div className="flex">
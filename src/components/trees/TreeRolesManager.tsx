@@ -0,0 +1,283 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { CustomRole, PermissionGrant } from '@/types/database'
+import {
+  BRANCH_PERMISSION_LABELS,
+  PERMISSION_ACTIONS,
+  RESOURCE_TYPES,
+  grantedBranchPermissions
+} from '@/lib/custom-roles'
+import { createComponentLogger } from '@/lib/logger'
+import { showSuccess, showError } from '@/lib/toast-service'
+
+const logger = createComponentLogger('TreeRolesManager')
+
+interface TreeRolesManagerProps {
+  treeId: string
+  canEdit: boolean // only the tree owner defines roles
+}
+
+interface RoleDraft {
+  id?: string
+  name: string
+  description: string
+  permissions: PermissionGrant[]
+}
+
+// New roles start out able to see the branch, which most roles need
+const emptyDraft = (): RoleDraft => ({
+  name: '',
+  description: '',
+  permissions: [
+    { resource_type: 'branch', action: 'read' },
+    { resource_type: 'post', action: 'read' }
+  ]
+})
+
+/**
+ * The tree's own roles, each a set of cells picked from the resource × action matrix
+ */
+export default function TreeRolesManager({ treeId, canEdit }: TreeRolesManagerProps) {
+  const [roles, setRoles] = useState<CustomRole[]>([])
+  const [draft, setDraft] = useState<RoleDraft | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRoles = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/trees/${treeId}/roles`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Could not load custom roles')
+        return
+      }
+
+      setRoles(result.data as CustomRole[])
+    } catch (loadError) {
+      logger.error('Failed to load custom roles', loadError, { metadata: { treeId } })
+      setError('Could not load custom roles')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [treeId])
+
+  useEffect(() => {
+    loadRoles()
+  }, [loadRoles])
+
+  const isPicked = (grant: PermissionGrant) =>
+    draft?.permissions.some(picked => picked.resource_type === grant.resource_type && picked.action === grant.action) || false
+
+  const togglePermission = (grant: PermissionGrant) => {
+    setDraft(prev => prev && {
+      ...prev,
+      permissions: isPicked(grant)
+        ? prev.permissions.filter(picked => !(picked.resource_type === grant.resource_type && picked.action === grant.action))
+        : [...prev.permissions, grant]
+    })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        draft.id ? `/api/trees/${treeId}/roles/${draft.id}` : `/api/trees/${treeId}/roles`,
+        {
+          method: draft.id ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name,
+            description: draft.description || null,
+            permissions: draft.permissions
+          })
+        }
+      )
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.details?.join(', ') || result.error || 'Failed to save role')
+      }
+
+      showSuccess(draft.id ? 'Role updated' : 'Role created')
+      setDraft(null)
+      await loadRoles()
+    } catch (saveError) {
+      logger.error('Failed to save custom role', saveError, { metadata: { treeId, roleId: draft.id } })
+      showError(saveError instanceof Error ? saveError.message : 'Failed to save role')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (role: CustomRole) => {
+    if (!window.confirm(`Delete the ${role.name} role?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/trees/${treeId}/roles/${role.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete role')
+      }
+
+      showSuccess(`${role.name} deleted`)
+      setRoles(prev => prev.filter(item => item.id !== role.id))
+    } catch (deleteError) {
+      logger.error('Failed to delete custom role', deleteError, { metadata: { treeId, roleId: role.id } })
+      showError(deleteError instanceof Error ? deleteError.message : 'Failed to delete role')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Custom roles</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Roles of your own that branch admins can give members, alongside Owner, Admin, Moderator, Member and Viewer.
+          </p>
+        </div>
+        {canEdit && !draft && (
+          <button
+            onClick={() => setDraft(emptyDraft())}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            New role
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {draft && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Photo contributor"
+                maxLength={50}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Can share photos but not comment"
+                maxLength={200}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-500 pr-4 py-2"></th>
+                  {PERMISSION_ACTIONS.map(action => (
+                    <th key={action} className="font-medium text-gray-500 px-2 py-2 capitalize">{action}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {RESOURCE_TYPES.map(resourceType => (
+                  <tr key={resourceType}>
+                    <td className="text-gray-900 pr-4 py-2 capitalize">{resourceType}s</td>
+                    {PERMISSION_ACTIONS.map(action => (
+                      <td key={action} className="text-center px-2 py-2">
+                        <input
+                          type="checkbox"
+                          checked={isPicked({ resource_type: resourceType, action })}
+                          onChange={() => togglePermission({ resource_type: resourceType, action })}
+                          aria-label={`${action} ${resourceType}s`}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-sm text-gray-600">
+            <span className="font-medium text-gray-700">In a branch, members with this role can: </span>
+            {grantedBranchPermissions(draft.permissions).map(flag => BRANCH_PERMISSION_LABELS[flag]).join(', ') || 'nothing yet'}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.name.trim() || draft.permissions.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save role'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+        {roles.map(role => (
+          <li key={role.id} className="px-4 py-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900">{role.name}</div>
+                {role.description && <div className="text-sm text-gray-600">{role.description}</div>}
+                <div className="text-xs text-gray-500 mt-1">
+                  {grantedBranchPermissions(role.permissions).map(flag => BRANCH_PERMISSION_LABELS[flag]).join(' · ') || 'No branch permissions'}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setDraft({
+                      id: role.id,
+                      name: role.name,
+                      description: role.description || '',
+                      permissions: role.permissions
+                    })}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(role)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+        {!isLoading && !error && roles.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-gray-500">No custom roles yet.</li>
+        )}
+      </ul>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+    </div>
+  )
+}
@@ -6,11 +6,41 @@ export const WEBHOOK_CONFIG = {
   // Email processing
   EMAIL: {
     USER_EMAIL_PREFIX: 'u-',
+    PERSON_EMAIL_PREFIX: 'person-',
+    PLUS_TAG_SEPARATOR: '+',
+    REPLY_LOCAL_PART: 'reply', // replies to notifications arrive at reply+<token>@
     MILESTONE_KEYWORDS: ['milestone', 'achievement', 'first', 'birthday', 'anniversary'],
     MAX_CAPTION_LENGTH: 100,
+    MAX_RECIPIENTS: 10, // To and CC addresses resolved per email
     ALLOWED_DOMAINS: ['colinrodrigues.com']
   },
+
+  // Readable person-tree aliases such as emma.smith@
+  ALIASES: {
+    MIN_LENGTH: 3,
+    MAX_LENGTH: 40,
+    MAX_ACTIVE_PER_TREE: 5,
+    // Reserved mailbox names and anything the legacy address parsing would claim
+    RESERVED_WORDS: [
+      'abuse', 'admin', 'administrator', 'billing', 'contact', 'help', 'hello', 'hostmaster',
+      'info', 'legal', 'mailer-daemon', 'no-reply', 'noreply', 'postmaster', 'privacy',
+      'reply', 'root', 'sales', 'security', 'support', 'team', 'webmaster'
+    ],
+    RESERVED_PREFIXES: ['u-', 'person-', 'user']
+  },
   
+  // Idempotent ingestion
+  INGESTION: {
+    // A record stuck in `processing` longer than this is treated as abandoned and may be retried
+    PROCESSING_TIMEOUT_MS: 5 * 60 * 1000
+  },
+
+  // Confirmation and failure notices sent back to email senders
+  FEEDBACK: {
+    // Caps the damage if an auto-responder slips past the loop checks
+    MAX_PER_SENDER_PER_HOUR: 10
+  },
+
   // Validation
   LIMITS: {
     MAX_ATTACHMENT_SIZE: 10 * 1024 * 1024, // 10MB
@@ -21,7 +51,13 @@ export const WEBHOOK_CONFIG = {
   // Regex patterns
   PATTERNS: {
     UUID: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
-    HASHTAG: /#\w+/g
+    HASHTAG: /#\w+/g,
+    // Subject commands: [branch:Summer Trip], #branch:Vacations, [milestone:first_steps], [date:2024-05-01]
+    EMAIL_COMMAND_BRACKET: /\[(branch|milestone|date):\s*([^\]]+?)\s*\]/gi,
+    EMAIL_COMMAND_HASHTAG: /#(branch|milestone|date):(\S+)/gi,
+    EMAIL_ADDRESS: /<([^<>\s]+@[^<>\s]+)>/,
+    // Lowercase letters and digits separated by single dots, dashes or underscores
+    EMAIL_ALIAS: /^[a-z0-9]+(?:[._-][a-z0-9]+)*$/
   }
 } as const
 
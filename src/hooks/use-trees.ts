@@ -3,10 +3,11 @@
  * Custom hooks for tree-related data fetching using TanStack Query
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query'
 import { treeService } from '@/lib/data'
 import { queryKeys, invalidateQueries } from '@/lib/query-client'
-import { Tree, TreeMember } from '@/types/database'
+import { getUserTreePermissions } from '@/lib/rbac'
+import { Tree, TreeMember, TreePermissions } from '@/types/database'
 import { TreeWithMembers } from '@/types/common'
 import { CreateTreeData, UpdateTreeData } from '@/lib/data/tree-service'
 import toast from 'react-hot-toast'
@@ -49,6 +50,20 @@ export const useTreeStats = (treeId: string, enabled = true) => {
   })
 }
 
+// The user's permissions in each tree, resolved through RBAC, keyed by tree id
+export const useUserTreePermissions = (userId: string, treeIds: string[]) => {
+  return useQueries({
+    queries: treeIds.map(treeId => ({
+      queryKey: queryKeys.trees.permissions(userId, treeId),
+      queryFn: () => getUserTreePermissions(userId, treeId),
+      enabled: !!userId,
+    })),
+    combine: results => Object.fromEntries(
+      results.flatMap((result, index) => result.data ? [[treeIds[index], result.data]] : [])
+    ) as Record<string, TreePermissions>,
+  })
+}
+
 // Mutation hooks
 export const useCreateTree = () => {
   const queryClient = useQueryClient()
@@ -0,0 +1,116 @@
+import { describeAuditEntry, getAuditLog } from '../audit-log'
+import type { AuditLogEntry } from '@/types/database'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry & Record<string, unknown> {
+  return {
+    id: 'entry-1',
+    tree_id: 'tree-1',
+    branch_id: 'branch-1',
+    actor_id: 'parent-1',
+    action: 'insert',
+    target_table: 'user_roles',
+    target_id: 'grant-1',
+    target_user_id: 'sitter-1',
+    before: null,
+    after: null,
+    created_at: '2026-10-17T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const NAMES = { users: { 'sitter-1': 'Sam Rivera' }, roles: { 'role-viewer': 'viewer', 'role-admin': 'admin' } }
+
+describe('describeAuditEntry', () => {
+  it('describes role grants, changes and expiry', () => {
+    expect(describeAuditEntry(entry({
+      after: { role_id: 'role-viewer', expires_at: '2026-10-19T00:00:00.000Z' },
+    }), NAMES)).toBe('Gave Sam Rivera the viewer role until Oct 19, 2026')
+
+    expect(describeAuditEntry(entry({
+      action: 'update',
+      before: { role_id: 'role-viewer' },
+      after: { role_id: 'role-admin' },
+    }), NAMES)).toBe('Changed Sam Rivera\'s role from viewer to admin')
+
+    expect(describeAuditEntry(entry({
+      action: 'delete',
+      actor_id: null,
+      before: { role_id: 'role-viewer', expires_at: '2026-10-17T11:00:00.000Z' },
+    }), NAMES)).toBe('Sam Rivera\'s viewer role expired')
+
+    expect(describeAuditEntry(entry({
+      action: 'delete',
+      actor_id: null,
+      before: { role_id: 'role-viewer', expires_at: null },
+    }), NAMES)).toBe('Sam Rivera\'s viewer role was removed by the system')
+  })
+
+  it('describes custom role definitions', () => {
+    expect(describeAuditEntry(entry({
+      target_table: 'roles',
+      target_user_id: null,
+      after: { name: 'Photo contributor', tree_id: 'tree-1' },
+    }))).toBe('Created the Photo contributor role')
+
+    expect(describeAuditEntry(entry({
+      action: 'update',
+      target_table: 'roles',
+      target_user_id: null,
+      before: { name: 'Photo contributor' },
+      after: { name: 'Photographer' },
+    }))).toBe('Renamed the Photo contributor role to Photographer')
+  })
+
+  it('describes sharing and privacy changes', () => {
+    expect(describeAuditEntry(entry({
+      action: 'update',
+      target_table: 'cross_tree_access',
+      target_user_id: null,
+      before: { status: 'active' },
+      after: { status: 'revoked' },
+    }))).toBe('Revoked another tree\'s access to the branch')
+
+    expect(describeAuditEntry(entry({
+      action: 'update',
+      target_table: 'branches',
+      target_user_id: null,
+      before: { privacy: 'invite_only' },
+      after: { privacy: 'private' },
+    }))).toBe('Changed branch privacy from invite_only to private')
+  })
+})
+
+describe('getAuditLog', () => {
+  const tables: FakeTables = {
+    audit_log: [
+      entry({ id: 'entry-1', created_at: '2026-10-15T09:00:00.000Z', after: { role_id: 'role-viewer' } }),
+      entry({ id: 'entry-2', created_at: '2026-10-16T09:00:00.000Z', actor_id: 'guest-1', target_table: 'branch_members', target_user_id: 'guest-1' }),
+      entry({ id: 'entry-3', created_at: '2026-10-17T09:00:00.000Z', target_table: 'branches', before: { privacy: 'private' }, after: { privacy: 'invite_only' } }),
+      entry({ id: 'entry-4', created_at: '2026-10-17T10:00:00.000Z', branch_id: 'branch-2' }),
+    ],
+    profiles: [
+      { id: 'parent-1', first_name: 'Alex', last_name: 'Rivera', email: 'alex@example.com' },
+      { id: 'sitter-1', first_name: 'Sam', last_name: 'Rivera', email: 'sam@example.com' },
+    ],
+    roles: [{ id: 'role-viewer', name: 'viewer' }],
+  }
+
+  it('lists a branch\'s entries newest first with names and summaries', async () => {
+    const entries = await getAuditLog(createFakeSupabase(tables), { branchId: 'branch-1' })
+
+    expect(entries.map(item => item.id)).toEqual(['entry-3', 'entry-2', 'entry-1'])
+    expect(entries[2]).toMatchObject({ actor_name: 'Alex Rivera', summary: 'Gave Sam Rivera the viewer role' })
+    expect(entries[1]).toMatchObject({ actor_name: 'A former member' })
+  })
+
+  it('filters by actor, category and page', async () => {
+    const supabase = createFakeSupabase(tables)
+
+    const byActor = await getAuditLog(supabase, { treeId: 'tree-1' }, { actorId: 'parent-1', category: 'members' })
+    expect(byActor.map(item => item.id)).toEqual(['entry-4', 'entry-1'])
+
+    const older = await getAuditLog(supabase, { branchId: 'branch-1' }, { before: '2026-10-17T09:00:00.000Z', limit: 1 })
+    expect(older.map(item => item.id)).toEqual(['entry-2'])
+  })
+})
@@ -0,0 +1,94 @@
+import { applyPermissionGrants, grantedBranchPermissions, CustomRoleService } from '../custom-roles'
+import type { BranchPermissions } from '@/types/database'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+const NO_PERMISSIONS: BranchPermissions = {
+  canRead: false,
+  canUpdate: false,
+  canDelete: false,
+  canCreatePosts: false,
+  canModerate: false,
+  canInviteMembers: false,
+  canManageMembers: false,
+  isOwner: false,
+  isAdmin: false,
+  isModerator: false,
+  userRole: 'none'
+}
+
+describe('grantedBranchPermissions', () => {
+  it('maps matrix cells onto branch permissions', () => {
+    expect(grantedBranchPermissions([
+      { resource_type: 'branch', action: 'read' },
+      { resource_type: 'post', action: 'create' },
+    ])).toEqual(['canRead', 'canCreatePosts'])
+  })
+
+  it('treats admin on a resource as every action on it', () => {
+    expect(grantedBranchPermissions([{ resource_type: 'member', action: 'admin' }]))
+      .toEqual(['canInviteMembers', 'canManageMembers'])
+  })
+
+  it('only adds to existing permissions', () => {
+    const permissions = applyPermissionGrants(
+      { ...NO_PERMISSIONS, canRead: true },
+      [{ resource_type: 'comment', action: 'moderate' }]
+    )
+    expect(permissions).toMatchObject({ canRead: true, canModerate: true, canCreatePosts: false })
+  })
+})
+
+describe('CustomRoleService', () => {
+  let tables: FakeTables
+
+  beforeEach(() => {
+    tables = {
+      roles: [{ id: 'role-member', name: 'member', is_system_role: true, tree_id: null }],
+      permissions: [
+        { id: 'perm-post-create', resource_type: 'post', action: 'create' },
+        { id: 'perm-post-read', resource_type: 'post', action: 'read' },
+        { id: 'perm-comment-create', resource_type: 'comment', action: 'create' },
+      ],
+      role_permissions: [],
+    }
+  })
+
+  it('creates a role with the picked permissions and lists it for its tree only', async () => {
+    const service = new CustomRoleService(createFakeSupabase(tables))
+
+    const role = await service.createRole('tree-1', {
+      name: 'Photo contributor',
+      permissions: [
+        { resource_type: 'post', action: 'create' },
+        { resource_type: 'post', action: 'read' },
+      ],
+    }, 'owner-1')
+
+    expect(role).toMatchObject({ name: 'Photo contributor', is_system_role: false, tree_id: 'tree-1', created_by: 'owner-1' })
+    expect(tables.role_permissions.map(link => link.permission_id)).toEqual(['perm-post-create', 'perm-post-read'])
+
+    const listed = await service.listTreeRoles('tree-1')
+    expect(listed).toHaveLength(1)
+    expect(listed[0].permissions).toEqual([
+      { resource_type: 'post', action: 'create' },
+      { resource_type: 'post', action: 'read' },
+    ])
+    expect(await service.listTreeRoles('tree-2')).toEqual([])
+  })
+
+  it('replaces a role\'s permissions and ignores roles from other trees', async () => {
+    const service = new CustomRoleService(createFakeSupabase(tables))
+    const role = await service.createRole('tree-1', {
+      name: 'Photo contributor',
+      permissions: [{ resource_type: 'post', action: 'create' }],
+    }, 'owner-1')
+
+    const updated = await service.updateRole('tree-1', role.id, {
+      permissions: [{ resource_type: 'comment', action: 'create' }],
+    })
+
+    expect(updated?.permissions).toEqual([{ resource_type: 'comment', action: 'create' }])
+    expect(tables.role_permissions.map(link => link.permission_id)).toEqual(['perm-comment-create'])
+    expect(await service.updateRole('tree-2', role.id, { name: 'Hijacked' })).toBeNull()
+  })
+})
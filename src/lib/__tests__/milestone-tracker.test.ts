@@ -0,0 +1,81 @@
+import { buildMilestoneProgress, calculateAgeInMonths } from '../milestone-tracker'
+import type { Milestone } from '@/types/database'
+
+jest.mock('../logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+const milestone = (name: string, typical_age_months: number | null): Milestone => ({
+  id: `milestone-${name}`,
+  name,
+  display_name: name.replace('_', ' '),
+  description: null,
+  category: 'physical',
+  typical_age_months,
+  icon: null,
+  color: '#22c55e',
+  created_at: '2026-01-01T00:00:00.000Z',
+})
+
+const milestones = [
+  milestone('first_smile', 2),
+  milestone('first_tooth', 6),
+  milestone('first_steps', 12),
+  milestone('first_words', 14),
+  milestone('potty_trained', 30),
+  milestone('first_holiday', null),
+]
+
+const tree = { id: 'tree-1', person_name: 'Emma', person_birth_date: '2025-11-03' }
+
+describe('calculateAgeInMonths', () => {
+  it('counts whole calendar months since birth', () => {
+    expect(calculateAgeInMonths('2025-11-03', NOW)).toBe(11)
+    expect(calculateAgeInMonths('2025-10-19', NOW)).toBe(12)
+    expect(calculateAgeInMonths('2025-10-20', NOW)).toBe(11)
+  })
+
+  it('returns null for missing, invalid or future birth dates', () => {
+    expect(calculateAgeInMonths(null, NOW)).toBeNull()
+    expect(calculateAgeInMonths('not a date', NOW)).toBeNull()
+    expect(calculateAgeInMonths('2027-01-01', NOW)).toBeNull()
+  })
+})
+
+describe('buildMilestoneProgress', () => {
+  it('sorts milestones into achieved, upcoming and uncaptured for the age', () => {
+    const leaves = [
+      { id: 'leaf-2', milestone_type: 'first_smile', milestone_date: null, created_at: '2026-02-01T09:00:00.000Z' },
+      { id: 'leaf-1', milestone_type: 'first_smile', milestone_date: '2026-01-10', created_at: '2026-03-01T09:00:00.000Z' },
+      { id: 'leaf-3', milestone_type: 'first_holiday', milestone_date: null, created_at: '2026-07-01T09:00:00.000Z' },
+    ]
+
+    const progress = buildMilestoneProgress(tree, milestones, leaves, NOW)
+
+    expect(progress.ageMonths).toBe(11)
+    expect(progress.achieved.map(({ milestone, leafId, achievedAt }) => [milestone.name, leafId, achievedAt])).toEqual([
+      ['first_smile', 'leaf-1', '2026-01-10'],
+      ['first_holiday', 'leaf-3', '2026-07-01T09:00:00.000Z'],
+    ])
+    expect(progress.upcoming.map(m => m.name)).toEqual(['first_steps', 'first_words'])
+    expect(progress.uncaptured.map(m => m.name)).toEqual(['first_tooth'])
+  })
+
+  it('only lists achieved milestones when the birth date is unknown', () => {
+    const leaves = [{ id: 'leaf-1', milestone_type: 'first_steps', milestone_date: null, created_at: '2026-09-01T09:00:00.000Z' }]
+
+    const progress = buildMilestoneProgress({ ...tree, person_birth_date: null }, milestones, leaves, NOW)
+
+    expect(progress.ageMonths).toBeNull()
+    expect(progress.achieved.map(a => a.milestone.name)).toEqual(['first_steps'])
+    expect(progress.upcoming).toEqual([])
+    expect(progress.uncaptured).toEqual([])
+  })
+})
@@ -0,0 +1,62 @@
+import { PermissionCache, PERMISSION_CACHE_TTL_MS } from '../permission-cache'
+
+describe('PermissionCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-17T12:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('expires entries after the TTL', async () => {
+    const cache = new PermissionCache()
+    const key = PermissionCache.key('user-1', 'role', 'branch', 'branch-1')
+
+    await cache.set(key, 'viewer')
+    expect(await cache.get(key)).toBe('viewer')
+
+    jest.advanceTimersByTime(PERMISSION_CACHE_TTL_MS)
+    expect(await cache.get(key)).toBeUndefined()
+  })
+
+  it('expires entries early when the grant they came from ends first', async () => {
+    const cache = new PermissionCache()
+    const key = PermissionCache.key('user-1', 'role', 'branch', 'branch-1')
+
+    await cache.set(key, 'viewer', Date.now() + 60 * 1000)
+    jest.advanceTimersByTime(60 * 1000)
+    expect(await cache.get(key)).toBeUndefined()
+
+    await cache.set(key, 'viewer', Date.now() - 1)
+    expect(await cache.get(key)).toBeUndefined()
+  })
+
+  it('invalidates every entry for a user and nobody else\'s', async () => {
+    const cache = new PermissionCache()
+    await cache.set(PermissionCache.key('user-1', 'role', 'branch', 'branch-1'), 'viewer')
+    await cache.set(PermissionCache.key('user-1', 'permissions', 'tree', 'tree-1'), { canRead: true })
+    await cache.set(PermissionCache.key('user-10', 'role', 'branch', 'branch-1'), 'admin')
+
+    await cache.invalidateUser('user-1')
+
+    expect(await cache.get(PermissionCache.key('user-1', 'role', 'branch', 'branch-1'))).toBeUndefined()
+    expect(await cache.get(PermissionCache.key('user-1', 'permissions', 'tree', 'tree-1'))).toBeUndefined()
+    expect(await cache.get(PermissionCache.key('user-10', 'role', 'branch', 'branch-1'))).toBe('admin')
+  })
+
+  it('counts hits and misses', async () => {
+    const cache = new PermissionCache()
+    const key = PermissionCache.key('user-1', 'role', 'global', 'global')
+
+    await cache.get(key)
+    await cache.set(key, 'member')
+    await cache.get(key)
+    await cache.get(key)
+
+    expect(cache.getMetrics()).toEqual({ hits: 2, misses: 1, hitRate: 2 / 3 })
+
+    cache.resetMetrics()
+    expect(cache.getMetrics()).toEqual({ hits: 0, misses: 0, hitRate: 0 })
+  })
+})
@@ -1,5 +1,6 @@
 import { RBACService } from '../rbac'
 import { UserRole } from '@/types/database'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
 
 // Mock the logger
 jest.mock('../logger', () => ({
@@ -53,6 +54,25 @@ describe('RBACService', () => {
       // Should not throw
       expect(() => rbacService.clearCache('user-123')).not.toThrow()
     })
+
+    it('drops every cached role and permission set for the user', async () => {
+      const tables: FakeTables = {
+        branches: [{ id: 'branch-1', created_by: 'owner-1' }],
+        user_roles: [
+          { user_id: 'sitter-1', context_type: 'branch', context_id: 'branch-1', expires_at: null, role: { name: 'viewer' } },
+        ],
+      }
+      const service = new RBACService(createFakeSupabase(tables))
+      const context = { type: 'branch' as const, id: 'branch-1' }
+
+      expect(await service.getUserRole('sitter-1', context)).toBe('viewer')
+      tables.user_roles[0].role = { name: 'admin' }
+      expect(await service.getUserRole('sitter-1', context)).toBe('viewer')
+      expect(service.getCacheMetrics()).toMatchObject({ hits: 1, misses: 1 })
+
+      await service.clearCache('sitter-1')
+      expect(await service.getUserRole('sitter-1', context)).toBe('admin')
+    })
   })
 
   describe('getUserRole', () => {
@@ -90,4 +110,127 @@ describe('RBACService', () => {
       ).resolves.toBeDefined()
     })
   })
-})
\ No newline at end of file
+
+  describe('getTreePermissions', () => {
+    function serviceFor(tables: Partial<FakeTables> = {}) {
+      return new RBACService(createFakeSupabase({
+        trees: [{ id: 'tree-1', created_by: 'owner-1', managed_by: ['manager-1'] }],
+        tree_members: [{ tree_id: 'tree-1', user_id: 'member-1' }],
+        user_roles: [],
+        ...tables,
+      } as FakeTables))
+    }
+
+    it('gives the tree creator every permission', async () => {
+      const permissions = await serviceFor().getTreePermissions('owner-1', 'tree-1')
+
+      expect(permissions).toMatchObject({ isOwner: true, isAdmin: true, canDelete: true, canManagePerson: true, userRole: 'owner' })
+    })
+
+    it('lets the people listed in managed_by manage the person without owning the tree', async () => {
+      const permissions = await serviceFor().getTreePermissions('manager-1', 'tree-1')
+
+      expect(permissions).toMatchObject({
+        isManager: true,
+        isOwner: false,
+        canManagePerson: true,
+        canEditRelationships: true,
+        canManageEmailAddresses: true,
+        canInviteMembers: true,
+        canExport: true,
+        canDelete: false,
+      })
+    })
+
+    it('lets tree admins invite and export but not manage the person', async () => {
+      const permissions = await serviceFor({
+        user_roles: [{ user_id: 'admin-1', context_type: 'tree', context_id: 'tree-1', role: { name: 'admin' } }],
+      }).getTreePermissions('admin-1', 'tree-1')
+
+      expect(permissions).toMatchObject({ isAdmin: true, canInviteMembers: true, canExport: true, canManagePerson: false, canManageEmailAddresses: false })
+    })
+
+    it('only lets members read, and gives outsiders nothing', async () => {
+      const service = serviceFor()
+
+      expect(await service.getTreePermissions('member-1', 'tree-1')).toMatchObject({ canRead: true, canUpdate: false, canInviteMembers: false })
+      expect(await service.getTreePermissions('stranger-1', 'tree-1')).toMatchObject({ canRead: false, userRole: 'none' })
+      expect(await service.getTreePermissions('owner-1', 'missing-tree')).toMatchObject({ canRead: false, isOwner: false })
+    })
+  })
+
+  describe('custom roles', () => {
+    const photoContributor = {
+      id: 'role-photo',
+      name: 'Photo contributor',
+      is_system_role: false,
+      tree_id: 'tree-1',
+      role_permissions: [
+        { permission: { resource_type: 'branch', action: 'read' } },
+        { permission: { resource_type: 'post', action: 'create' } },
+      ],
+    }
+
+    it('adds a custom role\'s permissions without treating it as a system role', async () => {
+      const service = new RBACService(createFakeSupabase({
+        branches: [{ id: 'branch-1', created_by: 'owner-1' }],
+        user_roles: [
+          { user_id: 'aunt-1', role_id: 'role-photo', context_type: 'branch', context_id: 'branch-1', expires_at: null, role: photoContributor },
+        ],
+      }))
+
+      expect(await service.getUserRole('aunt-1', { type: 'branch', id: 'branch-1' })).toBe('none')
+
+      const permissions = await service.getBranchPermissions('aunt-1', 'branch-1')
+      expect(permissions).toMatchObject({
+        canRead: true,
+        canCreatePosts: true,
+        canModerate: false,
+        canManageMembers: false,
+        userRole: 'none',
+        customRole: { id: 'role-photo', name: 'Photo contributor' },
+      })
+    })
+
+    it('replaces the member\'s previous role in the context', async () => {
+      const tables: FakeTables = {
+        user_roles: [
+          { id: 'grant-1', user_id: 'aunt-1', role_id: 'role-member', context_type: 'branch', context_id: 'branch-1', expires_at: null },
+          { id: 'grant-2', user_id: 'aunt-1', role_id: 'role-member', context_type: 'branch', context_id: 'branch-2', expires_at: null },
+        ],
+      }
+      const service = new RBACService(createFakeSupabase(tables))
+
+      expect(await service.assignCustomRole('aunt-1', 'role-photo', { type: 'branch', id: 'branch-1' }, 'owner-1')).toBe(true)
+      // The grant is updated in place, which the audit log records as one change
+      expect(tables.user_roles.map(grant => [grant.id, grant.role_id, grant.context_id])).toEqual([
+        ['grant-1', 'role-photo', 'branch-1'],
+        ['grant-2', 'role-member', 'branch-2'],
+      ])
+    })
+  })
+
+  describe('expiring grants', () => {
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('ignores expired grants and drops cached roles when a grant lapses', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-17T12:00:00.000Z'))
+      const service = new RBACService(createFakeSupabase({
+        branches: [{ id: 'branch-1', created_by: 'owner-1' }],
+        user_roles: [
+          { user_id: 'sitter-1', context_type: 'branch', context_id: 'branch-1', expires_at: '2026-10-18T20:00:00.000Z', role: { name: 'viewer' } },
+          { user_id: 'guest-1', context_type: 'branch', context_id: 'branch-1', expires_at: '2026-10-01T00:00:00.000Z', role: { name: 'admin' } },
+        ],
+      }))
+      const context = { type: 'branch' as const, id: 'branch-1' }
+
+      expect(await service.getUserRole('guest-1', context)).toBe('none')
+      expect(await service.getUserRole('sitter-1', context)).toBe('viewer')
+
+      jest.setSystemTime(new Date('2026-10-19T00:00:00.000Z'))
+      expect(await service.getUserRole('sitter-1', context)).toBe('none')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { RoleGrantExpiryService } from '../role-grant-expiry'
+import { RBACService } from '../rbac'
+import { PermissionCache } from '../permission-cache'
+import { notifications } from '../notifications/scheduler'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('../logger', () => ({
+  createComponentLogger: () => ({
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+jest.mock('../notifications/scheduler', () => ({
+  notifications: {
+    notifyRoleExpiring: jest.fn(),
+  },
+}))
+
+const NOW = new Date('2026-10-17T12:00:00.000Z')
+
+function setup() {
+  const tables: FakeTables = {
+    user_roles: [
+      // babysitter for the weekend, ends tomorrow
+      { id: 'grant-1', user_id: 'sitter-1', granted_by: 'parent-1', context_type: 'branch', context_id: 'branch-1', expires_at: '2026-10-18T20:00:00.000Z', expiry_notified_at: null, role: { name: 'viewer' } },
+      // guest admin with three weeks left
+      { id: 'grant-2', user_id: 'guest-1', granted_by: 'parent-1', context_type: 'branch', context_id: 'branch-1', expires_at: '2026-11-07T12:00:00.000Z', expiry_notified_at: null, role: { name: 'admin' } },
+      { id: 'grant-3', user_id: 'old-sitter', granted_by: 'parent-1', context_type: 'branch', context_id: 'branch-1', expires_at: '2026-10-16T12:00:00.000Z', expiry_notified_at: '2026-10-15T12:00:00.000Z', role: { name: 'viewer' } },
+      { id: 'grant-4', user_id: 'parent-1', granted_by: null, context_type: 'branch', context_id: 'branch-1', expires_at: null, expiry_notified_at: null, role: { name: 'owner' } },
+    ],
+    branch_members: [
+      { id: 'bm-1', branch_id: 'branch-1', user_id: 'sitter-1', role: 'viewer', status: 'active' },
+      { id: 'bm-2', branch_id: 'branch-1', user_id: 'guest-1', role: 'admin', status: 'active' },
+      { id: 'bm-3', branch_id: 'branch-1', user_id: 'old-sitter', role: 'viewer', status: 'active' },
+    ],
+    profiles: [{ id: 'sitter-1', first_name: 'Sam', last_name: 'Rivera', email: 'sam@example.com' }],
+    branches: [{ id: 'branch-1', name: 'Maya\'s Days' }],
+  }
+
+  const supabase = createFakeSupabase(tables)
+  const cache = new PermissionCache()
+  return { tables, supabase, cache, service: new RoleGrantExpiryService(supabase, cache) }
+}
+
+describe('RoleGrantExpiryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('warns about grants ending within the notice window once', async () => {
+    const { tables, service } = setup()
+
+    expect(await service.notifyExpiringGrants(NOW)).toEqual({ notified: 1, failed: 0 })
+    expect(notifications.notifyRoleExpiring).toHaveBeenCalledWith({
+      userId: 'sitter-1',
+      userName: 'Sam Rivera',
+      grantedBy: 'parent-1',
+      roleName: 'viewer',
+      contextType: 'branch',
+      contextId: 'branch-1',
+      contextName: 'Maya\'s Days',
+      expiresAt: '2026-10-18T20:00:00.000Z',
+    })
+    expect(tables.user_roles.find(grant => grant.id === 'grant-1')?.expiry_notified_at).toBe(NOW.toISOString())
+
+    expect(await service.notifyExpiringGrants(NOW)).toEqual({ notified: 0, failed: 0 })
+    expect(notifications.notifyRoleExpiring).toHaveBeenCalledTimes(1)
+  })
+
+  it('deletes expired grants and keeps the rest', async () => {
+    const { tables, service } = setup()
+
+    const summary = await service.run(new Date('2026-10-19T00:00:00.000Z'))
+
+    expect(summary).toEqual({ notified: 0, expired: 2, failed: 0 })
+    expect(tables.user_roles.map(grant => grant.id)).toEqual(['grant-2', 'grant-4'])
+  })
+
+  it('removes the expired grantee\'s membership and cached role', async () => {
+    const { tables, supabase, cache, service } = setup()
+    const rbac = new RBACService(supabase, cache)
+    const context = { type: 'branch' as const, id: 'branch-1' }
+    jest.useFakeTimers({ now: NOW })
+    expect(await rbac.getUserRole('sitter-1', context)).toBe('viewer')
+
+    await service.sweepExpiredGrants(new Date('2026-10-19T00:00:00.000Z'))
+
+    expect(tables.branch_members.map(member => member.user_id)).toEqual(['guest-1'])
+    expect(await rbac.getUserRole('sitter-1', context)).toBe('none')
+    jest.useRealTimers()
+  })
+})
@@ -0,0 +1,155 @@
+import AIService, { type AIPromptContext } from '../aiService'
+import { CONVERSATION_MEMORY, ConversationMemoryStore } from '../conversationMemory'
+import { MockAIProvider } from '../providers'
+import { createFakeSupabase, type Row } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+function storedTurns(count: number, userId = 'user-1', branchId = 'branch-1'): Row[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${userId}-${branchId}-${i}`,
+    user_id: userId,
+    branch_id: branchId,
+    role: i % 2 === 0 ? 'assistant' : 'user',
+    content: `turn ${i}`,
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+  }))
+}
+
+function createStore(tables: Record<string, Row[]>) {
+  return new ConversationMemoryStore(createFakeSupabase(tables))
+}
+
+const context = (userId: string): AIPromptContext => ({
+  userId,
+  branchId: 'branch-1',
+  branchName: 'Family',
+  branchType: 'family',
+  userName: 'Sam',
+  recentMessages: [],
+  timeContext: { timeOfDay: 'evening', dayOfWeek: 'Sunday', season: 'summer' },
+})
+
+describe('ConversationMemoryStore', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00Z') })
+  })
+
+  afterAll(() => {
+    jest.useRealTimers()
+  })
+
+  it('condenses all but the most recent turns into the summary', async () => {
+    const tables = {
+      ai_conversation_messages: storedTurns(CONVERSATION_MEMORY.CONDENSE_AFTER + 1),
+      ai_conversation_summaries: [{ user_id: 'user-1', branch_id: 'branch-1', summary: 'Loves the park', message_count: 4 }],
+    }
+    const store = createStore(tables)
+    const summarize = jest.fn().mockResolvedValue('Loves the park. Started school.')
+
+    await expect(store.condense('user-1', 'branch-1', summarize)).resolves.toBe(true)
+
+    const condensed = CONVERSATION_MEMORY.CONDENSE_AFTER + 1 - CONVERSATION_MEMORY.RECENT_TURNS
+    const [previousSummary, turns] = summarize.mock.calls[0]
+    expect(previousSummary).toBe('Loves the park')
+    expect(turns).toHaveLength(condensed)
+    expect(turns[0]).toMatchObject({ role: 'assistant', content: 'turn 0' })
+
+    const memory = await store.load('user-1', 'branch-1')
+    expect(memory.summary).toBe('Loves the park. Started school.')
+    expect(memory.turns.map(turn => turn.content)).toEqual(
+      storedTurns(CONVERSATION_MEMORY.CONDENSE_AFTER + 1).slice(condensed).map(turn => turn.content)
+    )
+    expect(tables.ai_conversation_summaries[0]).toMatchObject({ message_count: 4 + condensed })
+  })
+
+  it('leaves short conversations alone', async () => {
+    const store = createStore({ ai_conversation_messages: storedTurns(5), ai_conversation_summaries: [] })
+    const summarize = jest.fn()
+
+    await expect(store.condense('user-1', 'branch-1', summarize)).resolves.toBe(false)
+    expect(summarize).not.toHaveBeenCalled()
+  })
+
+  it('drops turns and summaries past the retention window', async () => {
+    const tables: Record<string, Row[]> = {
+      ai_conversation_messages: [
+        { ...storedTurns(1)[0], created_at: daysAgo(CONVERSATION_MEMORY.RETENTION_DAYS + 1) },
+        { ...storedTurns(2)[1], created_at: daysAgo(1) },
+      ],
+      ai_conversation_summaries: [{ user_id: 'user-1', branch_id: 'branch-1', summary: 'Old news', updated_at: daysAgo(365) }],
+    }
+    const store = createStore(tables)
+
+    await store.applyRetention('user-1')
+
+    expect(tables.ai_conversation_messages.map(turn => turn.content)).toEqual(['turn 1'])
+    expect(tables.ai_conversation_summaries).toHaveLength(0)
+  })
+
+  it('forgets one branch or every branch', async () => {
+    const tables = {
+      ai_conversation_messages: [
+        ...storedTurns(2, 'user-1', 'branch-1'),
+        ...storedTurns(2, 'user-1', 'branch-2'),
+        ...storedTurns(2, 'user-2', 'branch-1'),
+      ],
+      ai_conversation_summaries: [{ user_id: 'user-1', branch_id: 'branch-1', summary: 'Loves the park' }],
+    }
+    const store = createStore(tables)
+
+    await store.forget('user-1', 'branch-1')
+    expect(tables.ai_conversation_summaries).toHaveLength(0)
+    expect(tables.ai_conversation_messages.map(turn => `${turn.user_id}/${turn.branch_id}`)).toEqual([
+      'user-1/branch-2', 'user-1/branch-2', 'user-2/branch-1', 'user-2/branch-1',
+    ])
+
+    await store.forget('user-1')
+    expect(tables.ai_conversation_messages.every(turn => turn.user_id === 'user-2')).toBe(true)
+  })
+})
+
+describe('AIService conversation memory', () => {
+  it('keeps history per user even when display names match', async () => {
+    const tables: Record<string, Row[]> = { ai_conversation_messages: [], ai_conversation_summaries: [] }
+    const memory = createStore(tables)
+    const provider = new MockAIProvider()
+    const transport = jest.fn(request => provider.complete({ maxTokens: 100, temperature: 0.5, responseFormat: 'text', ...request }))
+    const service = new AIService({ transport, memory })
+
+    await service.processUserResponse('We went to the beach', context('user-1'), 'memory')
+    await service.processUserResponse('Grandma visited', context('user-2'), 'memory')
+
+    const secondRequest = transport.mock.calls[1][0]
+    expect(secondRequest.messages.map((message: { content: string }) => message.content)).not.toContain('We went to the beach')
+
+    const history = await service.getConversationHistory('user-1', 'branch-1')
+    expect(history.turns.map(turn => turn.role)).toEqual(['user', 'assistant'])
+    expect(history.turns[0].content).toBe('We went to the beach')
+  })
+
+  it('includes the stored summary in the system message', async () => {
+    const tables: Record<string, Row[]> = {
+      ai_conversation_messages: [],
+      ai_conversation_summaries: [{ user_id: 'user-1', branch_id: 'branch-1', summary: 'Mia started school in September' }],
+    }
+    const provider = new MockAIProvider()
+    const transport = jest.fn(request => provider.complete({ maxTokens: 100, temperature: 0.5, responseFormat: 'text', ...request }))
+    const service = new AIService({ transport, memory: createStore(tables) })
+
+    await service.generatePrompt(context('user-1'))
+
+    const [system] = transport.mock.calls[0][0].messages
+    expect(system.role).toBe('system')
+    expect(system.content).toContain('Mia started school in September')
+  })
+})
@@ -0,0 +1,206 @@
+import { AIGateway } from '../gateway'
+import { AIProviderError, MockAIProvider, type AIProvider } from '../providers'
+import { AIEnhancementQueue, computeEnhancementContentHash } from '../enhancementQueue'
+import type { LeafEnhancementRequest } from '../promptingEngine'
+import { createFakeSupabase, type FakeTables, type Row } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+const enhancement = JSON.stringify({
+  suggestedCaption: 'A sunny afternoon of sandcastles',
+  suggestedTags: ['beach', 'summer'],
+  confidence: 0.9,
+})
+
+const leafRequest = (leafId: string, content = 'Sandcastles all afternoon'): LeafEnhancementRequest => ({
+  leafId,
+  content,
+  context: { authorName: '', branchName: '', treeName: 'Emma' },
+})
+
+function createTables(): FakeTables {
+  return {
+    ai_enhancement_jobs: [],
+    ai_enhancement_cache: [],
+    ai_token_usage: [],
+    posts: [
+      { id: 'leaf-1', ai_caption: 'Beach day', ai_tags: [] },
+      { id: 'leaf-2', ai_caption: null, ai_tags: [] },
+    ],
+  }
+}
+
+function setup(provider: AIProvider = new MockAIProvider(() => enhancement), tables = createTables()) {
+  const rpc = jest.fn()
+  const complete = jest.spyOn(provider, 'complete')
+  const queue = new AIEnhancementQueue(
+    createFakeSupabase(tables, rpc),
+    { concurrency: 2, retryBaseDelayMs: 60 * 1000, maxAttempts: 3, userDailyTokenBudget: 1000, treeDailyTokenBudget: 5000 },
+    new AIGateway([provider])
+  )
+  return { queue, tables, rpc, complete }
+}
+
+const jobsFor = (tables: FakeTables, leafId: string) =>
+  tables.ai_enhancement_jobs.filter(job => job.leaf_id === leafId)
+
+describe('AIEnhancementQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('queues caption and tag jobs once per leaf', async () => {
+    const { queue, tables } = setup()
+
+    await expect(queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1', treeId: 'tree-1' })).resolves.toBe(2)
+    await expect(queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1', treeId: 'tree-1' })).resolves.toBe(0)
+
+    expect(jobsFor(tables, 'leaf-1').map(job => job.job_type)).toEqual(['ai_caption', 'ai_tags'])
+    expect(jobsFor(tables, 'leaf-1')[0]).toMatchObject({
+      status: 'pending',
+      content_hash: computeEnhancementContentHash(leafRequest('leaf-1')),
+    })
+  })
+
+  it('enhances a leaf with one model call, caches the result and records token usage', async () => {
+    const { queue, tables, rpc, complete } = setup()
+    await queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1', treeId: 'tree-1' })
+
+    const summary = await queue.processQueue()
+
+    expect(summary).toMatchObject({ claimed: 2, completed: 2, failed: 0 })
+    expect(complete).toHaveBeenCalledTimes(1)
+    expect(tables.posts[0]).toMatchObject({
+      ai_caption: 'A sunny afternoon of sandcastles',
+      ai_tags: ['beach', 'summer'],
+    })
+    expect(jobsFor(tables, 'leaf-1').every(job => job.status === 'completed' && job.attempts === 1)).toBe(true)
+    expect(tables.ai_enhancement_cache).toHaveLength(1)
+
+    const tokens = (await complete.mock.results[0].value).usage.totalTokens
+    expect(rpc).toHaveBeenCalledWith('record_ai_token_usage', { p_user_id: 'user-1', p_tree_id: 'tree-1', p_tokens: tokens })
+  })
+
+  it('reuses the cached result for identical content', async () => {
+    const { queue, tables, complete } = setup()
+    await queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1' })
+    await queue.processQueue()
+
+    await queue.enqueue({ request: leafRequest('leaf-2'), userId: 'user-2', jobTypes: ['ai_caption'] })
+    const summary = await queue.processQueue()
+
+    expect(summary).toMatchObject({ claimed: 1, cached: 1 })
+    expect(complete).toHaveBeenCalledTimes(1)
+    expect(tables.posts[1].ai_caption).toBe('A sunny afternoon of sandcastles')
+  })
+
+  it('analyzes a leaf under the branch it was assigned to after queueing', async () => {
+    const analysis = JSON.stringify({
+      categories: [{ type: 'memory', confidence: 0.8, reason: 'An afternoon at the beach' }],
+      tags: ['beach'],
+      sentiment: 'positive',
+      topics: ['activities'],
+      urgency: 'low',
+    })
+    const tables: FakeTables = { ...createTables(), ai_response_analysis: [] }
+    const { queue, rpc, complete } = setup(new MockAIProvider(() => analysis), tables)
+    await queue.enqueue({ request: leafRequest('leaf-2'), userId: 'user-1', treeId: 'tree-1', jobTypes: ['analysis'] })
+    tables.posts[1].branch_id = 'branch-1'
+
+    await expect(queue.processQueue()).resolves.toMatchObject({ claimed: 1, completed: 1 })
+
+    expect(tables.ai_response_analysis).toEqual([
+      expect.objectContaining({ leaf_id: 'leaf-2', branch_id: 'branch-1', user_id: 'user-1', analyzer: 'model', sentiment: 'positive' }),
+    ])
+    const tokens = (await complete.mock.results[0].value).usage.totalTokens
+    expect(rpc).toHaveBeenCalledWith('record_ai_token_usage', { p_user_id: 'user-1', p_tree_id: 'tree-1', p_tokens: tokens })
+  })
+
+  it('defers jobs until tomorrow once a daily budget is spent', async () => {
+    const tables = createTables()
+    tables.ai_token_usage.push({ usage_date: '2026-10-19', scope: 'tree', scope_id: 'tree-1', tokens: 5000 })
+    const { queue, complete } = setup(undefined, tables)
+    await queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1', treeId: 'tree-1' })
+
+    const summary = await queue.processQueue()
+
+    expect(summary).toMatchObject({ deferred: 2 })
+    expect(complete).not.toHaveBeenCalled()
+    expect(jobsFor(tables, 'leaf-1')[0]).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: '2026-10-20T00:00:00.000Z',
+      last_error: 'Daily tree token budget reached',
+    })
+  })
+
+  it('retries failures with exponential backoff, then gives up', async () => {
+    const failing: AIProvider = {
+      name: 'openai',
+      model: 'gpt-4',
+      complete: async () => {
+        throw new AIProviderError('API error: 500', 'openai', 500)
+      },
+    }
+    const { queue, tables } = setup(failing)
+    await queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1', jobTypes: ['ai_tags'] })
+    const [job] = jobsFor(tables, 'leaf-1')
+
+    await expect(queue.processQueue()).resolves.toMatchObject({ retried: 1 })
+    expect(job).toMatchObject({ status: 'pending', attempts: 1, next_attempt_at: '2026-10-19T12:01:00.000Z' })
+
+    jest.setSystemTime(new Date(job.next_attempt_at as string))
+    await queue.processQueue()
+    expect(job).toMatchObject({ status: 'pending', attempts: 2, next_attempt_at: '2026-10-19T12:03:00.000Z' })
+
+    jest.setSystemTime(new Date(job.next_attempt_at as string))
+    await expect(queue.processQueue()).resolves.toMatchObject({ failed: 1 })
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, last_error: 'All AI providers failed' })
+  })
+
+  it('runs at most the configured number of model calls at once', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const slow: AIProvider = {
+      name: 'mock',
+      model: 'mock',
+      complete: async request => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await Promise.resolve()
+        inFlight--
+        return new MockAIProvider(() => enhancement).complete(request)
+      },
+    }
+    const { queue, tables } = setup(slow)
+    for (const leafId of ['leaf-a', 'leaf-b', 'leaf-c', 'leaf-d']) {
+      tables.posts.push({ id: leafId } as Row)
+      await queue.enqueue({ request: leafRequest(leafId, `Memory ${leafId}`), userId: 'user-1', jobTypes: ['ai_tags'] })
+    }
+
+    await expect(queue.processQueue()).resolves.toMatchObject({ completed: 4 })
+    expect(maxInFlight).toBe(2)
+  })
+
+  it('leaves jobs queued when no provider is configured', async () => {
+    const tables = createTables()
+    const queue = new AIEnhancementQueue(createFakeSupabase(tables), {}, new AIGateway([]))
+    await queue.enqueue({ request: leafRequest('leaf-1'), userId: 'user-1' })
+
+    await expect(queue.processQueue()).resolves.toMatchObject({ claimed: 0 })
+    expect(tables.ai_enhancement_jobs.every(job => job.status === 'pending')).toBe(true)
+  })
+})
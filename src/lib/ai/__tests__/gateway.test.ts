@@ -0,0 +1,170 @@
+import { AIGateway } from '../gateway'
+import { getAIConfig } from '../config'
+import AIService from '../aiService'
+import {
+  AIGatewayError,
+  AIProviderError,
+  MockAIProvider,
+  OpenAICompatibleProvider,
+  createConfiguredProviders,
+  type AIProvider,
+} from '../providers'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const failingProvider = (status = 500): AIProvider => ({
+  name: 'openai',
+  model: 'gpt-4',
+  complete: jest.fn().mockRejectedValue(new AIProviderError(`API error: ${status}`, 'openai', status)),
+})
+
+const messages = [
+  { role: 'system' as const, content: 'You are Sage.' },
+  { role: 'user' as const, content: 'She took her first steps today' },
+]
+
+describe('AIGateway', () => {
+  it('answers deterministically from the mock provider', async () => {
+    const gateway = new AIGateway([new MockAIProvider()])
+
+    const first = await gateway.complete({ messages })
+    const second = await gateway.complete({ messages })
+
+    expect(first).toEqual(second)
+    expect(first).toMatchObject({ provider: 'mock', model: 'mock' })
+    expect(first.content).toContain('first steps')
+    expect(first.usage.totalTokens).toBe(first.usage.promptTokens + first.usage.completionTokens)
+  })
+
+  it('falls back to the next provider and records the failure', async () => {
+    const gateway = new AIGateway([failingProvider(429), new MockAIProvider()])
+
+    const completion = await gateway.complete({ messages })
+
+    expect(completion.provider).toBe('mock')
+    const [openai, mock] = gateway.getStats()
+    expect(openai).toMatchObject({ provider: 'openai', requests: 1, failures: 1, totalTokens: 0 })
+    expect(openai.lastError).toMatchObject({ message: 'API error: 429', status: 429 })
+    expect(mock).toMatchObject({ provider: 'mock', requests: 1, failures: 0, totalTokens: completion.usage.totalTokens })
+  })
+
+  it('reports every provider error when none can answer', async () => {
+    const gateway = new AIGateway([failingProvider(401)])
+
+    await expect(gateway.complete({ messages })).rejects.toMatchObject({
+      statusCode: 503,
+      failures: [{ provider: 'openai', message: 'API error: 401', status: 401 }],
+    })
+    await expect(new AIGateway([]).complete({ messages })).rejects.toBeInstanceOf(AIGatewayError)
+  })
+})
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('calls a local server without an API key and reads token usage', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'llama3.1',
+        choices: [{ message: { content: 'What a milestone!' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      }),
+    })
+    global.fetch = fetchMock as unknown as typeof fetch
+
+    const provider = new OpenAICompatibleProvider({
+      name: 'local',
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+      timeoutMs: 1000,
+    })
+    const completion = await provider.complete({ messages, maxTokens: 100, temperature: 0.5, responseFormat: 'json' })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(init.headers.Authorization).toBeUndefined()
+    expect(JSON.parse(init.body).response_format).toEqual({ type: 'json_object' })
+    expect(completion).toEqual({
+      content: 'What a milestone!',
+      provider: 'local',
+      model: 'llama3.1',
+      usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 },
+    })
+  })
+
+  it('turns HTTP errors into provider errors', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' }) as unknown as typeof fetch
+
+    const provider = new OpenAICompatibleProvider({ name: 'openai', baseUrl: 'https://api.openai.com/v1', apiKey: 'sk', model: 'gpt-4', timeoutMs: 1000 })
+
+    await expect(provider.complete({ messages, maxTokens: 100, temperature: 0.5, responseFormat: 'text' })).rejects.toMatchObject({
+      provider: 'openai',
+      status: 503,
+    })
+  })
+})
+
+describe('getAIConfig', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.OPENAI_API_KEY
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.AI_LOCAL_BASE_URL
+    delete process.env.AI_PROVIDERS
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('never reads API keys from public environment variables', () => {
+    process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'sk-public'
+
+    expect(getAIConfig().providers).toEqual([])
+  })
+
+  it('orders providers as requested and skips unconfigured ones', () => {
+    process.env.AI_PROVIDERS = 'local, anthropic, openai, mock'
+    process.env.OPENAI_API_KEY = 'sk-server'
+    process.env.AI_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+
+    const config = getAIConfig()
+
+    expect(config.providers).toEqual(['local', 'openai', 'mock'])
+    expect(createConfiguredProviders(config).map(provider => provider.name)).toEqual(['local', 'openai', 'mock'])
+  })
+})
+
+describe('AIService', () => {
+  it('sends every model call through its transport', async () => {
+    const gateway = new AIGateway([new MockAIProvider(() => 'How did everyone feel?')])
+    const transport = jest.fn(request => gateway.complete(request))
+    const service = new AIService({ transport, memory: null })
+
+    const response = await service.processUserResponse('We went to the beach', {
+      branchName: 'Family',
+      branchType: 'family',
+      userName: 'Sam',
+      recentMessages: [],
+      timeContext: { timeOfDay: 'evening', dayOfWeek: 'Sunday', season: 'summer' },
+    }, 'memory')
+
+    expect(transport).toHaveBeenCalledTimes(1)
+    expect(response.message).toBe('How did everyone feel?')
+    expect(response.aiMetadata).toMatchObject({ provider: 'mock', model: 'mock' })
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import AIService from '../aiService'
+import { ModelResponseAnalyzer } from '../responseAnalyzer'
+import { requestAICompletion } from '../gatewayClient'
+import { AIGatewayError } from '../providers'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'She took her first steps today' }],
+}
+
+describe('requestAICompletion on the server', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    global.fetch = jest.fn()
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('refuses instead of fetching the relative gateway route', async () => {
+    await expect(requestAICompletion(request)).rejects.toThrow(AIGatewayError)
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('keeps AIService and the response analyzer off the route when no transport is passed', async () => {
+    await expect(new AIService({ memory: null }).generateLeafEnhancement('First steps today!')).rejects.toThrow(AIGatewayError)
+    await expect(new ModelResponseAnalyzer().analyzeMessage('First steps today!')).resolves.toMatchObject({ analyzer: 'keyword' })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,98 @@
+import { DEMO_INTERVIEW_QUESTIONS, InterviewSessionService } from '../interviewSessions'
+import { parseInterviewDraft } from '../interviewDraftSchema'
+import type { AICompletionRequest } from '../providers'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const SUBJECT = 'Maya at the park with Grandma'
+
+function setup(replies?: string[]) {
+  const tables: FakeTables = {
+    ai_interview_sessions: [],
+    milestones: [{ name: 'first_steps' }, { name: 'first_word' }],
+  }
+  const complete = jest.fn(async (request: AICompletionRequest) => ({
+    content: replies?.shift() ?? '',
+    provider: 'mock' as const,
+    model: 'mock',
+    usage: { promptTokens: request.messages.length, completionTokens: 1, totalTokens: request.messages.length + 1 },
+  }))
+  const gateway = { complete, isAvailable: () => replies !== undefined }
+
+  return { tables, complete, service: new InterviewSessionService(createFakeSupabase(tables), gateway) }
+}
+
+describe('parseInterviewDraft', () => {
+  it('normalizes tags and drops null fields', () => {
+    const result = parseInterviewDraft('```json\n{"caption":"First steps!","content":"She walked.","tags":["#First Steps","park"],"date":null,"milestoneType":"first_steps","season":null}\n```')
+
+    expect(result).toEqual({
+      success: true,
+      data: { caption: 'First steps!', content: 'She walked.', tags: ['first_steps', 'park'], milestoneType: 'first_steps' },
+    })
+    expect(parseInterviewDraft('{"caption":"Hi","content":"x","tags":[],"date":"May 3"}')).toMatchObject({ success: false })
+  })
+})
+
+describe('InterviewSessionService', () => {
+  it('runs a demo interview and drafts a leaf without a provider', async () => {
+    const { tables, complete, service } = setup()
+    const today = new Date().toISOString().slice(0, 10)
+
+    let session = await service.start('user-1', { subject: SUBJECT, questionCount: 3 })
+    expect(session.turns).toEqual([{ question: DEMO_INTERVIEW_QUESTIONS[0], answer: null }])
+
+    session = await service.answer(session, 'Grandma and me')
+    session = await service.answer(session, 'Today, at the playground')
+    expect(session.status).toBe('active')
+    expect(session.turns.map(turn => turn.question)).toEqual(DEMO_INTERVIEW_QUESTIONS.slice(0, 3))
+
+    session = await service.answer(session, 'She took her first steps towards the swings!')
+
+    expect(complete).not.toHaveBeenCalled()
+    expect(session).toMatchObject({
+      status: 'drafted',
+      ai_metadata: { provider: 'demo' },
+      draft: { caption: SUBJECT, date: today, milestoneType: 'first_steps' },
+    })
+    expect(session.draft?.content).toContain('first steps towards the swings')
+    expect(session.draft?.tags.length).toBeGreaterThan(0)
+    expect(tables.ai_interview_sessions).toHaveLength(1)
+  })
+
+  it('asks the model\'s questions and repairs an invalid draft', async () => {
+    const { complete, service } = setup([
+      'Who was cheering her on?',
+      'not json',
+      '{"caption":"Maya\'s first steps","content":"Maya walked to Grandma.","tags":["milestone"],"date":"2026-10-18","milestoneType":"first_dance"}',
+    ])
+
+    const session = await service.start('user-1', { subject: SUBJECT, questionCount: 8 })
+    expect(session).toMatchObject({ question_count: 5, turns: [{ question: 'Who was cheering her on?' }], ai_metadata: { provider: 'mock' } })
+
+    const drafted = await service.answer(session, 'Grandma, from the bench', { finish: true })
+
+    expect(complete).toHaveBeenCalledTimes(3)
+    expect(complete.mock.calls[2][0].messages.at(-1)?.content).toContain('could not be used')
+    // first_dance is not a milestone the leaf creator offers
+    expect(drafted.draft).toEqual({ caption: 'Maya\'s first steps', content: 'Maya walked to Grandma.', tags: ['milestone'], date: '2026-10-18' })
+  })
+
+  it('only lets the owner continue an interview that is still open', async () => {
+    const { service } = setup()
+    const session = await service.start('user-1', { subject: SUBJECT })
+
+    await expect(service.getSession(session.id, 'user-2')).rejects.toThrow('Interview not found')
+
+    const drafted = await service.answer(session, 'Just us', { finish: true })
+    await expect(service.answer(drafted, 'More')).rejects.toThrow('already written up')
+  })
+})
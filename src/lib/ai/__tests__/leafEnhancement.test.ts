@@ -0,0 +1,88 @@
+import AIService from '../aiService'
+import { parseLeafEnhancement } from '../leafEnhancementSchema'
+import type { AICompletionRequest } from '../providers'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const validReply = JSON.stringify({
+  suggestedCaption: 'Wobbly first steps across the kitchen',
+  suggestedTags: ['#Walking', 'First Steps', 'walking', 'tags: 1. family', '!!!'],
+  detectedMilestone: { type: 'first_steps', confidence: 0.9, description: 'She walked on her own' },
+  suggestedSeason: null,
+  confidence: 0.85,
+})
+
+// Transport stub that answers each call with the next reply
+const replying = (...replies: string[]) => jest.fn(async (request: AICompletionRequest) => ({
+  content: replies.shift() ?? '',
+  provider: 'mock' as const,
+  model: 'mock',
+  usage: { promptTokens: request.messages.length, completionTokens: 1, totalTokens: request.messages.length + 1 },
+}))
+
+describe('parseLeafEnhancement', () => {
+  it('normalizes tags and drops the ones that are not tags', () => {
+    const result = parseLeafEnhancement(validReply)
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        suggestedCaption: 'Wobbly first steps across the kitchen',
+        suggestedTags: ['walking', 'first_steps'],
+        detectedMilestone: { type: 'first_steps', confidence: 0.9, description: 'She walked on her own' },
+        confidence: 0.85,
+      },
+    })
+  })
+
+  it('accepts JSON wrapped in a code fence', () => {
+    expect(parseLeafEnhancement('```json\n{"suggestedTags":["beach"],"confidence":0.7}\n```').success).toBe(true)
+  })
+
+  it('explains what is wrong with invalid replies', () => {
+    expect(parseLeafEnhancement('Tags: beach, sun')).toEqual({ success: false, error: 'The reply is not valid JSON.' })
+
+    const result = parseLeafEnhancement('{"suggestedTags":["???"],"confidence":3,"suggestedSeason":"summer"}')
+    expect(result.success).toBe(false)
+    const error = !result.success ? result.error : ''
+    expect(error).toContain('suggestedTags')
+    expect(error).toContain('suggestedSeason')
+    expect(error).toContain('confidence')
+  })
+})
+
+describe('AIService.generateLeafEnhancement', () => {
+  it('asks for JSON output', async () => {
+    const transport = replying(validReply)
+
+    const result = await new AIService({ transport }).generateLeafEnhancement('First steps today!')
+
+    expect(result?.suggestedTags).toEqual(['walking', 'first_steps'])
+    expect(transport.mock.calls[0][0].responseFormat).toBe('json')
+  })
+
+  it('sends an invalid reply back for repair', async () => {
+    const transport = replying('Tags: walking', validReply)
+
+    const result = await new AIService({ transport }).generateLeafEnhancement('First steps today!')
+
+    expect(result?.detectedMilestone?.type).toBe('first_steps')
+    const repair = transport.mock.calls[1][0].messages
+    expect(repair[repair.length - 2]).toEqual({ role: 'assistant', content: 'Tags: walking' })
+    expect(repair[repair.length - 1].content).toContain('not valid JSON')
+  })
+
+  it('gives up when the repaired reply is still invalid', async () => {
+    const transport = replying('nope', '{"confidence":0.5}')
+
+    await expect(new AIService({ transport }).generateLeafEnhancement('First steps today!')).resolves.toBeNull()
+    expect(transport).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,231 @@
+import {
+  DEFAULT_PROMPT_SCHEDULING_PREFERENCES,
+  ProactivePromptScheduler,
+  createServerPromptingEngine,
+  isInQuietHours,
+  pickSendTime,
+} from '../promptScheduler'
+import type { UserPattern } from '../personalizedPrompting'
+import type { SmartPrompt } from '../promptingEngine'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const mockComplete = jest.fn()
+
+jest.mock('../gateway', () => ({
+  getAIGateway: () => ({ complete: mockComplete }),
+}))
+
+// 08:00 in New York, 21:00 in Tokyo
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString()
+
+const newYork = { ...DEFAULT_PROMPT_SCHEDULING_PREFERENCES, timezone: 'America/New_York' }
+
+describe('isInQuietHours', () => {
+  it('handles quiet hours that span midnight in the user time zone', () => {
+    expect(isInQuietHours(new Date('2026-10-20T03:30:00.000Z'), newYork)).toBe(true) // 23:30 local
+    expect(isInQuietHours(new Date('2026-10-19T11:59:00.000Z'), newYork)).toBe(true) // 07:59 local
+    expect(isInQuietHours(NOW, newYork)).toBe(false) // 08:00 local
+  })
+
+  it('treats equal start and end as no quiet hours', () => {
+    expect(isInQuietHours(NOW, { ...newYork, quietHoursStart: '08:00:00', quietHoursEnd: '08:00:00' })).toBe(false)
+  })
+})
+
+describe('pickSendTime', () => {
+  it('picks the next active hour in the user time zone', () => {
+    expect(pickSendTime(NOW, [7, 19], newYork).toISOString()).toBe('2026-10-19T23:00:00.000Z')
+  })
+
+  it('sends right away during an active hour', () => {
+    expect(pickSendTime(new Date('2026-10-19T12:20:00.000Z'), [8], newYork).toISOString()).toBe('2026-10-19T12:20:00.000Z')
+  })
+
+  it('moves to tomorrow once today’s active hours have passed', () => {
+    const tokyo = { ...DEFAULT_PROMPT_SCHEDULING_PREFERENCES, timezone: 'Asia/Tokyo' }
+    expect(pickSendTime(NOW, [9, 19], tokyo).toISOString()).toBe('2026-10-20T00:00:00.000Z')
+  })
+
+  it('falls back to the end of quiet hours when every active hour is quiet', () => {
+    expect(pickSendTime(NOW, [23], newYork).toISOString()).toBe('2026-10-20T12:00:00.000Z')
+  })
+
+  it('uses UTC for unknown time zones', () => {
+    const unknown = { ...DEFAULT_PROMPT_SCHEDULING_PREFERENCES, timezone: 'Mars/Olympus_Mons' }
+    expect(pickSendTime(NOW, [19], unknown).toISOString()).toBe('2026-10-19T19:00:00.000Z')
+  })
+})
+
+describe('ProactivePromptScheduler', () => {
+  function createTables(): FakeTables {
+    return {
+      branch_members: [
+        { user_id: 'user-1', branch_id: 'branch-a', status: 'active' },
+        { user_id: 'user-1', branch_id: 'branch-b', status: 'active' },
+        { user_id: 'user-1', branch_id: 'branch-c', status: 'active' },
+        { user_id: 'user-2', branch_id: 'branch-a', status: 'active' },
+        { user_id: 'user-3', branch_id: 'branch-a', status: 'active' },
+      ],
+      user_notification_preferences: [
+        { user_id: 'user-1', timezone: 'America/New_York', quiet_hours_start: '22:00:00', quiet_hours_end: '08:00:00', prompt_frequency: 'daily' },
+        { user_id: 'user-3', timezone: 'UTC', quiet_hours_start: '22:00:00', quiet_hours_end: '08:00:00', prompt_frequency: 'never' },
+      ],
+      ai_prompt_deliveries: [
+        { id: 'old-1', user_id: 'user-1', branch_id: 'branch-a', status: 'sent', attempted_at: hoursAgo(48) },
+      ],
+      ai_system_messages: [],
+      posts: [
+        { author_id: 'user-1', branch_id: 'branch-b', created_at: hoursAgo(24) },
+      ],
+    }
+  }
+
+  function setup(tables = createTables(), generate = jest.fn(async (userId: string, branchId: string) => ({ id: `prompt-${userId}-${branchId}` }) as SmartPrompt)) {
+    const analyzeUserPatterns = jest.fn(async () => ({ timing: { mostActiveHours: [19, 8] } }) as unknown as UserPattern)
+    const scheduler = new ProactivePromptScheduler(
+      createFakeSupabase(tables),
+      {},
+      { generateProactivePrompt: generate },
+      { analyzeUserPatterns }
+    )
+    return { scheduler, tables, generate, analyzeUserPatterns }
+  }
+
+  const scheduledFor = (tables: FakeTables, userId: string) =>
+    tables.ai_prompt_deliveries.filter(delivery => delivery.user_id === userId && delivery.status === 'scheduled')
+
+  it('schedules one prompt per user for their least recently prompted, inactive branch', async () => {
+    const { scheduler, tables, analyzeUserPatterns } = setup()
+
+    await expect(scheduler.scheduleDuePrompts(NOW)).resolves.toBe(2)
+
+    expect(scheduledFor(tables, 'user-1')).toEqual([
+      expect.objectContaining({ branch_id: 'branch-c', scheduled_for: '2026-10-19T12:00:00.000Z', timezone: 'America/New_York' }),
+    ])
+    expect(analyzeUserPatterns).toHaveBeenCalledWith('user-1', 'branch-c', 'America/New_York')
+    // No preferences row: UTC defaults, next active hour is 19:00
+    expect(scheduledFor(tables, 'user-2')).toEqual([
+      expect.objectContaining({ branch_id: 'branch-a', scheduled_for: '2026-10-19T19:00:00.000Z', timezone: 'UTC' }),
+    ])
+    // Prompts turned off
+    expect(scheduledFor(tables, 'user-3')).toEqual([])
+
+    await expect(scheduler.scheduleDuePrompts(NOW)).resolves.toBe(0)
+  })
+
+  it('waits out the prompt frequency and any unanswered prompt', async () => {
+    const tables = createTables()
+    tables.ai_prompt_deliveries.push({ id: 'old-2', user_id: 'user-2', branch_id: 'branch-a', status: 'sent', attempted_at: hoursAgo(48) })
+    tables.ai_system_messages.push({ user_id: 'user-1', message_type: 'prompt', expires_at: hoursAgo(-12) })
+    const { scheduler } = setup(tables)
+
+    await expect(scheduler.scheduleDuePrompts(NOW)).resolves.toBe(0)
+  })
+
+  it('sends due prompts and records each outcome', async () => {
+    const generate = jest.fn(async (userId: string, branchId: string) => {
+      if (userId === 'user-2') throw new Error('All AI providers failed')
+      return { id: `prompt-${userId}-${branchId}` } as SmartPrompt
+    })
+    const { scheduler, tables } = setup(undefined, generate)
+
+    // 19:00 in New York; user-2's 19:00 UTC slot has passed, so theirs is tomorrow at 08:00
+    await expect(scheduler.run(new Date('2026-10-19T23:00:00.000Z'))).resolves.toMatchObject({ scheduled: 2, sent: 1, failed: 0 })
+    expect(generate).toHaveBeenCalledWith('user-1', 'branch-c', 'America/New_York')
+    expect(tables.ai_prompt_deliveries.find(d => d.user_id === 'user-1' && d.branch_id === 'branch-c')).toMatchObject({
+      status: 'sent',
+      prompt_id: 'prompt-user-1-branch-c',
+      attempted_at: '2026-10-19T23:00:00.000Z',
+    })
+
+    await expect(scheduler.run(new Date('2026-10-20T08:00:00.000Z'))).resolves.toMatchObject({ scheduled: 0, failed: 1 })
+    expect(tables.ai_prompt_deliveries.find(d => d.user_id === 'user-2')).toMatchObject({
+      status: 'failed',
+      outcome_reason: 'All AI providers failed',
+    })
+  })
+
+  it('defers a due prompt that now falls in quiet hours', async () => {
+    const tables = createTables()
+    tables.ai_prompt_deliveries.push({ id: 'due-1', user_id: 'user-1', branch_id: 'branch-c', status: 'scheduled', scheduled_for: '2026-10-20T02:00:00.000Z' })
+    const { scheduler, generate } = setup(tables)
+
+    // 23:00 in New York
+    const outcomes = await scheduler.sendDueDeliveries(new Date('2026-10-20T03:00:00.000Z'))
+
+    expect(outcomes).toEqual(['deferred'])
+    expect(generate).not.toHaveBeenCalled()
+    expect(tables.ai_prompt_deliveries.find(d => d.id === 'due-1')).toMatchObject({
+      status: 'scheduled',
+      scheduled_for: '2026-10-20T12:00:00.000Z',
+    })
+  })
+})
+
+describe('createServerPromptingEngine', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = jest.fn()
+    mockComplete.mockResolvedValue({
+      content: 'How was the first day at the new school?',
+      provider: 'anthropic',
+      model: 'test-model',
+      usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+    })
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('writes prompts through the scheduler client without the browser gateway route', async () => {
+    const tables: FakeTables = {
+      profiles: [{ id: 'user-1', first_name: 'Ada', last_name: 'Park' }],
+      branches: [{ id: 'branch-c', name: 'Maya', type: 'family' }],
+    }
+
+    const prompt = await createServerPromptingEngine(createFakeSupabase(tables)).generateProactivePrompt('user-1', 'branch-c', 'Asia/Tokyo')
+
+    expect(prompt).not.toBeNull()
+    expect(tables.ai_system_messages).toEqual([
+      expect.objectContaining({ id: prompt?.id, user_id: 'user-1', branch_id: 'branch-c', message_type: 'prompt' }),
+    ])
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('records a failed delivery when the prompt cannot be saved', async () => {
+    const tables: FakeTables = {
+      user_notification_preferences: [],
+      ai_prompt_deliveries: [
+        { id: 'due-1', user_id: 'user-1', branch_id: 'branch-c', status: 'scheduled', scheduled_for: '2026-10-19T11:00:00.000Z' },
+      ],
+    }
+    const fake = createFakeSupabase(tables)
+    const client = {
+      ...fake,
+      from: (table: string) => table === 'ai_system_messages'
+        ? { insert: async () => ({ error: new Error('permission denied for table ai_system_messages') }) }
+        : fake.from(table),
+    } as unknown as typeof fake
+
+    const outcomes = await new ProactivePromptScheduler(client).sendDueDeliveries(NOW)
+
+    expect(outcomes).toEqual(['failed'])
+    expect(tables.ai_prompt_deliveries[0]).toMatchObject({
+      status: 'failed',
+      outcome_reason: 'permission denied for table ai_system_messages',
+    })
+  })
+})
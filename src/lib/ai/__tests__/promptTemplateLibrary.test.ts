@@ -0,0 +1,114 @@
+import { PromptTemplateLibrary } from '../promptTemplateLibrary'
+import { getRandomPromptTemplate, personalizePrompt, PROMPT_TEMPLATES } from '../promptTemplates'
+import { createFakeSupabase, type FakeTables, type Row } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+function templateRow(id: string, overrides: Row = {}): Row {
+  return {
+    id,
+    template_key: null,
+    tree_id: null,
+    shared_tree_ids: [],
+    type: 'memory',
+    category: 'daily',
+    title: id,
+    prompt: `Prompt ${id} for {branchName}`,
+    follow_up_questions: [],
+    suggested_responses: [],
+    triggers: {},
+    personalization: {},
+    created_by: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('PromptTemplateLibrary', () => {
+  function createTables(): FakeTables {
+    // About seven months old
+    const birthDate = new Date(Date.now() - 210 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    return {
+      prompt_templates: [
+        templateRow('built-in'),
+        templateRow('built-in-off'),
+        templateRow('own', { tree_id: 'tree-1' }),
+        templateRow('shared-in', { tree_id: 'tree-2', shared_tree_ids: ['tree-1'] }),
+        templateRow('other-tree', { tree_id: 'tree-3' }),
+      ],
+      branch_prompt_template_settings: [
+        { branch_id: 'branch-1', template_id: 'built-in-off', enabled: false },
+        { branch_id: 'branch-1', template_id: 'own', enabled: true },
+      ],
+      branches: [
+        { id: 'branch-1', tree_id: 'tree-1', trees: { person_name: 'Maya', person_birth_date: birthDate } },
+        { id: 'branch-2', tree_id: null, trees: null },
+      ],
+    }
+  }
+
+  it('lists built-in, own and shared templates with their branch setting', async () => {
+    const library = new PromptTemplateLibrary(createFakeSupabase(createTables()))
+
+    const templates = await library.listTreeTemplates('tree-1', 'branch-1')
+
+    expect(templates.map(template => [template.id, template.enabled])).toEqual([
+      ['built-in', true],
+      ['built-in-off', false],
+      ['own', true],
+      ['shared-in', true],
+    ])
+  })
+
+  it('loads the templates a branch has on, with the child it is about', async () => {
+    const library = new PromptTemplateLibrary(createFakeSupabase(createTables()))
+
+    const { templates, childName, ageGroup } = await library.getBranchTemplates('branch-1')
+
+    expect(templates.map(template => template.id)).toEqual(['built-in', 'own', 'shared-in'])
+    expect(templates[1]).toMatchObject({ treeId: 'tree-1', followUpQuestions: [], prompt: 'Prompt own for {branchName}' })
+    expect(childName).toBe('Maya')
+    expect(ageGroup).toBe('infant')
+  })
+
+  it('falls back to the built-in templates when the branch has no tree', async () => {
+    const library = new PromptTemplateLibrary(createFakeSupabase(createTables()))
+
+    await expect(library.getBranchTemplates('branch-2')).resolves.toEqual({ templates: PROMPT_TEMPLATES })
+  })
+})
+
+describe('prompt template triggers', () => {
+  const templates = [
+    { ...PROMPT_TEMPLATES[0], id: 'any' },
+    { ...PROMPT_TEMPLATES[0], id: 'first-steps', triggers: { milestones: ['first_steps'] } },
+    { ...PROMPT_TEMPLATES[0], id: 'teen', personalization: { ageGroups: ['teen' as const] } },
+  ]
+
+  it('prefers templates for a recent milestone', () => {
+    const template = getRandomPromptTemplate({ recentMilestones: ['first_steps'] }, templates)
+
+    expect(template.id).toBe('first-steps')
+  })
+
+  it('skips templates meant for another age group', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(getRandomPromptTemplate({ ageGroup: 'infant' }, templates).id).not.toBe('teen')
+    }
+  })
+
+  it('fills in the child and milestone placeholders', () => {
+    const template = { ...PROMPT_TEMPLATES[0], prompt: 'How did {childName} manage {milestone}?' }
+
+    expect(personalizePrompt(template, { branchName: 'Maya', userName: 'Sam', childName: 'Maya', milestone: 'first_steps' })).toBe('How did Maya manage first steps?')
+    expect(personalizePrompt(template, { branchName: 'Maya', userName: 'Sam' })).toContain('your little one')
+  })
+})
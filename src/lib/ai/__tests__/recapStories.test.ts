@@ -0,0 +1,162 @@
+import { getPreviousRecapPeriod, getRecapPeriod, RecapStoryGenerator } from '../recapStories'
+import type { AICompletionRequest } from '../providers'
+import { createFakeSupabase, type FakeTables, type Row } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const TREE_ID = 'tree-1'
+
+function leaf(id: string, createdAt: string, overrides: Row = {}): Row {
+  return {
+    id,
+    tree_id: TREE_ID,
+    content: `Memory ${id}`,
+    ai_caption: null,
+    leaf_type: 'text',
+    message_type: 'leaf',
+    media_urls: [],
+    milestone_type: null,
+    milestone_display_name: null,
+    milestone_date: null,
+    season: 'autumn',
+    heart_count: 0,
+    smile_count: 0,
+    laugh_count: 0,
+    author_name: 'Grandma',
+    created_at: createdAt,
+    ...overrides,
+  }
+}
+
+function setup(options: { available?: boolean; reply?: string } = {}) {
+  const tables: FakeTables = {
+    trees: [{ id: TREE_ID, name: 'Maya', person_name: 'Maya', is_active: true }],
+    branches: [
+      { id: 'branch-new', tree_id: TREE_ID, created_at: '2026-02-01T00:00:00.000Z' },
+      { id: 'branch-old', tree_id: TREE_ID, created_at: '2025-01-01T00:00:00.000Z' },
+    ],
+    person_recaps: [],
+    posts: [],
+    leaves_with_details: [
+      leaf('first-steps', '2026-09-03T10:00:00.000Z', {
+        milestone_type: 'first_steps',
+        milestone_display_name: 'First Steps',
+        milestone_date: '2026-09-02',
+      }),
+      leaf('beach', '2026-09-10T10:00:00.000Z', { leaf_type: 'photo', media_urls: ['https://cdn/beach.jpg'], heart_count: 4, smile_count: 2 }),
+      leaf('park', '2026-09-12T10:00:00.000Z', { leaf_type: 'photo', media_urls: ['https://cdn/park.jpg'], heart_count: 1 }),
+      leaf('old-recap', '2026-09-01T09:00:00.000Z', { message_type: 'system' }),
+      leaf('october', '2026-10-02T10:00:00.000Z'),
+    ],
+  }
+
+  const complete = jest.fn(async (request: AICompletionRequest) => ({
+    content: options.reply ?? 'Maya had a big September.',
+    provider: 'mock' as const,
+    model: 'mock-model',
+    usage: { promptTokens: request.messages.length, completionTokens: 1, totalTokens: request.messages.length + 1 },
+  }))
+  const gateway = { complete, isAvailable: () => options.available ?? false }
+
+  return { tables, complete, generator: new RecapStoryGenerator(createFakeSupabase(tables), gateway) }
+}
+
+describe('recap periods', () => {
+  it('finds the UTC month or year containing a date and the one before', () => {
+    const date = new Date('2026-10-19T08:00:00.000Z')
+
+    expect(getRecapPeriod('monthly', date)).toEqual({ type: 'monthly', start: '2026-10-01', end: '2026-11-01', label: 'October 2026' })
+    expect(getPreviousRecapPeriod('monthly', new Date('2026-01-05T00:00:00.000Z'))).toMatchObject({ start: '2025-12-01', end: '2026-01-01' })
+    expect(getPreviousRecapPeriod('yearly', date)).toEqual({ type: 'yearly', start: '2025-01-01', end: '2026-01-01', label: '2025' })
+  })
+})
+
+describe('RecapStoryGenerator', () => {
+  it('writes a demo draft from the period\'s leaves when no provider is configured', async () => {
+    const { tables, complete, generator } = setup()
+
+    const recap = await generator.generateRecap(TREE_ID, 'monthly', new Date('2026-09-15T00:00:00.000Z'))
+
+    expect(complete).not.toHaveBeenCalled()
+    expect(recap).toMatchObject({
+      status: 'draft',
+      title: 'Maya\'s September 2026',
+      period_start: '2026-09-01',
+      period_end: '2026-10-01',
+      ai_metadata: { provider: 'demo' },
+      highlights: {
+        leafCount: 3,
+        stats: { totalLeaves: 4 },
+        milestones: [{ leafId: 'first-steps', name: 'First Steps', date: '2026-09-02' }],
+        topPhotos: [{ leafId: 'beach', reactions: 6 }, { leafId: 'park', reactions: 1 }],
+      },
+    })
+    expect(recap?.narrative).toContain('First Steps')
+    expect(tables.person_recaps).toHaveLength(1)
+  })
+
+  it('keeps an existing draft unless asked to regenerate it', async () => {
+    const { tables, complete, generator } = setup({ available: true })
+    const september = new Date('2026-09-15T00:00:00.000Z')
+
+    await generator.generateRecap(TREE_ID, 'monthly', september)
+    await generator.generateRecap(TREE_ID, 'monthly', september)
+    expect(complete).toHaveBeenCalledTimes(1)
+
+    const regenerated = await generator.generateRecap(TREE_ID, 'monthly', september, { regenerate: true })
+    expect(complete).toHaveBeenCalledTimes(2)
+    expect(regenerated).toMatchObject({ narrative: 'Maya had a big September.', ai_metadata: { provider: 'mock', model: 'mock-model' } })
+    expect(tables.person_recaps).toHaveLength(1)
+
+    const prompt = complete.mock.calls[0][0].messages.at(-1)?.content
+    expect(prompt).toContain('Memory beach')
+    expect(prompt).not.toContain('Memory old-recap')
+  })
+
+  it('skips periods without memories', async () => {
+    const { tables, generator } = setup()
+
+    await expect(generator.generateRecap(TREE_ID, 'monthly', new Date('2026-08-15T00:00:00.000Z'))).resolves.toBeNull()
+    expect(tables.person_recaps).toEqual([])
+  })
+
+  it('publishes a draft as a system leaf and keeps the leaf in step with edits', async () => {
+    const { tables, generator } = setup()
+    const draft = await generator.generateRecap(TREE_ID, 'monthly', new Date('2026-09-15T00:00:00.000Z'))
+
+    const published = await generator.publishRecap(draft!, 'manager-1')
+
+    expect(published).toMatchObject({ status: 'published', published_by: 'manager-1' })
+    expect(tables.posts).toEqual([
+      expect.objectContaining({
+        id: published.leaf_id,
+        branch_id: 'branch-old',
+        author_id: 'manager-1',
+        message_type: 'system',
+        media_urls: ['https://cdn/beach.jpg', 'https://cdn/park.jpg'],
+        tags: ['recap', 'monthly'],
+      }),
+    ])
+
+    await generator.updateRecap(published, { narrative: 'A month of firsts.' })
+    expect(tables.posts[0].content).toBe('Maya\'s September 2026\n\nA month of firsts.')
+
+    await expect(generator.publishRecap({ ...published }, 'manager-1')).rejects.toThrow('already published')
+  })
+
+  it('writes the recaps that are due and leaves existing ones alone', async () => {
+    const { tables, generator } = setup()
+    const now = new Date('2026-10-19T08:00:00.000Z')
+
+    await expect(generator.generateDueRecaps(now)).resolves.toEqual({ generated: 1, skipped: 1, failed: 0 })
+    await expect(generator.generateDueRecaps(now)).resolves.toEqual({ generated: 0, skipped: 2, failed: 0 })
+    expect(tables.person_recaps.map(recap => recap.period_start)).toEqual(['2026-09-01'])
+  })
+})
@@ -0,0 +1,132 @@
+import { KeywordResponseAnalyzer, ModelResponseAnalyzer } from '../responseAnalyzer'
+import { parseMessageAnalysis } from '../responseAnalysisSchema'
+import { LeafAnalyzer, ResponseAnalysisStore } from '../responseAnalysisStore'
+import { AIGatewayError, type AICompletionRequest } from '../providers'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const MESSAGE = 'Maya took her first steps at the park with Grandma today!'
+
+const validReply = JSON.stringify({
+  categories: [
+    { type: 'memory', confidence: 0.7, reason: 'Shares a moment from today' },
+    { type: 'milestone', confidence: 0.95, reason: 'First steps' },
+  ],
+  tags: ['#First Steps', 'park', 'park'],
+  sentiment: 'positive',
+  topics: ['Development', 'activities'],
+  urgency: 'low',
+  milestone: 'first_steps',
+  people: ['Maya', 'grandma'],
+  locations: ['park'],
+  timeReferences: ['today'],
+})
+
+// Transport stub that answers each call with the next reply
+const replying = (...replies: string[]) => jest.fn(async (request: AICompletionRequest) => ({
+  content: replies.shift() ?? '',
+  provider: 'mock' as const,
+  model: 'mock',
+  usage: { promptTokens: request.messages.length, completionTokens: 1, totalTokens: request.messages.length + 1 },
+}))
+
+describe('parseMessageAnalysis', () => {
+  it('normalizes lists and orders categories by confidence', () => {
+    const result = parseMessageAnalysis(validReply)
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        categories: [{ type: 'milestone' }, { type: 'memory' }],
+        tags: ['first_steps', 'park'],
+        topics: ['development', 'activities'],
+        people: ['maya', 'grandma'],
+      },
+    })
+  })
+
+  it('explains what is wrong with invalid replies', () => {
+    expect(parseMessageAnalysis('positive')).toEqual({ success: false, error: 'The reply is not valid JSON.' })
+
+    const result = parseMessageAnalysis('{"categories":[],"tags":[],"sentiment":"happy","topics":[],"urgency":"low"}')
+    expect(result.success).toBe(false)
+    const error = !result.success ? result.error : ''
+    expect(error).toContain('categories')
+    expect(error).toContain('sentiment')
+  })
+})
+
+describe('ModelResponseAnalyzer', () => {
+  it('returns the model analysis in the keyword analyzer shape', async () => {
+    const transport = replying(validReply)
+    const analyzer = new ModelResponseAnalyzer(transport)
+
+    const analysis = await analyzer.analyzeMessage(MESSAGE, ['https://cdn/a.jpg'])
+
+    expect(analysis).toMatchObject({
+      analyzer: 'model',
+      sentiment: 'positive',
+      milestone: 'first_steps',
+      locations: ['park'],
+    })
+    expect(analysis.categories.map(category => category.type)).toEqual(['milestone', 'memory', 'photo_share'])
+    expect(transport).toHaveBeenCalledWith(expect.objectContaining({ responseFormat: 'json' }))
+  })
+
+  it('falls back to keywords when the reply is invalid or no provider answers', async () => {
+    const keyword = await new KeywordResponseAnalyzer().analyzeMessage(MESSAGE)
+    expect(keyword).toMatchObject({ analyzer: 'keyword', milestone: 'first_steps', sentiment: 'positive' })
+
+    await expect(new ModelResponseAnalyzer(replying('Sounds lovely!')).analyzeMessage(MESSAGE)).resolves.toEqual(keyword)
+
+    const unavailable = jest.fn(async () => { throw new AIGatewayError('No AI provider configured') })
+    await expect(new ModelResponseAnalyzer(unavailable).analyzeMessage(MESSAGE)).resolves.toEqual(keyword)
+  })
+})
+
+describe('LeafAnalyzer', () => {
+  function setup() {
+    const tables: FakeTables = { ai_response_analysis: [] }
+    const store = new ResponseAnalysisStore(createFakeSupabase(tables))
+    const leafAnalyzer = new LeafAnalyzer(new ModelResponseAnalyzer(replying(validReply, validReply)), store)
+    return { tables, store, leafAnalyzer }
+  }
+
+  const leaf = { id: 'leaf-1', author_id: 'user-1', branch_id: 'branch-1', content: MESSAGE, media_urls: [] }
+
+  it('stores one analysis per leaf that search can find', async () => {
+    const { tables, store, leafAnalyzer } = setup()
+
+    await leafAnalyzer.analyzeLeaf(leaf)
+    await leafAnalyzer.analyzeLeaf(leaf)
+
+    expect(tables.ai_response_analysis).toEqual([
+      expect.objectContaining({
+        leaf_id: 'leaf-1',
+        user_id: 'user-1',
+        branch_id: 'branch-1',
+        milestone: 'first_steps',
+        analyzer: 'model',
+        confidence_score: 0.95,
+      }),
+    ])
+    await expect(store.findLeafIds('Grandma')).resolves.toEqual(['leaf-1'])
+    await expect(store.findLeafIds('beach')).resolves.toEqual([])
+    await expect(store.findLeafIds('park,tags.cs.{x}')).resolves.toEqual([])
+  })
+
+  it('skips leaves without text', async () => {
+    const { tables, leafAnalyzer } = setup()
+
+    await expect(leafAnalyzer.analyzeLeaf({ ...leaf, content: '  ' })).resolves.toBeNull()
+    expect(tables.ai_response_analysis).toEqual([])
+  })
+})
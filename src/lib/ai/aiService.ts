@@ -1,12 +1,23 @@
 /**
  * AI Service for Journal Assistant
- * Provides intelligent conversation capabilities for family data collection
+ * Provides intelligent conversation capabilities for family data collection.
+ * Model calls go through the server-side AI gateway.
  */
 
+import { supabase } from '@/lib/supabase/client'
 import { createComponentLogger } from '../logger'
+import { ConversationMemoryStore, type ConversationMemory, type ConversationTurn } from './conversationMemory'
+import { requestAICompletion, type AITransport } from './gatewayClient'
+import { AIGatewayError, type AICompletion, type AIResponseFormat, type AITokenUsage } from './providers/aiProvider'
+import { parseLeafEnhancement } from './leafEnhancementSchema'
+import { parseInterviewDraft, type InterviewDraft } from './interviewDraftSchema'
+import type { LeafEnhancementResult } from './promptingEngine'
 
 const logger = createComponentLogger('AIService')
 
+// Repair requests sent after an invalid JSON reply before giving up
+const MAX_JSON_REPAIRS = 1
+
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant'
   content: string
@@ -14,6 +25,8 @@ export interface AIMessage {
 }
 
 export interface AIPromptContext {
+  userId?: string // conversation memory is kept only when both ids are known
+  branchId?: string
   branchName: string
   branchType: 'family' | 'community' | 'topic' | 'local'
   userName: string
@@ -52,23 +65,27 @@ export interface AIResponse {
     locations?: string[]
   }
   confidenceScore: number
+  aiMetadata?: {
+    provider: string
+    model: string
+    usage?: AITokenUsage
+  }
 }
 
 export interface AIServiceConfig {
-  provider: 'openai' | 'anthropic'
-  apiKey: string
-  model?: string
+  transport?: AITransport // defaults to the /api/ai/gateway route, which only the browser can reach
+  memory?: ConversationMemoryStore | null // defaults to Supabase; null keeps no history
   maxTokens?: number
   temperature?: number
 }
 
 class AIService {
-  private config: AIServiceConfig
-  private conversationHistory: Map<string, AIMessage[]> = new Map()
+  private config: Required<AIServiceConfig>
 
-  constructor(config: AIServiceConfig) {
+  constructor(config: AIServiceConfig = {}) {
     this.config = {
-      model: config.provider === 'openai' ? 'gpt-4' : 'claude-3-sonnet-20240229',
+      transport: requestAICompletion,
+      memory: config.memory === undefined ? new ConversationMemoryStore(supabase) : config.memory,
       maxTokens: 500,
       temperature: 0.7,
       ...config
@@ -79,23 +96,23 @@ class AIService {
    * Generate a proactive prompt based on context
    */
   async generatePrompt(context: AIPromptContext): Promise<AIResponse> {
-    const conversationKey = `${context.branchName}-${context.userName}`
-    const history = this.conversationHistory.get(conversationKey) || []
+    const memory = await this.loadMemory(context.userId, context.branchId)
 
     // Determine prompt type based on context
-    const promptType = this.determinePromptType(context, history)
+    const promptType = this.determinePromptType(context, memory.turns)
     
     // Build system message for family journal assistant
-    const systemMessage = this.buildSystemMessage(context, promptType)
+    const systemMessage = this.withSummary(this.buildSystemMessage(context, promptType), memory.summary)
     
-    // Create conversation history
+    // Summary of earlier sessions plus the most recent turns
     const messages: AIMessage[] = [
       { role: 'system', content: systemMessage },
-      ...history.slice(-10), // Keep last 10 messages for context
+      ...memory.turns,
     ]
 
     try {
-      const response = await this.callAI(messages)
+      const completion = await this.callAI(messages)
+      const response = completion.content
       
       // Extract structured data from response
       const extractedData = this.extractStructuredData(response)
@@ -104,20 +121,17 @@ class AIService {
       const suggestedResponses = this.generateSuggestedResponses(promptType, context)
 
       // Update conversation history
-      const aiMessage: AIMessage = {
-        role: 'assistant',
-        content: response,
-        timestamp: new Date()
-      }
-      history.push(aiMessage)
-      this.conversationHistory.set(conversationKey, history)
+      await this.remember(context, [
+        { role: 'assistant', content: response, timestamp: new Date() }
+      ])
 
       return {
         message: response,
         promptType,
         suggestedResponses,
         extractedData,
-        confidenceScore: this.calculateConfidenceScore(response)
+        confidenceScore: this.calculateConfidenceScore(response),
+        aiMetadata: this.toMetadata(completion)
       }
     } catch (error) {
       logger.error('AI Service Error', error, { metadata: { promptType, contextType: context?.branchType } })
@@ -133,42 +147,39 @@ class AIService {
     context: AIPromptContext,
     previousPromptType: string
   ): Promise<AIResponse> {
-    const conversationKey = `${context.branchName}-${context.userName}`
-    const history = this.conversationHistory.get(conversationKey) || []
+    const memory = await this.loadMemory(context.userId, context.branchId)
 
-    // Add user message to history
-    const userAIMessage: AIMessage = {
+    const userAIMessage: ConversationTurn = {
       role: 'user',
       content: userMessage,
       timestamp: new Date()
     }
-    history.push(userAIMessage)
 
     // Generate contextual follow-up
-    const systemMessage = this.buildFollowUpSystemMessage(context, previousPromptType)
+    const systemMessage = this.withSummary(this.buildFollowUpSystemMessage(context, previousPromptType), memory.summary)
     
     const messages: AIMessage[] = [
       { role: 'system', content: systemMessage },
-      ...history.slice(-10),
+      ...memory.turns,
+      userAIMessage,
     ]
 
     try {
-      const response = await this.callAI(messages)
+      const completion = await this.callAI(messages)
+      const response = completion.content
       const extractedData = this.extractStructuredData(userMessage + ' ' + response)
       
-      const aiMessage: AIMessage = {
-        role: 'assistant',
-        content: response,
-        timestamp: new Date()
-      }
-      history.push(aiMessage)
-      this.conversationHistory.set(conversationKey, history)
+      await this.remember(context, [
+        userAIMessage,
+        { role: 'assistant', content: response, timestamp: new Date() }
+      ])
 
       return {
         message: response,
         promptType: 'followup',
         extractedData,
-        confidenceScore: this.calculateConfidenceScore(response)
+        confidenceScore: this.calculateConfidenceScore(response),
+        aiMetadata: this.toMetadata(completion)
       }
     } catch (error) {
       logger.error('AI Follow-up Error', error, { metadata: { userMessage: userMessage.length + ' chars' } })
@@ -245,66 +256,100 @@ Respond naturally by:
 Keep responses concise (2-3 sentences) and conversational. Focus on drawing out details, emotions, or context that make the memory richer.`
   }
 
-  private async callAI(messages: AIMessage[]): Promise<string> {
-    if (this.config.provider === 'openai') {
-      return this.callOpenAI(messages)
-    } else {
-      return this.callAnthropic(messages)
-    }
+  private withSummary(systemMessage: string, summary: string | null): string {
+    return summary
+      ? `${systemMessage}\n\nWhat you remember from earlier conversations with this user:\n${summary}`
+      : systemMessage
   }
 
-  private async callOpenAI(messages: AIMessage[]): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.config.model,
-        messages: messages.map(m => ({ role: m.role, content: m.content })),
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-      }),
-    })
+  private async loadMemory(userId?: string, branchId?: string): Promise<ConversationMemory> {
+    const { memory } = this.config
+    if (!memory || !userId || !branchId) {
+      return { summary: null, turns: [] }
+    }
+    return memory.load(userId, branchId)
+  }
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`)
+  /**
+   * Store new turns and condense older ones. Failures are logged, since the
+   * reply has already been generated.
+   */
+  private async remember(context: AIPromptContext, turns: ConversationTurn[]): Promise<void> {
+    const { memory } = this.config
+    if (!memory || !context.userId || !context.branchId) {
+      return
     }
 
-    const data = await response.json()
-    return data.choices[0]?.message?.content || ''
+    try {
+      await memory.append(context.userId, context.branchId, turns)
+      await memory.condense(context.userId, context.branchId, (previousSummary, olderTurns) =>
+        this.summarizeConversation(context, previousSummary, olderTurns)
+      )
+    } catch (error) {
+      logger.error('Failed to update conversation memory', error, {
+        metadata: { userId: context.userId, branchId: context.branchId }
+      })
+    }
   }
 
-  private async callAnthropic(messages: AIMessage[]): Promise<string> {
-    // Convert messages format for Anthropic
-    const systemMessage = messages.find(m => m.role === 'system')?.content || ''
-    const conversationMessages = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({ role: m.role, content: m.content }))
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.config.apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
+  private async summarizeConversation(
+    context: AIPromptContext,
+    previousSummary: string | null,
+    turns: ConversationTurn[]
+  ): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? context.userName : 'Sage'}: ${turn.content}`)
+      .join('\n')
+
+    const { content } = await this.callAI([
+      {
+        role: 'system',
+        content: `You keep notes for Sage, a family journal assistant. Write a short summary (under 150 words) of what ${context.userName} has shared in the ${context.branchName} branch: people, events, milestones and topics to follow up on. Combine it with the earlier summary, keep only what is still useful, and reply with the summary only.`
       },
-      body: JSON.stringify({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        system: systemMessage,
-        messages: conversationMessages,
-      }),
-    })
+      {
+        role: 'user',
+        content: `Earlier summary:\n${previousSummary || 'None'}\n\nConversation:\n${transcript}`
+      }
+    ])
+    return content
+  }
+
+  /**
+   * Call the model for a JSON reply, sending invalid replies back once for repair
+   */
+  private async callAIForJSON<T>(
+    messages: AIMessage[],
+    parse: (raw: string) => { success: true; data: T } | { success: false; error: string },
+    label: string
+  ): Promise<T | null> {
+    for (let attempt = 0; attempt <= MAX_JSON_REPAIRS; attempt++) {
+      const { content: response } = await this.callAI(messages, 'json')
+      const result = parse(response)
+      if (result.success) {
+        return result.data
+      }
 
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.statusText}`)
+      logger.warn(`Invalid ${label} from model`, { metadata: { attempt, error: result.error } })
+      messages.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: `That reply could not be used: ${result.error}. Reply with only the corrected JSON object.` }
+      )
     }
 
-    const data = await response.json()
-    return data.content[0]?.text || ''
+    return null
+  }
+
+  private async callAI(messages: AIMessage[], responseFormat: AIResponseFormat = 'text'): Promise<AICompletion> {
+    return this.config.transport({
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      responseFormat
+    })
+  }
+
+  private toMetadata(completion: AICompletion): AIResponse['aiMetadata'] {
+    return { provider: completion.provider, model: completion.model, usage: completion.usage }
   }
 
   private extractStructuredData(text: string): AIResponse['extractedData'] {
@@ -438,39 +483,29 @@ Keep responses concise (2-3 sentences) and conversational. Focus on drawing out
   }
 
   /**
-   * Clear conversation history for a specific context
+   * Forget a user's conversation history, in one branch or all of them
    */
-  clearConversationHistory(branchName: string, userName: string): void {
-    const conversationKey = `${branchName}-${userName}`
-    this.conversationHistory.delete(conversationKey)
+  async forgetConversationHistory(userId: string, branchId?: string): Promise<void> {
+    await this.config.memory?.forget(userId, branchId)
   }
 
   /**
    * Get conversation history for debugging/analysis
    */
-  getConversationHistory(branchName: string, userName: string): AIMessage[] {
-    const conversationKey = `${branchName}-${userName}`
-    return this.conversationHistory.get(conversationKey) || []
+  async getConversationHistory(userId: string, branchId: string): Promise<ConversationMemory> {
+    return this.loadMemory(userId, branchId)
   }
 
   /**
-   * Generate leaf enhancement (caption, tags, milestone detection)
+   * Generate leaf enhancement (caption, tags, milestone detection) as
+   * validated JSON. An invalid reply is sent back to the model for repair;
+   * null means no usable reply was produced.
    */
-  async generateLeafEnhancement(prompt: string): Promise<{
-    caption?: string
-    tags: string[]
-    milestone?: {
-      type: string
-      confidence: number
-      description: string
-    }
-    season?: string
-    confidence: number
-  }> {
+  async generateLeafEnhancement(prompt: string): Promise<LeafEnhancementResult | null> {
     const messages: AIMessage[] = [
       {
         role: 'system',
-        content: 'You are an AI assistant helping parents capture and organize precious family memories. Analyze the provided content and return a JSON response with suggested enhancements.'
+        content: 'You are an AI assistant helping parents capture and organize precious family memories. Analyze the provided content and respond with a single JSON object of suggested enhancements, and nothing else.'
       },
       {
         role: 'user',
@@ -479,90 +514,84 @@ Keep responses concise (2-3 sentences) and conversational. Focus on drawing out
     ]
 
     try {
-      const response = await this.callAI(messages)
-      
-      // Try to parse JSON response
-      try {
-        const parsed = JSON.parse(response)
-        return {
-          caption: parsed.caption,
-          tags: parsed.tags || [],
-          milestone: parsed.milestone,
-          season: parsed.season,
-          confidence: parsed.confidence || 0.7
-        }
-      } catch (parseError) {
-        // Fallback: extract information from plain text response
-        const tags = this.extractTagsFromText(response)
-        const milestone = this.extractMilestoneFromText(response)
-        
-        return {
-          tags: tags.length > 0 ? tags : ['memory'],
-          milestone,
-          confidence: 0.6
-        }
-      }
+      return await this.callAIForJSON(messages, parseLeafEnhancement, 'leaf enhancement')
     } catch (error) {
-      logger.error('Error generating leaf enhancement', error, { metadata: { promptLength: prompt.length } })
+      // An unavailable gateway is expected in demo mode; callers fall back quietly
+      if (!(error instanceof AIGatewayError)) {
+        logger.error('Error generating leaf enhancement', error, { metadata: { promptLength: prompt.length } })
+      }
       throw error
     }
   }
 
-  private extractTagsFromText(text: string): string[] {
-    const tagPatterns = [
-      /tags?:\s*\[([^\]]+)\]/i,
-      /tags?:\s*([^.\n]+)/i
-    ]
-    
-    for (const pattern of tagPatterns) {
-      const match = text.match(pattern)
-      if (match) {
-        return match[1]
-          .split(',')
-          .map(tag => tag.trim().toLowerCase().replace(/['"]/g, ''))
-          .filter(tag => tag.length > 0)
+  /**
+   * Ask the next interview question about a photo or event. Throws
+   * AIGatewayError when no provider answers, so callers can fall back.
+   */
+  async generateInterviewQuestion(subject: string, transcript: string, remaining: number): Promise<string> {
+    const completion = await this.callAI([
+      {
+        role: 'system',
+        content: 'You are Sage, a warm family journal assistant interviewing a parent about a memory of their child. Ask exactly one short, specific follow-up question that draws out who was there, when and where it happened, what happened and how it felt. Never repeat a question that was already answered. Reply with only the question.'
+      },
+      {
+        role: 'user',
+        content: `The memory: ${subject}\n\n${transcript ? `So far:\n${transcript}` : 'No questions asked yet.'}\n\nQuestions left after this one: ${remaining}`
       }
-    }
-    
-    return []
+    ])
+
+    return completion.content.trim()
   }
 
-  private extractMilestoneFromText(text: string): { type: string; confidence: number; description: string } | undefined {
-    const milestoneKeywords = {
-      'first_steps': ['first step', 'walking', 'walked'],
-      'first_word': ['first word', 'said', 'talking', 'spoke'],
-      'first_tooth': ['tooth', 'teeth', 'teething'],
-      'crawling': ['crawl', 'crawling'],
-      'birthday': ['birthday', 'birth day', 'born']
-    }
+  /**
+   * Write an interview up as a leaf draft, as validated JSON. Like leaf
+   * enhancement, an invalid reply is sent back for repair; null means no
+   * usable reply was produced.
+   */
+  async generateInterviewDraft(prompt: string): Promise<InterviewDraft | null> {
+    return this.callAIForJSON([
+      {
+        role: 'system',
+        content: 'You are Sage, a warm family journal assistant. Turn interview answers into a journal entry, and respond with a single JSON object and nothing else.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], parseInterviewDraft, 'interview draft')
+  }
 
-    const lowerText = text.toLowerCase()
-    
-    for (const [type, keywords] of Object.entries(milestoneKeywords)) {
-      if (keywords.some(keyword => lowerText.includes(keyword))) {
-        return {
-          type,
-          confidence: 0.8,
-          description: `Detected ${type.replace('_', ' ')} milestone`
-        }
+  /**
+   * Write a recap story from a summary of a period's leaves. Throws
+   * AIGatewayError when no provider answers, so callers can fall back.
+   */
+  async generateRecapStory(prompt: string): Promise<{ story: string; aiMetadata: AIResponse['aiMetadata'] }> {
+    const completion = await this.callAI([
+      {
+        role: 'system',
+        content: 'You are Sage, a warm family journal assistant. Write recap stories for grandparents and relatives about what happened in a child\'s life. Write in plain prose paragraphs without headings or lists, mention only what the memories describe, and keep it under 300 words.'
+      },
+      {
+        role: 'user',
+        content: prompt
       }
-    }
+    ])
 
-    return undefined
+    return { story: completion.content.trim(), aiMetadata: this.toMetadata(completion) }
   }
 }
 
 // Singleton instance
 let aiServiceInstance: AIService | null = null
 
-export function createAIService(config: AIServiceConfig): AIService {
+export function createAIService(config: AIServiceConfig = {}): AIService {
   aiServiceInstance = new AIService(config)
   return aiServiceInstance
 }
 
 export function getAIService(): AIService {
   if (!aiServiceInstance) {
-    throw new Error('AI Service not initialized. Call createAIService first.')
+    aiServiceInstance = new AIService()
   }
   return aiServiceInstance
 }
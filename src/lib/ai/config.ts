@@ -1,111 +1,99 @@
 /**
  * AI Service Configuration
- * Manages AI service initialization and environment variables
+ * Reads the AI gateway's provider settings from server-side environment
+ * variables. API keys are never exposed through NEXT_PUBLIC_ variables.
  */
 
-import { createAIService, type AIServiceConfig } from './aiService'
+import { createAIService } from './aiService'
 import { createComponentLogger } from '../logger'
+import { isAIProviderName } from './providers'
+import type { AIProviderName } from './providers'
 
 const logger = createComponentLogger('AIConfig')
 
+const DEFAULT_PROVIDER_ORDER: AIProviderName[] = ['openai', 'anthropic', 'local']
+
+export interface AIGatewayConfig {
+  providers: AIProviderName[] // tried in this order until one succeeds
+  maxTokens: number
+  temperature: number
+  timeoutMs: number
+  openai?: { apiKey: string; model: string }
+  anthropic?: { apiKey: string; model: string }
+  local?: { baseUrl: string; model: string; apiKey?: string }
+}
+
 /**
- * Get AI service configuration from environment variables
+ * Get AI gateway configuration from environment variables
  */
-export function getAIConfig(): AIServiceConfig {
-  // Check for OpenAI configuration first
-  const openAIKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || process.env.OPENAI_API_KEY
-  if (openAIKey) {
-    return {
-      provider: 'openai',
-      apiKey: openAIKey,
-      model: process.env.NEXT_PUBLIC_OPENAI_MODEL || 'gpt-4',
-      maxTokens: parseInt(process.env.NEXT_PUBLIC_OPENAI_MAX_TOKENS || '500'),
-      temperature: parseFloat(process.env.NEXT_PUBLIC_OPENAI_TEMPERATURE || '0.7')
-    }
+export function getAIConfig(): AIGatewayConfig {
+  if (process.env.NEXT_PUBLIC_OPENAI_API_KEY || process.env.NEXT_PUBLIC_ANTHROPIC_API_KEY) {
+    logger.warn('NEXT_PUBLIC_ AI API keys are ignored because they are bundled into the browser. Use OPENAI_API_KEY or ANTHROPIC_API_KEY instead.')
   }
 
-  // Check for Anthropic configuration
-  const anthropicKey = process.env.NEXT_PUBLIC_ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY
-  if (anthropicKey) {
-    return {
-      provider: 'anthropic',
-      apiKey: anthropicKey,
-      model: process.env.NEXT_PUBLIC_ANTHROPIC_MODEL || 'claude-3-sonnet-20240229',
-      maxTokens: parseInt(process.env.NEXT_PUBLIC_ANTHROPIC_MAX_TOKENS || '500'),
-      temperature: parseFloat(process.env.NEXT_PUBLIC_ANTHROPIC_TEMPERATURE || '0.7')
-    }
+  const config: AIGatewayConfig = {
+    providers: [],
+    maxTokens: parseInt(process.env.AI_MAX_TOKENS || '500'),
+    temperature: parseFloat(process.env.AI_TEMPERATURE || '0.7'),
+    timeoutMs: parseInt(process.env.AI_TIMEOUT_MS || '30000'),
+    ...(process.env.OPENAI_API_KEY && {
+      openai: {
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4'
+      }
+    }),
+    ...(process.env.ANTHROPIC_API_KEY && {
+      anthropic: {
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model: process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229'
+      }
+    }),
+    // Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1
+    ...(process.env.AI_LOCAL_BASE_URL && {
+      local: {
+        baseUrl: process.env.AI_LOCAL_BASE_URL,
+        model: process.env.AI_LOCAL_MODEL || 'llama3.1',
+        apiKey: process.env.AI_LOCAL_API_KEY
+      }
+    })
   }
 
-  // Fallback to demo mode with mock responses
-  logger.warn('No AI API keys found. Running in demo mode with mock responses.')
-  return {
-    provider: 'openai', // Doesn't matter in demo mode
-    apiKey: 'demo',
-    model: 'demo',
-    maxTokens: 500,
-    temperature: 0.7
+  const requested = process.env.AI_PROVIDERS
+    ? process.env.AI_PROVIDERS.split(',').map(name => name.trim()).filter(isAIProviderName)
+    : DEFAULT_PROVIDER_ORDER
+
+  // The mock provider needs no settings, so it is only used when asked for by name
+  config.providers = requested.filter(name => name === 'mock' || !!config[name])
+
+  if (config.providers.length === 0) {
+    logger.warn('No AI providers configured. Running in demo mode with mock responses.')
   }
+
+  return config
 }
 
 /**
- * Initialize the AI service with environment configuration
+ * Initialize the AI service. It reaches the providers through the gateway route.
  */
 export function initializeAIService() {
-  const config = getAIConfig()
-  return createAIService(config)
+  return createAIService()
 }
 
 /**
- * Check if AI service is properly configured
+ * Check if the AI gateway has at least one provider. Server-side only:
+ * in the browser the provider settings are not visible.
  */
 export function isAIConfigured(): boolean {
-  const openAIKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || process.env.OPENAI_API_KEY
-  const anthropicKey = process.env.NEXT_PUBLIC_ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY
-  
-  const configured = !!(openAIKey || anthropicKey)
-  logger.info('AI Configuration Check', { 
+  const { providers } = getAIConfig()
+  const configured = providers.length > 0
+  logger.info('AI Configuration Check', {
     metadata: {
-      configured, 
-      hasOpenAI: !!openAIKey,
-      hasAnthropic: !!anthropicKey
+      configured,
+      providers
     }
   })
-  
-  return configured
-}
 
-/**
- * Test AI API connection (temporary debug function)
- */
-export async function testAIConnection() {
-  if (!isAIConfigured()) {
-    logger.info('AI not configured, skipping test')
-    return false
-  }
-  
-  try {
-    const openAIKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY
-    if (openAIKey) {
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${openAIKey}`,
-        },
-      })
-      
-      if (response.ok) {
-        logger.info('OpenAI API connection successful')
-        return true
-      } else {
-        logger.error('OpenAI API error', { metadata: { status: response.status, statusText: response.statusText } })
-        return false
-      }
-    }
-  } catch (error) {
-    logger.error('OpenAI API connection failed', error)
-    return false
-  }
-  
-  return false
+  return configured
 }
 
 /**
@@ -3,9 +3,11 @@
  * Manages conversation state, user preferences, and contextual information for AI interactions
  */
 
-import { supabase } from '@/lib/supabase/client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase as browserClient } from '@/lib/supabase/client'
 import type { AIPromptContext } from './aiService'
 import { createComponentLogger } from '../logger'
+import { getZonedDateTime, type ZonedDateTime } from '../time-zones'
 
 const logger = createComponentLogger('ContextManager')
 
@@ -54,10 +56,13 @@ class ConversationContextManager {
   private userStates: Map<string, UserConversationState> = new Map()
   private branchContexts: Map<string, BranchConversationContext> = new Map()
 
+  constructor(private supabase: SupabaseClient = browserClient) {}
+
   /**
-   * Get comprehensive context for AI prompting
+   * Get comprehensive context for AI prompting. Time of day is in the given
+   * time zone, or the runtime's local time when none is given.
    */
-  async getAIContext(userId: string, branchId: string): Promise<AIPromptContext> {
+  async getAIContext(userId: string, branchId: string, timeZone?: string): Promise<AIPromptContext> {
     const [userProfile, branchInfo, recentMessages, userState] = await Promise.all([
       this.getUserProfile(userId),
       this.getBranchInfo(branchId),
@@ -65,9 +70,11 @@ class ConversationContextManager {
       this.getUserState(userId, branchId)
     ])
 
-    const timeContext = this.getTimeContext()
+    const timeContext = this.getTimeContext(timeZone)
 
     return {
+      userId,
+      branchId,
       branchName: branchInfo.name,
       branchType: branchInfo.type,
       userName: `${userProfile.first_name} ${userProfile.last_name}`.trim() || 'there',
@@ -132,9 +139,10 @@ class ConversationContextManager {
   }
 
   /**
-   * Determine if user should receive a proactive prompt
+   * Determine if user should receive a proactive prompt, judging the time of
+   * day in the given time zone
    */
-  shouldPromptUser(userId: string, branchId: string): boolean {
+  shouldPromptUser(userId: string, branchId: string, timeZone?: string): boolean {
     const key = `${userId}-${branchId}`
     const state = this.userStates.get(key)
 
@@ -151,7 +159,7 @@ class ConversationContextManager {
     const threshold = frequencyHours[state.preferences.reminderFrequency]
     
     // Check if it's a good time based on user preferences
-    const currentHour = new Date().getHours()
+    const currentHour = this.getLocalTime(timeZone).hour
     const timePreference = state.preferences.bestTimeForPrompts
     
     let isGoodTime = true
@@ -256,7 +264,7 @@ class ConversationContextManager {
 
   private async initializeUserState(userId: string, branchId: string): Promise<UserConversationState> {
     // Try to load from database first
-    const { data: existingStates, error } = await supabase
+    const { data: existingStates, error } = await this.supabase
       .from('user_conversation_states')
       .select('*')
       .eq('user_id', userId)
@@ -306,7 +314,7 @@ class ConversationContextManager {
   }
 
   private async persistUserState(state: UserConversationState): Promise<void> {
-    const { error } = await supabase
+    const { error } = await this.supabase
       .from('user_conversation_states')
       .upsert({
         user_id: state.userId,
@@ -340,7 +348,7 @@ class ConversationContextManager {
   }
 
   private async getUserProfile(userId: string) {
-    const { data } = await supabase
+    const { data } = await this.supabase
       .from('profiles')
       .select('first_name, last_name, family_role')
       .eq('id', userId)
@@ -350,7 +358,7 @@ class ConversationContextManager {
   }
 
   private async getBranchInfo(branchId: string) {
-    const { data } = await supabase
+    const { data } = await this.supabase
       .from('branches')
       .select('name, type')
       .eq('id', branchId)
@@ -360,7 +368,7 @@ class ConversationContextManager {
   }
 
   private async getRecentMessages(branchId: string, limit: number = 10) {
-    const { data } = await supabase
+    const { data } = await this.supabase
       .from('posts')
       .select(`
         content, created_at, milestone_type,
@@ -373,9 +381,9 @@ class ConversationContextManager {
     return data || []
   }
 
-  private getTimeContext() {
-    const now = new Date()
-    const hour = now.getHours()
+  private getTimeContext(timeZone?: string) {
+    const local = this.getLocalTime(timeZone)
+    const hour = local.hour
     
     let timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night'
     if (hour >= 5 && hour < 12) timeOfDay = 'morning'
@@ -384,9 +392,9 @@ class ConversationContextManager {
     else timeOfDay = 'night'
 
     const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    const dayOfWeek = days[now.getDay()]
+    const dayOfWeek = days[new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()]
 
-    const month = now.getMonth()
+    const month = local.month - 1
     let season: string
     if (month >= 2 && month <= 4) season = 'spring'
     else if (month >= 5 && month <= 7) season = 'summer'
@@ -396,6 +404,13 @@ class ConversationContextManager {
     return { timeOfDay, dayOfWeek, season }
   }
 
+  // Wall-clock time now in the time zone, or in the runtime's local time
+  private getLocalTime(timeZone?: string): ZonedDateTime {
+    const now = new Date()
+    if (timeZone) return getZonedDateTime(now, timeZone)
+    return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate(), hour: now.getHours(), minute: now.getMinutes() }
+  }
+
   private extractTopics(text: string): string[] {
     // Simple topic extraction based on keywords
     const topicKeywords = {
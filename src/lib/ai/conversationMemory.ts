@@ -0,0 +1,234 @@
+/**
+ * Conversation Memory
+ * Stores Sage's conversation history per user and branch, so prompting stays
+ * coherent across sessions and server restarts. Older turns are condensed
+ * into a running summary, and turns past the retention window are dropped.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createComponentLogger } from '../logger'
+import type { AIMessage } from './aiService'
+
+const logger = createComponentLogger('ConversationMemory')
+
+export const CONVERSATION_MEMORY = {
+  RECENT_TURNS: 10, // turns sent to the model word for word
+  CONDENSE_AFTER: 30, // stored turns before the older ones are summarized
+  RETENTION_DAYS: 180,
+  MAX_SUMMARY_CHARS: 2000
+} as const
+
+export type ConversationTurn = AIMessage & { role: 'user' | 'assistant' }
+
+export interface ConversationMemory {
+  summary: string | null
+  turns: ConversationTurn[]
+}
+
+/**
+ * Condenses turns into a new summary, building on the previous one
+ */
+export type ConversationSummarizer = (previousSummary: string | null, turns: ConversationTurn[]) => Promise<string>
+
+interface StoredTurn {
+  id: string
+  role: ConversationTurn['role']
+  content: string
+  created_at: string
+}
+
+interface StoredSummary {
+  summary: string
+  message_count: number
+}
+
+export class ConversationMemoryStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * The summary and most recent turns for a user in a branch. Returns an
+   * empty memory when it cannot be read, so prompting still works.
+   */
+  async load(userId: string, branchId: string): Promise<ConversationMemory> {
+    try {
+      const [summary, recent] = await Promise.all([
+        this.getSummary(userId, branchId),
+        this.supabase
+          .from('ai_conversation_messages')
+          .select('id, role, content, created_at')
+          .eq('user_id', userId)
+          .eq('branch_id', branchId)
+          .gte('created_at', this.retentionCutoff())
+          .order('created_at', { ascending: false })
+          .limit(CONVERSATION_MEMORY.RECENT_TURNS)
+      ])
+
+      if (recent.error) {
+        throw recent.error
+      }
+
+      return {
+        summary: summary?.summary ?? null,
+        turns: ((recent.data ?? []) as StoredTurn[]).reverse().map(toTurn)
+      }
+    } catch (error) {
+      logger.warn('Failed to load conversation memory', {
+        metadata: { userId, branchId, error: error instanceof Error ? error.message : error }
+      })
+      return { summary: null, turns: [] }
+    }
+  }
+
+  async append(userId: string, branchId: string, turns: ConversationTurn[]): Promise<void> {
+    // Turns are read back in created_at order, so a reply written in the same
+    // millisecond as its question must still sort after it
+    let previous = 0
+    const rows = turns.map(turn => {
+      previous = Math.max((turn.timestamp ?? new Date()).getTime(), previous + 1)
+      return {
+        user_id: userId,
+        branch_id: branchId,
+        role: turn.role,
+        content: turn.content,
+        created_at: new Date(previous).toISOString()
+      }
+    })
+
+    const { error } = await this.supabase
+      .from('ai_conversation_messages')
+      .insert(rows)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Once more than CONDENSE_AFTER turns are stored, fold all but the most
+   * recent ones into the summary and delete them. Returns whether anything
+   * was condensed.
+   */
+  async condense(userId: string, branchId: string, summarize: ConversationSummarizer): Promise<boolean> {
+    await this.applyRetention(userId)
+
+    const { data, error } = await this.supabase
+      .from('ai_conversation_messages')
+      .select('id, role, content, created_at')
+      .eq('user_id', userId)
+      .eq('branch_id', branchId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    const stored = (data ?? []) as StoredTurn[]
+    if (stored.length <= CONVERSATION_MEMORY.CONDENSE_AFTER) {
+      return false
+    }
+
+    const older = stored.slice(0, -CONVERSATION_MEMORY.RECENT_TURNS)
+    const previous = await this.getSummary(userId, branchId)
+    const summary = (await summarize(previous?.summary ?? null, older.map(toTurn)))
+      .trim()
+      .slice(0, CONVERSATION_MEMORY.MAX_SUMMARY_CHARS)
+
+    if (!summary) {
+      return false
+    }
+
+    const { error: summaryError } = await this.supabase
+      .from('ai_conversation_summaries')
+      .upsert({
+        user_id: userId,
+        branch_id: branchId,
+        summary,
+        message_count: (previous?.message_count ?? 0) + older.length,
+        summarized_until: older[older.length - 1].created_at,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,branch_id' })
+
+    if (summaryError) {
+      throw summaryError
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from('ai_conversation_messages')
+      .delete()
+      .in('id', older.map(turn => turn.id))
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    logger.info('Conversation memory condensed', {
+      userId,
+      metadata: { branchId, condensedTurns: older.length, summaryLength: summary.length }
+    })
+    return true
+  }
+
+  /**
+   * Delete turns and summaries older than RETENTION_DAYS
+   */
+  async applyRetention(userId: string): Promise<void> {
+    const cutoff = this.retentionCutoff()
+
+    const [messages, summaries] = await Promise.all([
+      this.supabase
+        .from('ai_conversation_messages')
+        .delete()
+        .eq('user_id', userId)
+        .lt('created_at', cutoff),
+      this.supabase
+        .from('ai_conversation_summaries')
+        .delete()
+        .eq('user_id', userId)
+        .lt('updated_at', cutoff)
+    ])
+
+    if (messages.error || summaries.error) {
+      throw messages.error || summaries.error
+    }
+  }
+
+  /**
+   * Delete a user's AI conversation history, in one branch or all of them
+   */
+  async forget(userId: string, branchId?: string): Promise<void> {
+    const [messages, summaries] = await Promise.all(
+      ['ai_conversation_messages', 'ai_conversation_summaries'].map(table => {
+        const query = this.supabase.from(table).delete().eq('user_id', userId)
+        return branchId ? query.eq('branch_id', branchId) : query
+      })
+    )
+
+    if (messages.error || summaries.error) {
+      throw messages.error || summaries.error
+    }
+
+    logger.info('Conversation memory forgotten', { userId, metadata: { branchId: branchId ?? 'all' } })
+  }
+
+  private async getSummary(userId: string, branchId: string): Promise<StoredSummary | null> {
+    const { data, error } = await this.supabase
+      .from('ai_conversation_summaries')
+      .select('summary, message_count')
+      .eq('user_id', userId)
+      .eq('branch_id', branchId)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    return data as StoredSummary | null
+  }
+
+  private retentionCutoff(): string {
+    return new Date(Date.now() - CONVERSATION_MEMORY.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  }
+}
+
+function toTurn(row: StoredTurn): ConversationTurn {
+  return { role: row.role, content: row.content, timestamp: new Date(row.created_at) }
+}
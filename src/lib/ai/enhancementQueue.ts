@@ -0,0 +1,484 @@
+/**
+ * AI Enhancement Queue
+ * Background AI captions and tags for leaves created by email or import,
+ * and the model analysis (sentiment, topics, people, places) of new leaves.
+ * Jobs are processed a few at a time by the cron route, captions and tags
+ * are cached by content hash, daily token budgets apply per user and per
+ * tree, and failed jobs are retried with exponential backoff.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createComponentLogger } from '../logger'
+import { mapWithConcurrency } from '../utils'
+import AIService from './aiService'
+import { getAIGateway, type AIGateway } from './gateway'
+import { buildLeafEnhancementPrompt } from './leafEnhancementSchema'
+import { ModelResponseAnalyzer } from './responseAnalyzer'
+import { ResponseAnalysisStore } from './responseAnalysisStore'
+import type { LeafEnhancementRequest, LeafEnhancementResult } from './promptingEngine'
+
+const logger = createComponentLogger('AIEnhancementQueue')
+
+export const AI_ENHANCEMENT_JOB_TYPES = ['ai_caption', 'ai_tags'] as const
+// Stored in ai_response_analysis rather than on the leaf, so only queued when asked for
+export const LEAF_ANALYSIS_JOB_TYPE = 'analysis'
+export type AIEnhancementJobType = typeof AI_ENHANCEMENT_JOB_TYPES[number] | typeof LEAF_ANALYSIS_JOB_TYPE
+
+export type AIEnhancementJobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface AIEnhancementJob {
+  id: string
+  leaf_id: string
+  job_type: AIEnhancementJobType
+  user_id: string
+  tree_id: string | null
+  request: LeafEnhancementRequest
+  content_hash: string
+  status: AIEnhancementJobStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  tokens_used: number
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface QueueLeafEnhancement {
+  request: LeafEnhancementRequest
+  userId: string // author; charged against the user budget
+  treeId?: string // charged against the tree budget when set
+  jobTypes?: AIEnhancementJobType[] // defaults to captions and tags
+}
+
+export interface EnhancementQueueOptions {
+  concurrency: number // model calls in flight at once
+  batchSize: number // jobs claimed per run
+  maxAttempts: number
+  retryBaseDelayMs: number // doubled after each failed attempt
+  staleAfterMs: number // processing jobs older than this were abandoned by a crashed run
+  userDailyTokenBudget: number
+  treeDailyTokenBudget: number
+}
+
+export interface EnhancementQueueRunSummary {
+  claimed: number
+  completed: number
+  cached: number
+  deferred: number
+  retried: number
+  failed: number
+}
+
+type GroupOutcome = 'completed' | 'cached' | 'deferred' | 'retried' | 'failed'
+
+/**
+ * Queue settings, with budgets and concurrency overridable from the environment
+ */
+export function getEnhancementQueueOptions(): EnhancementQueueOptions {
+  return {
+    concurrency: parseInt(process.env.AI_QUEUE_CONCURRENCY || '3'),
+    batchSize: 20,
+    maxAttempts: 5,
+    retryBaseDelayMs: 60 * 1000, // 1, 2, 4, 8 minutes
+    staleAfterMs: 15 * 60 * 1000,
+    userDailyTokenBudget: parseInt(process.env.AI_USER_DAILY_TOKEN_BUDGET || '20000'),
+    treeDailyTokenBudget: parseInt(process.env.AI_TREE_DAILY_TOKEN_BUDGET || '50000')
+  }
+}
+
+/**
+ * Hash the parts of a leaf the model sees, so identical content is only
+ * enhanced once
+ */
+export function computeEnhancementContentHash(request: LeafEnhancementRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      request.content?.trim() || '',
+      request.mediaUrls || [],
+      [...(request.context.existingTags || [])].sort()
+    ]))
+    .digest('hex')
+}
+
+export class AIEnhancementQueue {
+  private options: EnhancementQueueOptions
+
+  constructor(
+    private supabase: SupabaseClient,
+    options: Partial<EnhancementQueueOptions> = {},
+    private gateway: Pick<AIGateway, 'complete' | 'isAvailable'> = getAIGateway()
+  ) {
+    this.options = { ...getEnhancementQueueOptions(), ...options }
+  }
+
+  /**
+   * Queue AI enhancement jobs for a leaf. Jobs already queued for the leaf
+   * are left as they are. Returns the number of new jobs.
+   */
+  async enqueue(leaf: QueueLeafEnhancement): Promise<number> {
+    const contentHash = computeEnhancementContentHash(leaf.request)
+    const now = new Date().toISOString()
+
+    const { data, error } = await this.supabase
+      .from('ai_enhancement_jobs')
+      .upsert((leaf.jobTypes || AI_ENHANCEMENT_JOB_TYPES).map(jobType => ({
+        leaf_id: leaf.request.leafId,
+        job_type: jobType,
+        user_id: leaf.userId,
+        tree_id: leaf.treeId || null,
+        request: leaf.request,
+        content_hash: contentHash,
+        status: 'pending',
+        attempts: 0,
+        tokens_used: 0,
+        next_attempt_at: now
+      })), { onConflict: 'leaf_id,job_type', ignoreDuplicates: true })
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    logger.info('Queued AI enhancement', {
+      userId: leaf.userId,
+      metadata: { leafId: leaf.request.leafId, treeId: leaf.treeId, jobs: data?.length || 0 }
+    })
+    return data?.length || 0
+  }
+
+  /**
+   * Process due jobs. Caption and tag jobs for the same content share one
+   * model call; each leaf is analyzed on its own.
+   */
+  async processQueue(): Promise<EnhancementQueueRunSummary> {
+    const summary: EnhancementQueueRunSummary = { claimed: 0, completed: 0, cached: 0, deferred: 0, retried: 0, failed: 0 }
+
+    if (!this.gateway.isAvailable()) {
+      logger.info('No AI provider configured, leaving enhancement jobs queued')
+      return summary
+    }
+
+    await this.releaseStaleJobs()
+    const jobs = await this.claimDueJobs()
+    summary.claimed = jobs.length
+
+    const byContent = new Map<string, AIEnhancementJob[]>()
+    for (const job of jobs) {
+      const key = job.job_type === LEAF_ANALYSIS_JOB_TYPE ? job.id : job.content_hash
+      byContent.set(key, [...(byContent.get(key) || []), job])
+    }
+    const groups = [...byContent.values()]
+
+    const outcomes = await mapWithConcurrency(groups, this.options.concurrency, group => this.processGroup(group))
+    outcomes.forEach((outcome, index) => {
+      summary[outcome] += groups[index].length
+    })
+
+    logger.info('AI enhancement queue run finished', { metadata: { ...summary } })
+    return summary
+  }
+
+  private async processGroup(jobs: AIEnhancementJob[]): Promise<GroupOutcome> {
+    const [first] = jobs
+    if (first.job_type === LEAF_ANALYSIS_JOB_TYPE) {
+      return this.processAnalysis(first)
+    }
+
+    let tokens = 0
+
+    try {
+      let result = await this.getCachedResult(first.content_hash)
+      const cached = !!result
+
+      if (!result) {
+        const exhausted = await this.findExhaustedBudget(first)
+        if (exhausted) {
+          await this.deferUntilTomorrow(jobs, `Daily ${exhausted} token budget reached`)
+          return 'deferred'
+        }
+
+        const service = new AIService({
+          memory: null,
+          transport: async request => {
+            const completion = await this.gateway.complete(request)
+            tokens += completion.usage.totalTokens
+            return completion
+          }
+        })
+        result = await service.generateLeafEnhancement(buildLeafEnhancementPrompt(first.request))
+        if (!result) {
+          throw new Error('Model reply failed validation')
+        }
+        await this.cacheResult(first.content_hash, result)
+      }
+
+      for (const job of jobs) {
+        await this.applyResult(job, result)
+      }
+      await this.markCompleted(jobs, tokens)
+      return cached ? 'cached' : 'completed'
+    } catch (error) {
+      return this.scheduleRetry(jobs, error instanceof Error ? error.message : String(error), tokens)
+    } finally {
+      if (tokens > 0) {
+        await this.recordUsage(first, tokens)
+      }
+    }
+  }
+
+  /**
+   * Analyze a leaf and store the analysis under the branch it has by now,
+   * since emailed leaves are assigned after they are queued
+   */
+  private async processAnalysis(job: AIEnhancementJob): Promise<GroupOutcome> {
+    let tokens = 0
+
+    try {
+      const content = job.request.content?.trim()
+      if (content) {
+        const exhausted = await this.findExhaustedBudget(job)
+        if (exhausted) {
+          await this.deferUntilTomorrow([job], `Daily ${exhausted} token budget reached`)
+          return 'deferred'
+        }
+
+        const { data: leaf, error } = await this.supabase
+          .from('posts')
+          .select('branch_id')
+          .eq('id', job.leaf_id)
+          .maybeSingle()
+
+        if (error) {
+          throw error
+        }
+
+        const analyzer = new ModelResponseAnalyzer(async request => {
+          const completion = await this.gateway.complete(request)
+          tokens += completion.usage.totalTokens
+          return completion
+        })
+        const analysis = await analyzer.analyzeMessage(content, job.request.mediaUrls)
+
+        await new ResponseAnalysisStore(this.supabase).save({
+          userId: job.user_id,
+          branchId: leaf?.branch_id || null,
+          leafId: job.leaf_id,
+          text: content,
+          analysis
+        })
+      }
+
+      await this.markCompleted([job], tokens)
+      return 'completed'
+    } catch (error) {
+      return this.scheduleRetry([job], error instanceof Error ? error.message : String(error), tokens)
+    } finally {
+      if (tokens > 0) {
+        await this.recordUsage(job, tokens)
+      }
+    }
+  }
+
+  /**
+   * Return jobs left in processing by a run that never finished
+   */
+  private async releaseStaleJobs(): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_enhancement_jobs')
+      .update({ status: 'pending', updated_at: new Date().toISOString() })
+      .eq('status', 'processing')
+      .lt('updated_at', new Date(Date.now() - this.options.staleAfterMs).toISOString())
+
+    if (error) {
+      logger.error('Failed to release stale enhancement jobs', error)
+    }
+  }
+
+  /**
+   * Mark due jobs as processing. Only jobs still pending are returned, so
+   * overlapping runs never take the same job.
+   */
+  private async claimDueJobs(): Promise<AIEnhancementJob[]> {
+    const { data: due, error } = await this.supabase
+      .from('ai_enhancement_jobs')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(this.options.batchSize)
+
+    if (error) {
+      throw error
+    }
+    if (!due || due.length === 0) {
+      return []
+    }
+
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('ai_enhancement_jobs')
+      .update({ status: 'processing', updated_at: new Date().toISOString() })
+      .in('id', due.map(job => job.id))
+      .eq('status', 'pending')
+      .select('*')
+
+    if (claimError) {
+      throw claimError
+    }
+    return (claimed || []) as AIEnhancementJob[]
+  }
+
+  private async getCachedResult(contentHash: string): Promise<LeafEnhancementResult | null> {
+    const { data, error } = await this.supabase
+      .from('ai_enhancement_cache')
+      .select('result')
+      .eq('content_hash', contentHash)
+      .maybeSingle()
+
+    if (error) {
+      logger.warn('Failed to read AI enhancement cache', { metadata: { contentHash, error: error.message } })
+      return null
+    }
+    return (data?.result as LeafEnhancementResult | undefined) || null
+  }
+
+  private async cacheResult(contentHash: string, result: LeafEnhancementResult): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_enhancement_cache')
+      .upsert({ content_hash: contentHash, result }, { onConflict: 'content_hash' })
+
+    if (error) {
+      logger.warn('Failed to cache AI enhancement', { metadata: { contentHash, error: error.message } })
+    }
+  }
+
+  /**
+   * The budget a job would exceed, or null when both have tokens left
+   */
+  private async findExhaustedBudget(job: AIEnhancementJob): Promise<'user' | 'tree' | null> {
+    const scopeIds = job.tree_id ? [job.user_id, job.tree_id] : [job.user_id]
+
+    const { data, error } = await this.supabase
+      .from('ai_token_usage')
+      .select('scope, scope_id, tokens')
+      .eq('usage_date', new Date().toISOString().slice(0, 10))
+      .in('scope_id', scopeIds)
+
+    if (error) {
+      throw error
+    }
+
+    const used = (scope: 'user' | 'tree', scopeId: string | null) =>
+      (data || []).find(row => row.scope === scope && row.scope_id === scopeId)?.tokens || 0
+
+    if (used('user', job.user_id) >= this.options.userDailyTokenBudget) {
+      return 'user'
+    }
+    if (job.tree_id && used('tree', job.tree_id) >= this.options.treeDailyTokenBudget) {
+      return 'tree'
+    }
+    return null
+  }
+
+  private async recordUsage(job: AIEnhancementJob, tokens: number): Promise<void> {
+    const { error } = await this.supabase.rpc('record_ai_token_usage', {
+      p_user_id: job.user_id,
+      p_tree_id: job.tree_id,
+      p_tokens: tokens
+    })
+
+    if (error) {
+      logger.error('Failed to record AI token usage', error, {
+        metadata: { jobId: job.id, userId: job.user_id, treeId: job.tree_id, tokens }
+      })
+    }
+  }
+
+  private async applyResult(job: AIEnhancementJob, result: LeafEnhancementResult): Promise<void> {
+    const update = job.job_type === 'ai_caption'
+      ? result.suggestedCaption && { ai_caption: result.suggestedCaption }
+      : { ai_tags: result.suggestedTags }
+
+    if (!update) {
+      return // the model found nothing to add
+    }
+
+    const { error } = await this.supabase
+      .from('posts')
+      .update(update)
+      .eq('id', job.leaf_id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  private async markCompleted(jobs: AIEnhancementJob[], tokens: number): Promise<void> {
+    const now = new Date().toISOString()
+
+    for (const [index, job] of jobs.entries()) {
+      await this.supabase
+        .from('ai_enhancement_jobs')
+        .update({
+          status: 'completed',
+          attempts: job.attempts + 1,
+          tokens_used: job.tokens_used + (index === 0 ? tokens : 0), // the model call is charged to one job
+          last_error: null,
+          completed_at: now,
+          updated_at: now
+        })
+        .eq('id', job.id)
+    }
+  }
+
+  private async deferUntilTomorrow(jobs: AIEnhancementJob[], reason: string): Promise<void> {
+    const tomorrow = new Date()
+    tomorrow.setUTCHours(24, 0, 0, 0)
+
+    await this.supabase
+      .from('ai_enhancement_jobs')
+      .update({
+        status: 'pending',
+        next_attempt_at: tomorrow.toISOString(),
+        last_error: reason,
+        updated_at: new Date().toISOString()
+      })
+      .in('id', jobs.map(job => job.id))
+
+    logger.info('AI enhancement deferred', {
+      userId: jobs[0].user_id,
+      metadata: { treeId: jobs[0].tree_id, jobs: jobs.length, reason }
+    })
+  }
+
+  private async scheduleRetry(jobs: AIEnhancementJob[], message: string, tokens: number): Promise<GroupOutcome> {
+    const attempts = Math.max(...jobs.map(job => job.attempts)) + 1
+    const exhausted = attempts >= this.options.maxAttempts
+    const delay = this.options.retryBaseDelayMs * 2 ** (attempts - 1)
+    const now = new Date()
+
+    for (const [index, job] of jobs.entries()) {
+      await this.supabase
+        .from('ai_enhancement_jobs')
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          attempts: job.attempts + 1,
+          tokens_used: job.tokens_used + (index === 0 ? tokens : 0),
+          next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+          last_error: message,
+          updated_at: now.toISOString()
+        })
+        .eq('id', job.id)
+    }
+
+    const metadata = { leafIds: jobs.map(job => job.leaf_id), attempts, error: message }
+    if (exhausted) {
+      logger.error('AI enhancement failed', undefined, { metadata })
+    } else {
+      logger.warn('AI enhancement will be retried', { metadata: { ...metadata, retryInMs: delay } })
+    }
+    return exhausted ? 'failed' : 'retried'
+  }
+}
+
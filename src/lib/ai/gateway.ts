@@ -0,0 +1,134 @@
+/**
+ * AI Gateway
+ * Server-side entry point for every model call. Tries the configured
+ * providers in order, falling back to the next one when a provider fails,
+ * and keeps per-provider request, error and token usage counts.
+ * Browser code reaches it through /api/ai/gateway.
+ */
+
+import { createComponentLogger } from '../logger'
+import { getAIConfig } from './config'
+import {
+  createConfiguredProviders,
+  AIGatewayError,
+  AIProviderError,
+  type AIProvider,
+  type AIProviderName,
+  type AIProviderFailure,
+  type AICompletionRequest,
+  type AICompletion
+} from './providers'
+
+const logger = createComponentLogger('AIGateway')
+
+export interface AIProviderStats {
+  provider: AIProviderName
+  model: string
+  requests: number
+  failures: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  lastError?: AIProviderFailure & { at: string }
+}
+
+export interface AIGatewayDefaults {
+  maxTokens: number
+  temperature: number
+}
+
+export class AIGateway {
+  private stats = new Map<AIProviderName, AIProviderStats>()
+
+  constructor(
+    private providers: AIProvider[],
+    private defaults: AIGatewayDefaults = { maxTokens: 500, temperature: 0.7 }
+  ) {
+    for (const provider of providers) {
+      this.stats.set(provider.name, {
+        provider: provider.name,
+        model: provider.model,
+        requests: 0,
+        failures: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0
+      })
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.providers.length > 0
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    if (!this.isAvailable()) {
+      throw new AIGatewayError('No AI provider configured')
+    }
+
+    const failures: AIProviderFailure[] = []
+
+    for (const provider of this.providers) {
+      const stats = this.stats.get(provider.name) as AIProviderStats
+      stats.requests++
+
+      try {
+        const completion = await provider.complete({
+          messages: request.messages,
+          maxTokens: request.maxTokens ?? this.defaults.maxTokens,
+          temperature: request.temperature ?? this.defaults.temperature,
+          responseFormat: request.responseFormat ?? 'text'
+        })
+
+        stats.promptTokens += completion.usage.promptTokens
+        stats.completionTokens += completion.usage.completionTokens
+        stats.totalTokens += completion.usage.totalTokens
+
+        logger.info('AI completion', {
+          metadata: {
+            provider: completion.provider,
+            model: completion.model,
+            ...completion.usage,
+            fallbacks: failures.length
+          }
+        })
+
+        return completion
+      } catch (error) {
+        const failure: AIProviderFailure = {
+          provider: provider.name,
+          message: error instanceof Error ? error.message : String(error),
+          ...(error instanceof AIProviderError && error.status && { status: error.status })
+        }
+        stats.failures++
+        stats.lastError = { ...failure, at: new Date().toISOString() }
+        failures.push(failure)
+
+        logger.warn('AI provider failed', {
+          metadata: { ...failure, remainingProviders: this.providers.length - failures.length }
+        })
+      }
+    }
+
+    logger.error('All AI providers failed', undefined, { metadata: { failures } })
+    throw new AIGatewayError('All AI providers failed', failures)
+  }
+
+  getStats(): AIProviderStats[] {
+    return [...this.stats.values()].map(stats => ({ ...stats }))
+  }
+}
+
+// Singleton instance, so usage counts cover the whole server process
+let gatewayInstance: AIGateway | null = null
+
+export function getAIGateway(): AIGateway {
+  if (!gatewayInstance) {
+    const config = getAIConfig()
+    gatewayInstance = new AIGateway(createConfiguredProviders(config), {
+      maxTokens: config.maxTokens,
+      temperature: config.temperature
+    })
+  }
+  return gatewayInstance
+}
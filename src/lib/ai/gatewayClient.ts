@@ -0,0 +1,36 @@
+/**
+ * AI Gateway Client
+ * Sends completion requests from the browser to the server-side AI gateway
+ */
+
+import { AIGatewayError, type AICompletionRequest, type AICompletion } from './providers/aiProvider'
+
+export const AI_GATEWAY_PATH = '/api/ai/gateway'
+
+/**
+ * How AIService reaches a model. The browser uses the gateway route; server
+ * code must pass the gateway (or a stub, in tests) directly.
+ */
+export type AITransport = (request: AICompletionRequest) => Promise<AICompletion>
+
+export const requestAICompletion: AITransport = async (request) => {
+  // The route's relative URL only resolves in a browser
+  if (typeof window === 'undefined') {
+    throw new AIGatewayError('No AI transport configured: server code must pass the AI gateway as the transport')
+  }
+
+  const response = await fetch(AI_GATEWAY_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify(request),
+  })
+
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new AIGatewayError(body.error || `AI gateway error: ${response.status}`, body.failures || [])
+  }
+
+  return body.data as AICompletion
+}
@@ -0,0 +1,78 @@
+/**
+ * Interview Draft Schema
+ * Validates the leaf draft a model writes from an interview's answers,
+ * with tags normalized the same way as leaf enhancement tags.
+ */
+
+import { z } from 'zod'
+import { dropNullFields, parseModelJson, type ModelJsonParseResult } from './parseModelJson'
+import { LEAF_SEASONS, normalizeTags } from './leafEnhancementSchema'
+
+export interface InterviewTurn {
+  question: string
+  answer: string | null // null while waiting for the user
+}
+
+export const interviewDraftSchema = z.preprocess(dropNullFields, z.object({
+  caption: z.string().trim().min(1).max(280),
+  content: z.string().trim().min(1).max(2000),
+  tags: z.array(z.string()).transform(normalizeTags),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  milestoneType: z.string().regex(/^[a-z][a-z0-9_]{1,40}$/, 'Milestone type must be snake_case').optional(),
+  season: z.enum(LEAF_SEASONS).optional(),
+}))
+
+export type InterviewDraft = z.infer<typeof interviewDraftSchema>
+
+/**
+ * The JSON shape requested from the model, included in draft prompts
+ */
+export const INTERVIEW_DRAFT_JSON_FORMAT = `{
+  "caption": "a short, warm caption",
+  "content": "the memory written up in the first person, from the answers",
+  "tags": ["tag1", "tag2", "tag3"],
+  "date": "YYYY-MM-DD when it happened, or null if the answers don't say",
+  "milestoneType": "one of the milestone types listed, or null",
+  "season": "one of ${LEAF_SEASONS.join(', ')}, or null"
+}`
+
+export function formatInterviewTranscript(turns: InterviewTurn[]): string {
+  return turns
+    .filter(turn => turn.answer)
+    .map(turn => `Q: ${turn.question}\nA: ${turn.answer}`)
+    .join('\n\n')
+}
+
+/**
+ * The draft request sent to the model once the interview is over
+ */
+export function buildInterviewDraftPrompt(
+  subject: string,
+  turns: InterviewTurn[],
+  options: { today: string; milestoneTypes?: string[]; mediaCount?: number }
+): string {
+  return `A parent was interviewed about a memory of their child. Write it up as a journal entry they can approve.
+
+What it is about: ${subject}
+${options.mediaCount ? `Photos or videos attached: ${options.mediaCount}` : 'No media attached'}
+Today's date: ${options.today}
+
+Interview:
+${formatInterviewTranscript(turns)}
+
+Use only what the answers say. Work out the date from the answers when they give one, relative to today.
+${options.milestoneTypes?.length ? `Milestone types: ${options.milestoneTypes.join(', ')}` : ''}
+
+Respond with only a JSON object in this format, using null for anything that does not apply:
+${INTERVIEW_DRAFT_JSON_FORMAT}`
+}
+
+export type InterviewDraftParseResult = ModelJsonParseResult<InterviewDraft>
+
+/**
+ * Parse and validate a model's draft reply. The error describes what to
+ * fix, so it can be sent back to the model in a repair request.
+ */
+export function parseInterviewDraft(raw: string): InterviewDraftParseResult {
+  return parseModelJson(raw, interviewDraftSchema)
+}
@@ -0,0 +1,280 @@
+/**
+ * Interview Sessions
+ * Guided interviews about a photo or event: Sage asks 3-5 follow-up
+ * questions, one at a time, then writes the answers up as a leaf draft with
+ * a caption, tags, date and milestone type for the user to approve in the
+ * leaf creator. Without a provider, fixed questions and a keyword-based
+ * draft are used instead.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '../logger'
+import AIService from './aiService'
+import { getAIGateway, type AIGateway } from './gateway'
+import { normalizeTags } from './leafEnhancementSchema'
+import { KeywordResponseAnalyzer } from './responseAnalyzer'
+import {
+  buildInterviewDraftPrompt,
+  formatInterviewTranscript,
+  type InterviewDraft,
+  type InterviewTurn
+} from './interviewDraftSchema'
+
+const logger = createComponentLogger('InterviewSessions')
+
+export const MIN_INTERVIEW_QUESTIONS = 3
+export const MAX_INTERVIEW_QUESTIONS = 5
+const DEFAULT_INTERVIEW_QUESTIONS = 4
+
+// Asked in this order when no provider answers
+export const DEMO_INTERVIEW_QUESTIONS = [
+  'Who was there with you?',
+  'When and where did this happen?',
+  'What happened, from the beginning?',
+  'What made this moment special for you?',
+  'What would you like them to know about it one day?'
+]
+
+export interface InterviewSession {
+  id: string
+  user_id: string
+  tree_id: string | null
+  subject: string
+  media_count: number
+  question_count: number
+  turns: InterviewTurn[]
+  status: 'active' | 'drafted'
+  draft: InterviewDraft | null
+  ai_metadata: { provider?: string }
+  created_at: string
+  updated_at: string
+}
+
+export interface StartInterview {
+  subject: string
+  treeId?: string
+  mediaCount?: number
+  questionCount?: number // clamped to 3-5
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * A draft written without a model: the subject and answers as the story,
+ * with tags and a milestone from the keyword analyzer
+ */
+export async function buildDemoInterviewDraft(subject: string, turns: InterviewTurn[], today: Date): Promise<InterviewDraft> {
+  const answers = turns.map(turn => turn.answer?.trim()).filter((answer): answer is string => Boolean(answer))
+  const content = [subject.trim(), ...answers].join('\n\n')
+  const analysis = await new KeywordResponseAnalyzer().analyzeMessage(content)
+
+  const tags = normalizeTags(analysis.tags)
+  const caption = subject.trim().split(/(?<=[.!?])\s/)[0].slice(0, 280)
+  const date = findAnswerDate(answers, today)
+
+  return {
+    caption,
+    content: content.slice(0, 2000),
+    tags: tags.length > 0 ? tags : ['memory'],
+    ...(date && { date }),
+    ...(analysis.milestone && { milestoneType: analysis.milestone })
+  }
+}
+
+// Only dates the answers state outright: YYYY-MM-DD, today or yesterday
+function findAnswerDate(answers: string[], today: Date): string | undefined {
+  const text = answers.join(' ').toLowerCase()
+  const isoDate = text.match(/\b(\d{4}-\d{2}-\d{2})\b/)
+  if (isoDate) {
+    return isoDate[1]
+  }
+  if (/\byesterday\b/.test(text)) {
+    return toDateString(new Date(today.getTime() - 24 * 60 * 60 * 1000))
+  }
+  if (/\btoday\b|\bthis morning\b/.test(text)) {
+    return toDateString(today)
+  }
+  return undefined
+}
+
+export class InterviewSessionService {
+  constructor(
+    private supabase: SupabaseClient,
+    private gateway: Pick<AIGateway, 'complete' | 'isAvailable'> = getAIGateway()
+  ) {}
+
+  /**
+   * Start an interview and ask its first question
+   */
+  async start(userId: string, interview: StartInterview): Promise<InterviewSession> {
+    const questionCount = Math.min(
+      MAX_INTERVIEW_QUESTIONS,
+      Math.max(MIN_INTERVIEW_QUESTIONS, interview.questionCount ?? DEFAULT_INTERVIEW_QUESTIONS)
+    )
+    const { question, provider } = await this.nextQuestion(interview.subject, [], questionCount)
+
+    const { data, error } = await this.supabase
+      .from('ai_interview_sessions')
+      .insert({
+        user_id: userId,
+        tree_id: interview.treeId || null,
+        subject: interview.subject,
+        media_count: interview.mediaCount || 0,
+        question_count: questionCount,
+        turns: [{ question, answer: null }],
+        status: 'active',
+        ai_metadata: { provider }
+      })
+      .select()
+      .maybeSingle()
+
+    if (error || !data) {
+      throw error || new Error('Interview session was not created')
+    }
+
+    logger.info('Interview started', { userId, metadata: { sessionId: data.id, questionCount, provider } })
+    return data as InterviewSession
+  }
+
+  async getSession(sessionId: string, userId: string): Promise<InterviewSession> {
+    const { data, error } = await this.supabase
+      .from('ai_interview_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    if (!data) {
+      throw new ValidationError('Interview not found', { field: 'sessionId', statusCode: 404 })
+    }
+    return data as InterviewSession
+  }
+
+  /**
+   * Record the answer to the current question, then ask the next one. After
+   * the last question, or when `finish` is set, the draft is written instead.
+   */
+  async answer(session: InterviewSession, answer: string, options: { finish?: boolean } = {}): Promise<InterviewSession> {
+    if (session.status !== 'active') {
+      throw new ValidationError('This interview is already written up', { field: 'status', statusCode: 409 })
+    }
+
+    const turns = session.turns.map((turn, index) =>
+      index === session.turns.length - 1 ? { ...turn, answer } : turn
+    )
+
+    let updates: Partial<InterviewSession>
+    if (options.finish || turns.length >= session.question_count) {
+      const { draft, provider } = await this.writeDraft(session, turns)
+      updates = { turns, status: 'drafted', draft, ai_metadata: { ...session.ai_metadata, provider } }
+    } else {
+      const { question, provider } = await this.nextQuestion(session.subject, turns, session.question_count)
+      updates = { turns: [...turns, { question, answer: null }], ai_metadata: { ...session.ai_metadata, provider } }
+    }
+
+    const { data, error } = await this.supabase
+      .from('ai_interview_sessions')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (updates.status === 'drafted') {
+      logger.info('Interview drafted', {
+        userId: session.user_id,
+        metadata: { sessionId: session.id, answered: turns.length, provider: updates.ai_metadata?.provider }
+      })
+    }
+    return data as InterviewSession
+  }
+
+  private async nextQuestion(
+    subject: string,
+    turns: InterviewTurn[],
+    questionCount: number
+  ): Promise<{ question: string; provider: string }> {
+    if (this.gateway.isAvailable()) {
+      try {
+        const used: { provider?: string } = {}
+        const question = await this.createService(used).generateInterviewQuestion(
+          subject,
+          formatInterviewTranscript(turns),
+          questionCount - turns.length - 1
+        )
+        if (question && question.length <= 300) {
+          return { question, provider: used.provider || 'demo' }
+        }
+      } catch (error) {
+        logger.warn('AI interview question unavailable, using demo question', {
+          metadata: { error: error instanceof Error ? error.message : String(error) }
+        })
+      }
+    }
+
+    const asked = new Set(turns.map(turn => turn.question))
+    const question = DEMO_INTERVIEW_QUESTIONS.find(candidate => !asked.has(candidate))
+      || DEMO_INTERVIEW_QUESTIONS[DEMO_INTERVIEW_QUESTIONS.length - 1]
+    return { question, provider: 'demo' }
+  }
+
+  private async writeDraft(
+    session: InterviewSession,
+    turns: InterviewTurn[]
+  ): Promise<{ draft: InterviewDraft; provider: string }> {
+    const today = new Date()
+
+    if (this.gateway.isAvailable()) {
+      try {
+        const milestoneTypes = await this.getMilestoneTypes()
+        const used: { provider?: string } = {}
+        const draft = await this.createService(used).generateInterviewDraft(buildInterviewDraftPrompt(session.subject, turns, {
+          today: toDateString(today),
+          milestoneTypes,
+          mediaCount: session.media_count
+        }))
+
+        if (draft) {
+          // Drop milestone types the leaf creator can't select
+          if (draft.milestoneType && milestoneTypes.length > 0 && !milestoneTypes.includes(draft.milestoneType)) {
+            delete draft.milestoneType
+          }
+          return { draft, provider: used.provider || 'demo' }
+        }
+      } catch (error) {
+        logger.warn('AI interview draft unavailable, using demo draft', {
+          metadata: { sessionId: session.id, error: error instanceof Error ? error.message : String(error) }
+        })
+      }
+    }
+
+    return { draft: await buildDemoInterviewDraft(session.subject, turns, today), provider: 'demo' }
+  }
+
+  private async getMilestoneTypes(): Promise<string[]> {
+    const { data } = await this.supabase
+      .from('milestones')
+      .select('name')
+
+    return (data || []).map(milestone => milestone.name as string)
+  }
+
+  // Records which provider answered, for the session's ai_metadata
+  private createService(used: { provider?: string }): AIService {
+    return new AIService({
+      memory: null,
+      transport: async request => {
+        const completion = await this.gateway.complete(request)
+        used.provider = completion.provider
+        return completion
+      }
+    })
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Leaf Enhancement Schema
+ * Validates the JSON a model returns for a leaf enhancement request, and
+ * normalizes tags so stray punctuation or sentences never become tags.
+ */
+
+import { z } from 'zod'
+import { dropNullFields, parseModelJson, type ModelJsonParseResult } from './parseModelJson'
+import type { LeafEnhancementRequest, LeafEnhancementResult } from './promptingEngine'
+
+// The seasons offered in the leaf creator
+export const LEAF_SEASONS = ['first_year', 'toddler', 'preschool', 'school_age', 'holiday'] as const
+
+const MAX_TAGS = 8
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,29}$/
+
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, '_'))
+    .filter(tag => TAG_PATTERN.test(tag))
+  return [...new Set(normalized)].slice(0, MAX_TAGS)
+}
+
+export const leafEnhancementSchema = z.preprocess(dropNullFields, z.object({
+  suggestedCaption: z.string().trim().min(1).max(280).optional(),
+  suggestedTags: z.array(z.string())
+    .transform(normalizeTags)
+    .pipe(z.array(z.string()).min(1, 'At least one usable tag is required')),
+  detectedMilestone: z.preprocess(dropNullFields, z.object({
+    type: z.string().regex(/^[a-z][a-z0-9_]{1,40}$/, 'Milestone type must be snake_case'),
+    confidence: z.number().min(0).max(1),
+    description: z.string().trim().min(1).max(280),
+  })).optional(),
+  suggestedSeason: z.enum(LEAF_SEASONS).optional(),
+  confidence: z.number().min(0).max(1),
+}))
+
+/**
+ * The JSON shape requested from the model, included in enhancement prompts
+ */
+export const LEAF_ENHANCEMENT_JSON_FORMAT = `{
+  "suggestedCaption": "suggested caption, or null if the content needs none",
+  "suggestedTags": ["tag1", "tag2", "tag3"],
+  "detectedMilestone": {
+    "type": "milestone_type",
+    "confidence": 0.8,
+    "description": "why this is a milestone"
+  },
+  "suggestedSeason": "one of ${LEAF_SEASONS.join(', ')}, or null",
+  "confidence": 0.9
+}`
+
+/**
+ * The enhancement request sent to the model for one leaf
+ */
+export function buildLeafEnhancementPrompt(request: LeafEnhancementRequest): string {
+  const { context } = request
+
+  return `You are helping parents capture precious memories of their children. Analyze this memory and provide helpful suggestions.
+
+Context:
+${context.authorName ? `- Parent: ${context.authorName}` : ''}
+${context.treeName ? `- Child's Tree: ${context.treeName}` : ''}
+${context.branchName ? `- Branch: ${context.branchName}` : ''}
+${context.childAge ? `- Child's age: ${context.childAge} months` : ''}
+
+Memory Content:
+${request.content || 'No text content provided'}
+
+${request.mediaUrls ? `Media: ${request.mediaUrls.length} file(s) attached` : 'No media attached'}
+
+${context.existingTags?.length ? `Existing tags: ${context.existingTags.join(', ')}` : ''}
+
+Please provide:
+1. A warm, engaging caption that captures the emotion and significance (if content needs enhancement)
+2. 3-5 relevant tags for organization and search: single lowercase words or snake_case phrases
+3. Detect if this represents a milestone (first_word, first_steps, etc.)
+4. Suggest a season/period classification if appropriate (${LEAF_SEASONS.join(', ')})
+
+Respond with only a JSON object in this format, using null for anything that does not apply:
+${LEAF_ENHANCEMENT_JSON_FORMAT}`
+}
+
+export type LeafEnhancementParseResult = ModelJsonParseResult<LeafEnhancementResult>
+
+/**
+ * Parse and validate a model's enhancement reply. The error describes what
+ * to fix, so it can be sent back to the model in a repair request.
+ */
+export function parseLeafEnhancement(raw: string): LeafEnhancementParseResult {
+  return parseModelJson(raw, leafEnhancementSchema)
+}
@@ -0,0 +1,45 @@
+/**
+ * Model JSON replies
+ * Shared parsing for the JSON objects models are asked to reply with. The
+ * error describes what to fix, so it can be sent back to the model in a
+ * repair request.
+ */
+
+import type { z } from 'zod'
+
+export type ModelJsonParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+// Models often send null for fields they have nothing for
+export function dropNullFields(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null))
+}
+
+/**
+ * Parse a model's reply and validate it against a schema
+ */
+export function parseModelJson<T>(raw: string, schema: z.ZodType<T>): ModelJsonParseResult<T> {
+  // Some models wrap JSON in a markdown code fence despite the instructions
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { success: false, error: 'The reply is not valid JSON.' }
+  }
+
+  const result = schema.safeParse(parsed)
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`).join('; ')
+    }
+  }
+
+  return { success: true, data: result.data }
+}
@@ -3,30 +3,15 @@
  * Learns from user patterns to generate more targeted and engaging prompts
  */
 
-import { supabase } from '@/lib/supabase/client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase as browserClient } from '@/lib/supabase/client'
+import { getZonedDateTime } from '../time-zones'
+import { createComponentLogger } from '../logger'
+import { ResponseAnalysisStore, type ResponseAnalysisRecord } from './responseAnalysisStore'
 
-// Define proper types for database responses
-interface AnalysisRecord {
-  user_id: string
-  branch_id: string
-  response_text: string
-  categories: Array<{
-    type: string
-    confidence: number
-    reason: string
-  }>
-  tags: string[]
-  sentiment: 'positive' | 'neutral' | 'negative'
-  topics: string[]
-  urgency: 'low' | 'medium' | 'high'
-  milestone: string | null
-  people: string[]
-  locations: string[]
-  time_references: string[]
-  confidence_score: number
-  created_at: string
-}
+const logger = createComponentLogger('PersonalizedPrompting')
 
+// Define proper types for database responses
 interface LeafRecord {
   id: string
   content: string
@@ -90,11 +75,17 @@ export interface PersonalizedPromptSuggestion {
 class PersonalizedPromptingSystem {
   private patterns: Map<string, UserPattern> = new Map()
 
+  constructor(
+    private analysisStore: ResponseAnalysisStore = new ResponseAnalysisStore(),
+    private supabase: SupabaseClient = browserClient
+  ) {}
+
   /**
-   * Analyze user patterns from their response history
+   * Analyze user patterns from their response history. Active hours are in
+   * the given time zone, or the runtime's local time when none is given.
    */
-  async analyzeUserPatterns(userId: string, branchId: string): Promise<UserPattern> {
-    const cacheKey = `${userId}-${branchId}`
+  async analyzeUserPatterns(userId: string, branchId: string, timeZone?: string): Promise<UserPattern> {
+    const cacheKey = `${userId}-${branchId}${timeZone ? `-${timeZone}` : ''}`
     
     // Check cache first
     if (this.patterns.has(cacheKey)) {
@@ -105,21 +96,22 @@ class PersonalizedPromptingSystem {
       }
     }
 
-    // Fetch user's response analysis data
-    const { data: analyses } = await supabase
-      .from('ai_response_analysis')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('branch_id', branchId)
-      .order('created_at', { ascending: false })
-      .limit(100)
+    // Fetch the analysis of the user's prompt responses and leaves
+    let analyses: ResponseAnalysisRecord[] = []
+    try {
+      analyses = await this.analysisStore.listForUser(userId, branchId)
+    } catch (error) {
+      logger.warn('Could not load response analysis, using default pattern', {
+        metadata: { userId, branchId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
 
-    if (!analyses || analyses.length === 0) {
+    if (analyses.length === 0) {
       return this.generateDefaultPattern(userId, branchId)
     }
 
     // Also fetch recent leaves for additional context
-    const { data: recentLeaves } = await supabase
+    const { data: recentLeaves } = await this.supabase
       .from('leaves_with_details')
       .select('*, profiles(first_name, last_name)')
       .eq('author_id', userId)
@@ -127,7 +119,7 @@ class PersonalizedPromptingSystem {
       .order('created_at', { ascending: false })
       .limit(50)
 
-    const pattern = this.computeUserPattern(userId, branchId, analyses, recentLeaves || [])
+    const pattern = this.computeUserPattern(userId, branchId, analyses, recentLeaves || [], timeZone)
     
     // Cache the result
     this.patterns.set(cacheKey, pattern)
@@ -170,8 +162,9 @@ class PersonalizedPromptingSystem {
   private computeUserPattern(
     userId: string,
     branchId: string,
-    analyses: AnalysisRecord[],
-    _leaves: LeafRecord[]
+    analyses: ResponseAnalysisRecord[],
+    _leaves: LeafRecord[],
+    timeZone?: string
   ): UserPattern {
     // Analyze response patterns
     const avgResponseLength = analyses.reduce((sum, a) => sum + (a.response_text?.length || 0), 0) / analyses.length
@@ -231,7 +224,7 @@ class PersonalizedPromptingSystem {
     const responseTimes = analyses.map(a => {
       const date = new Date(a.created_at)
       return {
-        hour: date.getHours(),
+        hour: timeZone ? getZonedDateTime(date, timeZone).hour : date.getHours(),
         day: date.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase()
       }
     })
@@ -298,18 +291,21 @@ class PersonalizedPromptingSystem {
   }
 
   /**
-   * Generate a personalized prompt suggestion
+   * Generate a personalized prompt suggestion. Hours are in the given time
+   * zone, or the runtime's local time when none is given.
    */
   async generatePersonalizedPrompt(
     userId: string,
     branchId: string,
-    currentTime?: Date
+    currentTime?: Date,
+    timeZone?: string
   ): Promise<PersonalizedPromptSuggestion> {
-    const pattern = await this.analyzeUserPatterns(userId, branchId)
+    const pattern = await this.analyzeUserPatterns(userId, branchId, timeZone)
     const time = currentTime || new Date()
+    const hour = timeZone ? getZonedDateTime(time, timeZone).hour : time.getHours()
     
     // Get user profile for personalization
-    const { data: profile } = await supabase
+    const { data: profile } = await this.supabase
       .from('profiles')
       .select('first_name, last_name, preferences')
       .eq('id', userId)
@@ -318,16 +314,16 @@ class PersonalizedPromptingSystem {
     const userName = profile?.first_name || 'there'
     
     // Select prompt type based on preferences and current context
-    const promptType = this.selectOptimalPromptType(pattern, time)
+    const promptType = this.selectOptimalPromptType(pattern, hour)
     
     // Generate content based on user patterns
-    const content = this.generatePersonalizedContent(pattern, promptType, userName, time)
+    const content = this.generatePersonalizedContent(pattern, promptType, userName, hour)
     
     // Calculate confidence based on pattern strength
-    const confidence = this.calculatePromptConfidence(pattern, promptType, time)
+    const confidence = this.calculatePromptConfidence(pattern, promptType, hour)
     
     // Generate reasoning
-    const reasoning = this.generateReasoning(pattern, promptType, time)
+    const reasoning = this.generateReasoning(pattern, promptType, hour)
     
     // Suggest optimal timing
     const suggestedTiming = this.suggestOptimalTiming(pattern, time)
@@ -345,7 +341,7 @@ class PersonalizedPromptingSystem {
       personalizationFactors: {
         basedOnTopics: pattern.content.commonTopics.slice(0, 3),
         basedOnPeople: pattern.content.peopleOfInterest.slice(0, 2),
-        basedOnTiming: pattern.timing.mostActiveHours.includes(time.getHours()),
+        basedOnTiming: pattern.timing.mostActiveHours.includes(hour),
         basedOnSentiment: pattern.behavioral.sentimentTrends === 'improving'
       }
     }
@@ -353,9 +349,8 @@ class PersonalizedPromptingSystem {
 
   private selectOptimalPromptType(
     pattern: UserPattern,
-    time: Date
+    hour: number
   ): 'checkin' | 'milestone' | 'memory' | 'followup' | 'celebration' {
-    const hour = time.getHours()
     const preferredTypes = pattern.preferences.preferredPromptTypes
 
     // Morning hours favor check-ins
@@ -381,7 +376,7 @@ class PersonalizedPromptingSystem {
     pattern: UserPattern,
     promptType: string,
     userName: string,
-    time: Date
+    hour: number
   ): string {
     const templates = this.getPersonalizedTemplates(pattern, promptType)
     const template = templates[Math.floor(Math.random() * templates.length)]
@@ -389,7 +384,7 @@ class PersonalizedPromptingSystem {
     // Replace placeholders
     let content = template
       .replace('{userName}', userName)
-      .replace('{timeOfDay}', this.getTimeOfDay(time.getHours()))
+      .replace('{timeOfDay}', this.getTimeOfDay(hour))
     
     // Add topic-specific elements
     if (pattern.content.commonTopics.length > 0) {
@@ -468,7 +463,7 @@ class PersonalizedPromptingSystem {
   private calculatePromptConfidence(
     pattern: UserPattern,
     promptType: string,
-    time: Date
+    hour: number
   ): number {
     let confidence = 0.5 // Base confidence
 
@@ -478,7 +473,7 @@ class PersonalizedPromptingSystem {
     }
 
     // Boost if it's during user's active hours
-    if (pattern.timing.mostActiveHours.includes(time.getHours())) {
+    if (pattern.timing.mostActiveHours.includes(hour)) {
       confidence += 0.15
     }
 
@@ -500,7 +495,7 @@ class PersonalizedPromptingSystem {
   private generateReasoning(
     pattern: UserPattern,
     promptType: string,
-    time: Date
+    hour: number
   ): string[] {
     const reasons: string[] = []
 
@@ -508,8 +503,8 @@ class PersonalizedPromptingSystem {
       reasons.push(`User typically responds well to ${promptType} prompts`)
     }
 
-    if (pattern.timing.mostActiveHours.includes(time.getHours())) {
-      reasons.push(`User is usually active at ${time.getHours()}:00`)
+    if (pattern.timing.mostActiveHours.includes(hour)) {
+      reasons.push(`User is usually active at ${hour}:00`)
     }
 
     if (pattern.behavioral.engagementLevel === 'high') {
@@ -0,0 +1,481 @@
+/**
+ * Prompt Scheduler
+ * Plans and sends Sage's proactive prompts from the cron route. Each user
+ * has at most one prompt scheduled at a time across all of their branches,
+ * sent at one of their most active hours in their own time zone, outside
+ * their quiet hours and no more often than their prompt frequency allows.
+ * Every delivery's outcome is recorded in ai_prompt_deliveries. Prompts are
+ * generated with the scheduler's (service) client and the AI gateway itself,
+ * since the cron has no signed-in user or browser.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UserNotificationPreferences } from '@/types/database'
+import { createComponentLogger } from '../logger'
+import { getZonedDateTime, resolveTimeZone, zonedTimeToUtc } from '../time-zones'
+import AIService from './aiService'
+import ConversationContextManager from './contextManager'
+import { ConversationMemoryStore } from './conversationMemory'
+import { getAIGateway } from './gateway'
+import PersonalizedPromptingSystem, { type UserPattern } from './personalizedPrompting'
+import { PromptTemplateLibrary } from './promptTemplateLibrary'
+import { SmartPromptingEngine, type SmartPrompt } from './promptingEngine'
+import { ResponseAnalysisStore } from './responseAnalysisStore'
+
+const logger = createComponentLogger('PromptScheduler')
+
+const HOUR_MS = 60 * 60 * 1000
+
+export type PromptFrequency = UserNotificationPreferences['prompt_frequency']
+
+// Minimum hours between two prompts to the same user
+export const PROMPT_FREQUENCY_HOURS: Record<Exclude<PromptFrequency, 'never'>, number> = {
+  daily: 24,
+  every_few_days: 72,
+  weekly: 168
+}
+
+export interface PromptSchedulingPreferences {
+  timezone: string
+  quietHoursStart: string // HH:MM:SS, local time
+  quietHoursEnd: string
+  frequency: PromptFrequency
+}
+
+// Same defaults as user_notification_preferences
+export const DEFAULT_PROMPT_SCHEDULING_PREFERENCES: PromptSchedulingPreferences = {
+  timezone: 'UTC',
+  quietHoursStart: '22:00:00',
+  quietHoursEnd: '08:00:00',
+  frequency: 'every_few_days'
+}
+
+export type PromptDeliveryStatus = 'scheduled' | 'sent' | 'skipped' | 'failed'
+
+export interface PromptDelivery {
+  id: string
+  user_id: string
+  branch_id: string
+  status: PromptDeliveryStatus
+  scheduled_for: string
+  timezone: string
+  prompt_id: string | null
+  outcome_reason: string | null
+  attempted_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PromptSchedulerOptions {
+  inactivityDays: number // a branch is prompted once the user hasn't posted in it for this long
+  defaultActiveHours: number[] // local hours used when a user has no pattern yet
+  deliveryBatchSize: number // due deliveries sent per run
+}
+
+export interface PromptSchedulerRunSummary {
+  scheduled: number
+  sent: number
+  deferred: number // due during quiet hours, moved to their end
+  skipped: number
+  failed: number
+}
+
+type DeliveryOutcome = Exclude<PromptDeliveryStatus, 'scheduled'> | 'deferred'
+
+interface PreferencesRow {
+  user_id: string
+  timezone: string | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  prompt_frequency: PromptFrequency | null
+}
+
+type ProactivePromptSource = { generateProactivePrompt(userId: string, branchId: string, timeZone?: string): Promise<SmartPrompt | null> }
+type UserPatternSource = { analyzeUserPatterns(userId: string, branchId: string, timeZone?: string): Promise<UserPattern> }
+
+const DEFAULT_OPTIONS: PromptSchedulerOptions = {
+  inactivityDays: 7,
+  defaultActiveHours: [9, 19],
+  deliveryBatchSize: 50
+}
+
+/**
+ * Whether an instant falls within the user's quiet hours, which may span
+ * midnight. Equal start and end times mean no quiet hours.
+ */
+export function isInQuietHours(date: Date, preferences: PromptSchedulingPreferences): boolean {
+  const local = getZonedDateTime(date, resolveTimeZone(preferences.timezone))
+  const minutes = local.hour * 60 + local.minute
+  const start = toMinutes(preferences.quietHoursStart)
+  const end = toMinutes(preferences.quietHoursEnd)
+
+  if (start === end) return false
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
+
+/**
+ * Pick when to send a prompt: the next of the user's active hours (local
+ * time) that is outside quiet hours, starting now if the current hour is one
+ * of them. Falls back to the end of quiet hours when every active hour is quiet.
+ */
+export function pickSendTime(now: Date, activeHours: number[], preferences: PromptSchedulingPreferences): Date {
+  const timeZone = resolveTimeZone(preferences.timezone)
+  const today = getZonedDateTime(now, timeZone)
+  const hours = [...new Set(activeHours.filter(hour => Number.isInteger(hour) && hour >= 0 && hour < 24))]
+    .sort((a, b) => a - b)
+
+  for (const dayOffset of [0, 1]) {
+    for (const hour of hours) {
+      const slotStart = zonedTimeToUtc({ ...today, day: today.day + dayOffset, hour, minute: 0 }, timeZone)
+      if (slotStart.getTime() + HOUR_MS <= now.getTime()) continue
+
+      const sendAt = slotStart < now ? now : slotStart
+      if (!isInQuietHours(sendAt, preferences)) {
+        return sendAt
+      }
+    }
+  }
+
+  return nextQuietHoursEnd(now, preferences)
+}
+
+function nextQuietHoursEnd(now: Date, preferences: PromptSchedulingPreferences): Date {
+  const timeZone = resolveTimeZone(preferences.timezone)
+  const today = getZonedDateTime(now, timeZone)
+  const end = toMinutes(preferences.quietHoursEnd)
+
+  for (const dayOffset of [0, 1]) {
+    const candidate = zonedTimeToUtc(
+      { ...today, day: today.day + dayOffset, hour: Math.floor(end / 60), minute: end % 60 },
+      timeZone
+    )
+    if (candidate > now) return candidate
+  }
+  return now
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+/**
+ * A prompting engine for server jobs: it reads and writes through the given
+ * client and calls the AI gateway directly rather than through its route
+ */
+export function createServerPromptingEngine(supabase: SupabaseClient): SmartPromptingEngine {
+  return new SmartPromptingEngine({
+    supabase,
+    aiService: new AIService({
+      transport: request => getAIGateway().complete(request),
+      memory: new ConversationMemoryStore(supabase)
+    }),
+    contextManager: new ConversationContextManager(supabase),
+    personalizedSystem: new PersonalizedPromptingSystem(new ResponseAnalysisStore(supabase), supabase),
+    templateLibrary: new PromptTemplateLibrary(supabase)
+  })
+}
+
+function toPreferences(row: PreferencesRow | undefined): PromptSchedulingPreferences {
+  const defaults = DEFAULT_PROMPT_SCHEDULING_PREFERENCES
+  return {
+    timezone: resolveTimeZone(row?.timezone),
+    quietHoursStart: row?.quiet_hours_start || defaults.quietHoursStart,
+    quietHoursEnd: row?.quiet_hours_end || defaults.quietHoursEnd,
+    frequency: row?.prompt_frequency || defaults.frequency
+  }
+}
+
+export class ProactivePromptScheduler {
+  private options: PromptSchedulerOptions
+
+  constructor(
+    private supabase: SupabaseClient,
+    options: Partial<PromptSchedulerOptions> = {},
+    private prompts: ProactivePromptSource = createServerPromptingEngine(supabase),
+    private patterns: UserPatternSource = new PersonalizedPromptingSystem(new ResponseAnalysisStore(supabase), supabase)
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Schedule prompts for users who are due one, then send every delivery
+   * whose time has come
+   */
+  async run(now: Date = new Date()): Promise<PromptSchedulerRunSummary> {
+    const scheduled = await this.scheduleDuePrompts(now)
+    const outcomes = await this.sendDueDeliveries(now)
+
+    const summary: PromptSchedulerRunSummary = { scheduled, sent: 0, deferred: 0, skipped: 0, failed: 0 }
+    for (const outcome of outcomes) {
+      summary[outcome]++
+    }
+
+    logger.info('Prompt scheduler run completed', { metadata: { ...summary } })
+    return summary
+  }
+
+  /**
+   * Create one scheduled delivery for each user who is due a prompt, for
+   * the branch they were prompted about least recently. Returns the number
+   * scheduled.
+   */
+  async scheduleDuePrompts(now: Date): Promise<number> {
+    const { data: members, error } = await this.supabase
+      .from('branch_members')
+      .select('user_id, branch_id')
+      .eq('status', 'active')
+
+    if (error) {
+      throw error
+    }
+
+    const branchesByUser = new Map<string, string[]>()
+    for (const member of members || []) {
+      const branches = branchesByUser.get(member.user_id) || []
+      if (!branches.includes(member.branch_id)) branches.push(member.branch_id)
+      branchesByUser.set(member.user_id, branches)
+    }
+
+    const userIds = [...branchesByUser.keys()]
+    if (userIds.length === 0) return 0
+
+    const [busyUsers, recentDeliveries, preferences, activeBranches] = await Promise.all([
+      this.getUsersAwaitingPrompts(userIds, now),
+      this.getRecentDeliveries(userIds, now),
+      this.getPreferences(userIds),
+      this.getRecentlyActiveBranches(userIds, now)
+    ])
+
+    let scheduled = 0
+    for (const [userId, branchIds] of branchesByUser) {
+      if (busyUsers.has(userId)) continue
+
+      const userPreferences = toPreferences(preferences.get(userId))
+      if (userPreferences.frequency === 'never') continue
+
+      const sent = recentDeliveries.filter(delivery => delivery.user_id === userId)
+      const lastSentAt = Math.max(0, ...sent.map(delivery => new Date(delivery.attempted_at as string).getTime()))
+      if (now.getTime() - lastSentAt < PROMPT_FREQUENCY_HOURS[userPreferences.frequency] * HOUR_MS) continue
+
+      const branchId = this.chooseBranch(
+        branchIds.filter(id => !activeBranches.has(`${userId}:${id}`)),
+        sent
+      )
+      if (!branchId) continue
+
+      const sendAt = pickSendTime(now, await this.getActiveHours(userId, branchId, userPreferences.timezone), userPreferences)
+      if (await this.createDelivery(userId, branchId, sendAt, userPreferences.timezone)) {
+        scheduled++
+      }
+    }
+
+    return scheduled
+  }
+
+  /**
+   * Send scheduled deliveries that are due and record each outcome.
+   * Deliveries that fall in quiet hours (preferences may have changed since
+   * scheduling) move to the end of quiet hours instead.
+   */
+  async sendDueDeliveries(now: Date): Promise<DeliveryOutcome[]> {
+    const { data, error } = await this.supabase
+      .from('ai_prompt_deliveries')
+      .select('*')
+      .eq('status', 'scheduled')
+      .lte('scheduled_for', now.toISOString())
+      .order('scheduled_for', { ascending: true })
+      .limit(this.options.deliveryBatchSize)
+
+    if (error) {
+      throw error
+    }
+
+    const deliveries = (data || []) as PromptDelivery[]
+    if (deliveries.length === 0) return []
+
+    const preferences = await this.getPreferences([...new Set(deliveries.map(delivery => delivery.user_id))])
+    const outcomes: DeliveryOutcome[] = []
+
+    for (const delivery of deliveries) {
+      const userPreferences = toPreferences(preferences.get(delivery.user_id))
+
+      if (userPreferences.frequency === 'never') {
+        await this.recordOutcome(delivery, now, 'skipped', { reason: 'Proactive prompts turned off' })
+        outcomes.push('skipped')
+        continue
+      }
+
+      if (isInQuietHours(now, userPreferences)) {
+        await this.updateDelivery(delivery.id, { scheduled_for: nextQuietHoursEnd(now, userPreferences).toISOString() })
+        outcomes.push('deferred')
+        continue
+      }
+
+      try {
+        const prompt = await this.prompts.generateProactivePrompt(delivery.user_id, delivery.branch_id, userPreferences.timezone)
+        if (prompt) {
+          await this.recordOutcome(delivery, now, 'sent', { promptId: prompt.id })
+          outcomes.push('sent')
+        } else {
+          await this.recordOutcome(delivery, now, 'skipped', { reason: 'No prompt was needed' })
+          outcomes.push('skipped')
+        }
+      } catch (error) {
+        await this.recordOutcome(delivery, now, 'failed', {
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        })
+        outcomes.push('failed')
+      }
+    }
+
+    return outcomes
+  }
+
+  private chooseBranch(branchIds: string[], sent: Pick<PromptDelivery, 'branch_id' | 'attempted_at'>[]): string | null {
+    if (branchIds.length === 0) return null
+
+    const lastPrompted = (branchId: string) => Math.max(0, ...sent
+      .filter(delivery => delivery.branch_id === branchId)
+      .map(delivery => new Date(delivery.attempted_at as string).getTime()))
+
+    return branchIds.reduce((best, branchId) => lastPrompted(branchId) < lastPrompted(best) ? branchId : best)
+  }
+
+  private async getActiveHours(userId: string, branchId: string, timeZone: string): Promise<number[]> {
+    try {
+      const pattern = await this.patterns.analyzeUserPatterns(userId, branchId, timeZone)
+      if (pattern.timing.mostActiveHours.length > 0) {
+        return pattern.timing.mostActiveHours
+      }
+    } catch (error) {
+      logger.warn('Could not load user pattern, using default prompt hours', {
+        metadata: { userId, branchId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+    return this.options.defaultActiveHours
+  }
+
+  // Users with a prompt already scheduled, or an unanswered prompt in any branch
+  private async getUsersAwaitingPrompts(userIds: string[], now: Date): Promise<Set<string>> {
+    const [{ data: scheduled, error: scheduledError }, { data: pending, error: pendingError }] = await Promise.all([
+      this.supabase
+        .from('ai_prompt_deliveries')
+        .select('user_id')
+        .eq('status', 'scheduled')
+        .in('user_id', userIds),
+      this.supabase
+        .from('ai_system_messages')
+        .select('user_id')
+        .eq('message_type', 'prompt')
+        .in('user_id', userIds)
+        .gt('expires_at', now.toISOString())
+    ])
+
+    if (scheduledError) throw scheduledError
+    if (pendingError) throw pendingError
+
+    return new Set([...(scheduled || []), ...(pending || [])].map(row => row.user_id as string))
+  }
+
+  // Prompts sent within the longest frequency window
+  private async getRecentDeliveries(userIds: string[], now: Date): Promise<Pick<PromptDelivery, 'user_id' | 'branch_id' | 'attempted_at'>[]> {
+    const since = new Date(now.getTime() - PROMPT_FREQUENCY_HOURS.weekly * HOUR_MS)
+    const { data, error } = await this.supabase
+      .from('ai_prompt_deliveries')
+      .select('user_id, branch_id, attempted_at')
+      .eq('status', 'sent')
+      .in('user_id', userIds)
+      .gte('attempted_at', since.toISOString())
+
+    if (error) {
+      throw error
+    }
+    return data || []
+  }
+
+  private async getPreferences(userIds: string[]): Promise<Map<string, PreferencesRow>> {
+    const { data, error } = await this.supabase
+      .from('user_notification_preferences')
+      .select('user_id, timezone, quiet_hours_start, quiet_hours_end, prompt_frequency')
+      .in('user_id', userIds)
+
+    if (error) {
+      throw error
+    }
+    return new Map((data as PreferencesRow[] || []).map(row => [row.user_id, row]))
+  }
+
+  // `${userId}:${branchId}` for every branch the user has posted in recently
+  private async getRecentlyActiveBranches(userIds: string[], now: Date): Promise<Set<string>> {
+    const since = new Date(now.getTime() - this.options.inactivityDays * 24 * HOUR_MS)
+    const { data, error } = await this.supabase
+      .from('posts')
+      .select('author_id, branch_id')
+      .in('author_id', userIds)
+      .gte('created_at', since.toISOString())
+
+    if (error) {
+      throw error
+    }
+    return new Set((data || []).map(post => `${post.author_id}:${post.branch_id}`))
+  }
+
+  private async createDelivery(userId: string, branchId: string, sendAt: Date, timeZone: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('ai_prompt_deliveries')
+      .insert({
+        user_id: userId,
+        branch_id: branchId,
+        status: 'scheduled',
+        scheduled_for: sendAt.toISOString(),
+        timezone: timeZone
+      })
+
+    if (error) {
+      // Another run scheduled this user first
+      if (error.code === '23505') return false
+      throw error
+    }
+
+    logger.info('Scheduled proactive prompt', {
+      userId,
+      metadata: { branchId, scheduledFor: sendAt.toISOString(), timeZone }
+    })
+    return true
+  }
+
+  private async recordOutcome(
+    delivery: PromptDelivery,
+    now: Date,
+    status: Exclude<PromptDeliveryStatus, 'scheduled'>,
+    outcome: { promptId?: string; reason?: string }
+  ): Promise<void> {
+    await this.updateDelivery(delivery.id, {
+      status,
+      prompt_id: outcome.promptId || null,
+      outcome_reason: outcome.reason || null,
+      attempted_at: now.toISOString()
+    })
+
+    if (status === 'failed') {
+      logger.warn('Proactive prompt delivery failed', {
+        userId: delivery.user_id,
+        metadata: { deliveryId: delivery.id, branchId: delivery.branch_id, reason: outcome.reason }
+      })
+    }
+  }
+
+  private async updateDelivery(deliveryId: string, values: Partial<PromptDelivery>): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_prompt_deliveries')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', deliveryId)
+
+    if (error) {
+      logger.error('Failed to update prompt delivery', error, { metadata: { deliveryId } })
+    }
+  }
+}
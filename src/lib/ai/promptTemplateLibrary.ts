@@ -0,0 +1,139 @@
+/**
+ * Prompt Template Library
+ * Reads prompt templates from the database: the built-ins, a tree's own
+ * templates and templates other trees share with it, minus any a branch
+ * has turned off. Falls back to the built-in list when the library can't
+ * be read.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase as browserClient } from '@/lib/supabase/client'
+import { createComponentLogger } from '../logger'
+import { calculateAgeInMonths } from '../milestone-tracker'
+import { getAgeGroup, PROMPT_TEMPLATES, type AgeGroup, type PromptTemplate } from './promptTemplates'
+
+const logger = createComponentLogger('PromptTemplateLibrary')
+
+export interface PromptTemplateRow {
+  id: string
+  template_key: string | null
+  tree_id: string | null
+  shared_tree_ids: string[]
+  type: PromptTemplate['type']
+  category: PromptTemplate['category']
+  title: string
+  prompt: string
+  follow_up_questions: string[]
+  suggested_responses: string[]
+  triggers: NonNullable<PromptTemplate['triggers']>
+  personalization: NonNullable<PromptTemplate['personalization']>
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AvailablePromptTemplate extends PromptTemplateRow {
+  enabled: boolean // in the branch asked about; always true without one
+}
+
+export interface BranchPromptTemplates {
+  templates: PromptTemplate[]
+  childName?: string
+  ageGroup?: AgeGroup
+}
+
+export function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    id: row.id,
+    type: row.type,
+    category: row.category,
+    treeId: row.tree_id,
+    title: row.title,
+    prompt: row.prompt,
+    followUpQuestions: row.follow_up_questions || [],
+    suggestedResponses: row.suggested_responses || [],
+    triggers: row.triggers || undefined,
+    personalization: row.personalization || undefined
+  }
+}
+
+export class PromptTemplateLibrary {
+  constructor(private supabase: SupabaseClient = browserClient) {}
+
+  /**
+   * Templates a tree can use, with whether each is on in a branch
+   */
+  async listTreeTemplates(treeId: string, branchId?: string): Promise<AvailablePromptTemplate[]> {
+    const { data: rows, error } = await this.supabase
+      .from('prompt_templates')
+      .select('*')
+      .or(`tree_id.is.null,tree_id.eq.${treeId},shared_tree_ids.cs.{${treeId}}`)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    const disabled = new Set<string>()
+    if (branchId) {
+      const { data: settings, error: settingsError } = await this.supabase
+        .from('branch_prompt_template_settings')
+        .select('template_id, enabled')
+        .eq('branch_id', branchId)
+
+      if (settingsError) {
+        throw settingsError
+      }
+      for (const setting of settings || []) {
+        if (!setting.enabled) disabled.add(setting.template_id)
+      }
+    }
+
+    return ((rows || []) as PromptTemplateRow[]).map(row => ({ ...row, enabled: !disabled.has(row.id) }))
+  }
+
+  /**
+   * The templates a branch has turned on, with the child's name and age
+   * group from its person tree for matching and personalization
+   */
+  async getBranchTemplates(branchId: string): Promise<BranchPromptTemplates> {
+    try {
+      const { data: branch, error } = await this.supabase
+        .from('branches')
+        .select('tree_id, trees(person_name, person_birth_date)')
+        .eq('id', branchId)
+        .maybeSingle()
+
+      if (error || !branch?.tree_id) {
+        throw error || new Error('Branch has no tree')
+      }
+
+      const tree = branch.trees as unknown as { person_name: string | null; person_birth_date: string | null } | null
+      const ageMonths = calculateAgeInMonths(tree?.person_birth_date || null)
+      const templates = await this.listTreeTemplates(branch.tree_id, branchId)
+
+      return {
+        templates: templates.filter(template => template.enabled).map(toPromptTemplate),
+        childName: tree?.person_name || undefined,
+        ageGroup: ageMonths === null ? undefined : getAgeGroup(ageMonths)
+      }
+    } catch (error) {
+      logger.warn('Could not load prompt templates, using built-ins', {
+        metadata: { branchId, error: error instanceof Error ? error.message : String(error) }
+      })
+      return { templates: PROMPT_TEMPLATES }
+    }
+  }
+}
+
+// Singleton instance
+let promptTemplateLibraryInstance: PromptTemplateLibrary | null = null
+
+export function getPromptTemplateLibrary(): PromptTemplateLibrary {
+  if (!promptTemplateLibraryInstance) {
+    promptTemplateLibraryInstance = new PromptTemplateLibrary()
+  }
+  return promptTemplateLibraryInstance
+}
+
+export default PromptTemplateLibrary
@@ -1,12 +1,24 @@
 /**
  * AI Prompt Templates and Scenarios
- * Pre-defined prompts and conversation scenarios for different family situations
+ * Pre-defined prompts and conversation scenarios for different family situations.
+ * The built-in templates are seeded into prompt_templates, where families add
+ * their own (see promptTemplateLibrary.ts); this list is the offline fallback.
  */
 
+export const PROMPT_TEMPLATE_TYPES = ['checkin', 'milestone', 'memory', 'followup', 'celebration'] as const
+export const PROMPT_TEMPLATE_CATEGORIES = ['daily', 'weekly', 'special', 'milestone', 'seasonal'] as const
+export const AGE_GROUPS = ['infant', 'toddler', 'child', 'teen'] as const
+
+export type AgeGroup = typeof AGE_GROUPS[number]
+
+// Placeholders personalizePrompt fills in
+export const PROMPT_TEMPLATE_PLACEHOLDERS = ['branchName', 'userName', 'previousTopic', 'season', 'childName', 'milestone'] as const
+
 export interface PromptTemplate {
   id: string
-  type: 'checkin' | 'milestone' | 'memory' | 'followup' | 'celebration'
-  category: 'daily' | 'weekly' | 'special' | 'milestone' | 'seasonal'
+  type: typeof PROMPT_TEMPLATE_TYPES[number]
+  category: typeof PROMPT_TEMPLATE_CATEGORIES[number]
+  treeId?: string | null // set for family templates; built-ins have none
   title: string
   prompt: string
   followUpQuestions: string[]
@@ -20,7 +32,7 @@ export interface PromptTemplate {
   personalization?: {
     familyRole?: ('parent' | 'child' | 'grandparent')[]
     branchType?: ('family' | 'community')[]
-    ageGroups?: ('infant' | 'toddler' | 'child' | 'teen')[]
+    ageGroups?: AgeGroup[]
   }
 }
 
@@ -293,7 +305,18 @@ export const PROMPT_TEMPLATES: PromptTemplate[] = [
 ]
 
 /**
- * Get prompt templates by category or type
+ * Age group for a child's age in months
+ */
+export function getAgeGroup(ageMonths: number): AgeGroup {
+  if (ageMonths < 12) return 'infant'
+  if (ageMonths < 36) return 'toddler'
+  if (ageMonths < 156) return 'child'
+  return 'teen'
+}
+
+/**
+ * Get prompt templates by category or type. Trigger and personalization
+ * fields only narrow the list when both the template and the filters set them.
  */
 export function getPromptTemplates(filters?: {
   type?: PromptTemplate['type']
@@ -301,8 +324,10 @@ export function getPromptTemplates(filters?: {
   timeOfDay?: string
   dayOfWeek?: string
   keywords?: string[]
-}): PromptTemplate[] {
-  let templates = PROMPT_TEMPLATES
+  milestones?: string[]
+  ageGroup?: AgeGroup
+}, source: PromptTemplate[] = PROMPT_TEMPLATES): PromptTemplate[] {
+  let templates = source
 
   if (filters) {
     templates = templates.filter(template => {
@@ -325,6 +350,14 @@ export function getPromptTemplates(filters?: {
         )
         if (!hasMatchingKeyword) return false
       }
+
+      if (filters.milestones && template.triggers?.milestones) {
+        if (!template.triggers.milestones.some(milestone => filters.milestones!.includes(milestone))) return false
+      }
+
+      if (filters.ageGroup && template.personalization?.ageGroups) {
+        if (!template.personalization.ageGroups.includes(filters.ageGroup)) return false
+      }
       
       return true
     })
@@ -334,16 +367,20 @@ export function getPromptTemplates(filters?: {
 }
 
 /**
- * Get a random prompt template based on context
+ * Get a random prompt template based on context, preferring templates
+ * triggered by a recent milestone. Pass a branch's templates from the
+ * library to choose among them instead of the built-in list.
  */
 export function getRandomPromptTemplate(context: {
   timeOfDay?: string
   dayOfWeek?: string
   recentKeywords?: string[]
+  recentMilestones?: string[]
+  ageGroup?: AgeGroup
   lastPromptType?: string
-}): PromptTemplate {
+}, source: PromptTemplate[] = PROMPT_TEMPLATES): PromptTemplate {
   // Avoid repeating the same type consecutively
-  let templates = PROMPT_TEMPLATES
+  let templates = source.length > 0 ? source : PROMPT_TEMPLATES
   if (context.lastPromptType) {
     const otherTypes = templates.filter(t => t.type !== context.lastPromptType)
     if (otherTypes.length > 0) {
@@ -351,14 +388,22 @@ export function getRandomPromptTemplate(context: {
     }
   }
 
-  // Filter by time context
+  // Filter by time, topic, milestone and age context
   const contextFiltered = getPromptTemplates({
     timeOfDay: context.timeOfDay,
     dayOfWeek: context.dayOfWeek,
-    keywords: context.recentKeywords
-  })
+    keywords: context.recentKeywords,
+    milestones: context.recentMilestones,
+    ageGroup: context.ageGroup
+  }, templates)
+
+  const milestoneMatches = context.recentMilestones?.length
+    ? contextFiltered.filter(template => template.triggers?.milestones)
+    : []
 
-  const finalTemplates = contextFiltered.length > 0 ? contextFiltered : templates
+  const finalTemplates = milestoneMatches.length > 0
+    ? milestoneMatches
+    : contextFiltered.length > 0 ? contextFiltered : templates
   return finalTemplates[Math.floor(Math.random() * finalTemplates.length)]
 }
 
@@ -373,6 +418,8 @@ export function personalizePrompt(
     previousTopic?: string
     season?: string
     recentKeywords?: string[]
+    childName?: string
+    milestone?: string // milestone name, e.g. first_steps
   }
 ): string {
   let personalizedPrompt = template.prompt
@@ -382,6 +429,11 @@ export function personalizePrompt(
   personalizedPrompt = personalizedPrompt.replace(/{userName}/g, context.userName)
   personalizedPrompt = personalizedPrompt.replace(/{previousTopic}/g, context.previousTopic || 'recent developments')
   personalizedPrompt = personalizedPrompt.replace(/{season}/g, context.season || 'current')
+  personalizedPrompt = personalizedPrompt.replace(/{childName}/g, context.childName || 'your little one')
+  personalizedPrompt = personalizedPrompt.replace(
+    /{milestone}/g,
+    context.milestone?.replace(/_/g, ' ') || template.triggers?.milestones?.[0]?.replace(/_/g, ' ') || 'this milestone'
+  )
 
   // Add personalization based on recent keywords
   if (context.recentKeywords && context.recentKeywords.length > 0) {
@@ -3,19 +3,31 @@
  * Orchestrates AI-driven conversations and manages proactive prompting
  */
 
-import { supabase } from '@/lib/supabase/client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase as browserClient } from '@/lib/supabase/client'
 import { getAIService } from './aiService'
+import { AIGatewayError } from './providers/aiProvider'
+import { buildLeafEnhancementPrompt } from './leafEnhancementSchema'
 import { getContextManager } from './contextManager'
-import { getRandomPromptTemplate } from './promptTemplates'
-import { isAIConfigured, getDemoAIResponse } from './config'
+import { getRandomPromptTemplate, personalizePrompt } from './promptTemplates'
+import { getPromptTemplateLibrary, type PromptTemplateLibrary } from './promptTemplateLibrary'
 import { getResponseAnalyzer } from './responseAnalyzer'
+import { ResponseAnalysisStore } from './responseAnalysisStore'
 import { getPersonalizedPromptingSystem } from './personalizedPrompting'
+import type AIService from './aiService'
+import type ConversationContextManager from './contextManager'
+import type PersonalizedPromptingSystem from './personalizedPrompting'
 import type { AIResponse } from './aiService'
 import type { MessageAnalysis } from './responseAnalyzer'
 import { createComponentLogger } from '../logger'
+import { getMilestoneProgress } from '../milestone-tracker'
+import { mapWithConcurrency } from '../utils'
 
 const logger = createComponentLogger('PromptingEngine')
 
+// Leaves enhanced at once by enhanceLeavesBatch
+const BATCH_ENHANCEMENT_CONCURRENCY = 3
+
 export interface SmartPrompt {
   id: string
   branchId: string
@@ -32,6 +44,7 @@ export interface SmartPrompt {
   createdAt: Date
   expiresAt: Date
   status: 'pending' | 'responded' | 'dismissed' | 'expired'
+  milestoneType?: string // the milestone a "coming up" prompt asks about
 }
 
 export interface LeafEnhancementRequest {
@@ -72,7 +85,19 @@ export interface PromptEngineConfig {
   responseTimeout: number // hours before prompt expires
 }
 
-class SmartPromptingEngine {
+/**
+ * What the engine reads, writes and calls models through. Anything left out
+ * falls back to the browser singletons; server jobs pass their own.
+ */
+export interface PromptingEngineDependencies {
+  supabase: SupabaseClient
+  aiService: AIService
+  contextManager: ConversationContextManager
+  personalizedSystem: PersonalizedPromptingSystem
+  templateLibrary: PromptTemplateLibrary
+}
+
+export class SmartPromptingEngine {
   private config: PromptEngineConfig = {
     enableProactivePrompts: true,
     promptingSchedule: {
@@ -86,21 +111,45 @@ class SmartPromptingEngine {
     responseTimeout: 48 // 48 hours
   }
 
+  constructor(private dependencies: Partial<PromptingEngineDependencies> = {}) {}
+
+  private get supabase(): SupabaseClient {
+    return this.dependencies.supabase || browserClient
+  }
+
+  private get aiService(): AIService {
+    return this.dependencies.aiService || getAIService()
+  }
+
+  private get contextManager(): ConversationContextManager {
+    return this.dependencies.contextManager || getContextManager()
+  }
+
+  private get personalizedSystem(): PersonalizedPromptingSystem {
+    return this.dependencies.personalizedSystem || getPersonalizedPromptingSystem()
+  }
+
+  private get templateLibrary(): PromptTemplateLibrary {
+    return this.dependencies.templateLibrary || getPromptTemplateLibrary()
+  }
+
   /**
-   * Generate a proactive AI prompt for a user in a branch
+   * Generate a proactive AI prompt for a user in a branch, timed in the
+   * user's time zone. Returns null when no prompt is needed; errors are
+   * thrown so the caller can record the failure.
    */
-  async generateProactivePrompt(userId: string, branchId: string): Promise<SmartPrompt | null> {
+  async generateProactivePrompt(userId: string, branchId: string, timeZone?: string): Promise<SmartPrompt | null> {
     try {
-      const contextManager = getContextManager()
+      const contextManager = this.contextManager
       
       // Check if user should receive a prompt
-      if (!contextManager.shouldPromptUser(userId, branchId)) {
+      if (!contextManager.shouldPromptUser(userId, branchId, timeZone)) {
         return null
       }
 
       // Get AI context
-      const aiContext = await contextManager.getAIContext(userId, branchId)
-      const personalizedSystem = getPersonalizedPromptingSystem()
+      const aiContext = await contextManager.getAIContext(userId, branchId, timeZone)
+      const personalizedSystem = this.personalizedSystem
       
       // Try to generate personalized prompt first
       let aiResponse: AIResponse
@@ -110,7 +159,8 @@ class SmartPromptingEngine {
         const personalizedPrompt = await personalizedSystem.generatePersonalizedPrompt(
           userId,
           branchId,
-          new Date()
+          new Date(),
+          timeZone
         )
         
         if (personalizedPrompt.confidence > 0.6) {
@@ -125,24 +175,38 @@ class SmartPromptingEngine {
           throw new Error('Personalized confidence too low, falling back to template')
         }
       } catch (error) {
-        // Fallback to template-based approach
+        // Fallback to template-based approach, using the branch's templates
+        const branchTemplates = await this.templateLibrary.getBranchTemplates(branchId)
+        const recentKeywords = this.extractKeywordsFromMessages(aiContext.recentMessages)
+        const recentMilestones = aiContext.recentMessages
+          .map(message => message.milestoneType)
+          .filter((milestone): milestone is string => !!milestone)
+
         template = getRandomPromptTemplate({
           timeOfDay: aiContext.timeContext.timeOfDay,
           dayOfWeek: aiContext.timeContext.dayOfWeek,
-          recentKeywords: this.extractKeywordsFromMessages(aiContext.recentMessages)
-        })
-
-        if (isAIConfigured()) {
-          const aiService = getAIService()
-          aiResponse = await aiService.generatePrompt(aiContext)
-        } else {
-          // Demo mode
-          const demoContent = getDemoAIResponse(template.type, {
+          recentKeywords,
+          recentMilestones,
+          ageGroup: branchTemplates.ageGroup
+        }, branchTemplates.templates)
+
+        try {
+          aiResponse = await this.aiService.generatePrompt(aiContext)
+        } catch (aiError) {
+          // Use the template itself when the AI gateway has no working provider
+          logger.warn('AI gateway unavailable, using template prompt', {
+            metadata: { userId, branchId, error: aiError instanceof Error ? aiError.message : aiError }
+          })
+          const templateContent = personalizePrompt(template, {
+            branchName: aiContext.branchName,
             userName: aiContext.userName,
-            branchName: aiContext.branchName
+            season: aiContext.timeContext.season,
+            recentKeywords,
+            childName: branchTemplates.childName,
+            milestone: recentMilestones[0]
           })
           aiResponse = {
-            message: demoContent,
+            message: templateContent,
             promptType: template.type,
             suggestedResponses: template.suggestedResponses || [],
             confidenceScore: 0.8
@@ -159,8 +223,8 @@ class SmartPromptingEngine {
         promptType: aiResponse.promptType,
         suggestedResponses: aiResponse.suggestedResponses || [],
         aiMetadata: {
-          provider: isAIConfigured() ? 'configured' : 'demo',
-          model: isAIConfigured() ? 'ai-model' : 'demo',
+          provider: aiResponse.aiMetadata?.provider || (template ? 'demo' : 'personalized'),
+          model: aiResponse.aiMetadata?.model || 'demo',
           confidence: aiResponse.confidenceScore,
           template: template?.id
         },
@@ -182,7 +246,7 @@ class SmartPromptingEngine {
       return smartPrompt
     } catch (error) {
       logger.error('Error generating proactive prompt', error, { metadata: { userId, branchId } })
-      return null
+      throw error
     }
   }
 
@@ -205,11 +269,11 @@ class SmartPromptingEngine {
       // Mark prompt as responded
       await this.updatePromptStatus(promptId, 'responded')
 
-      const contextManager = getContextManager()
+      const contextManager = this.contextManager
       const responseAnalyzer = getResponseAnalyzer()
       
       // Analyze the user response
-      const analysis = responseAnalyzer.analyzeMessage(userResponse)
+      const analysis = await responseAnalyzer.analyzeMessage(userResponse)
       
       // Determine engagement level (enhanced with analysis)
       const engagement = this.assessUserEngagement(userResponse, analysis)
@@ -229,15 +293,17 @@ class SmartPromptingEngine {
         const aiContext = await contextManager.getAIContext(userId, branchId)
         
         let followUpResponse: AIResponse
-        if (isAIConfigured()) {
-          const aiService = getAIService()
-          followUpResponse = await aiService.processUserResponse(
+        try {
+          followUpResponse = await this.aiService.processUserResponse(
             userResponse,
             aiContext,
             prompt.promptType
           )
-        } else {
-          // Demo follow-up
+        } catch (aiError) {
+          // Demo follow-up when the AI gateway has no working provider
+          logger.warn('AI gateway unavailable, using demo follow-up', {
+            metadata: { userId, promptId, error: aiError instanceof Error ? aiError.message : aiError }
+          })
           const followUps = [
             "That sounds wonderful! Can you tell me more about that?",
             "I love hearing these details! What was the best part?",
@@ -262,8 +328,8 @@ class SmartPromptingEngine {
           promptType: 'followup',
           suggestedResponses: followUpResponse.suggestedResponses || [],
           aiMetadata: {
-            provider: isAIConfigured() ? 'configured' : 'demo',
-            model: isAIConfigured() ? 'ai-model' : 'demo',
+            provider: followUpResponse.aiMetadata?.provider || 'demo',
+            model: followUpResponse.aiMetadata?.model || 'demo',
             confidence: followUpResponse.confidenceScore,
           },
           createdAt: new Date(),
@@ -283,7 +349,8 @@ class SmartPromptingEngine {
   }
 
   /**
-   * Check for milestone triggers in recent messages
+   * Check for milestone triggers in recent messages, and for milestones
+   * coming up at the child's age that haven't been captured yet
    */
   async checkForMilestones(branchId: string): Promise<SmartPrompt[]> {
     if (!this.config.milestoneDetection.enabled) {
@@ -292,7 +359,7 @@ class SmartPromptingEngine {
 
     try {
       // Get recent messages
-      const { data: recentMessages } = await supabase
+      const { data: recentMessages } = await this.supabase
         .from('posts')
         .select('*, profiles(first_name, last_name)')
         .eq('branch_id', branchId)
@@ -300,15 +367,11 @@ class SmartPromptingEngine {
         .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
         .order('created_at', { ascending: false })
 
-      if (!recentMessages || recentMessages.length === 0) {
-        return []
-      }
-
       const prompts: SmartPrompt[] = []
 
-      for (const message of recentMessages) {
+      for (const message of recentMessages || []) {
         // Check if we already created a celebration prompt for this milestone
-        const { data: existingPrompts } = await supabase
+        const { data: existingPrompts } = await this.supabase
           .from('ai_system_messages')
           .select('*')
           .eq('branch_id', branchId)
@@ -320,8 +383,7 @@ class SmartPromptingEngine {
         }
 
         // Generate celebration prompt
-        const contextManager = getContextManager()
-        const aiContext = await contextManager.getAIContext(message.author_id, branchId)
+        const aiContext = await this.contextManager.getAIContext(message.author_id, branchId)
         
         const celebrationContent = `What an amazing milestone! I saw that ${message.profiles?.first_name || 'someone'} reached a special moment with ${message.milestone_type?.replace('_', ' ')}. Tell me all about how this happened - I'd love to capture every detail of this precious memory!`
 
@@ -351,6 +413,11 @@ class SmartPromptingEngine {
         prompts.push(celebrationPrompt)
       }
 
+      const upcomingPrompt = await this.createUpcomingMilestonePrompt(branchId)
+      if (upcomingPrompt) {
+        prompts.push(upcomingPrompt)
+      }
+
       return prompts
     } catch (error) {
       logger.error('Error checking for milestones', error)
@@ -358,12 +425,71 @@ class SmartPromptingEngine {
     }
   }
 
+  /**
+   * Ask about the next milestone due at the child's age, once per milestone
+   * and branch, so the family is ready to capture it
+   */
+  private async createUpcomingMilestonePrompt(branchId: string): Promise<SmartPrompt | null> {
+    const { data: branch } = await this.supabase
+      .from('branches')
+      .select('tree_id, created_by')
+      .eq('id', branchId)
+      .single()
+
+    if (!branch?.tree_id) {
+      return null
+    }
+
+    const progress = await getMilestoneProgress(branch.tree_id)
+    if (!progress || progress.upcoming.length === 0) {
+      return null
+    }
+
+    const { data: askedPrompts } = await this.supabase
+      .from('ai_system_messages')
+      .select('context_data')
+      .eq('branch_id', branchId)
+      .eq('prompt_type', 'milestone')
+
+    const asked = new Set((askedPrompts || []).map(prompt => prompt.context_data?.milestoneType))
+    const milestone = progress.upcoming.find(candidate => !asked.has(candidate.name))
+    if (!milestone) {
+      return null
+    }
+
+    const upcomingPrompt: SmartPrompt = {
+      id: crypto.randomUUID(),
+      branchId,
+      userId: branch.created_by,
+      content: `${progress.personName} is getting close to the age for ${milestone.display_name.toLowerCase()}. Has it happened yet? If it has, I'd love to hear how it went - and if not, keep your camera handy!`,
+      promptType: 'milestone',
+      suggestedResponses: [
+        'It just happened!',
+        'Not yet, but soon',
+        'We already have a photo',
+        'Remind me later'
+      ],
+      aiMetadata: {
+        provider: 'milestone-tracker',
+        model: 'age-window',
+        confidence: 0.7,
+      },
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + this.config.responseTimeout * 60 * 60 * 1000),
+      status: 'pending',
+      milestoneType: milestone.name
+    }
+
+    await this.saveSmartPrompt(upcomingPrompt)
+    return upcomingPrompt
+  }
+
   /**
    * Get pending prompts for a user in a branch
    */
   async getPendingPrompts(userId: string, branchId: string): Promise<SmartPrompt[]> {
     try {
-      const { data: prompts } = await supabase
+      const { data: prompts } = await this.supabase
         .from('ai_system_messages')
         .select('*')
         .eq('branch_id', branchId)
@@ -390,59 +516,6 @@ class SmartPromptingEngine {
     }
   }
 
-  /**
-   * Schedule proactive prompts for all active users
-   */
-  async scheduleProactivePrompts(): Promise<void> {
-    if (!this.config.enableProactivePrompts || !this.config.promptingSchedule.enabled) {
-      return
-    }
-
-    try {
-      // Get all active branch members
-      const { data: activeMembers } = await supabase
-        .from('branch_members')
-        .select(`
-          user_id,
-          branch_id,
-          branches (name, type),
-          profiles (first_name, last_name)
-        `)
-        .eq('status', 'active')
-
-      if (!activeMembers) return
-
-      // Check each user for prompting eligibility
-      for (const member of activeMembers) {
-        const shouldPrompt = await this.shouldSchedulePrompt(member.user_id, member.branch_id)
-        
-        if (shouldPrompt) {
-          await this.generateProactivePrompt(member.user_id, member.branch_id)
-        }
-      }
-    } catch (error) {
-      logger.error('Error scheduling proactive prompts', error)
-    }
-  }
-
-  private async shouldSchedulePrompt(userId: string, branchId: string): Promise<boolean> {
-    // Check if user has recent activity
-    const { data: recentActivity } = await supabase
-      .from('posts')
-      .select('created_at')
-      .eq('branch_id', branchId)
-      .eq('author_id', userId)
-      .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
-      .order('created_at', { ascending: false })
-      .limit(1)
-
-    // Check if user has pending prompts
-    const pendingPrompts = await this.getPendingPrompts(userId, branchId)
-    
-    // Don't prompt if user has pending prompts or was very recently active
-    return pendingPrompts.length === 0 && (!recentActivity || recentActivity.length === 0)
-  }
-
   private extractKeywordsFromMessages(messages: any[]): string[] {
     const keywords: string[] = []
     const keywordPattern = /\b(?:school|playground|food|sleep|play|birthday|milestone|first|new|love|fun|happy|excited)\b/gi
@@ -503,35 +576,14 @@ class SmartPromptingEngine {
     analysis: MessageAnalysis
   ): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('ai_response_analysis')
-        .insert({
-          user_id: userId,
-          branch_id: branchId,
-          response_text: userResponse,
-          categories: analysis.categories,
-          tags: analysis.tags,
-          sentiment: analysis.sentiment,
-          topics: analysis.topics,
-          urgency: analysis.urgency,
-          milestone: analysis.milestone,
-          people: analysis.people,
-          locations: analysis.locations,
-          time_references: analysis.timeReferences,
-          confidence_score: analysis.categories[0]?.confidence || 0.5,
-          created_at: new Date().toISOString()
-        })
-
-      if (error && error.code !== '42P01') { // Ignore table doesn't exist error for now
-        logger.error('Error storing response analysis', error, { metadata: { userId, branchId } })
-      }
+      await new ResponseAnalysisStore(this.supabase).save({ userId, branchId, text: userResponse, analysis })
     } catch (error) {
-      logger.error('Error in storeResponseAnalysis', error, { metadata: { userId, branchId } })
+      logger.error('Error storing response analysis', error, { metadata: { userId, branchId } })
     }
   }
 
   private async saveSmartPrompt(prompt: SmartPrompt): Promise<void> {
-    const { error } = await supabase
+    const { error } = await this.supabase
       .from('ai_system_messages')
       .insert({
         id: prompt.id,
@@ -541,7 +593,8 @@ class SmartPromptingEngine {
         content: prompt.content,
         prompt_type: prompt.promptType,
         context_data: {
-          suggestedResponses: prompt.suggestedResponses
+          suggestedResponses: prompt.suggestedResponses,
+          ...(prompt.milestoneType && { milestoneType: prompt.milestoneType })
         },
         ai_metadata: prompt.aiMetadata,
         expires_at: prompt.expiresAt.toISOString()
@@ -554,7 +607,7 @@ class SmartPromptingEngine {
   }
 
   private async getSmartPrompt(promptId: string): Promise<SmartPrompt | null> {
-    const { data } = await supabase
+    const { data } = await this.supabase
       .from('ai_system_messages')
       .select('*')
       .eq('id', promptId)
@@ -577,7 +630,7 @@ class SmartPromptingEngine {
   }
 
   private async updatePromptStatus(promptId: string, status: SmartPrompt['status']): Promise<void> {
-    const { error } = await supabase
+    const { error } = await this.supabase
       .from('ai_system_messages')
       .update({
         ai_metadata: { status }
@@ -594,7 +647,7 @@ class SmartPromptingEngine {
    */
   async cleanupExpiredPrompts(): Promise<void> {
     try {
-      const { error } = await supabase
+      const { error } = await this.supabase
         .from('ai_system_messages')
         .delete()
         .lt('expires_at', new Date().toISOString())
@@ -625,24 +678,21 @@ class SmartPromptingEngine {
    * Get user pattern insights for a specific user
    */
   async getUserPatternInsights(userId: string, branchId: string) {
-    const personalizedSystem = getPersonalizedPromptingSystem()
-    return await personalizedSystem.getUserInsights(userId, branchId)
+    return await this.personalizedSystem.getUserInsights(userId, branchId)
   }
 
   /**
    * Generate personalized prompt preview without saving
    */
   async previewPersonalizedPrompt(userId: string, branchId: string) {
-    const personalizedSystem = getPersonalizedPromptingSystem()
-    return await personalizedSystem.generatePersonalizedPrompt(userId, branchId)
+    return await this.personalizedSystem.generatePersonalizedPrompt(userId, branchId)
   }
 
   /**
    * Force refresh user patterns (clears cache)
    */
   refreshUserPatterns(): void {
-    const personalizedSystem = getPersonalizedPromptingSystem()
-    personalizedSystem.clearCache()
+    this.personalizedSystem.clearCache()
   }
 
   /**
@@ -650,40 +700,39 @@ class SmartPromptingEngine {
    */
   async enhanceLeaf(request: LeafEnhancementRequest): Promise<LeafEnhancementResult> {
     try {
-      if (!isAIConfigured()) {
-        return this.generateDemoLeafEnhancement(request)
-      }
-
-      const aiService = getAIService()
-      const contextManager = getContextManager()
+      const aiService = this.aiService
 
       // Build enhanced context for leaf analysis
-      const enhancementPrompt = this.buildLeafEnhancementPrompt(request)
+      const enhancementPrompt = buildLeafEnhancementPrompt(request)
       
-      // Get AI analysis
-      const aiResponse = await aiService.generateLeafEnhancement(enhancementPrompt)
-      
-      return {
-        suggestedCaption: aiResponse.caption,
-        suggestedTags: aiResponse.tags || [],
-        detectedMilestone: aiResponse.milestone,
-        suggestedSeason: aiResponse.season,
-        confidence: aiResponse.confidence
+      // Get AI analysis, validated against the enhancement schema
+      const enhancement = await aiService.generateLeafEnhancement(enhancementPrompt)
+      if (!enhancement) {
+        logger.warn('AI enhancement failed validation, using demo enhancement', {
+          metadata: { leafId: request.leafId }
+        })
+        return this.generateDemoLeafEnhancement(request)
       }
+
+      return enhancement
     } catch (error) {
-      logger.error('Error enhancing leaf', error, { metadata: { leafId: request.leafId } })
+      if (error instanceof AIGatewayError) {
+        logger.warn('AI gateway unavailable, using demo enhancement', {
+          metadata: { leafId: request.leafId, failures: error.failures }
+        })
+      } else {
+        logger.error('Error enhancing leaf', error, { metadata: { leafId: request.leafId } })
+      }
       return this.generateDemoLeafEnhancement(request)
     }
   }
 
   /**
-   * Generate captions for multiple leaves in batch
+   * Generate captions for multiple leaves in batch, a few at a time.
+   * Server-side enhancement of imported leaves goes through AIEnhancementQueue.
    */
   async enhanceLeavesBatch(requests: LeafEnhancementRequest[]): Promise<LeafEnhancementResult[]> {
-    const results = await Promise.all(
-      requests.map(request => this.enhanceLeaf(request))
-    )
-    return results
+    return mapWithConcurrency(requests, BATCH_ENHANCEMENT_CONCURRENCY, request => this.enhanceLeaf(request))
   }
 
   /**
@@ -695,18 +744,6 @@ class SmartPromptingEngine {
     missingElements: string[]
   }> {
     try {
-      if (!isAIConfigured()) {
-        return {
-          contentQuality: 'medium',
-          suggestions: [
-            'Consider adding more context about the moment',
-            'Add emotional details about how this felt',
-            'Include who else was involved in this memory'
-          ],
-          missingElements: ['emotions', 'context', 'people']
-        }
-      }
-
       // Implement basic content analysis based on content patterns
       const analysis = this.analyzeContentPatterns(content, mediaUrls)
       return analysis
@@ -792,46 +829,6 @@ class SmartPromptingEngine {
     }
   }
 
-  private buildLeafEnhancementPrompt(request: LeafEnhancementRequest): string {
-    const { context } = request
-    
-    const prompt = `You are helping parents capture precious memories of their children. Analyze this memory and provide helpful suggestions.
-
-Context:
-- Parent: ${context.authorName}
-- Child's Tree: ${context.treeName}
-- Branch: ${context.branchName}
-${context.childAge ? `- Child's age: ${context.childAge} months` : ''}
-
-Memory Content:
-${request.content || 'No text content provided'}
-
-${request.mediaUrls ? `Media: ${request.mediaUrls.length} file(s) attached` : 'No media attached'}
-
-${context.existingTags?.length ? `Existing tags: ${context.existingTags.join(', ')}` : ''}
-
-Please provide:
-1. A warm, engaging caption that captures the emotion and significance (if content needs enhancement)
-2. 3-5 relevant tags for organization and search
-3. Detect if this represents a milestone (first_word, first_steps, etc.)
-4. Suggest a season/period classification if appropriate (first_year, toddler, preschool, etc.)
-
-Response format:
-{
-  "caption": "suggested caption (only if needed)",
-  "tags": ["tag1", "tag2", "tag3"],
-  "milestone": {
-    "type": "milestone_type",
-    "confidence": 0.8,
-    "description": "why this is a milestone"
-  },
-  "season": "suggested_season",
-  "confidence": 0.9
-}`
-
-    return prompt
-  }
-
   private generateDemoLeafEnhancement(request: LeafEnhancementRequest): LeafEnhancementResult {
     const { context } = request
     
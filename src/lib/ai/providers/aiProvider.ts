@@ -0,0 +1,72 @@
+/**
+ * AI Provider
+ * A chat completion backend behind the AI gateway. Providers run on the
+ * server only and read their API keys from server-side environment variables.
+ */
+
+import type { AIMessage } from '../aiService'
+
+export type AIProviderName = 'openai' | 'anthropic' | 'local' | 'mock'
+
+export type AIResponseFormat = 'text' | 'json'
+
+export interface AICompletionRequest {
+  messages: Pick<AIMessage, 'role' | 'content'>[]
+  maxTokens?: number
+  temperature?: number
+  responseFormat?: AIResponseFormat // 'json' asks the model for a single JSON object
+}
+
+export interface AITokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface AICompletion {
+  content: string
+  provider: AIProviderName
+  model: string
+  usage: AITokenUsage
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName
+  readonly model: string
+  complete(request: Required<AICompletionRequest>): Promise<AICompletion>
+}
+
+/**
+ * A single provider failed. The gateway records it and moves on to the next provider.
+ */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProviderName,
+    public readonly status?: number
+  ) {
+    super(message)
+    this.name = 'AIProviderError'
+  }
+}
+
+export interface AIProviderFailure {
+  provider: AIProviderName
+  message: string
+  status?: number
+}
+
+/**
+ * No provider could answer: none is configured, or every configured provider failed
+ */
+export class AIGatewayError extends Error {
+  public readonly statusCode = 503
+
+  constructor(
+    message = 'AI service unavailable',
+    public readonly failures: AIProviderFailure[] = []
+  ) {
+    super(message)
+    this.name = 'AIGatewayError'
+  }
+}
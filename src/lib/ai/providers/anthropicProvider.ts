@@ -0,0 +1,94 @@
+/**
+ * Anthropic Provider
+ * Talks to the Anthropic Messages API
+ */
+
+import { AIProvider, AICompletionRequest, AICompletion, AIProviderError } from './aiProvider'
+
+export interface AnthropicProviderOptions {
+  apiKey: string
+  model: string
+  timeoutMs: number
+}
+
+interface MessagesResponse {
+  model?: string
+  content?: { type: string; text?: string }[]
+  usage?: {
+    input_tokens?: number
+    output_tokens?: number
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const
+  readonly model: string
+
+  constructor(private options: AnthropicProviderOptions) {
+    this.model = options.model
+  }
+
+  async complete(request: Required<AICompletionRequest>): Promise<AICompletion> {
+    // The system prompt is a separate field rather than a message
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n')
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }))
+    // There is no JSON mode, so start the reply with the opening brace
+    const prefill = request.responseFormat === 'json' ? '{' : ''
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill })
+    }
+
+    let response: Response
+    try {
+      response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.options.apiKey,
+          'Content-Type': 'application/json',
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(system && { system }),
+          messages,
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new AIProviderError(
+        `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      )
+    }
+
+    if (!response.ok) {
+      throw new AIProviderError(`API error: ${response.status} ${response.statusText}`, this.name, response.status)
+    }
+
+    const data = await response.json() as MessagesResponse
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+    if (!text) {
+      throw new AIProviderError('Empty completion', this.name)
+    }
+
+    const promptTokens = data.usage?.input_tokens || 0
+    const completionTokens = data.usage?.output_tokens || 0
+
+    return {
+      content: prefill + text,
+      provider: this.name,
+      model: data.model || this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+}
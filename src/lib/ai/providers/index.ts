@@ -0,0 +1,56 @@
+/**
+ * AI provider registry
+ */
+
+import { AIProvider, AIProviderName } from './aiProvider'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+import { AnthropicProvider } from './anthropicProvider'
+import { MockAIProvider } from './mockProvider'
+import type { AIGatewayConfig } from '../config'
+
+export {
+  AIProviderError,
+  AIGatewayError,
+  type AIProvider,
+  type AIProviderName,
+  type AIProviderFailure,
+  type AICompletionRequest,
+  type AIResponseFormat,
+  type AICompletion,
+  type AITokenUsage
+} from './aiProvider'
+export { OpenAICompatibleProvider } from './openAICompatibleProvider'
+export { AnthropicProvider } from './anthropicProvider'
+export { MockAIProvider, type MockResponder } from './mockProvider'
+
+const PROVIDER_FACTORIES: Record<AIProviderName, (config: AIGatewayConfig) => AIProvider | null> = {
+  openai: (config) => config.openai
+    ? new OpenAICompatibleProvider({
+      name: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: config.openai.apiKey,
+      model: config.openai.model,
+      timeoutMs: config.timeoutMs
+    })
+    : null,
+  anthropic: (config) => config.anthropic
+    ? new AnthropicProvider({ ...config.anthropic, timeoutMs: config.timeoutMs })
+    : null,
+  local: (config) => config.local
+    ? new OpenAICompatibleProvider({ name: 'local', ...config.local, timeoutMs: config.timeoutMs })
+    : null,
+  mock: () => new MockAIProvider()
+}
+
+export function isAIProviderName(name: string): name is AIProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, name)
+}
+
+/**
+ * Build the configured providers in the order the gateway should try them
+ */
+export function createConfiguredProviders(config: AIGatewayConfig): AIProvider[] {
+  return config.providers
+    .map(name => PROVIDER_FACTORIES[name](config))
+    .filter((provider): provider is AIProvider => provider !== null)
+}
@@ -0,0 +1,42 @@
+/**
+ * Mock Provider
+ * Deterministic completions for tests and local development without a model.
+ * The same request always produces the same reply and token counts.
+ */
+
+import { AIProvider, AICompletionRequest, AICompletion } from './aiProvider'
+
+export type MockResponder = (request: Required<AICompletionRequest>) => string
+
+const defaultResponder: MockResponder = (request) => {
+  const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user')
+  if (!lastUserMessage) {
+    return 'Tell me about a moment from today that you would like to remember.'
+  }
+  return `Thanks for sharing! Tell me more about "${lastUserMessage.content.slice(0, 60).trim()}".`
+}
+
+// Rough token estimate, close enough for usage reporting
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export class MockAIProvider implements AIProvider {
+  readonly name = 'mock' as const
+  readonly model = 'mock'
+
+  constructor(private respond: MockResponder = defaultResponder) {}
+
+  async complete(request: Required<AICompletionRequest>): Promise<AICompletion> {
+    const content = this.respond(request)
+    const promptTokens = request.messages.reduce((total, m) => total + countTokens(m.content), 0)
+    const completionTokens = Math.min(countTokens(content), request.maxTokens)
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+}
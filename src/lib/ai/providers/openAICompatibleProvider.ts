@@ -0,0 +1,88 @@
+/**
+ * OpenAI-compatible Provider
+ * Talks to the OpenAI chat completions API, or to any local server that
+ * implements it (Ollama, llama.cpp, vLLM, LM Studio).
+ */
+
+import { AIProvider, AIProviderName, AICompletionRequest, AICompletion, AIProviderError } from './aiProvider'
+
+export interface OpenAICompatibleProviderOptions {
+  name: Extract<AIProviderName, 'openai' | 'local'>
+  baseUrl: string
+  model: string
+  apiKey?: string
+  timeoutMs: number
+}
+
+interface ChatCompletionResponse {
+  model?: string
+  choices?: { message?: { content?: string } }[]
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+  }
+}
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: OpenAICompatibleProviderOptions['name']
+  readonly model: string
+
+  constructor(private options: OpenAICompatibleProviderOptions) {
+    this.name = options.name
+    this.model = options.model
+  }
+
+  async complete(request: Required<AICompletionRequest>): Promise<AICompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    // Local servers usually run without a key
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new AIProviderError(
+        `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      )
+    }
+
+    if (!response.ok) {
+      throw new AIProviderError(`API error: ${response.status} ${response.statusText}`, this.name, response.status)
+    }
+
+    const data = await response.json() as ChatCompletionResponse
+    const content = data.choices?.[0]?.message?.content
+    if (!content) {
+      throw new AIProviderError('Empty completion', this.name)
+    }
+
+    const promptTokens = data.usage?.prompt_tokens || 0
+    const completionTokens = data.usage?.completion_tokens || 0
+
+    return {
+      content,
+      provider: this.name,
+      model: data.model || this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usage?.total_tokens || promptTokens + completionTokens
+      }
+    }
+  }
+}
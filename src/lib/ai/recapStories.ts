@@ -0,0 +1,470 @@
+/**
+ * Recap Stories
+ * Monthly and yearly recaps per person tree: a narrative written by Sage
+ * from the period's leaves, milestones and most-loved photos. Recaps are
+ * saved as drafts in person_recaps for tree managers to edit; publishing
+ * one adds it to a branch as a system leaf, and digests include it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/validation/errors'
+import { createComponentLogger } from '../logger'
+import { getTreeStats } from '../leaves'
+import AIService from './aiService'
+import { getAIGateway, type AIGateway } from './gateway'
+
+const logger = createComponentLogger('RecapStories')
+
+export const RECAP_PERIOD_TYPES = ['monthly', 'yearly'] as const
+export type RecapPeriodType = typeof RECAP_PERIOD_TYPES[number]
+
+// Leaves described to the model, and photos kept as highlights
+const MAX_PROMPT_LEAVES = 40
+const MAX_TOP_PHOTOS = 3
+
+export interface RecapPeriod {
+  type: RecapPeriodType
+  start: string // YYYY-MM-DD
+  end: string // YYYY-MM-DD, exclusive
+  label: string // e.g. "October 2026" or "2026"
+}
+
+export type RecapTreeStats = Awaited<ReturnType<typeof getTreeStats>>
+
+export interface RecapHighlights {
+  leafCount: number
+  stats: RecapTreeStats
+  milestones: { leafId: string; type: string; name: string; date: string }[]
+  topPhotos: { leafId: string; mediaUrl: string; caption: string | null; reactions: number }[]
+}
+
+export interface PersonRecap {
+  id: string
+  tree_id: string
+  period_type: RecapPeriodType
+  period_start: string
+  period_end: string
+  status: 'draft' | 'published'
+  title: string
+  narrative: string
+  highlights: RecapHighlights
+  ai_metadata: { provider?: string; model?: string }
+  leaf_id: string | null
+  published_by: string | null
+  published_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// The leaves_with_details columns a recap is built from
+export interface RecapLeaf {
+  id: string
+  content: string | null
+  ai_caption: string | null
+  leaf_type: string
+  message_type: string
+  media_urls: string[] | null
+  milestone_type: string | null
+  milestone_display_name: string | null
+  milestone_date: string | null
+  heart_count: number | null
+  smile_count: number | null
+  laugh_count: number | null
+  author_name: string | null
+  created_at: string
+}
+
+export interface RecapRunSummary {
+  generated: number
+  skipped: number // already written, or nothing happened in the period
+  failed: number
+}
+
+const RECAP_LEAF_COLUMNS = 'id, content, ai_caption, leaf_type, message_type, media_urls, milestone_type, milestone_display_name, milestone_date, heart_count, smile_count, laugh_count, author_name, created_at'
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * The month or year (UTC) that contains a date
+ */
+export function getRecapPeriod(type: RecapPeriodType, date: Date): RecapPeriod {
+  const year = date.getUTCFullYear()
+
+  if (type === 'yearly') {
+    return {
+      type,
+      start: toDateString(new Date(Date.UTC(year, 0, 1))),
+      end: toDateString(new Date(Date.UTC(year + 1, 0, 1))),
+      label: String(year)
+    }
+  }
+
+  const month = date.getUTCMonth()
+  const start = new Date(Date.UTC(year, month, 1))
+  return {
+    type,
+    start: toDateString(start),
+    end: toDateString(new Date(Date.UTC(year, month + 1, 1))),
+    label: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+  }
+}
+
+/**
+ * The last full month or year before a date
+ */
+export function getPreviousRecapPeriod(type: RecapPeriodType, now: Date): RecapPeriod {
+  const current = getRecapPeriod(type, now)
+  return getRecapPeriod(type, new Date(new Date(`${current.start}T00:00:00.000Z`).getTime() - 24 * 60 * 60 * 1000))
+}
+
+const reactionCount = (leaf: RecapLeaf) => (leaf.heart_count || 0) + (leaf.smile_count || 0) + (leaf.laugh_count || 0)
+
+export function buildRecapHighlights(leaves: RecapLeaf[], stats: RecapTreeStats): RecapHighlights {
+  const milestones = leaves
+    .filter(leaf => leaf.milestone_type)
+    .map(leaf => ({
+      leafId: leaf.id,
+      type: leaf.milestone_type as string,
+      name: leaf.milestone_display_name || (leaf.milestone_type as string).replace(/_/g, ' '),
+      date: (leaf.milestone_date || leaf.created_at).slice(0, 10)
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  const topPhotos = leaves
+    .filter(leaf => leaf.leaf_type === 'photo' && leaf.media_urls?.length)
+    .sort((a, b) => reactionCount(b) - reactionCount(a) || a.created_at.localeCompare(b.created_at))
+    .slice(0, MAX_TOP_PHOTOS)
+    .map(leaf => ({
+      leafId: leaf.id,
+      mediaUrl: (leaf.media_urls as string[])[0],
+      caption: leaf.ai_caption || leaf.content,
+      reactions: reactionCount(leaf)
+    }))
+
+  return { leafCount: leaves.length, stats, milestones, topPhotos }
+}
+
+export function buildRecapTitle(personName: string, period: RecapPeriod): string {
+  return period.type === 'yearly' ? `${personName}'s ${period.label} in review` : `${personName}'s ${period.label}`
+}
+
+/**
+ * The request sent to the model: what the period's leaves say, oldest first
+ */
+export function buildRecapPrompt(personName: string, period: RecapPeriod, leaves: RecapLeaf[], highlights: RecapHighlights): string {
+  const described = [...leaves]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .slice(0, MAX_PROMPT_LEAVES)
+    .map(leaf => {
+      const text = (leaf.content || leaf.ai_caption || '').replace(/\s+/g, ' ').slice(0, 240)
+      const milestone = leaf.milestone_type ? ` [milestone: ${leaf.milestone_display_name || leaf.milestone_type}]` : ''
+      const reactions = reactionCount(leaf) > 0 ? ` (${reactionCount(leaf)} reactions)` : ''
+      return `- ${leaf.created_at.slice(0, 10)}, ${leaf.leaf_type}${milestone}${reactions}${leaf.author_name ? `, shared by ${leaf.author_name}` : ''}: ${text || 'no description'}`
+    })
+
+  return `Write the ${period.type} recap of ${period.label} for ${personName}'s family.
+
+${highlights.leafCount} memories were shared${highlights.stats.milestoneCount ? `, including ${highlights.stats.milestoneCount} milestone(s)` : ''}.
+${highlights.milestones.length ? `Milestones: ${highlights.milestones.map(milestone => `${milestone.name} (${milestone.date})`).join(', ')}` : 'No milestones were recorded.'}
+${highlights.topPhotos.length ? `The family's favourite photos: ${highlights.topPhotos.map(photo => photo.caption || 'untitled photo').join('; ')}` : ''}
+
+Memories:
+${described.join('\n')}
+
+Tell the story of the ${period.type === 'yearly' ? 'year' : 'month'} in order, celebrating the milestones and favourite moments.`
+}
+
+/**
+ * A recap written without a model, from the same highlights
+ */
+export function buildDemoRecap(personName: string, period: RecapPeriod, highlights: RecapHighlights): string {
+  const paragraphs = [
+    `What a ${period.type === 'yearly' ? 'year' : 'month'} ${period.label} was for ${personName}! The family shared ${highlights.leafCount} ${highlights.leafCount === 1 ? 'memory' : 'memories'} along the way.`
+  ]
+
+  if (highlights.milestones.length > 0) {
+    paragraphs.push(`Big moments: ${highlights.milestones.map(milestone => milestone.name).join(', ')}.`)
+  }
+
+  const favourite = highlights.topPhotos.find(photo => photo.reactions > 0)
+  if (favourite) {
+    paragraphs.push(`Everyone's favourite photo${favourite.caption ? `: ${favourite.caption}` : ''} (${favourite.reactions} reactions).`)
+  }
+
+  return paragraphs.join('\n\n')
+}
+
+export class RecapStoryGenerator {
+  constructor(
+    private supabase: SupabaseClient,
+    private gateway: Pick<AIGateway, 'complete' | 'isAvailable'> = getAIGateway()
+  ) {}
+
+  /**
+   * Write the draft recap for the period containing a date. An existing
+   * recap is returned as it is unless `regenerate` is set; published recaps
+   * are never rewritten. Returns null when no leaves were shared.
+   */
+  async generateRecap(
+    treeId: string,
+    type: RecapPeriodType,
+    date: Date,
+    options: { regenerate?: boolean } = {}
+  ): Promise<PersonRecap | null> {
+    const period = getRecapPeriod(type, date)
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('person_recaps')
+      .select('*')
+      .eq('tree_id', treeId)
+      .eq('period_type', type)
+      .eq('period_start', period.start)
+      .maybeSingle()
+
+    if (existingError) {
+      throw existingError
+    }
+    if (existing && (existing.status === 'published' || !options.regenerate)) {
+      return existing as PersonRecap
+    }
+
+    const { data: tree, error: treeError } = await this.supabase
+      .from('trees')
+      .select('id, name, person_name')
+      .eq('id', treeId)
+      .maybeSingle()
+
+    if (treeError || !tree) {
+      throw treeError || new ValidationError('Tree not found', { field: 'treeId', statusCode: 404 })
+    }
+
+    const from = `${period.start}T00:00:00.000Z`
+    const to = `${period.end}T00:00:00.000Z`
+
+    const { data: rows, error: leavesError } = await this.supabase
+      .from('leaves_with_details')
+      .select(RECAP_LEAF_COLUMNS)
+      .eq('tree_id', treeId)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: true })
+
+    if (leavesError) {
+      throw leavesError
+    }
+
+    // Earlier recaps and prompts are not memories of their own
+    const leaves = ((rows || []) as RecapLeaf[]).filter(leaf => leaf.message_type !== 'system')
+    if (leaves.length === 0) {
+      return null
+    }
+
+    const personName = tree.person_name || tree.name
+    const stats = await getTreeStats(treeId, { from, to, client: this.supabase })
+    const highlights = buildRecapHighlights(leaves, stats)
+    const { narrative, aiMetadata } = await this.writeNarrative(personName, period, leaves, highlights)
+
+    const { data: recap, error: saveError } = await this.supabase
+      .from('person_recaps')
+      .upsert({
+        tree_id: treeId,
+        period_type: type,
+        period_start: period.start,
+        period_end: period.end,
+        status: 'draft',
+        title: buildRecapTitle(personName, period),
+        narrative,
+        highlights,
+        ai_metadata: aiMetadata,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'tree_id,period_type,period_start' })
+      .select()
+      .maybeSingle()
+
+    if (saveError) {
+      throw saveError
+    }
+
+    logger.info('Recap draft written', {
+      metadata: { treeId, periodType: type, periodStart: period.start, leafCount: leaves.length, provider: aiMetadata.provider }
+    })
+    return recap as PersonRecap
+  }
+
+  /**
+   * Write last month's and last year's drafts for every active tree.
+   * Safe to run daily: recaps that exist are left alone.
+   */
+  async generateDueRecaps(now = new Date()): Promise<RecapRunSummary> {
+    const summary: RecapRunSummary = { generated: 0, skipped: 0, failed: 0 }
+
+    const { data: trees, error } = await this.supabase
+      .from('trees')
+      .select('id')
+      .eq('is_active', true)
+
+    if (error) {
+      throw error
+    }
+
+    for (const tree of trees || []) {
+      for (const type of RECAP_PERIOD_TYPES) {
+        const period = getPreviousRecapPeriod(type, now)
+        try {
+          const { data: existing } = await this.supabase
+            .from('person_recaps')
+            .select('id')
+            .eq('tree_id', tree.id)
+            .eq('period_type', type)
+            .eq('period_start', period.start)
+            .maybeSingle()
+
+          if (existing) {
+            summary.skipped++
+            continue
+          }
+
+          const recap = await this.generateRecap(tree.id, type, new Date(`${period.start}T00:00:00.000Z`))
+          summary[recap ? 'generated' : 'skipped']++
+        } catch (recapError) {
+          summary.failed++
+          logger.error('Failed to write recap', recapError, {
+            metadata: { treeId: tree.id, periodType: type, periodStart: period.start }
+          })
+        }
+      }
+    }
+
+    logger.info('Recap run finished', { metadata: { ...summary } })
+    return summary
+  }
+
+  /**
+   * Edit a recap's title or story. A published recap's leaf is updated too.
+   */
+  async updateRecap(recap: PersonRecap, updates: { title?: string; narrative?: string }): Promise<PersonRecap> {
+    const now = new Date().toISOString()
+
+    const { data: updated, error } = await this.supabase
+      .from('person_recaps')
+      .update({ ...updates, updated_at: now })
+      .eq('id', recap.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    const result = updated as PersonRecap
+    if (result.status === 'published' && result.leaf_id) {
+      const { error: leafError } = await this.supabase
+        .from('posts')
+        .update({ content: formatRecapLeafContent(result), edited_at: now })
+        .eq('id', result.leaf_id)
+
+      if (leafError) {
+        throw leafError
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Add a draft recap to a branch of its tree as a system leaf, credited to
+   * the manager who published it. Defaults to the tree's oldest branch.
+   */
+  async publishRecap(recap: PersonRecap, userId: string, branchId?: string): Promise<PersonRecap> {
+    if (recap.status === 'published') {
+      throw new ValidationError('This recap is already published', { field: 'status', statusCode: 409 })
+    }
+
+    let branchQuery = this.supabase
+      .from('branches')
+      .select('id')
+      .eq('tree_id', recap.tree_id)
+
+    branchQuery = branchId
+      ? branchQuery.eq('id', branchId)
+      : branchQuery.order('created_at', { ascending: true }).limit(1)
+
+    const { data: branch } = await branchQuery.maybeSingle()
+    if (!branch) {
+      throw new ValidationError('No branch of this tree to publish the recap in', { field: 'branch_id', statusCode: 404 })
+    }
+
+    const { data: leaf, error: leafError } = await this.supabase
+      .from('posts')
+      .insert({
+        branch_id: branch.id,
+        author_id: userId,
+        leaf_type: 'text',
+        message_type: 'system',
+        content: formatRecapLeafContent(recap),
+        media_urls: recap.highlights.topPhotos?.map(photo => photo.mediaUrl) || [],
+        tags: ['recap', recap.period_type],
+        ai_tags: [],
+        assignment_status: 'assigned',
+        is_pinned: false
+      })
+      .select('id')
+      .maybeSingle()
+
+    if (leafError || !leaf) {
+      throw leafError || new Error('Recap leaf was not created')
+    }
+
+    const now = new Date().toISOString()
+    const { data: published, error } = await this.supabase
+      .from('person_recaps')
+      .update({ status: 'published', leaf_id: leaf.id, published_by: userId, published_at: now, updated_at: now })
+      .eq('id', recap.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    logger.info('Recap published', {
+      userId,
+      metadata: { recapId: recap.id, treeId: recap.tree_id, leafId: leaf.id, branchId: branch.id }
+    })
+    return published as PersonRecap
+  }
+
+  private async writeNarrative(
+    personName: string,
+    period: RecapPeriod,
+    leaves: RecapLeaf[],
+    highlights: RecapHighlights
+  ): Promise<{ narrative: string; aiMetadata: PersonRecap['ai_metadata'] }> {
+    if (this.gateway.isAvailable()) {
+      try {
+        const service = new AIService({
+          memory: null,
+          maxTokens: 700,
+          transport: request => this.gateway.complete(request)
+        })
+        const { story, aiMetadata } = await service.generateRecapStory(buildRecapPrompt(personName, period, leaves, highlights))
+        if (story) {
+          return { narrative: story, aiMetadata: { provider: aiMetadata?.provider, model: aiMetadata?.model } }
+        }
+      } catch (error) {
+        logger.warn('AI recap unavailable, using demo recap', {
+          metadata: { personName, period: period.start, error: error instanceof Error ? error.message : String(error) }
+        })
+      }
+    }
+
+    return { narrative: buildDemoRecap(personName, period, highlights), aiMetadata: { provider: 'demo', model: 'template' } }
+  }
+}
+
+/**
+ * The text of a published recap leaf
+ */
+export function formatRecapLeafContent(recap: Pick<PersonRecap, 'title' | 'narrative'>): string {
+  return `${recap.title}\n\n${recap.narrative}`
+}
@@ -0,0 +1,78 @@
+/**
+ * Response Analysis Schema
+ * Validates the JSON a model returns when analyzing a message or leaf, so
+ * the model-backed analyzer returns the same MessageAnalysis shape as the
+ * keyword analyzer.
+ */
+
+import { z } from 'zod'
+import { dropNullFields, parseModelJson, type ModelJsonParseResult } from './parseModelJson'
+import type { MessageAnalysis } from './responseAnalyzer'
+
+export const MESSAGE_CATEGORY_TYPES = [
+  'milestone', 'daily_update', 'concern', 'celebration', 'question', 'memory', 'routine', 'photo_share'
+] as const
+
+const MAX_LIST_ITEMS = 10
+
+// Lowercase, trimmed and unique, like the keyword analyzer's lists
+const termListSchema = z.array(z.string())
+  .transform(terms => [...new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))].slice(0, MAX_LIST_ITEMS))
+
+export const messageAnalysisSchema = z.preprocess(dropNullFields, z.object({
+  categories: z.array(z.object({
+    type: z.enum(MESSAGE_CATEGORY_TYPES),
+    confidence: z.number().min(0).max(1),
+    reason: z.string().trim().min(1).max(200),
+  })).min(1, 'At least one category is required')
+    .transform(categories => [...categories].sort((a, b) => b.confidence - a.confidence)),
+  tags: termListSchema.transform(tags => tags.map(tag => tag.replace(/^#+/, '').replace(/\s+/g, '_'))),
+  sentiment: z.enum(['positive', 'neutral', 'negative']),
+  topics: termListSchema,
+  urgency: z.enum(['low', 'medium', 'high']),
+  milestone: z.string().regex(/^[a-z][a-z0-9_]{1,40}$/, 'Milestone must be snake_case').optional(),
+  people: termListSchema.optional(),
+  locations: termListSchema.optional(),
+  timeReferences: termListSchema.optional(),
+}))
+
+/**
+ * The JSON shape requested from the model, included in analysis prompts
+ */
+export const MESSAGE_ANALYSIS_JSON_FORMAT = `{
+  "categories": [{ "type": "one of ${MESSAGE_CATEGORY_TYPES.join(', ')}", "confidence": 0.9, "reason": "why" }],
+  "tags": ["tag1", "tag2"],
+  "sentiment": "positive, neutral or negative",
+  "topics": ["topics such as health, food, development, social, activities or routine"],
+  "urgency": "low, medium or high",
+  "milestone": "milestone_type such as first_steps, or null",
+  "people": ["people mentioned by name or family role"],
+  "locations": ["places mentioned"],
+  "timeReferences": ["time words such as yesterday or this morning"]
+}`
+
+/**
+ * The analysis request sent to the model for one message
+ */
+export function buildMessageAnalysisPrompt(content: string, mediaCount = 0): string {
+  return `You are organizing a family's shared memories about their children. Analyze this message so it can be searched and used to suggest future prompts.
+
+Message:
+${content}
+
+${mediaCount > 0 ? `Media: ${mediaCount} file(s) attached` : 'No media attached'}
+
+Use lowercase for tags, topics, people, places and time references. Leave a list empty rather than guessing.
+
+Respond with only a JSON object in this format, using null for anything that does not apply:
+${MESSAGE_ANALYSIS_JSON_FORMAT}`
+}
+
+export type MessageAnalysisParseResult = ModelJsonParseResult<MessageAnalysis>
+
+/**
+ * Parse and validate a model's analysis reply
+ */
+export function parseMessageAnalysis(raw: string): MessageAnalysisParseResult {
+  return parseModelJson(raw, messageAnalysisSchema)
+}
@@ -0,0 +1,177 @@
+/**
+ * Response Analysis Store
+ * Keeps the analysis of prompt responses and new leaves in
+ * ai_response_analysis, where personalized prompting reads a user's history
+ * and leaf search looks up topics, people and places.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase as browserClient } from '@/lib/supabase/client'
+import { createComponentLogger } from '../logger'
+import { getResponseAnalyzer, type MessageAnalysis, type ResponseAnalyzer } from './responseAnalyzer'
+
+const logger = createComponentLogger('ResponseAnalysisStore')
+
+export interface ResponseAnalysisRecord {
+  id: string
+  user_id: string
+  branch_id: string | null
+  leaf_id: string | null
+  response_text: string
+  categories: MessageAnalysis['categories']
+  tags: string[]
+  sentiment: MessageAnalysis['sentiment']
+  topics: string[]
+  urgency: MessageAnalysis['urgency']
+  milestone: string | null
+  people: string[]
+  locations: string[]
+  time_references: string[]
+  confidence_score: number
+  analyzer: NonNullable<MessageAnalysis['analyzer']>
+  created_at: string
+}
+
+export interface SaveResponseAnalysis {
+  userId: string
+  branchId: string | null
+  leafId?: string // set for leaves; a leaf keeps one analysis
+  text: string
+  analysis: MessageAnalysis
+}
+
+export interface AnalyzableLeaf {
+  id: string
+  author_id: string
+  branch_id: string | null
+  content: string | null
+  media_urls?: string[] | null
+}
+
+// Characters a search term can have and still fit in a PostgREST filter
+const SEARCH_TERM_PATTERN = /^[\p{L}\p{N} _'-]{2,40}$/u
+
+export class ResponseAnalysisStore {
+  constructor(private supabase: SupabaseClient = browserClient) {}
+
+  async save(record: SaveResponseAnalysis): Promise<void> {
+    const { analysis } = record
+    const row = {
+      user_id: record.userId,
+      branch_id: record.branchId,
+      leaf_id: record.leafId || null,
+      response_text: record.text,
+      categories: analysis.categories,
+      tags: analysis.tags,
+      sentiment: analysis.sentiment,
+      topics: analysis.topics,
+      urgency: analysis.urgency,
+      milestone: analysis.milestone || null,
+      people: analysis.people || [],
+      locations: analysis.locations || [],
+      time_references: analysis.timeReferences || [],
+      confidence_score: analysis.categories[0]?.confidence || 0.5,
+      analyzer: analysis.analyzer || 'keyword',
+      created_at: new Date().toISOString()
+    }
+
+    const { error } = record.leafId
+      ? await this.supabase.from('ai_response_analysis').upsert(row, { onConflict: 'leaf_id' })
+      : await this.supabase.from('ai_response_analysis').insert(row)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  /**
+   * A user's most recent analyses in a branch, newest first
+   */
+  async listForUser(userId: string, branchId: string, limit = 100): Promise<ResponseAnalysisRecord[]> {
+    const { data, error } = await this.supabase
+      .from('ai_response_analysis')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('branch_id', branchId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+    return (data || []) as ResponseAnalysisRecord[]
+  }
+
+  /**
+   * Leaves whose analysis lists the term as a topic, person, place or tag.
+   * Terms that can't be matched exactly return no leaves.
+   */
+  async findLeafIds(term: string, limit = 50): Promise<string[]> {
+    const value = term.trim().toLowerCase()
+    if (!SEARCH_TERM_PATTERN.test(value)) {
+      return []
+    }
+
+    const element = `{"${value}"}`
+    const { data, error } = await this.supabase
+      .from('ai_response_analysis')
+      .select('leaf_id')
+      .or(['topics', 'people', 'locations', 'tags'].map(column => `${column}.cs.${element}`).join(','))
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+    return (data || []).map(row => row.leaf_id as string | null).filter((id): id is string => Boolean(id))
+  }
+}
+
+/**
+ * Analyzes a leaf when it is created and stores the result
+ */
+export class LeafAnalyzer {
+  constructor(
+    private analyzer: ResponseAnalyzer = getResponseAnalyzer(),
+    private store: ResponseAnalysisStore = new ResponseAnalysisStore()
+  ) {}
+
+  /**
+   * Returns null for leaves without text, or when the analysis could not be
+   * stored; the leaf itself is already saved, so failures are only logged.
+   */
+  async analyzeLeaf(leaf: AnalyzableLeaf): Promise<MessageAnalysis | null> {
+    if (!leaf.content?.trim()) {
+      return null
+    }
+
+    try {
+      const analysis = await this.analyzer.analyzeMessage(leaf.content, leaf.media_urls || undefined)
+      await this.store.save({
+        userId: leaf.author_id,
+        branchId: leaf.branch_id,
+        leafId: leaf.id,
+        text: leaf.content,
+        analysis
+      })
+      return analysis
+    } catch (error) {
+      logger.warn('Could not analyze leaf', {
+        metadata: { leafId: leaf.id, error: error instanceof Error ? error.message : String(error) }
+      })
+      return null
+    }
+  }
+}
+
+// Singleton instance
+let leafAnalyzerInstance: LeafAnalyzer | null = null
+
+export function getLeafAnalyzer(): LeafAnalyzer {
+  if (!leafAnalyzerInstance) {
+    leafAnalyzerInstance = new LeafAnalyzer()
+  }
+  return leafAnalyzerInstance
+}
+
+export default ResponseAnalysisStore
@@ -1,8 +1,18 @@
 /**
  * Response Analyzer
- * Automatically categorizes and tags user responses for better AI context
+ * Automatically categorizes and tags user responses and new leaves for
+ * better AI context. The model-backed analyzer is used when a provider is
+ * configured; the keyword analyzer works offline and is its fallback.
  */
 
+import { createComponentLogger } from '../logger'
+import { requestAICompletion, type AITransport } from './gatewayClient'
+import { buildMessageAnalysisPrompt, parseMessageAnalysis, type MESSAGE_CATEGORY_TYPES } from './responseAnalysisSchema'
+
+const logger = createComponentLogger('ResponseAnalyzer')
+
+export type ResponseAnalyzerName = 'keyword' | 'model'
+
 export interface MessageAnalysis {
   categories: MessageCategory[]
   tags: string[]
@@ -13,15 +23,23 @@ export interface MessageAnalysis {
   people?: string[]
   locations?: string[]
   timeReferences?: string[]
+  analyzer?: ResponseAnalyzerName // which analyzer produced it
 }
 
 export interface MessageCategory {
-  type: 'milestone' | 'daily_update' | 'concern' | 'celebration' | 'question' | 'memory' | 'routine' | 'photo_share'
+  type: typeof MESSAGE_CATEGORY_TYPES[number]
   confidence: number
   reason: string
 }
 
-class ResponseAnalyzer {
+export interface ResponseAnalyzer {
+  analyzeMessage(content: string, mediaUrls?: string[]): Promise<MessageAnalysis>
+}
+
+/**
+ * Detects categories, sentiment, topics, people and places with fixed word lists
+ */
+export class KeywordResponseAnalyzer implements ResponseAnalyzer {
   private milestoneKeywords = {
     first_smile: ['first smile', 'smiled for the first time', 'first real smile'],
     first_laugh: ['first laugh', 'laughed for the first time', 'giggled'],
@@ -56,7 +74,7 @@ class ResponseAnalyzer {
   /**
    * Analyze a user message and extract categories, tags, and metadata
    */
-  analyzeMessage(content: string, mediaUrls?: string[]): MessageAnalysis {
+  async analyzeMessage(content: string, mediaUrls?: string[]): Promise<MessageAnalysis> {
     const cleanContent = content.toLowerCase().trim()
     
     return {
@@ -68,7 +86,8 @@ class ResponseAnalyzer {
       milestone: this.detectMilestone(cleanContent),
       people: this.extractPeople(cleanContent),
       locations: this.extractLocations(cleanContent),
-      timeReferences: this.extractTimeReferences(cleanContent)
+      timeReferences: this.extractTimeReferences(cleanContent),
+      analyzer: 'keyword'
     }
   }
 
@@ -329,14 +348,56 @@ class ResponseAnalyzer {
   }
 }
 
+/**
+ * Asks a model for the same analysis, falling back to another analyzer
+ * (keywords by default) when no provider answers or the reply is invalid
+ */
+export class ModelResponseAnalyzer implements ResponseAnalyzer {
+  constructor(
+    private transport: AITransport = requestAICompletion,
+    private fallback: ResponseAnalyzer = new KeywordResponseAnalyzer()
+  ) {}
+
+  async analyzeMessage(content: string, mediaUrls?: string[]): Promise<MessageAnalysis> {
+    if (!content.trim()) {
+      return this.fallback.analyzeMessage(content, mediaUrls)
+    }
+
+    try {
+      const completion = await this.transport({
+        messages: [{ role: 'user', content: buildMessageAnalysisPrompt(content, mediaUrls?.length) }],
+        maxTokens: 400,
+        temperature: 0.2,
+        responseFormat: 'json'
+      })
+
+      const parsed = parseMessageAnalysis(completion.content)
+      if (!parsed.success) {
+        throw new Error(`Invalid analysis reply: ${parsed.error}`)
+      }
+
+      const analysis = parsed.data
+      if (mediaUrls?.length && !analysis.categories.some(category => category.type === 'photo_share')) {
+        analysis.categories.push({ type: 'photo_share', confidence: 0.9, reason: 'Message includes media attachments' })
+      }
+      return { ...analysis, analyzer: 'model' }
+    } catch (error) {
+      logger.warn('Model analysis unavailable, using fallback analyzer', {
+        metadata: { error: error instanceof Error ? error.message : String(error) }
+      })
+      return this.fallback.analyzeMessage(content, mediaUrls)
+    }
+  }
+}
+
 // Singleton instance
 let responseAnalyzerInstance: ResponseAnalyzer | null = null
 
 export function getResponseAnalyzer(): ResponseAnalyzer {
   if (!responseAnalyzerInstance) {
-    responseAnalyzerInstance = new ResponseAnalyzer()
+    responseAnalyzerInstance = new ModelResponseAnalyzer()
   }
   return responseAnalyzerInstance
 }
 
-export default ResponseAnalyzer
\ No newline at end of file
+export default ModelResponseAnalyzer
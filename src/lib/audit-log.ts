@@ -0,0 +1,208 @@
+/**
+ * Audit log
+ *
+ * Database triggers append an entry to audit_log for every role, membership,
+ * invitation and sharing change (see migrations/015_audit_log.sql). This
+ * module reads a tree's or branch's entries and describes them for people.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditLogEntry } from '@/types/database'
+
+export const AUDIT_LOG_CATEGORIES = {
+  members: ['user_roles', 'roles', 'tree_members', 'branch_members', 'invitations', 'branch_invitations'],
+  sharing: ['cross_tree_access', 'cross_tree_content_shares', 'branches', 'trees'],
+} as const
+
+export type AuditLogCategory = keyof typeof AUDIT_LOG_CATEGORIES
+
+export interface AuditLogScope {
+  treeId?: string
+  branchId?: string
+}
+
+export interface AuditLogFilters {
+  actorId?: string
+  category?: AuditLogCategory
+  before?: string
+  limit?: number
+}
+
+export interface AuditLogNames {
+  users: Record<string, string>
+  roles: Record<string, string>
+}
+
+export interface DescribedAuditLogEntry extends AuditLogEntry {
+  actor_name: string
+  summary: string
+}
+
+/**
+ * A tree's or branch's audit entries, newest first, each with a readable
+ * summary. Page back with `before` set to the oldest created_at shown.
+ */
+export async function getAuditLog(
+  supabase: SupabaseClient,
+  scope: AuditLogScope,
+  filters: AuditLogFilters = {}
+): Promise<DescribedAuditLogEntry[]> {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+
+  if (scope.branchId) {
+    query = query.eq('branch_id', scope.branchId)
+  } else if (scope.treeId) {
+    query = query.eq('tree_id', scope.treeId)
+  } else {
+    throw new Error('An audit log needs a tree or a branch')
+  }
+
+  if (filters.actorId) {
+    query = query.eq('actor_id', filters.actorId)
+  }
+  if (filters.category) {
+    query = query.in('target_table', [...AUDIT_LOG_CATEGORIES[filters.category]])
+  }
+  if (filters.before) {
+    query = query.lt('created_at', filters.before)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 50)
+
+  if (error) {
+    throw error
+  }
+
+  const entries = (data || []) as AuditLogEntry[]
+  const names = await loadNames(supabase, entries)
+
+  return entries.map(entry => ({
+    ...entry,
+    actor_name: entry.actor_id ? names.users[entry.actor_id] || 'A former member' : 'Tribe',
+    summary: describeAuditEntry(entry, names),
+  }))
+}
+
+async function loadNames(supabase: SupabaseClient, entries: AuditLogEntry[]): Promise<AuditLogNames> {
+  const names: AuditLogNames = { users: {}, roles: {} }
+
+  const userIds = [...new Set(entries.flatMap(entry => [entry.actor_id, entry.target_user_id]).filter(Boolean))] as string[]
+  const roleIds = [...new Set(entries.flatMap(entry => [entry.before?.role_id, entry.after?.role_id]).filter(Boolean))] as string[]
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name, email')
+      .in('id', userIds)
+
+    for (const profile of profiles || []) {
+      names.users[profile.id] = [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email
+    }
+  }
+
+  if (roleIds.length > 0) {
+    const { data: roles } = await supabase
+      .from('roles')
+      .select('id, name')
+      .in('id', roleIds)
+
+    for (const role of roles || []) {
+      names.roles[role.id] = role.name
+    }
+  }
+
+  return names
+}
+
+function changed(entry: AuditLogEntry, field: string): boolean {
+  return entry.action === 'update' && entry.before?.[field] !== entry.after?.[field]
+}
+
+/**
+ * One line saying what an entry changed, e.g. "Gave Sam Rivera the viewer role until Oct 19, 2026"
+ */
+export function describeAuditEntry(entry: AuditLogEntry, names: AuditLogNames = { users: {}, roles: {} }): string {
+  const row = entry.after || entry.before || {}
+  const user = entry.target_user_id ? names.users[entry.target_user_id] || 'a member' : 'a member'
+  const roleName = (roleId: unknown) => names.roles[String(roleId)] || 'unknown'
+
+  switch (entry.target_table) {
+    case 'user_roles': {
+      const expiresAt = entry.after?.expires_at
+      const until = expiresAt
+        ? ` until ${new Date(String(expiresAt)).toLocaleDateString('en-US', { dateStyle: 'medium', timeZone: 'UTC' })}`
+        : ''
+      if (entry.action === 'insert') return `Gave ${user} the ${roleName(row.role_id)} role${until}`
+      if (entry.action === 'delete') {
+        if (entry.actor_id) return `Removed ${user}'s ${roleName(row.role_id)} role`
+
+        // The system also removes grants that hadn't expired, e.g. duplicates
+        const expiredAt = entry.before?.expires_at
+        const capitalizedUser = `${user.charAt(0).toUpperCase()}${user.slice(1)}`
+        return expiredAt && new Date(String(expiredAt)) <= new Date(entry.created_at)
+          ? `${capitalizedUser}'s ${roleName(row.role_id)} role expired`
+          : `${capitalizedUser}'s ${roleName(row.role_id)} role was removed by the system`
+      }
+      return changed(entry, 'role_id')
+        ? `Changed ${user}'s role from ${roleName(entry.before?.role_id)} to ${roleName(entry.after?.role_id)}`
+        : `Changed how long ${user} has the ${roleName(row.role_id)} role${until || ' (now permanent)'}`
+    }
+
+    case 'roles': {
+      if (entry.action === 'insert') return `Created the ${row.name} role`
+      if (entry.action === 'delete') return `Deleted the ${row.name} role`
+      return changed(entry, 'name')
+        ? `Renamed the ${entry.before?.name} role to ${entry.after?.name}`
+        : `Updated the ${row.name} role`
+    }
+
+    case 'tree_members':
+    case 'branch_members': {
+      const place = entry.target_table === 'tree_members' ? 'the tree' : 'the branch'
+      if (entry.action === 'insert') return `Added ${user} to ${place}`
+      if (entry.action === 'delete') return `Removed ${user} from ${place}`
+      if (changed(entry, 'role')) return `Changed ${user}'s membership role from ${entry.before?.role} to ${entry.after?.role}`
+      if (changed(entry, 'status')) return `Changed ${user}'s membership from ${entry.before?.status} to ${entry.after?.status}`
+      return `Updated ${user}'s membership`
+    }
+
+    case 'invitations':
+    case 'branch_invitations': {
+      const email = row.email ? String(row.email) : 'someone'
+      if (entry.action === 'insert') return `Invited ${email}${row.role ? ` as ${row.role}` : ''}`
+      if (entry.action === 'delete') return `Deleted the invitation for ${email}`
+      return changed(entry, 'status')
+        ? `Invitation for ${email} ${entry.after?.status}`
+        : `Updated the invitation for ${email}`
+    }
+
+    case 'cross_tree_access': {
+      if (entry.action === 'insert') return 'Shared the branch with another tree'
+      if (entry.action === 'delete') return 'Removed another tree\'s access to the branch'
+      if (changed(entry, 'status') && entry.after?.status === 'revoked') return 'Revoked another tree\'s access to the branch'
+      return changed(entry, 'status')
+        ? `Changed another tree's access from ${entry.before?.status} to ${entry.after?.status}`
+        : 'Changed what another tree can do in the branch'
+    }
+
+    case 'cross_tree_content_shares': {
+      const treeCount = Array.isArray(row.shared_tree_ids) ? row.shared_tree_ids.length : 0
+      if (entry.action === 'insert') return `Shared a memory with ${treeCount} other tree${treeCount === 1 ? '' : 's'}`
+      if (entry.action === 'delete') return 'Stopped sharing a memory with other trees'
+      return `Changed which trees a memory is shared with (now ${treeCount})`
+    }
+
+    case 'branches':
+      return `Changed branch privacy from ${entry.before?.privacy} to ${entry.after?.privacy}`
+
+    case 'trees':
+      return 'Changed who manages the tree'
+
+    default:
+      return `Changed ${entry.target_table.replace(/_/g, ' ')}`
+  }
+}
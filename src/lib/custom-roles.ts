@@ -0,0 +1,244 @@
+/**
+ * Custom roles
+ *
+ * Tree owners can define roles of their own, e.g. "Photo contributor: create
+ * posts, no comments", by picking cells of the resource × action matrix (see
+ * migrations/016_custom_tree_roles.sql). This module reads and writes a
+ * tree's roles and maps their permissions onto BranchPermissions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/validation/errors'
+import type { BranchPermissions, CustomRole, PermissionGrant } from '@/types/database'
+
+export const RESOURCE_TYPES = ['branch', 'post', 'comment', 'member', 'invitation'] as const
+export const PERMISSION_ACTIONS = ['create', 'read', 'update', 'delete', 'moderate', 'invite', 'admin'] as const
+
+// Custom roles can't take the built-in role names
+export const SYSTEM_ROLE_NAMES = ['owner', 'admin', 'moderator', 'member', 'viewer'] as const
+
+export type BranchPermissionFlag = Exclude<keyof BranchPermissions, 'isOwner' | 'isAdmin' | 'isModerator' | 'userRole' | 'customRole'>
+
+export const BRANCH_PERMISSION_LABELS: Record<BranchPermissionFlag, string> = {
+  canRead: 'See the branch and its posts',
+  canCreatePosts: 'Create posts',
+  canModerate: 'Moderate posts and comments',
+  canInviteMembers: 'Invite members',
+  canManageMembers: 'Manage members and roles',
+  canUpdate: 'Change branch settings',
+  canDelete: 'Delete the branch',
+}
+
+// The matrix cells that turn on each branch permission
+const BRANCH_PERMISSION_GRANTS: Record<BranchPermissionFlag, PermissionGrant[]> = {
+  canRead: [{ resource_type: 'branch', action: 'read' }, { resource_type: 'post', action: 'read' }],
+  canCreatePosts: [{ resource_type: 'post', action: 'create' }],
+  canModerate: [{ resource_type: 'post', action: 'moderate' }, { resource_type: 'comment', action: 'moderate' }],
+  canInviteMembers: [{ resource_type: 'member', action: 'invite' }, { resource_type: 'invitation', action: 'create' }],
+  canManageMembers: [{ resource_type: 'member', action: 'update' }, { resource_type: 'member', action: 'delete' }],
+  canUpdate: [{ resource_type: 'branch', action: 'update' }],
+  canDelete: [{ resource_type: 'branch', action: 'delete' }],
+}
+
+export interface CustomRoleInput {
+  name: string
+  description?: string | null
+  permissions: PermissionGrant[]
+}
+
+/**
+ * Whether grants allow an action on a resource; `admin` on a resource allows every action on it
+ */
+export function hasGrant(grants: PermissionGrant[], grant: PermissionGrant): boolean {
+  return grants.some(candidate =>
+    candidate.resource_type === grant.resource_type &&
+    (candidate.action === grant.action || candidate.action === 'admin')
+  )
+}
+
+/**
+ * The branch permissions a set of grants turns on, e.g. to preview a role
+ */
+export function grantedBranchPermissions(grants: PermissionGrant[]): BranchPermissionFlag[] {
+  return (Object.keys(BRANCH_PERMISSION_GRANTS) as BranchPermissionFlag[])
+    .filter(flag => BRANCH_PERMISSION_GRANTS[flag].some(cell => hasGrant(grants, cell)))
+}
+
+/**
+ * The branch permissions grants would turn on that the given permissions
+ * don't include, e.g. to stop members handing out more than they hold
+ */
+export function permissionsBeyond(permissions: BranchPermissions, grants: PermissionGrant[]): BranchPermissionFlag[] {
+  return grantedBranchPermissions(grants).filter(flag => !permissions[flag])
+}
+
+/**
+ * Add what a custom role's grants allow to a member's branch permissions
+ */
+export function applyPermissionGrants(permissions: BranchPermissions, grants: PermissionGrant[]): BranchPermissions {
+  const applied = { ...permissions }
+  for (const flag of grantedBranchPermissions(grants)) {
+    applied[flag] = true
+  }
+  return applied
+}
+
+export class CustomRoleService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listTreeRoles(treeId: string): Promise<CustomRole[]> {
+    const { data: roles, error } = await this.supabase
+      .from('roles')
+      .select('*')
+      .eq('tree_id', treeId)
+      .order('name', { ascending: true })
+
+    if (error) throw error
+    if (!roles || roles.length === 0) return []
+
+    const grants = await this.loadGrants(roles.map(role => role.id))
+    return roles.map(role => ({ ...role, permissions: grants[role.id] || [] }))
+  }
+
+  async getRole(treeId: string, roleId: string): Promise<CustomRole | null> {
+    const { data: role, error } = await this.supabase
+      .from('roles')
+      .select('*')
+      .eq('id', roleId)
+      .eq('tree_id', treeId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!role) return null
+
+    const grants = await this.loadGrants([role.id])
+    return { ...role, permissions: grants[role.id] || [] }
+  }
+
+  async createRole(treeId: string, input: CustomRoleInput, createdBy: string): Promise<CustomRole> {
+    const { data: role, error } = await this.supabase
+      .from('roles')
+      .insert({
+        name: input.name,
+        description: input.description ?? null,
+        is_system_role: false,
+        tree_id: treeId,
+        created_by: createdBy
+      })
+      .select()
+      .single()
+
+    if (error) throw this.toRoleError(error, input.name)
+
+    await this.setPermissions(role.id, input.permissions)
+    return { ...role, permissions: input.permissions }
+  }
+
+  async updateRole(treeId: string, roleId: string, input: Partial<CustomRoleInput>): Promise<CustomRole | null> {
+    const existing = await this.getRole(treeId, roleId)
+    if (!existing) return null
+
+    const { permissions, ...fields } = input
+    if (Object.keys(fields).length > 0) {
+      const { error } = await this.supabase
+        .from('roles')
+        .update(fields)
+        .eq('id', roleId)
+
+      if (error) throw this.toRoleError(error, fields.name || existing.name)
+    }
+
+    if (permissions) {
+      await this.setPermissions(roleId, permissions)
+    }
+
+    return { ...existing, ...fields, permissions: permissions || existing.permissions }
+  }
+
+  async deleteRole(treeId: string, roleId: string): Promise<boolean> {
+    const { data: deleted, error } = await this.supabase
+      .from('roles')
+      .delete()
+      .eq('id', roleId)
+      .eq('tree_id', treeId)
+      .select('id')
+
+    if (error) throw error
+    return Boolean(deleted && deleted.length > 0)
+  }
+
+  // Everyone who currently holds the role, in any of the tree's contexts
+  async getRoleHolders(roleId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role_id', roleId)
+
+    if (error) throw error
+    return [...new Set((data || []).map(grant => grant.user_id as string))]
+  }
+
+  private async loadGrants(roleIds: string[]): Promise<Record<string, PermissionGrant[]>> {
+    const { data: links, error } = await this.supabase
+      .from('role_permissions')
+      .select('role_id, permission_id')
+      .in('role_id', roleIds)
+
+    if (error) throw error
+    if (!links || links.length === 0) return {}
+
+    const { data: permissions, error: permissionsError } = await this.supabase
+      .from('permissions')
+      .select('id, resource_type, action')
+      .in('id', [...new Set(links.map(link => link.permission_id))])
+
+    if (permissionsError) throw permissionsError
+
+    const byId = new Map((permissions || []).map(permission => [permission.id, permission]))
+    const grants: Record<string, PermissionGrant[]> = {}
+    for (const link of links) {
+      const permission = byId.get(link.permission_id)
+      if (permission) {
+        grants[link.role_id] = [...(grants[link.role_id] || []), { resource_type: permission.resource_type, action: permission.action }]
+      }
+    }
+    return grants
+  }
+
+  // Replace a role's permissions with the picked matrix cells
+  private async setPermissions(roleId: string, grants: PermissionGrant[]): Promise<void> {
+    const { data: permissions, error } = await this.supabase
+      .from('permissions')
+      .select('id, resource_type, action')
+      .in('resource_type', [...new Set(grants.map(grant => grant.resource_type))])
+
+    if (error) throw error
+
+    const permissionIds = grants
+      .map(grant => (permissions || []).find(permission =>
+        permission.resource_type === grant.resource_type && permission.action === grant.action
+      )?.id)
+      .filter((id): id is string => Boolean(id))
+
+    const { error: deleteError } = await this.supabase
+      .from('role_permissions')
+      .delete()
+      .eq('role_id', roleId)
+
+    if (deleteError) throw deleteError
+    if (permissionIds.length === 0) return
+
+    const { error: insertError } = await this.supabase
+      .from('role_permissions')
+      .insert([...new Set(permissionIds)].map(permissionId => ({ role_id: roleId, permission_id: permissionId })))
+
+    if (insertError) throw insertError
+  }
+
+  private toRoleError(error: { code?: string }, name: string): Error {
+    if (error.code === '23505') {
+      return new ValidationError(`This tree already has a role called ${name}`, { field: 'name', statusCode: 409 })
+    }
+    return error as Error
+  }
+}
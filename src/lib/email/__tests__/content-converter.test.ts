@@ -0,0 +1,105 @@
+import { convertHtmlToText, stripQuotedText, EmailContentConverter } from '../content-converter'
+import { IncomingEmail } from '@/types/email'
+
+const email = (overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from: 'grandma@example.com',
+  subject: 'First steps',
+  text: '',
+  ...overrides,
+})
+
+describe('convertHtmlToText', () => {
+  it('keeps structure and link targets without markup', () => {
+    const { text } = convertHtmlToText(
+      '<h2>Big news</h2><p>Leo walked <b>three</b> steps!</p><ul><li>Kitchen</li><li>Hallway</li></ul>' +
+      '<p><a href="https://example.com/video">video</a></p>'
+    )
+
+    expect(text).toContain('Big news')
+    expect(text).toContain('Leo walked three steps!')
+    expect(text).toContain('* Kitchen')
+    expect(text).toContain('video [https://example.com/video]')
+    expect(text).not.toMatch(/<[^>]+>/)
+  })
+
+  it('skips quoted replies and records signature images separately', () => {
+    const result = convertHtmlToText(
+      '<p>Look at him go <img src="cid:photo1@mail"></p>' +
+      '<div class="gmail_signature">Grandma <img src="cid:logo@mail"></div>' +
+      '<blockquote>Earlier message</blockquote>'
+    )
+
+    expect(result.text).toContain('Look at him go')
+    expect(result.text).not.toContain('Earlier message')
+    expect(result.text).not.toContain('Grandma')
+    expect(result.contentIds).toEqual(['photo1@mail'])
+    expect(result.signatureContentIds).toEqual(['logo@mail'])
+  })
+})
+
+describe('stripQuotedText', () => {
+  it('drops everything after a reply boundary', () => {
+    const text = 'Lovely!\n\nOn Mon, Jan 1, 2024 at 9:00 AM Dad <dad@example.com>\nwrote:\n> Original'
+    expect(stripQuotedText(text)).toBe('Lovely!')
+  })
+
+  it('drops Outlook reply headers', () => {
+    const text = 'Thanks for sharing\n\nFrom: Dad\nSent: Monday\nSubject: Photos\n\nOriginal'
+    expect(stripQuotedText(text)).toBe('Thanks for sharing')
+  })
+
+  it('removes mobile footers and signature delimiters', () => {
+    expect(stripQuotedText('So proud\n\nSent from my iPhone')).toBe('So proud')
+    expect(stripQuotedText('So proud\n-- \nGrandma Jo\n555-0100')).toBe('So proud')
+    expect(stripQuotedText('Beach day\n\nSent via the Samsung Galaxy S23, an AT&T 5G smartphone\n')).toBe('Beach day')
+    expect(stripQuotedText('Beach day\nSent via Superhuman\n\nOn Mon, Grandma wrote:\n> Photos?')).toBe('Beach day')
+  })
+
+  it('keeps lines that only look like footers', () => {
+    expect(stripQuotedText('Sent via FedEx this morning!\nShould arrive Friday'))
+      .toBe('Sent via FedEx this morning!\nShould arrive Friday')
+    expect(stripQuotedText('Sent from my iPhone\nbecause the laptop died')).toBe('Sent from my iPhone\nbecause the laptop died')
+  })
+
+  it('keeps the forwarded message but not its headers', () => {
+    const text = 'FYI\n---------- Forwarded message ---------\nFrom: School\nDate: Friday\nSubject: Award\n\nLeo won the art prize'
+    expect(stripQuotedText(text)).toBe('FYI\nLeo won the art prize')
+  })
+})
+
+describe('EmailContentConverter', () => {
+  const converter = new EmailContentConverter()
+
+  it('prefers the converted HTML body and leaves characters unescaped', () => {
+    const result = converter.convert(email({
+      text: 'plain fallback',
+      html: '<p>Tom &amp; Leo\'s "first" swim</p>',
+    }))
+
+    expect(result.text).toBe('Tom & Leo\'s "first" swim')
+  })
+
+  it('falls back to the text part when the HTML body is empty', () => {
+    const result = converter.convert(email({ text: 'From the text part', html: '<div></div>' }))
+    expect(result.text).toBe('From the text part')
+  })
+
+  it('removes control characters through the shared sanitizer', () => {
+    const result = converter.convert(email({ text: 'Hello\u0007 there\n\nSecond line' }))
+    expect(result.text).toBe('Hello there\n\nSecond line')
+  })
+
+  it('puts inline images first and drops signature-only images', () => {
+    const result = converter.convert(email({
+      html: '<p>Cake time <img src="cid:cake"></p><div class="gmail_signature"><img src="cid:logo"></div>',
+      rawAttachments: [
+        { filename: 'report.pdf', contentType: 'application/pdf', content: 'cGRm' },
+        { filename: 'logo.png', contentType: 'image/png', content: 'bG9nbw==', contentId: '<logo>' },
+        { filename: 'cake.jpg', contentType: 'image/jpeg', content: 'Y2FrZQ==', contentId: '<CAKE>' },
+      ],
+    }))
+
+    expect(result.rawAttachments?.map(attachment => attachment.filename)).toEqual(['cake.jpg', 'report.pdf'])
+  })
+})
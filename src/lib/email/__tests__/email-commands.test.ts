@@ -0,0 +1,94 @@
+/** @jest-environment node */
+
+import { EmailCommandResolver, parseEmailCommands, slugifyBranchName } from '../email-commands'
+import { IncomingEmail } from '@/types/email'
+import { createFakeSupabase } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const email = (overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from: 'parent@example.com',
+  subject: 'Beach day',
+  text: 'Sandcastles',
+  ...overrides,
+})
+
+describe('parseEmailCommands', () => {
+  it('returns no commands for a plain email', () => {
+    expect(parseEmailCommands(email())).toEqual({ subject: 'Beach day', branchNames: [] })
+  })
+
+  it('reads branches from plus-addressing', () => {
+    const commands = parseEmailCommands(email({
+      to: '"Emma" <person-11111111-1111-1111-1111-111111111111+summer-trip+family@colinrodrigues.com>',
+    }))
+
+    expect(commands.branchNames).toEqual(['summer-trip', 'family'])
+  })
+
+  it('reads and strips subject tokens', () => {
+    const commands = parseEmailCommands(email({
+      subject: 'Her first steps! [milestone:First Steps] #branch:Vacations [date:2026-09-30]',
+    }))
+
+    expect(commands).toEqual({
+      subject: 'Her first steps!',
+      branchNames: ['Vacations'],
+      milestoneType: 'first_steps',
+      milestoneDate: '2026-09-30',
+    })
+  })
+
+  it('deduplicates branches named more than once and ignores invalid dates', () => {
+    const commands = parseEmailCommands(email({
+      to: 'emma.smith+summer-trip@colinrodrigues.com',
+      subject: 'Pool [branch:Summer Trip] [date:yesterday]',
+    }))
+
+    expect(commands).toEqual({ subject: 'Pool', branchNames: ['summer-trip'] })
+  })
+})
+
+describe('slugifyBranchName', () => {
+  it('treats spacing and punctuation variants as the same branch', () => {
+    expect(slugifyBranchName('Summer Trip')).toBe('summer-trip')
+    expect(slugifyBranchName('summer_trip')).toBe('summer-trip')
+    expect(slugifyBranchName(' Summer-Trip! ')).toBe('summer-trip')
+  })
+})
+
+describe('EmailCommandResolver', () => {
+  it('only routes to branches the sender may post in', async () => {
+    const grant = (branchId: string, role: string) => ({
+      user_id: 'sender-1', context_type: 'branch', context_id: branchId, expires_at: null,
+      role: { name: role, is_system_role: true },
+    })
+    const supabase = createFakeSupabase({
+      branches: [
+        { id: 'branch-family', name: 'Family', created_by: 'owner-1' },
+        { id: 'branch-recipes', name: 'Recipes', created_by: 'owner-1' },
+      ],
+      branch_members: [
+        { user_id: 'sender-1', status: 'active', branches: { id: 'branch-family', name: 'Family' } },
+        { user_id: 'sender-1', status: 'active', branches: { id: 'branch-recipes', name: 'Recipes' } },
+      ],
+      user_roles: [grant('branch-family', 'member'), grant('branch-recipes', 'viewer')],
+    })
+
+    const resolved = await new EmailCommandResolver().resolveCommands(
+      email({ to: 'sender+family+recipes@colinrodrigues.com' }),
+      { supabase, emailId: 'email-1', recipient: { routingType: 'user', authorId: 'sender-1' } }
+    )
+
+    expect(resolved.branchIds).toEqual(['branch-family'])
+    expect(resolved.unmatchedBranchNames).toEqual(['recipes'])
+  })
+})
@@ -0,0 +1,464 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { EmailIngestionPipeline, EmailIngestionStages } from '../ingestion-pipeline'
+import { EmailProcessor } from '../email-processor'
+import { computeEmailContentHash } from '../ingestion-store'
+import { parseEmailCommands } from '../email-commands'
+import { EmailContentConverter } from '../content-converter'
+import { UserNotFoundError, PayloadTooLargeError } from '@/lib/errors/webhook-errors'
+import { IncomingEmail, EmailIngestionRecord, QuarantinedEmail } from '@/types/email'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const supabase = {} as SupabaseClient
+
+const baseEmail = (overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from: 'parent@example.com',
+  subject: 'Beach day',
+  text: 'Sandcastles all afternoon #summer',
+  ...overrides,
+})
+
+const ingestionRecord = (overrides: Partial<EmailIngestionRecord> = {}): EmailIngestionRecord => ({
+  id: 'ingestion-1',
+  message_id: '<abc@mail.example.com>',
+  content_hash: 'hash',
+  provider: 'sendgrid',
+  status: 'processing',
+  recipient: null,
+  sender: null,
+  subject: null,
+  leaf_id: null,
+  error_message: null,
+  attempt_count: 1,
+  processed_at: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const createStages = (): EmailIngestionStages => ({
+  parser: { parse: jest.fn() },
+  recordStore: {
+    claim: jest.fn().mockResolvedValue({ status: 'new', record: ingestionRecord() }),
+    markCompleted: jest.fn(),
+    markFailed: jest.fn(),
+    markSkipped: jest.fn(),
+    markQuarantined: jest.fn(),
+  },
+  replyHandler: {
+    resolveReply: jest.fn().mockResolvedValue(null),
+    addReplyComment: jest.fn().mockResolvedValue('comment-1'),
+  },
+  recipientResolver: {
+    resolveRecipient: jest.fn().mockResolvedValue({
+      routingType: 'person',
+      authorId: 'user-1',
+      treeId: 'tree-1',
+      personName: 'Emma',
+      managerIds: ['user-1'],
+    }),
+  },
+  senderVerifier: {
+    verifySender: jest.fn().mockResolvedValue({ verified: true, method: 'allowlist', authorId: 'grandma-1' }),
+  },
+  quarantine: {
+    quarantine: jest.fn().mockResolvedValue({ id: 'quarantine-1' }),
+  },
+  commandResolver: {
+    resolveCommands: jest.fn().mockImplementation(async (email: IncomingEmail) => ({
+      ...parseEmailCommands(email),
+      branchIds: [],
+      unmatchedBranchNames: [],
+    })),
+  },
+  contentConverter: new EmailContentConverter(),
+  attachmentUploader: {
+    uploadEmailAttachments: jest.fn().mockResolvedValue([
+      { filename: 'a.jpg', contentType: 'image/jpeg', size: 3, url: 'https://cdn/a.jpg' },
+    ]),
+  },
+  classifier: new EmailProcessor(),
+  leafCreator: {
+    createLeafFromEmail: jest.fn().mockResolvedValue({
+      success: true,
+      leafId: 'leaf-1',
+      leafType: 'photo',
+      hasMedia: true,
+    }),
+  },
+  contentSharer: {
+    shareLeaf: jest.fn().mockImplementation(async share => ({ ...share, shared_at: '2026-10-01T00:00:00.000Z' })),
+  },
+  enhancementQueue: {
+    enqueue: jest.fn().mockResolvedValue(2),
+  },
+})
+
+const EMMA = 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com'
+const LEO = 'person-22222222-2222-2222-2222-222222222222@colinrodrigues.com'
+
+// Resolves Emma's and Leo's person addresses to their own trees
+const resolvePersonTrees = async (email: IncomingEmail) => {
+  const treeId = email.to.includes('2222') ? 'tree-2' : email.to.includes('1111') ? 'tree-1' : null
+  return treeId && { routingType: 'person', authorId: 'user-1', treeId, personName: treeId, managerIds: ['user-1'] }
+}
+
+describe('EmailIngestionPipeline', () => {
+  it('runs every stage and reports routing details', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({
+      rawAttachments: [{ filename: 'a.jpg', contentType: 'image/jpeg', content: 'YWJj' }],
+    }))
+
+    expect(result).toMatchObject({
+      success: true,
+      processed: true,
+      leafId: 'leaf-1',
+      routingType: 'person',
+      targetTreeId: 'tree-1',
+    })
+    expect(stages.attachmentUploader.uploadEmailAttachments).toHaveBeenCalledTimes(1)
+    expect(stages.recordStore.markCompleted).toHaveBeenCalledWith('ingestion-1', 'leaf-1')
+
+    const [, processed] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(processed.leafType).toBe('photo')
+    expect(processed.mediaUrls).toEqual(['https://cdn/a.jpg'])
+    expect(processed.tags).toEqual(['summer'])
+    expect(processed.content).toContain('📧 Email for: Emma')
+  })
+
+  it('queues AI captions, tags and analysis for the new leaf', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail())
+
+    expect(stages.enhancementQueue.enqueue).toHaveBeenCalledWith({
+      request: expect.objectContaining({
+        leafId: 'leaf-1',
+        content: expect.stringContaining('Sandcastles all afternoon'),
+        context: expect.objectContaining({ treeName: 'Emma', existingTags: ['summer'] }),
+      }),
+      userId: 'grandma-1',
+      treeId: 'tree-1',
+      jobTypes: ['ai_caption', 'ai_tags', 'analysis'],
+    })
+  })
+
+  it('still completes the email when AI enhancement cannot be queued', async () => {
+    const stages = createStages()
+    ;(stages.enhancementQueue.enqueue as jest.Mock).mockRejectedValue(new Error('queue unavailable'))
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail())
+
+    expect(result).toMatchObject({ success: true, processed: true, leafId: 'leaf-1' })
+    expect(stages.recordStore.markCompleted).toHaveBeenCalledWith('ingestion-1', 'leaf-1')
+  })
+
+  it('stores only the new part of a reply, without a subject prefix', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail({
+      text: 'She loved the waves!\n\nOn Sat, Jul 5, 2025 at 9:00 AM Dad <dad@example.com> wrote:\n> How was the beach?',
+    }))
+
+    const [, processed] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(processed.content).toContain('She loved the waves!')
+    expect(processed.content).not.toContain('How was the beach?')
+    expect(processed.content).not.toContain('Subject:')
+  })
+
+  it('credits the leaf to the verified sender', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail())
+
+    const [, , context] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(context.recipient.authorId).toBe('grandma-1')
+  })
+
+  it('quarantines email from unverified senders without creating a leaf', async () => {
+    const stages = createStages()
+    ;(stages.senderVerifier.verifySender as jest.Mock).mockResolvedValue({ verified: false })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({
+      rawAttachments: [{ filename: 'a.jpg', contentType: 'image/jpeg', content: 'YWJj' }],
+    }))
+
+    expect(result).toMatchObject({
+      success: true,
+      processed: true,
+      quarantined: true,
+      quarantineId: 'quarantine-1',
+      targetTreeId: 'tree-1',
+    })
+    expect(stages.recordStore.markQuarantined).toHaveBeenCalledWith('ingestion-1')
+    expect(stages.attachmentUploader.uploadEmailAttachments).not.toHaveBeenCalled()
+    expect(stages.leafCreator.createLeafFromEmail).not.toHaveBeenCalled()
+  })
+
+  it('does not verify senders for personal user addresses', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockResolvedValue({
+      routingType: 'user',
+      authorId: 'user-1',
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail({ to: 'u-user-1@colinrodrigues.com' }))
+
+    expect(stages.senderVerifier.verifySender).not.toHaveBeenCalled()
+    expect(stages.leafCreator.createLeafFromEmail).toHaveBeenCalled()
+  })
+
+  it('releases an approved quarantined email under the chosen author', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+    const item = {
+      id: 'quarantine-1',
+      tree_id: 'tree-1',
+      ingestion_id: 'ingestion-7',
+      email_payload: baseEmail(),
+    } as QuarantinedEmail
+
+    const result = await pipeline.releaseQuarantined(item, 'manager-2')
+
+    expect(result).toMatchObject({ success: true, leafId: 'leaf-1', targetTreeId: 'tree-1' })
+    expect(stages.senderVerifier.verifySender).not.toHaveBeenCalled()
+    expect(stages.recordStore.markCompleted).toHaveBeenCalledWith('ingestion-7', 'leaf-1')
+    const [, , context] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(context.recipient.authorId).toBe('manager-2')
+    expect(context.emailId).toBe('ingestion-7')
+  })
+
+  it('strips command tokens from the subject and applies milestone commands', async () => {
+    const stages = createStages()
+    ;(stages.commandResolver.resolveCommands as jest.Mock).mockResolvedValue({
+      subject: 'Look at her go',
+      branchNames: ['Family'],
+      branchIds: ['branch-1'],
+      unmatchedBranchNames: [],
+      milestoneType: 'first_steps',
+      milestoneDate: '2026-10-01',
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail({ subject: 'Look at her go [milestone:first_steps] #branch:Family' }))
+
+    const [routedEmail, processed, context] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(routedEmail.subject).toBe('Look at her go')
+    expect(processed.leafType).toBe('milestone')
+    expect(processed.content).not.toContain('#branch')
+    expect(context.commands.branchIds).toEqual(['branch-1'])
+  })
+
+  it('adds replies to notifications as comments instead of creating a leaf', async () => {
+    const stages = createStages()
+    ;(stages.replyHandler.resolveReply as jest.Mock).mockResolvedValue({
+      notificationId: 'notification-1',
+      leafId: 'leaf-9',
+      authorId: 'grandma-1',
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({
+      to: 'reply+token@colinrodrigues.com',
+      text: 'What a cutie!\n\nOn Sat, Jul 5, 2025 at 9:00 AM Family Tree <noreply@example.com> wrote:\n> New Memory Added',
+    }))
+
+    expect(result).toEqual({ success: true, processed: true, leafId: 'leaf-9', commentId: 'comment-1' })
+    expect(stages.replyHandler.addReplyComment).toHaveBeenCalledWith(
+      expect.objectContaining({ leafId: 'leaf-9' }),
+      'What a cutie!',
+      expect.anything()
+    )
+    expect(stages.recordStore.markCompleted).toHaveBeenCalledWith('ingestion-1', 'leaf-9')
+    expect(stages.recipientResolver.resolveRecipient).not.toHaveBeenCalled()
+    expect(stages.leafCreator.createLeafFromEmail).not.toHaveBeenCalled()
+  })
+
+  it('skips replies with nothing but the quoted notification', async () => {
+    const stages = createStages()
+    ;(stages.replyHandler.resolveReply as jest.Mock).mockResolvedValue({
+      notificationId: 'notification-1',
+      leafId: 'leaf-9',
+      authorId: 'grandma-1',
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({ text: '> New Memory Added' }))
+
+    expect(result).toEqual({ success: true, processed: false, skipReason: 'empty_reply' })
+    expect(stages.replyHandler.addReplyComment).not.toHaveBeenCalled()
+    expect(stages.recordStore.markSkipped).toHaveBeenCalledWith('ingestion-1')
+  })
+
+  it('skips emails without a routable recipient', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockResolvedValue(null)
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({ to: 'hello@colinrodrigues.com' }))
+
+    expect(result).toEqual({ success: true, processed: false, skipReason: 'unknown_recipient' })
+    expect(stages.leafCreator.createLeafFromEmail).not.toHaveBeenCalled()
+    expect(stages.recordStore.markSkipped).toHaveBeenCalledWith('ingestion-1')
+  })
+
+  it('returns the original leaf for duplicate deliveries without re-uploading', async () => {
+    const stages = createStages()
+    ;(stages.recordStore.claim as jest.Mock).mockResolvedValue({
+      status: 'duplicate',
+      record: ingestionRecord({ status: 'completed', leaf_id: 'leaf-original' }),
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({
+      rawAttachments: [{ filename: 'a.jpg', contentType: 'image/jpeg', content: 'YWJj' }],
+    }))
+
+    expect(result).toEqual({ success: true, processed: true, duplicate: true, leafId: 'leaf-original' })
+    expect(stages.recipientResolver.resolveRecipient).not.toHaveBeenCalled()
+    expect(stages.attachmentUploader.uploadEmailAttachments).not.toHaveBeenCalled()
+    expect(stages.leafCreator.createLeafFromEmail).not.toHaveBeenCalled()
+  })
+
+  it('records the error when a stage fails so the email can be retried', async () => {
+    const stages = createStages()
+    ;(stages.leafCreator.createLeafFromEmail as jest.Mock).mockResolvedValue({
+      success: false,
+      error: 'Failed to create leaf in database',
+    })
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await expect(pipeline.ingestEmail(baseEmail())).rejects.toThrow('Failed to create leaf in database')
+    expect(stages.recordStore.markFailed).toHaveBeenCalledWith('ingestion-1', 'Failed to create leaf in database')
+  })
+
+  it('leaves out attachments over the size limit', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+    const huge = 'A'.repeat(Math.ceil(11 * 1024 * 1024 * 4 / 3))
+
+    const result = await pipeline.ingestEmail(baseEmail({
+      rawAttachments: [
+        { filename: 'a.jpg', contentType: 'image/jpeg', content: 'YWJj' },
+        { filename: 'huge.mov', contentType: 'video/quicktime', content: huge },
+      ],
+    }))
+
+    const [uploadedEmail] = (stages.attachmentUploader.uploadEmailAttachments as jest.Mock).mock.calls[0]
+    expect(uploadedEmail.rawAttachments.map((attachment: { filename: string }) => attachment.filename)).toEqual(['a.jpg'])
+    expect(result.oversizedAttachments).toEqual(['huge.mov'])
+  })
+
+  it('rejects an email whose only content is an oversized attachment', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+    const huge = 'A'.repeat(Math.ceil(11 * 1024 * 1024 * 4 / 3))
+
+    await expect(pipeline.ingestEmail(baseEmail({
+      text: '',
+      rawAttachments: [{ filename: 'huge.mov', contentType: 'video/quicktime', content: huge }],
+    }))).rejects.toBeInstanceOf(PayloadTooLargeError)
+    expect(stages.leafCreator.createLeafFromEmail).not.toHaveBeenCalled()
+  })
+
+  it('skips the upload stage when there are no attachments', async () => {
+    const stages = createStages()
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await pipeline.ingestEmail(baseEmail())
+
+    expect(stages.attachmentUploader.uploadEmailAttachments).not.toHaveBeenCalled()
+  })
+
+  it('creates one leaf and shares it with every recipient tree', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockImplementation(resolvePersonTrees)
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({ to: EMMA, recipients: [EMMA, LEO] }))
+
+    expect(stages.leafCreator.createLeafFromEmail).toHaveBeenCalledTimes(1)
+    expect(stages.contentSharer.shareLeaf).toHaveBeenCalledWith({
+      leaf_id: 'leaf-1',
+      primary_tree_id: 'tree-1',
+      shared_tree_ids: ['tree-2'],
+      sharing_reason: 'auto_detected',
+      shared_by: 'grandma-1',
+    }, expect.anything())
+    expect(result).toMatchObject({ targetTreeId: 'tree-1', sharedTreeIds: ['tree-2'] })
+  })
+
+  it('does not share with trees that do not trust the sender', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockImplementation(resolvePersonTrees)
+    ;(stages.senderVerifier.verifySender as jest.Mock).mockImplementation(async (email: IncomingEmail) => (
+      email.to === LEO ? { verified: false } : { verified: true, method: 'allowlist', authorId: 'grandma-1' }
+    ))
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({ to: EMMA, recipients: [LEO] }))
+
+    expect(result.sharedTreeIds).toBeUndefined()
+    expect(stages.contentSharer.shareLeaf).not.toHaveBeenCalled()
+    expect(stages.quarantine.quarantine).not.toHaveBeenCalled()
+  })
+
+  it('routes to a CC\'d tree when the To address is not ours', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockImplementation(resolvePersonTrees)
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    const result = await pipeline.ingestEmail(baseEmail({ to: 'aunt@example.com', recipients: ['aunt@example.com', LEO] }))
+
+    expect(result).toMatchObject({ processed: true, targetTreeId: 'tree-2' })
+    const [routedEmail] = (stages.leafCreator.createLeafFromEmail as jest.Mock).mock.calls[0]
+    expect(routedEmail.to).toBe(LEO)
+  })
+
+  it('propagates resolver errors', async () => {
+    const stages = createStages()
+    ;(stages.recipientResolver.resolveRecipient as jest.Mock).mockRejectedValue(
+      new UserNotFoundError('Person tree not found')
+    )
+    const pipeline = new EmailIngestionPipeline(supabase, stages)
+
+    await expect(pipeline.ingestEmail(baseEmail())).rejects.toBeInstanceOf(UserNotFoundError)
+    expect(stages.recordStore.markFailed).toHaveBeenCalledWith('ingestion-1', 'Person tree not found')
+  })
+
+  it('hashes identical content to the same key', () => {
+    const attachment = { filename: 'a.jpg', contentType: 'image/jpeg', content: 'YWJj' }
+
+    expect(computeEmailContentHash(baseEmail({ rawAttachments: [attachment] })))
+      .toBe(computeEmailContentHash(baseEmail({ from: 'PARENT@example.com ', rawAttachments: [attachment] })))
+    expect(computeEmailContentHash(baseEmail()))
+      .not.toBe(computeEmailContentHash(baseEmail({ rawAttachments: [attachment] })))
+  })
+
+  it('classifies milestone keywords ahead of attachment types', async () => {
+    const processed = await new EmailProcessor().processEmailContent(baseEmail({
+      subject: 'First steps!',
+      attachments: [{ filename: 'v.mp4', contentType: 'video/mp4', size: 1, url: 'https://cdn/v.mp4' }],
+    }))
+
+    expect(processed.leafType).toBe('milestone')
+    expect(processed.tags).toContain('milestone')
+  })
+})
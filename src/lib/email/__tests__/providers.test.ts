@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import { createHmac } from 'crypto'
+import { NextRequest } from 'next/server'
+import {
+  getInboundAdapter,
+  MailgunAdapter,
+  PostmarkAdapter,
+  RawMimeAdapter,
+  RAW_EMAIL_SIGNATURE_HEADER,
+} from '../providers'
+import { AuthenticationError } from '@/lib/errors/webhook-errors'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const rawEmail = readFileSync(path.join(__dirname, 'fixtures', 'photo-email.eml'), 'utf8')
+
+describe('inbound email providers', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('looks up adapters by provider name', () => {
+    expect(getInboundAdapter('mailgun')).toBeInstanceOf(MailgunAdapter)
+    expect(getInboundAdapter('postmark')).toBeInstanceOf(PostmarkAdapter)
+    expect(getInboundAdapter('toString')).toBeNull()
+  })
+
+  describe('RawMimeAdapter', () => {
+    it('replays a raw .eml file into an IncomingEmail', async () => {
+      const email = await new RawMimeAdapter().parseRawMessage(rawEmail)
+
+      expect(email.to).toBe('person-11111111-1111-1111-1111-111111111111@colinrodrigues.com')
+      expect(email.from).toBe('rose@example.com')
+      expect(email.subject).toBe('Park afternoon')
+      expect(email.messageId).toBe('<photo-123@mail.example.com>')
+      expect(email.rawAttachments).toEqual([
+        { filename: 'ducks.png', contentType: 'image/png', content: 'iVBORw0KGgo=' },
+      ])
+    })
+
+    it('rejects uploads with a bad signature', async () => {
+      process.env.RAW_EMAIL_WEBHOOK_SECRET = 'raw-secret'
+      const req = new NextRequest('https://app.test/api/webhooks/inbound/raw', {
+        method: 'POST',
+        headers: { [RAW_EMAIL_SIGNATURE_HEADER]: 'sha256=00' },
+        body: rawEmail,
+      })
+
+      await expect(new RawMimeAdapter().parse(req)).rejects.toBeInstanceOf(AuthenticationError)
+    })
+
+    it('accepts uploads signed with the shared secret', async () => {
+      process.env.RAW_EMAIL_WEBHOOK_SECRET = 'raw-secret'
+      const signature = createHmac('sha256', 'raw-secret').update(rawEmail, 'utf8').digest('hex')
+
+      await expect(
+        new RawMimeAdapter().verifySignature(new Request('https://app.test', {
+          method: 'POST',
+          headers: { [RAW_EMAIL_SIGNATURE_HEADER]: `sha256=${signature}` },
+          body: rawEmail,
+        }))
+      ).resolves.toBe(true)
+    })
+  })
+
+  describe('MailgunAdapter', () => {
+    const signedForm = (key: string, timestamp = String(Math.floor(Date.now() / 1000))) => {
+      const form = new FormData()
+      form.append('timestamp', timestamp)
+      form.append('token', 'abc123')
+      form.append('signature', createHmac('sha256', key).update(timestamp + 'abc123').digest('hex'))
+      return form
+    }
+
+    it('verifies the Mailgun signature', async () => {
+      process.env.MAILGUN_WEBHOOK_SIGNING_KEY = 'mg-key'
+      const adapter = new MailgunAdapter()
+
+      await expect(adapter.verifySignature(
+        new Request('https://app.test', { method: 'POST', body: signedForm('mg-key') })
+      )).resolves.toBe(true)
+      await expect(adapter.verifySignature(
+        new Request('https://app.test', { method: 'POST', body: signedForm('wrong-key') })
+      )).resolves.toBe(false)
+    })
+
+    it('rejects stale timestamps', async () => {
+      process.env.MAILGUN_WEBHOOK_SIGNING_KEY = 'mg-key'
+      const staleTimestamp = String(Math.floor(Date.now() / 1000) - 60 * 60)
+
+      await expect(new MailgunAdapter().verifySignature(
+        new Request('https://app.test', { method: 'POST', body: signedForm('mg-key', staleTimestamp) })
+      )).resolves.toBe(false)
+    })
+  })
+
+  describe('PostmarkAdapter', () => {
+    it('verifies basic auth and maps the JSON payload', async () => {
+      process.env.POSTMARK_INBOUND_USERNAME = 'postmark'
+      process.env.POSTMARK_INBOUND_PASSWORD = 'secret'
+      const req = new NextRequest('https://app.test/api/webhooks/inbound/postmark', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Basic ${Buffer.from('postmark:secret').toString('base64')}`,
+        },
+        body: JSON.stringify({
+          From: 'rose@example.com',
+          To: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+          Cc: 'Leo <person-22222222-2222-2222-2222-222222222222@colinrodrigues.com>, aunt@example.com',
+          Subject: 'Park afternoon',
+          TextBody: 'Feeding the ducks',
+          MessageID: 'postmark-id',
+          Headers: [
+            { Name: 'Message-ID', Value: '<photo-123@mail.example.com>' },
+            { Name: 'Received-SPF', Value: 'Pass (sender SPF authorized) identity=mailfrom' },
+          ],
+          Attachments: [{ Name: 'ducks.png', Content: 'iVBORw0KGgo=', ContentType: 'image/png', ContentLength: 8 }],
+        }),
+      })
+
+      const email = await new PostmarkAdapter().parse(req)
+
+      expect(email.messageId).toBe('<photo-123@mail.example.com>')
+      expect(email.rawAttachments).toHaveLength(1)
+      expect(email.text).toBe('Feeding the ducks')
+      expect(email.authentication).toEqual({ spf: 'pass', dkim: 'none' })
+      expect(email.recipients).toEqual([
+        'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+        'person-22222222-2222-2222-2222-222222222222@colinrodrigues.com',
+        'aunt@example.com',
+      ])
+    })
+  })
+})
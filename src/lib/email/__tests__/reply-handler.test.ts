@@ -0,0 +1,139 @@
+import { EmailReplyHandler } from '../reply-handler'
+import { EmailIngestionContext } from '../ingestion-pipeline'
+import {
+  createReplyToken,
+  verifyReplyToken,
+  buildReplyAddress,
+  buildNotificationMessageId,
+  extractReplyToken,
+} from '../reply-token'
+import { IncomingEmail } from '@/types/email'
+import { createLookupSupabase, type LookupRows } from '@/__tests__/utils/lookup-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const NOTIFICATION_ID = '22222222-2222-2222-2222-222222222222'
+const DIGEST_ID = '33333333-3333-3333-3333-333333333333'
+
+const email = (overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from: 'Grandma <grandma@example.com>',
+  subject: 'Re: New Memory Added',
+  text: 'So sweet',
+  ...overrides,
+})
+
+describe('reply tokens', () => {
+  const originalSecret = process.env.EMAIL_REPLY_TOKEN_SECRET
+
+  beforeEach(() => {
+    process.env.EMAIL_REPLY_TOKEN_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    process.env.EMAIL_REPLY_TOKEN_SECRET = originalSecret
+  })
+
+  it('round-trips notification ids and digest positions', () => {
+    expect(verifyReplyToken(createReplyToken(NOTIFICATION_ID) as string))
+      .toEqual({ notificationId: NOTIFICATION_ID })
+    expect(verifyReplyToken(createReplyToken(DIGEST_ID, 3) as string))
+      .toEqual({ notificationId: DIGEST_ID, memoryIndex: 3 })
+  })
+
+  it('rejects tampered tokens and tokens signed with another secret', () => {
+    const token = createReplyToken(NOTIFICATION_ID) as string
+    expect(verifyReplyToken(token.replace('2222-2222', '2222-3333'))).toBeNull()
+
+    process.env.EMAIL_REPLY_TOKEN_SECRET = 'rotated'
+    expect(verifyReplyToken(token)).toBeNull()
+  })
+
+  it('is disabled without a secret', () => {
+    delete process.env.EMAIL_REPLY_TOKEN_SECRET
+    expect(createReplyToken(NOTIFICATION_ID)).toBeNull()
+  })
+
+  it('keeps reply addresses within the local part length limit', () => {
+    const address = buildReplyAddress(createReplyToken(DIGEST_ID, 9) as string)
+    expect(address.split('@')[0].length).toBeLessThanOrEqual(64)
+  })
+
+  it('finds the token in the reply address or the threading headers', () => {
+    const token = createReplyToken(NOTIFICATION_ID) as string
+
+    expect(extractReplyToken(email({ to: `Family <${buildReplyAddress(token).toUpperCase()}>` }))).toBe(token)
+    expect(extractReplyToken(email({ inReplyTo: buildNotificationMessageId(token) }))).toBe(token)
+    expect(extractReplyToken(email({ references: ['<other@mail.example.com>', buildNotificationMessageId(token)] })))
+      .toBe(token)
+    expect(extractReplyToken(email())).toBeNull()
+  })
+})
+
+describe('EmailReplyHandler', () => {
+  const handler = new EmailReplyHandler()
+  const rows: LookupRows = {
+    notification_queue: [
+      { id: NOTIFICATION_ID, user_id: 'grandma-1', context_type: 'memory', context_id: 'leaf-1', metadata: {} },
+      {
+        id: DIGEST_ID,
+        user_id: 'grandma-1',
+        context_type: null,
+        context_id: null,
+        metadata: { memories: [{ id: 'leaf-2' }, { id: 'leaf-3' }] },
+      },
+    ],
+    profiles: [
+      { id: 'grandma-1', email: 'grandma@example.com' },
+      { id: 'uncle-1', email: 'uncle@example.com' },
+    ],
+  }
+  const context: EmailIngestionContext = { supabase: createLookupSupabase(rows), emailId: 'ingestion-1' }
+
+  beforeEach(() => {
+    process.env.EMAIL_REPLY_TOKEN_SECRET = 'test-secret'
+  })
+
+  it('resolves a reply to the leaf the notification was about', async () => {
+    const token = createReplyToken(NOTIFICATION_ID) as string
+
+    await expect(handler.resolveReply(email({ to: buildReplyAddress(token) }), context)).resolves.toEqual({
+      notificationId: NOTIFICATION_ID,
+      leafId: 'leaf-1',
+      authorId: 'grandma-1',
+    })
+  })
+
+  it('resolves digest replies through the memory position', async () => {
+    const token = createReplyToken(DIGEST_ID, 1) as string
+
+    const target = await handler.resolveReply(email({ to: buildReplyAddress(token) }), context)
+    expect(target?.leafId).toBe('leaf-3')
+  })
+
+  it('ignores a reply to a digest that lists several memories', async () => {
+    const token = createReplyToken(DIGEST_ID) as string
+    await expect(handler.resolveReply(email({ to: buildReplyAddress(token) }), context)).resolves.toBeNull()
+  })
+
+  it('ignores replies from anyone but the notified user', async () => {
+    const token = createReplyToken(NOTIFICATION_ID) as string
+    const forwarded = email({ to: buildReplyAddress(token), from: 'uncle@example.com' })
+
+    await expect(handler.resolveReply(forwarded, context)).resolves.toBeNull()
+  })
+
+  it('ignores replies the provider flagged as forged', async () => {
+    const token = createReplyToken(NOTIFICATION_ID) as string
+    const forged = email({ to: buildReplyAddress(token), authentication: { spf: 'fail', dkim: 'fail' } })
+
+    await expect(handler.resolveReply(forged, context)).resolves.toBeNull()
+  })
+})
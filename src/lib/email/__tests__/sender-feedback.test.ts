@@ -0,0 +1,210 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { SenderFeedback, getFailureReason } from '../sender-feedback'
+import { isAutoGeneratedEmail, parseHeaderBlock, readAuthentication, hasFailedAuthentication } from '../email-headers'
+import { notifications } from '@/lib/notifications/scheduler'
+import { notificationDelivery } from '@/lib/notifications/delivery'
+import { UserNotFoundError, PayloadTooLargeError, EmailProcessingError } from '@/lib/errors/webhook-errors'
+import { IncomingEmail } from '@/types/email'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+jest.mock('@/lib/notifications/scheduler', () => ({
+  notifications: {
+    notifyEmailProcessingSuccess: jest.fn(),
+    notifyEmailProcessingFailed: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/notifications/delivery', () => ({
+  notificationDelivery: {
+    sendEmailToAddress: jest.fn(),
+  },
+}))
+
+// Query builder stub: profiles resolve by email, feedback counts come from recentFeedback
+const createSupabase = (recentFeedback = 0, logged: unknown[] = []) => ({
+  from: (table: string) => {
+    const filters: Record<string, unknown> = {}
+    const builder = {
+      select: () => builder,
+      insert: (row: unknown) => {
+        logged.push({ table, row })
+        return Promise.resolve({ error: null })
+      },
+      eq: (column: string, value: unknown) => {
+        filters[column] = value
+        return builder
+      },
+      gte: () => Promise.resolve({ count: recentFeedback, error: null }),
+      in: (column: string, values: string[]) => table === 'branches'
+        ? Promise.resolve({ data: values.map(id => ({ name: `Branch ${id}` })), error: null })
+        : builder,
+      maybeSingle: async () => ({
+        data: table === 'profiles' && filters.email === 'grandma@example.com' ? { id: 'grandma-1' } : null,
+        error: null,
+      }),
+    }
+    return builder
+  },
+}) as unknown as SupabaseClient
+
+const email = (overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from: 'Grandma <grandma@example.com>',
+  subject: 'Park afternoon',
+  text: 'Swings!',
+  ...overrides,
+})
+
+describe('isAutoGeneratedEmail', () => {
+  it('recognizes auto-replies, lists and bounces', () => {
+    expect(isAutoGeneratedEmail(email({ headers: { 'auto-submitted': 'auto-replied' } }))).toBe(true)
+    expect(isAutoGeneratedEmail(email({ headers: { precedence: 'bulk' } }))).toBe(true)
+    expect(isAutoGeneratedEmail(email({ headers: { 'list-id': '<family.lists.example.com>' } }))).toBe(true)
+    expect(isAutoGeneratedEmail(email({ headers: { 'return-path': '<>' } }))).toBe(true)
+    expect(isAutoGeneratedEmail(email({ from: 'MAILER-DAEMON@example.com' }))).toBe(true)
+    expect(isAutoGeneratedEmail(email({ from: 'no-reply@example.com' }))).toBe(true)
+  })
+
+  it('never answers mail from our own domain', () => {
+    expect(isAutoGeneratedEmail(email({ from: 'notifications@colinrodrigues.com' }))).toBe(true)
+  })
+
+  it('treats ordinary mail as written by a person', () => {
+    expect(isAutoGeneratedEmail(email({ headers: { 'auto-submitted': 'no' } }))).toBe(false)
+    expect(isAutoGeneratedEmail(email({ from: 'noreen@example.com' }))).toBe(false)
+  })
+})
+
+describe('parseHeaderBlock', () => {
+  it('lowercases names and unfolds continuation lines', () => {
+    const headers = parseHeaderBlock('Message-ID: <a@b>\r\nReferences: <1@b>\r\n <2@b>\r\nAuto-Submitted: auto-replied')
+
+    expect(headers).toEqual({
+      'message-id': '<a@b>',
+      references: '<1@b> <2@b>',
+      'auto-submitted': 'auto-replied',
+    })
+  })
+})
+
+describe('readAuthentication', () => {
+  it('reads the fields SendGrid and Mailgun post before any header', () => {
+    const headers = { 'authentication-results': 'mx.example.com; spf=pass; dkim=pass' }
+
+    expect(readAuthentication(headers, { spf: 'softfail', dkim: '{@example.com : fail, @relay.net : pass}' }))
+      .toEqual({ spf: 'fail', dkim: 'pass' })
+    expect(readAuthentication({}, { spf: 'Pass' })).toEqual({ spf: 'pass', dkim: 'none' })
+  })
+
+  it('falls back to the receiving server\'s headers', () => {
+    expect(readAuthentication({
+      'authentication-results': 'mx.example.com; dkim=fail header.d=example.com; dkim=neutral; spf=fail smtp.mailfrom=example.com',
+    })).toEqual({ spf: 'fail', dkim: 'fail' })
+    expect(readAuthentication({ 'x-mailgun-spf': 'Neutral', 'x-mailgun-dkim-check-result': 'Pass' }))
+      .toEqual({ spf: 'none', dkim: 'pass' })
+    expect(readAuthentication({ subject: 'Hello' })).toBeUndefined()
+  })
+
+  it('treats mail as forged only when a check failed and none passed', () => {
+    expect(hasFailedAuthentication(email({ authentication: { spf: 'fail', dkim: 'none' } }))).toBe(true)
+    expect(hasFailedAuthentication(email({ authentication: { spf: 'fail', dkim: 'pass' } }))).toBe(false)
+    expect(hasFailedAuthentication(email({ authentication: { spf: 'none', dkim: 'none' } }))).toBe(false)
+    expect(hasFailedAuthentication(email())).toBe(false)
+  })
+})
+
+describe('getFailureReason', () => {
+  it('explains unknown trees, oversized attachments and unverified senders', () => {
+    expect(getFailureReason(new UserNotFoundError('Person tree not found'))).toBe('unknown_tree')
+    expect(getFailureReason({ success: true, processed: false, skipReason: 'unknown_recipient' })).toBe('unknown_tree')
+    expect(getFailureReason(new PayloadTooLargeError())).toBe('attachment_too_large')
+    expect(getFailureReason({ success: true, processed: true, quarantined: true })).toBe('sender_not_allowed')
+  })
+
+  it('stays quiet for retries, server errors and duplicates', () => {
+    expect(getFailureReason(new EmailProcessingError())).toBeNull()
+    expect(getFailureReason({ success: true, processed: true, duplicate: true, quarantined: true })).toBeNull()
+    expect(getFailureReason({ success: true, processed: false, skipReason: 'empty_reply' })).toBeNull()
+  })
+})
+
+describe('SenderFeedback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('confirms a new leaf with its branches and a link to the tree', async () => {
+    const feedback = new SenderFeedback(createSupabase())
+
+    await feedback.confirm(email(), {
+      success: true,
+      processed: true,
+      leafId: 'leaf-1',
+      targetTreeId: 'tree-1',
+      assignedBranchIds: ['b1'],
+      oversizedAttachments: ['huge.mov'],
+    })
+
+    expect(notifications.notifyEmailProcessingSuccess).toHaveBeenCalledWith({
+      userId: 'grandma-1',
+      emailSubject: 'Park afternoon',
+      memoryId: 'leaf-1',
+      memoryTitle: 'Park afternoon',
+      treeId: 'tree-1',
+      branchNames: ['Branch b1'],
+      oversizedAttachments: ['huge.mov'],
+    })
+  })
+
+  it('does not answer automated mail, forged senders or senders without an account', async () => {
+    const feedback = new SenderFeedback(createSupabase())
+
+    await feedback.explainFailure(email({ headers: { 'auto-submitted': 'auto-replied' } }), 'unknown_tree')
+    await feedback.explainFailure(email({ from: 'stranger@example.com' }), 'unknown_tree')
+    await feedback.explainFailure(email({ from: 'stranger@example.com', headers: { precedence: 'bulk' } }), 'sender_not_allowed')
+    await feedback.explainFailure(email({ authentication: { spf: 'fail', dkim: 'fail' } }), 'sender_not_allowed')
+
+    expect(notifications.notifyEmailProcessingFailed).not.toHaveBeenCalled()
+    expect(notificationDelivery.sendEmailToAddress).not.toHaveBeenCalled()
+  })
+
+  it('emails senders without an account that their mail is held for review', async () => {
+    const logged: unknown[] = []
+    await new SenderFeedback(createSupabase(0, logged)).explainFailure(
+      email({ from: 'Cousin Sam <Sam@Example.com>' }),
+      'sender_not_allowed'
+    )
+
+    expect(notificationDelivery.sendEmailToAddress).toHaveBeenCalledWith(
+      'sam@example.com',
+      'Email Not Posted Yet: Park afternoon',
+      expect.stringContaining('allowed senders')
+    )
+    expect(logged).toEqual([
+      { table: 'sender_feedback_log', row: { address: 'sam@example.com', reason: 'sender_not_allowed' } },
+    ])
+    expect(notifications.notifyEmailProcessingFailed).not.toHaveBeenCalled()
+  })
+
+  it('stops sending once the hourly limit is reached', async () => {
+    await new SenderFeedback(createSupabase(10)).explainFailure(email(), 'sender_not_allowed')
+    expect(notifications.notifyEmailProcessingFailed).not.toHaveBeenCalled()
+
+    await new SenderFeedback(createSupabase(0)).explainFailure(email(), 'sender_not_allowed')
+    expect(notifications.notifyEmailProcessingFailed).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'grandma-1',
+      errorMessage: expect.stringContaining('allowed senders'),
+    }))
+
+    await new SenderFeedback(createSupabase(10)).explainFailure(email({ from: 'stranger@example.com' }), 'sender_not_allowed')
+    expect(notificationDelivery.sendEmailToAddress).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,82 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { SenderVerifier } from '../sender-verifier'
+import { EmailIngestionContext } from '../ingestion-pipeline'
+import { IncomingEmail } from '@/types/email'
+import { createLookupSupabase, type LookupRows } from '@/__tests__/utils/lookup-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const email = (from: string): IncomingEmail => ({
+  to: 'person-11111111-1111-1111-1111-111111111111@colinrodrigues.com',
+  from,
+  subject: 'Hello',
+  text: 'Hi Emma',
+})
+
+const context = (supabase: SupabaseClient): EmailIngestionContext => ({
+  supabase,
+  emailId: 'ingestion-1',
+  recipient: {
+    routingType: 'person',
+    authorId: 'manager-1',
+    treeId: 'tree-1',
+    managerIds: ['manager-1', 'manager-2'],
+  },
+})
+
+describe('SenderVerifier', () => {
+  const rows: LookupRows = {
+    tree_verified_senders: [
+      { tree_id: 'tree-1', email_address: 'grandma@example.com', profile_id: 'grandma-1', is_active: true },
+      { tree_id: 'tree-1', email_address: 'uncle@example.com', profile_id: null, is_active: true },
+      { tree_id: 'tree-1', email_address: 'old@example.com', profile_id: null, is_active: false },
+    ],
+    profiles: [
+      { id: 'manager-2', email: 'dad@example.com' },
+      { id: 'stranger-1', email: 'stranger@example.com' },
+    ],
+  }
+  const supabase = createLookupSupabase(rows)
+  const verifier = new SenderVerifier()
+
+  it('credits allowlisted senders to their linked profile', async () => {
+    const result = await verifier.verifySender(email('"Grandma" <Grandma@Example.com>'), context(supabase))
+
+    expect(result).toEqual({ verified: true, method: 'allowlist', authorId: 'grandma-1' })
+  })
+
+  it('falls back to the tree manager for allowlisted senders without a profile', async () => {
+    const result = await verifier.verifySender(email('uncle@example.com'), context(supabase))
+
+    expect(result).toEqual({ verified: true, method: 'allowlist', authorId: 'manager-1' })
+  })
+
+  it('trusts the tree managers themselves', async () => {
+    const result = await verifier.verifySender(email('dad@example.com'), context(supabase))
+
+    expect(result).toEqual({ verified: true, method: 'manager', authorId: 'manager-2' })
+  })
+
+  it('does not trust a listed address when the provider says it was forged', async () => {
+    const forged = {
+      ...email('grandma@example.com'),
+      authentication: { spf: 'fail' as const, dkim: 'none' as const },
+    }
+
+    await expect(verifier.verifySender(forged, context(supabase))).resolves.toEqual({ verified: false })
+  })
+
+  it('rejects unknown and deactivated senders', async () => {
+    await expect(verifier.verifySender(email('stranger@example.com'), context(supabase)))
+      .resolves.toEqual({ verified: false })
+    await expect(verifier.verifySender(email('old@example.com'), context(supabase)))
+      .resolves.toEqual({ verified: false })
+  })
+})
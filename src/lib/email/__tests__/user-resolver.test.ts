@@ -0,0 +1,92 @@
+import { UserResolver } from '../user-resolver'
+import { getAliasValidationError } from '../email-alias'
+import { ValidationError } from '@/lib/errors/webhook-errors'
+import { IncomingEmail } from '@/types/email'
+import { createLookupSupabase } from '@/__tests__/utils/lookup-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    debug: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+const TREE_ID = '11111111-1111-1111-1111-111111111111'
+const OTHER_TREE_ID = '22222222-2222-2222-2222-222222222222'
+
+const email = (to: string): IncomingEmail => ({
+  to,
+  from: 'grandma@example.com',
+  subject: 'Hello',
+  text: 'Hi',
+})
+
+describe('UserResolver', () => {
+  const supabase = createLookupSupabase({
+    tree_email_addresses: [
+      { email_address: 'emma.smith@colinrodrigues.com', tree_id: TREE_ID, is_active: true },
+      { email_address: 'baby.emma@colinrodrigues.com', tree_id: TREE_ID, is_active: false },
+    ],
+    trees: [
+      { id: TREE_ID, person_name: 'Emma', managed_by: ['manager-1'], created_by: 'manager-1' },
+      { id: OTHER_TREE_ID, person_name: 'Leo', managed_by: [], created_by: 'creator-2' },
+    ],
+    profiles: [{ id: 'user-1' }],
+  })
+  const context = { supabase, emailId: 'ingestion-1' }
+  const resolver = new UserResolver()
+
+  it('resolves an alias through tree_email_addresses', async () => {
+    await expect(resolver.resolveRecipient(email('"Emma" <Emma.Smith@colinrodrigues.com>'), context))
+      .resolves.toMatchObject({ routingType: 'person', treeId: TREE_ID, authorId: 'manager-1', personName: 'Emma' })
+  })
+
+  it('ignores plus tags when routing', async () => {
+    await expect(resolver.resolveRecipient(email('emma.smith+vacations@colinrodrigues.com'), context))
+      .resolves.toMatchObject({ routingType: 'person', treeId: TREE_ID })
+  })
+
+  it('ignores deactivated aliases', async () => {
+    await expect(resolver.resolveRecipient(email('baby.emma@colinrodrigues.com'), context)).resolves.toBeNull()
+  })
+
+  it('still parses generated person addresses without a stored row', async () => {
+    await expect(resolver.resolveRecipient(email(`person-${OTHER_TREE_ID}@colinrodrigues.com`), context))
+      .resolves.toMatchObject({ treeId: OTHER_TREE_ID, authorId: 'creator-2', managerIds: ['creator-2'] })
+  })
+
+  it('rejects malformed person addresses', async () => {
+    await expect(resolver.resolveRecipient(email('person-nope@colinrodrigues.com'), context))
+      .rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('resolves user addresses and skips unknown ones', async () => {
+    await expect(resolver.resolveRecipient(email('u-user-1@colinrodrigues.com'), context))
+      .resolves.toEqual({ routingType: 'user', authorId: 'user-1' })
+    await expect(resolver.resolveRecipient(email('someone@colinrodrigues.com'), context)).resolves.toBeNull()
+  })
+})
+
+describe('getAliasValidationError', () => {
+  it('accepts readable aliases', () => {
+    expect(getAliasValidationError('emma.smith')).toBeNull()
+    expect(getAliasValidationError('leo_2024')).toBeNull()
+  })
+
+  it('rejects reserved words and legacy address forms', () => {
+    expect(getAliasValidationError('postmaster')).toBe('This alias is reserved')
+    expect(getAliasValidationError('u-emma')).toBe('This alias is reserved')
+    expect(getAliasValidationError('person-emma')).toBe('This alias is reserved')
+    expect(getAliasValidationError('username')).toBe('This alias is reserved')
+    expect(getAliasValidationError(TREE_ID)).toBe('This alias is reserved')
+  })
+
+  it('rejects badly formed aliases', () => {
+    expect(getAliasValidationError('em')).toMatch(/between/)
+    expect(getAliasValidationError('emma..smith')).toMatch(/only contain/)
+    expect(getAliasValidationError('emma+smith')).toMatch(/only contain/)
+    expect(getAliasValidationError('.emma')).toMatch(/only contain/)
+  })
+})
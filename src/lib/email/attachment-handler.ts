@@ -4,14 +4,55 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
-import { EmailAttachment } from '@/types/email'
+import { EmailAttachment, IncomingEmail } from '@/types/email'
 import { createComponentLogger } from '@/lib/logger'
+import type { AttachmentUploadStage, EmailIngestionContext } from './ingestion-pipeline'
 
 const logger = createComponentLogger('AttachmentHandler')
 
-export class AttachmentHandler {
+/**
+ * Size in bytes of base64 content once decoded, without decoding it
+ */
+export function getBase64DecodedSize(base64Content: string): number {
+  const content = base64Content.replace(/\s/g, '')
+  const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0
+  return Math.floor(content.length * 3 / 4) - padding
+}
+
+export class AttachmentHandler implements AttachmentUploadStage {
   constructor(private supabase: SupabaseClient) {}
 
+  async uploadEmailAttachments(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<EmailAttachment[]> {
+    const rawAttachments = email.rawAttachments || []
+    if (rawAttachments.length === 0 || !context.recipient) {
+      return []
+    }
+
+    const uploaded = await this.uploadMultipleBase64Attachments(
+      rawAttachments.map(attachment => ({
+        content: attachment.content,
+        filename: attachment.filename,
+        type: attachment.contentType
+      })),
+      context.recipient.authorId,
+      context.emailId
+    )
+
+    logger.info('Attachment upload results', {
+      metadata: {
+        requested: rawAttachments.length,
+        uploaded: uploaded.length,
+        failed: rawAttachments.length - uploaded.length,
+        emailId: context.emailId
+      }
+    })
+
+    return uploaded
+  }
+
   async uploadAttachment(
     file: File, 
     userId: string,
@@ -0,0 +1,212 @@
+/**
+ * Email Content Converter
+ * Reduces an email body to the text a family member actually wrote:
+ * HTML becomes plain text, and quoted replies, signatures and mobile
+ * footers are removed. Inline `cid:` images in the body are promoted to
+ * the front of the media list; images that only appear in a signature are dropped.
+ */
+
+import { convert, DomNode, FormatCallback, HtmlToTextOptions } from 'html-to-text'
+import { IncomingEmail, RawEmailAttachment } from '@/types/email'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { sanitizeUserContent } from '@/lib/validation/sanitization'
+import type { ContentConversionStage } from './ingestion-pipeline'
+
+// Quoted replies in Gmail, Apple Mail, Thunderbird and Yahoo
+const QUOTE_SELECTORS = ['blockquote', '.gmail_attr', '.moz-cite-prefix', '.yahoo_quoted', '#divRplyFwdMsg']
+
+const SIGNATURE_SELECTORS = [
+  '.gmail_signature',
+  '[data-smartmail=gmail_signature]',
+  '.moz-signature',
+  '#Signature',
+  '#AppleMailSignature'
+]
+
+// Everything after one of these lines is an earlier message in the thread
+const REPLY_BOUNDARIES = [
+  /^On .+wrote:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+  /^-- ?$/ // RFC 3676 signature delimiter
+]
+
+const FORWARD_MARKER = /^-{2,}\s*Forwarded message\s*-{2,}$|^Begin forwarded message:$/i
+const FORWARD_HEADER = /^(From|Date|Sent|Subject|To|Cc|Reply-To):/i
+
+// Only removed from the last line, so a sentence that happens to match stays
+const MOBILE_FOOTERS = [
+  /^Sent from my [\w\s]+$/i,
+  /^Sent from (Yahoo )?Mail( for \w+)?$/i,
+  /^Sent from Outlook( for \w+)?$/i,
+  /^Get Outlook for (iOS|Android)$/i,
+  /^Sent via Superhuman( for \w+| iOS)?$/i,
+  /^Sent via the Samsung Galaxy .+$/i,
+  /^Sent via BlackBerry\b.*$/i
+]
+
+export interface ConvertedHtml {
+  text: string
+  contentIds: string[] // cid: images referenced in the kept body, in order
+  signatureContentIds: string[] // cid: images only found inside signatures
+}
+
+/**
+ * Strip angle brackets and a `cid:` prefix so ids from headers and src attributes compare equal
+ */
+export function normalizeContentId(contentId: string): string {
+  return contentId.trim().replace(/^cid:/i, '').replace(/^<|>$/g, '').toLowerCase()
+}
+
+function collectContentIds(node: DomNode, into: string[]): void {
+  const src: unknown = node.attribs?.src
+  if (node.name === 'img' && typeof src === 'string' && /^cid:/i.test(src)) {
+    into.push(normalizeContentId(src))
+  }
+  for (const child of node.children || []) {
+    collectContentIds(child, into)
+  }
+}
+
+/**
+ * Convert an HTML body to plain text, recording which inline images it shows
+ */
+export function convertHtmlToText(html: string): ConvertedHtml {
+  const contentIds: string[] = []
+  const signatureContentIds: string[] = []
+
+  const inlineImage: FormatCallback = (elem) => {
+    collectContentIds(elem, contentIds)
+  }
+  const signature: FormatCallback = (elem) => {
+    collectContentIds(elem, signatureContentIds)
+  }
+
+  const options: HtmlToTextOptions = {
+    wordwrap: false,
+    formatters: { inlineImage, signature },
+    selectors: [
+      { selector: 'img', format: 'inlineImage' },
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(selector => ({
+        selector,
+        options: { uppercase: false }
+      })),
+      { selector: 'table', format: 'dataTable', options: { uppercaseHeaderCells: false } },
+      ...QUOTE_SELECTORS.map(selector => ({ selector, format: 'skip' })),
+      ...SIGNATURE_SELECTORS.map(selector => ({ selector, format: 'signature' }))
+    ]
+  }
+
+  const text = convert(html, options)
+
+  return {
+    text,
+    contentIds: [...new Set(contentIds)],
+    signatureContentIds: [...new Set(signatureContentIds)].filter(id => !contentIds.includes(id))
+  }
+}
+
+/**
+ * Remove quoted replies, forwarded-message headers, signatures and
+ * "Sent from my iPhone" style footers from plain text
+ */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const kept: string[] = []
+  let inForwardHeader = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    // "On Mon, Jan 1, 2024 at 9:00 AM Grandma <g@example.com>" is often wrapped before "wrote:"
+    const withNext = `${line} ${(lines[i + 1] || '').trim()}`
+    if (REPLY_BOUNDARIES.some(pattern => pattern.test(line) || (/^On /i.test(line) && pattern.test(withNext)))) {
+      break
+    }
+
+    // Outlook reply headers have no separator line: "From: …" followed by "Sent: …"
+    if (/^From:/i.test(line) && !inForwardHeader && /^(Sent|Date):/i.test((lines[i + 1] || '').trim())) {
+      break
+    }
+
+    if (FORWARD_MARKER.test(line)) {
+      inForwardHeader = true
+      continue
+    }
+
+    if (inForwardHeader) {
+      if (FORWARD_HEADER.test(line)) {
+        continue
+      }
+      inForwardHeader = false
+      if (line === '') {
+        continue
+      }
+    }
+
+    if (line.startsWith('>')) {
+      continue
+    }
+
+    kept.push(lines[i].trimEnd())
+  }
+
+  while (kept.length > 0 && kept[kept.length - 1].trim() === '') {
+    kept.pop()
+  }
+  const lastLine = kept[kept.length - 1]?.trim() || ''
+  if (MOBILE_FOOTERS.some(pattern => pattern.test(lastLine))) {
+    kept.pop()
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+export class EmailContentConverter implements ContentConversionStage {
+  convert(email: IncomingEmail): IncomingEmail {
+    const converted = email.html
+      ? convertHtmlToText(email.html)
+      : { text: email.text || '', contentIds: [], signatureContentIds: [] }
+
+    // Some senders put an empty shell in the HTML part next to a real text part
+    const body = stripQuotedText(converted.text) || stripQuotedText(email.text || '')
+
+    // Leaf content is rendered as text, so HTML escaping would show up literally
+    const text = sanitizeUserContent(body, {
+      maxLength: WEBHOOK_CONFIG.LIMITS.MAX_CONTENT_LENGTH,
+      preserveFormatting: true,
+      escapeHtml: false
+    })
+
+    return {
+      ...email,
+      text,
+      rawAttachments: this.orderAttachments(email.rawAttachments, converted)
+    }
+  }
+
+  private orderAttachments(
+    attachments: RawEmailAttachment[] | undefined,
+    converted: ConvertedHtml
+  ): RawEmailAttachment[] | undefined {
+    if (!attachments) {
+      return attachments
+    }
+
+    const contentIdOf = (attachment: RawEmailAttachment) =>
+      attachment.contentId ? normalizeContentId(attachment.contentId) : undefined
+
+    const inline = converted.contentIds
+      .map(contentId => attachments.find(attachment => contentIdOf(attachment) === contentId))
+      .filter((attachment): attachment is RawEmailAttachment => !!attachment)
+
+    const rest = attachments.filter(attachment => {
+      const contentId = contentIdOf(attachment)
+      return !inline.includes(attachment) &&
+        !(contentId && converted.signatureContentIds.includes(contentId))
+    })
+
+    return [...inline, ...rest]
+  }
+}
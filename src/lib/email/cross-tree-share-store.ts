@@ -0,0 +1,50 @@
+/**
+ * Cross-Tree Share Store
+ * Records that one emailed leaf belongs to several person trees. The leaf
+ * and its media are stored once; the other trees only reference it.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { CrossTreeContentShare } from '@/types/database'
+import { createComponentLogger } from '@/lib/logger'
+import type { ContentSharingStage, EmailIngestionContext } from './ingestion-pipeline'
+
+const logger = createComponentLogger('CrossTreeShareStore')
+
+export class CrossTreeShareStore implements ContentSharingStage {
+  constructor(private supabase: SupabaseClient) {}
+
+  async shareLeaf(
+    share: Omit<CrossTreeContentShare, 'shared_at'>,
+    context: EmailIngestionContext
+  ): Promise<CrossTreeContentShare | null> {
+    const { data, error } = await this.supabase
+      .from('cross_tree_content_shares')
+      .upsert({ ...share, shared_at: new Date().toISOString() }, { onConflict: 'leaf_id' })
+      .select('leaf_id, primary_tree_id, shared_tree_ids, sharing_reason, shared_by, shared_at')
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to share leaf across trees', error, {
+        metadata: {
+          emailId: context.emailId,
+          leafId: share.leaf_id,
+          primaryTreeId: share.primary_tree_id,
+          sharedTreeIds: share.shared_tree_ids
+        }
+      })
+      return null
+    }
+
+    logger.info('Leaf shared across trees', {
+      metadata: {
+        emailId: context.emailId,
+        leafId: share.leaf_id,
+        primaryTreeId: share.primary_tree_id,
+        sharedTreeCount: share.shared_tree_ids.length
+      }
+    })
+
+    return data as CrossTreeContentShare
+  }
+}
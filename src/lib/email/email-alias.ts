@@ -0,0 +1,37 @@
+/**
+ * Email Alias Rules
+ * Validation for the readable addresses tree managers can claim
+ */
+
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+
+const { ALIASES, PATTERNS, EMAIL } = WEBHOOK_CONFIG
+
+/**
+ * Return why an alias cannot be claimed, or null when it is acceptable.
+ * Expects a trimmed, lowercase local part.
+ */
+export function getAliasValidationError(alias: string): string | null {
+  if (alias.length < ALIASES.MIN_LENGTH || alias.length > ALIASES.MAX_LENGTH) {
+    return `Alias must be between ${ALIASES.MIN_LENGTH} and ${ALIASES.MAX_LENGTH} characters`
+  }
+
+  if (!PATTERNS.EMAIL_ALIAS.test(alias)) {
+    return 'Alias can only contain letters, numbers and single dots, dashes or underscores between them'
+  }
+
+  if ((ALIASES.RESERVED_WORDS as readonly string[]).includes(alias)) {
+    return 'This alias is reserved'
+  }
+
+  // These would be parsed as generated user or person addresses
+  if (ALIASES.RESERVED_PREFIXES.some(prefix => alias.startsWith(prefix)) || PATTERNS.UUID.test(alias)) {
+    return 'This alias is reserved'
+  }
+
+  return null
+}
+
+export function buildAliasAddress(alias: string): string {
+  return `${alias}@${EMAIL.ALLOWED_DOMAINS[0]}`
+}
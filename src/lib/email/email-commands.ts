@@ -0,0 +1,192 @@
+/**
+ * Email Commands
+ * Reads routing instructions from plus-addressing and subject tokens, e.g.
+ * person-x+vacations@… or "First steps [milestone:first_steps] #branch:Family"
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { IncomingEmail, EmailCommands, ResolvedEmailCommands, ResolvedEmailRecipient } from '@/types/email'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { createComponentLogger } from '@/lib/logger'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+import { splitPlusAddress } from './user-resolver'
+import type { CommandResolutionStage, EmailIngestionContext } from './ingestion-pipeline'
+
+const logger = createComponentLogger('EmailCommands')
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+interface BranchOption {
+  id: string
+  name: string
+}
+
+/**
+ * Lowercase and collapse everything but letters and digits, so that
+ * `summer-trip`, `Summer Trip` and `summer_trip` all compare equal
+ */
+export function slugifyBranchName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function isValidIsoDate(value: string): boolean {
+  return ISO_DATE.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
+
+/**
+ * Extract commands from the recipient address and subject without touching the database
+ */
+export function parseEmailCommands(email: IncomingEmail): EmailCommands {
+  const branchNames = [...splitPlusAddress(email.to).tags]
+  let milestoneType: string | undefined
+  let milestoneDate: string | undefined
+
+  const applyToken = (_match: string, key: string, value: string) => {
+    switch (key.toLowerCase()) {
+      case 'branch':
+        branchNames.push(value.trim())
+        break
+      case 'milestone':
+        milestoneType = value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+        break
+      case 'date':
+        if (isValidIsoDate(value.trim())) {
+          milestoneDate = value.trim()
+        }
+        break
+    }
+    return ' '
+  }
+
+  const subject = (email.subject || '')
+    .replace(WEBHOOK_CONFIG.PATTERNS.EMAIL_COMMAND_BRACKET, applyToken)
+    .replace(WEBHOOK_CONFIG.PATTERNS.EMAIL_COMMAND_HASHTAG, applyToken)
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+
+  const uniqueBranchNames = branchNames.filter((name, index) =>
+    name && branchNames.findIndex(other => slugifyBranchName(other) === slugifyBranchName(name)) === index
+  )
+
+  return {
+    subject,
+    branchNames: uniqueBranchNames,
+    ...(milestoneType && { milestoneType }),
+    ...(milestoneDate && { milestoneDate })
+  }
+}
+
+export class EmailCommandResolver implements CommandResolutionStage {
+  async resolveCommands(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<ResolvedEmailCommands> {
+    const commands = parseEmailCommands(email)
+    const resolved: ResolvedEmailCommands = {
+      ...commands,
+      branchIds: [],
+      unmatchedBranchNames: []
+    }
+
+    if (commands.branchNames.length > 0) {
+      const branches = await this.getCandidateBranches(context)
+
+      for (const name of commands.branchNames) {
+        const branch = branches.find(option => slugifyBranchName(option.name) === slugifyBranchName(name))
+        if (branch) {
+          resolved.branchIds.push(branch.id)
+        } else {
+          resolved.unmatchedBranchNames.push(name)
+        }
+      }
+    }
+
+    if (commands.milestoneType && !(await this.isKnownMilestone(commands.milestoneType, context.supabase))) {
+      logger.warn('Ignoring unknown milestone type in email', {
+        metadata: { emailId: context.emailId, milestoneType: commands.milestoneType }
+      })
+      delete resolved.milestoneType
+    }
+
+    if (resolved.milestoneType && !resolved.milestoneDate) {
+      // Default to the day the email was sent
+      const sentAt = email.timestamp ? new Date(email.timestamp) : new Date()
+      resolved.milestoneDate = (Number.isNaN(sentAt.getTime()) ? new Date() : sentAt)
+        .toISOString()
+        .slice(0, 10)
+    }
+
+    if (resolved.unmatchedBranchNames.length > 0) {
+      logger.warn('Email referenced branches that could not be found', {
+        metadata: { emailId: context.emailId, branchNames: resolved.unmatchedBranchNames }
+      })
+    }
+
+    return resolved
+  }
+
+  /**
+   * Branches a leaf may be routed to: those of the person tree, including
+   * shared ones, or the author's own branches for user addresses. Either way
+   * only branches the sender may post in.
+   */
+  private async getCandidateBranches(context: EmailIngestionContext): Promise<BranchOption[]> {
+    const recipient = context.recipient
+    if (!recipient) {
+      return []
+    }
+
+    const branches = await this.getRecipientBranches(recipient, context.supabase)
+    const rbac = createServerRBAC(context.supabase)
+    const permissions = await Promise.all(
+      branches.map(branch => rbac.getBranchPermissions(recipient.authorId, branch.id))
+    )
+
+    return branches.filter((_, index) => permissions[index].canCreatePosts)
+  }
+
+  private async getRecipientBranches(
+    recipient: ResolvedEmailRecipient,
+    supabase: SupabaseClient
+  ): Promise<BranchOption[]> {
+    if (recipient.routingType === 'person' && recipient.treeId) {
+      const [owned, connected] = await Promise.all([
+        supabase
+          .from('branches')
+          .select('id, name')
+          .eq('tree_id', recipient.treeId),
+        supabase
+          .from('tree_branch_connections')
+          .select('branches(id, name)')
+          .eq('tree_id', recipient.treeId)
+      ])
+
+      return [
+        ...((owned.data || []) as BranchOption[]),
+        ...((connected.data || []) as unknown as Array<{ branches: BranchOption | null }>)
+          .map(connection => connection.branches)
+          .filter((branch): branch is BranchOption => !!branch)
+      ]
+    }
+
+    const { data: memberships } = await supabase
+      .from('branch_members')
+      .select('branches(id, name)')
+      .eq('user_id', recipient.authorId)
+      .eq('status', 'active')
+
+    return ((memberships || []) as unknown as Array<{ branches: BranchOption | null }>)
+      .map(membership => membership.branches)
+      .filter((branch): branch is BranchOption => !!branch)
+  }
+
+  private async isKnownMilestone(name: string, supabase: SupabaseClient): Promise<boolean> {
+    const { data } = await supabase
+      .from('milestones')
+      .select('name')
+      .eq('name', name)
+      .maybeSingle()
+
+    return !!data
+  }
+}
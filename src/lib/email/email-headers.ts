@@ -0,0 +1,158 @@
+/**
+ * Email Headers
+ * Normalizes the header formats providers deliver into a lowercase
+ * name → value map, reads the provider's SPF and DKIM results, and detects
+ * mail sent by machines rather than people
+ */
+
+import { IncomingEmail, EmailAuthentication, EmailAuthVerdict } from '@/types/email'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { normalizeEmailAddress } from './user-resolver'
+
+export type EmailHeaders = Record<string, string>
+
+// Mailboxes that only ever send bounces and automated notices
+const AUTOMATED_SENDERS = /^(mailer-daemon|postmaster|no-?reply|do-?not-?reply|bounces?)([+@.-]|$)/i
+
+/**
+ * Build a header map from name/value pairs. The first occurrence of a header wins.
+ */
+export function headersFromPairs(pairs: Array<[string, string]>): EmailHeaders {
+  const headers: EmailHeaders = {}
+  for (const [name, value] of pairs) {
+    const key = name.trim().toLowerCase()
+    if (key && !(key in headers)) {
+      headers[key] = String(value).replace(/\s+/g, ' ').trim()
+    }
+  }
+  return headers
+}
+
+/**
+ * Parse a raw header block, unfolding continuation lines
+ */
+export function parseHeaderBlock(block: string | null | undefined): EmailHeaders {
+  if (!block) {
+    return {}
+  }
+
+  const pairs: Array<[string, string]> = []
+  for (const line of block.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^[ \t]/.test(line) && pairs.length > 0) {
+      pairs[pairs.length - 1][1] += ` ${line.trim()}`
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      pairs.push([line.slice(0, separator), line.slice(separator + 1)])
+    }
+  }
+
+  return headersFromPairs(pairs)
+}
+
+/**
+ * Pull every address out of To/CC style header values, lowercased and deduplicated
+ */
+export function extractAddresses(...values: Array<string | null | undefined>): string[] {
+  const addresses = values
+    .flatMap(value => (value || '').match(/[^\s<>,;:"']+@[^\s<>,;:"']+/g) || [])
+    .map(address => address.toLowerCase())
+  return [...new Set(addresses)]
+}
+
+/**
+ * Split a References header into individual message IDs
+ */
+export function splitMessageIds(value: string | undefined): string[] | undefined {
+  return value ? value.split(/\s+/).filter(Boolean) : undefined
+}
+
+/**
+ * SPF and DKIM results for an email. Results the provider posts as separate
+ * fields are preferred; otherwise they are read from the headers the
+ * receiving server added. Only the first Authentication-Results header is
+ * read, since the ones below it may have been written by the sender.
+ */
+export function readAuthentication(
+  headers: EmailHeaders,
+  reported: { spf?: string | null; dkim?: string | null } = {}
+): EmailAuthentication | undefined {
+  const results = headers['authentication-results'] || ''
+  const resultsFor = (method: string) =>
+    nonEmpty([...results.matchAll(new RegExp(`\\b${method}=(\\w+)`, 'gi'))].map(match => match[1]))
+
+  const spf = firstResult(reported.spf) ||
+    resultsFor('spf') ||
+    firstResult(headers['received-spf']) ||
+    firstResult(headers['x-mailgun-spf'])
+  // SendGrid lists one result per signing domain, e.g. "{@example.com : pass}"
+  const dkim = nonEmpty([...(reported.dkim || '').matchAll(/(?:^|:\s*)(\w+)/g)].map(match => match[1])) ||
+    resultsFor('dkim') ||
+    firstResult(headers['x-mailgun-dkim-check-result'])
+
+  if (!spf && !dkim) {
+    return undefined
+  }
+
+  return { spf: toVerdict(spf), dkim: toVerdict(dkim) }
+}
+
+/**
+ * True when the provider reported a failed SPF or DKIM check and nothing
+ * passed, i.e. the From address is likely forged. Forwarded mail often
+ * fails SPF but keeps a valid DKIM signature, so one pass is enough.
+ */
+export function hasFailedAuthentication(email: IncomingEmail): boolean {
+  const authentication = email.authentication
+  if (!authentication || authentication.spf === 'pass' || authentication.dkim === 'pass') {
+    return false
+  }
+  return authentication.spf === 'fail' || authentication.dkim === 'fail'
+}
+
+function nonEmpty(results: string[]): string[] | null {
+  return results.length > 0 ? results : null
+}
+
+function firstResult(value: string | null | undefined): string[] | null {
+  const result = value?.trim().match(/^\w+/)?.[0]
+  return result ? [result] : null
+}
+
+function toVerdict(results: string[] | null): EmailAuthVerdict {
+  const verdicts = (results || []).map(result => result.toLowerCase())
+  if (verdicts.includes('pass')) {
+    return 'pass'
+  }
+  return verdicts.some(verdict => ['fail', 'softfail', 'hardfail'].includes(verdict)) ? 'fail' : 'none'
+}
+
+/**
+ * True for auto-replies, bounces, mailing lists and our own outgoing mail,
+ * none of which should ever be answered automatically (RFC 3834)
+ */
+export function isAutoGeneratedEmail(email: IncomingEmail): boolean {
+  const headers = email.headers || {}
+  const autoSubmitted = headers['auto-submitted']?.toLowerCase()
+  const precedence = headers['precedence']?.toLowerCase()
+
+  if (autoSubmitted && autoSubmitted !== 'no') {
+    return true
+  }
+  if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) {
+    return true
+  }
+  if (headers['x-autoreply'] || headers['x-autorespond'] || headers['list-id'] || headers['list-unsubscribe']) {
+    return true
+  }
+  if (headers['return-path']?.trim() === '<>') {
+    return true
+  }
+
+  const sender = normalizeEmailAddress(email.from)
+  const [localPart, domain] = sender.split('@')
+  return AUTOMATED_SENDERS.test(localPart || '') ||
+    (WEBHOOK_CONFIG.EMAIL.ALLOWED_DOMAINS as readonly string[]).includes(domain)
+}
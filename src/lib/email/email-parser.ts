@@ -1,43 +1,124 @@
 /**
  * Email Parser Service
- * Handles parsing different email formats (SendGrid, JSON, etc.)
+ * Handles parsing different email formats (SendGrid, raw MIME, JSON, etc.)
  */
 
 import { NextRequest } from 'next/server'
-import { SupabaseClient } from '@supabase/supabase-js'
-import { IncomingEmail, EmailAttachment } from '@/types/email'
+import { simpleParser, AddressObject } from 'mailparser'
+import { IncomingEmail, RawEmailAttachment } from '@/types/email'
+import { ValidationError } from '@/lib/errors/webhook-errors'
 import { createComponentLogger } from '@/lib/logger'
-import { AttachmentHandler } from './attachment-handler'
+import { headersFromPairs, parseHeaderBlock, splitMessageIds, extractAddresses, readAuthentication } from './email-headers'
+import type { EmailParseStage } from './ingestion-pipeline'
 
 const logger = createComponentLogger('EmailParser')
 
-export class EmailParser {
-  private attachmentHandler: AttachmentHandler | null = null
-
-  constructor(supabase?: SupabaseClient) {
-    if (supabase) {
-      this.attachmentHandler = new AttachmentHandler(supabase)
-    }
-  }
-  async parseEmail(req: NextRequest, userId?: string): Promise<IncomingEmail> {
+export class EmailParser implements EmailParseStage {
+  async parse(req: NextRequest): Promise<IncomingEmail> {
     const contentType = req.headers.get('content-type') || ''
-    
+
     if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
-      return this.parseFormData(req, userId)
+      return this.parseFormData(req)
     } else if (contentType.includes('application/json')) {
       return this.parseJsonData(req)
     } else {
-      throw new Error(`Unsupported content type: ${contentType}`)
+      throw new ValidationError(`Unsupported content type: ${contentType}`)
+    }
+  }
+
+  /**
+   * Parse a raw RFC 822 / MIME message
+   */
+  async parseRawMime(rawEmail: string | Buffer): Promise<IncomingEmail> {
+    const parsed = await simpleParser(rawEmail)
+
+    const rawAttachments: RawEmailAttachment[] = (parsed.attachments || [])
+      .filter(attachment => attachment.content)
+      .map(attachment => ({
+        filename: attachment.filename || 'attachment',
+        contentType: attachment.contentType || 'application/octet-stream',
+        content: attachment.content.toString('base64'),
+        ...(attachment.cid && { contentId: attachment.cid })
+      }))
+
+    logger.debug('MIME parsing results', {
+      metadata: {
+        subject: parsed.subject || 'No subject',
+        messageId: parsed.messageId,
+        attachmentCount: rawAttachments.length
+      }
+    })
+
+    return {
+      to: this.firstAddress(parsed.to),
+      recipients: this.allAddresses(parsed.to, parsed.cc),
+      from: this.firstAddress(parsed.from),
+      subject: parsed.subject || '',
+      text: parsed.text || '',
+      html: typeof parsed.html === 'string' ? parsed.html : undefined,
+      rawAttachments,
+      messageId: parsed.messageId,
+      inReplyTo: parsed.inReplyTo,
+      headers: headersFromPairs(parsed.headerLines.map(({ key, line }) => [key, line.slice(line.indexOf(':') + 1)])),
+      references: typeof parsed.references === 'string' ? [parsed.references] : parsed.references,
+      timestamp: parsed.date?.toISOString()
     }
   }
 
-  private async parseFormData(req: NextRequest, userId?: string): Promise<IncomingEmail> {
+  private async parseFormData(req: NextRequest): Promise<IncomingEmail> {
+    let formData: FormData
     try {
-      const formData = await req.formData()
-      return this.convertFormData(formData, userId)
+      formData = await req.formData()
     } catch (error) {
       logger.error('Failed to parse form data', error)
-      throw new Error('Invalid form data')
+      throw new ValidationError('Invalid form data')
+    }
+
+    logger.info('Form data received', {
+      metadata: {
+        keys: Array.from(formData.keys()),
+        attachmentCount: formData.get('attachments') || '0'
+      }
+    })
+
+    const fieldEmail = this.convertFormData(formData)
+
+    // SendGrid sends the full message in the `email` field when "POST the raw, full MIME message" is enabled
+    const rawEmail = formData.get('email') as string
+    if (!rawEmail) {
+      return fieldEmail
+    }
+
+    try {
+      const mimeEmail = await this.parseRawMime(rawEmail)
+      return {
+        ...mimeEmail,
+        to: mimeEmail.to || fieldEmail.to,
+        recipients: extractAddresses(...(mimeEmail.recipients || []), ...(fieldEmail.recipients || [])),
+        from: mimeEmail.from || fieldEmail.from,
+        authentication: fieldEmail.authentication || mimeEmail.authentication,
+        rawAttachments: [...(mimeEmail.rawAttachments || []), ...(fieldEmail.rawAttachments || [])]
+      }
+    } catch (error) {
+      logger.error('Failed to parse raw MIME email, falling back to form fields', error)
+      return fieldEmail
+    }
+  }
+
+  /**
+   * SendGrid describes each attachment, including its inline Content-ID, in a JSON field
+   */
+  private parseAttachmentInfo(value: string | null): Record<string, { 'content-id'?: string }> {
+    if (!value) {
+      return {}
+    }
+
+    try {
+      const info = JSON.parse(value)
+      return info && typeof info === 'object' ? info : {}
+    } catch {
+      logger.warn('Ignoring malformed attachment-info field')
+      return {}
     }
   }
 
@@ -47,116 +128,115 @@ export class EmailParser {
       return this.validateJsonEmailData(data)
     } catch (error) {
       logger.error('Failed to parse JSON email data', error)
-      throw new Error('Invalid JSON email data')
+      throw new ValidationError('Invalid JSON email data')
     }
   }
 
-  private async convertFormData(formData: FormData, userId?: string): Promise<IncomingEmail> {
-    const attachments: EmailAttachment[] = []
-    
-    // Parse attachments
-    const attachmentCount = parseInt(formData.get('attachment-count') as string) || 0
-    
-    if (attachmentCount > 0 && this.attachmentHandler && userId) {
-      const emailId = this.generateEmailId(formData)
-      const attachmentFiles: File[] = []
-      
-      // Collect all attachment files
-      for (let i = 1; i <= attachmentCount; i++) {
-        const attachment = formData.get(`attachment-${i}`) as File
-        if (attachment && attachment.size > 0) {
-          attachmentFiles.push(attachment)
-        }
-      }
-      
-      // Upload all attachments
-      if (attachmentFiles.length > 0) {
-        logger.info('Uploading attachments to storage', {
-          metadata: {
-            attachmentCount: attachmentFiles.length,
-            userId,
-            emailId
-          }
-        })
-        
-        const uploadedAttachments = await this.attachmentHandler.uploadMultipleAttachments(
-          attachmentFiles,
-          userId,
-          emailId
-        )
-        
-        attachments.push(...uploadedAttachments)
-        
-        logger.info('Successfully uploaded attachments', {
-          metadata: {
-            requested: attachmentFiles.length,
-            uploaded: uploadedAttachments.length,
-            userId,
-            emailId
-          }
+  private convertFormData(formData: FormData): IncomingEmail {
+    const rawAttachments: RawEmailAttachment[] = []
+
+    // SendGrid sends attachments as attachmentN / attachmentN_content_type / attachmentN_content fields
+    const attachmentCount = parseInt(formData.get('attachments') as string) || 0
+    const attachmentInfo = this.parseAttachmentInfo(formData.get('attachment-info') as string)
+
+    for (let i = 1; i <= attachmentCount; i++) {
+      const filename = formData.get(`attachment${i}`) as string
+      const contentType = formData.get(`attachment${i}_content_type`) as string
+      const content = formData.get(`attachment${i}_content`) as string
+
+      if (!content) {
+        logger.warn('Skipping attachment with empty content', {
+          metadata: { index: i, filename: filename || 'missing' }
         })
+        continue
       }
-    } else if (attachmentCount > 0) {
-      // If we can't upload attachments, just create metadata for them
-      logger.warn('Cannot upload attachments - missing handler or userId', {
-        metadata: {
-          attachmentCount,
-          hasHandler: !!this.attachmentHandler,
-          hasUserId: !!userId
-        }
+
+      const contentId = attachmentInfo[`attachment${i}`]?.['content-id']
+      rawAttachments.push({
+        filename: filename || `attachment${i}`,
+        contentType: contentType || 'application/octet-stream',
+        content,
+        ...(contentId && { contentId })
       })
-      
-      for (let i = 1; i <= attachmentCount; i++) {
-        const attachment = formData.get(`attachment-${i}`) as File
-        if (attachment && attachment.size > 0) {
-          attachments.push({
-            filename: attachment.name,
-            contentType: attachment.type,
-            size: attachment.size,
-            url: '' // No URL since we couldn't upload
-          })
-        }
-      }
     }
 
+    const headers = parseHeaderBlock(formData.get('headers') as string)
+
     return {
-      to: formData.get('recipient') as string || '',
-      from: formData.get('sender') as string || '',
+      to: formData.get('to') as string || '',
+      // The envelope also lists Bcc recipients that appear in no header
+      recipients: extractAddresses(
+        formData.get('to') as string,
+        formData.get('cc') as string,
+        ...this.parseEnvelopeRecipients(formData.get('envelope') as string)
+      ),
+      from: formData.get('from') as string || '',
       subject: formData.get('subject') as string || '',
-      text: formData.get('body-plain') as string || '',
-      html: formData.get('body-html') as string || undefined,
-      attachments,
-      timestamp: formData.get('timestamp') as string || undefined
+      text: formData.get('text') as string || '',
+      html: formData.get('html') as string || undefined,
+      rawAttachments,
+      messageId: headers['message-id'],
+      inReplyTo: headers['in-reply-to'],
+      references: splitMessageIds(headers['references']),
+      headers,
+      timestamp: formData.get('timestamp') as string || undefined,
+      // SendGrid posts its own SPF and DKIM checks as fields
+      authentication: readAuthentication(headers, {
+        spf: formData.get('SPF') as string,
+        dkim: formData.get('dkim') as string
+      })
     }
   }
 
   private validateJsonEmailData(data: any): IncomingEmail {
     // Basic validation for JSON email data
     if (!data.to || !data.from) {
-      throw new Error('Missing required email fields (to, from)')
+      throw new ValidationError('Missing required email fields (to, from)')
     }
 
     return {
       to: String(data.to),
+      recipients: Array.isArray(data.recipients) ? extractAddresses(...data.recipients.map(String)) : undefined,
       from: String(data.from),
       subject: String(data.subject || ''),
       text: String(data.text || ''),
       html: data.html ? String(data.html) : undefined,
       attachments: Array.isArray(data.attachments) ? data.attachments : [],
+      rawAttachments: Array.isArray(data.rawAttachments) ? data.rawAttachments : [],
+      messageId: data.messageId ? String(data.messageId) : undefined,
+      inReplyTo: data.inReplyTo ? String(data.inReplyTo) : undefined,
+      references: Array.isArray(data.references) ? data.references.map(String) : undefined,
+      headers: data.headers && typeof data.headers === 'object'
+        ? headersFromPairs(Object.entries(data.headers).map(([name, value]) => [name, String(value)]))
+        : undefined,
       timestamp: data.timestamp ? String(data.timestamp) : undefined
     }
   }
 
-  private generateEmailId(formData: FormData): string {
-    // Generate a unique email ID from timestamp and message-id or timestamp alone
-    const messageId = formData.get('Message-Id') as string
-    const timestamp = formData.get('timestamp') as string || Date.now().toString()
-    
-    if (messageId) {
-      // Use a hash of the message ID for consistency
-      return messageId.replace(/[<>@]/g, '').replace(/\./g, '_')
+  private parseEnvelopeRecipients(value: string | null): string[] {
+    if (!value) {
+      return []
     }
-    
-    return `email_${timestamp}_${Math.random().toString(36).substr(2, 9)}`
+
+    try {
+      const envelope = JSON.parse(value)
+      return Array.isArray(envelope?.to) ? envelope.to.map(String) : []
+    } catch {
+      logger.warn('Ignoring malformed envelope field')
+      return []
+    }
+  }
+
+  private allAddresses(...addresses: Array<AddressObject | AddressObject[] | undefined>): string[] {
+    return extractAddresses(
+      ...addresses
+        .flatMap(address => (Array.isArray(address) ? address : address ? [address] : []))
+        .flatMap(addressObject => addressObject.value.map(entry => entry.address))
+    )
+  }
+
+  private firstAddress(address?: AddressObject | AddressObject[]): string {
+    const addressObject = Array.isArray(address) ? address[0] : address
+    return addressObject?.value[0]?.address || addressObject?.text || ''
   }
-}
\ No newline at end of file
+}
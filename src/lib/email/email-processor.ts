@@ -6,21 +6,41 @@
 import { IncomingEmail, ProcessedEmailContent } from '@/types/email'
 import { WEBHOOK_CONFIG } from '@/config/webhook'
 import { createComponentLogger } from '@/lib/logger'
+import { convertHtmlToText } from './content-converter'
+import type { ClassificationStage, EmailIngestionContext } from './ingestion-pipeline'
 
 const logger = createComponentLogger('EmailProcessor')
 
-export class EmailProcessor {
-  async processEmailContent(email: IncomingEmail): Promise<ProcessedEmailContent> {
-    const content = this.buildContentFromEmail(email)
+type EmailLeafType = ProcessedEmailContent['leafType']
+
+export class EmailProcessor implements ClassificationStage {
+  async processEmailContent(
+    email: IncomingEmail,
+    context?: EmailIngestionContext
+  ): Promise<ProcessedEmailContent> {
+    const content = this.buildContentFromEmail(email, context?.recipient?.personName)
     const mediaUrls = this.extractMediaUrls(email)
-    const leafType = this.determineLeafType(email, content)
-    const tags = this.extractTags(content, email, leafType)
+    const leafType = context?.commands?.milestoneType
+      ? 'milestone'
+      : this.determineLeafType(email, content)
+    // Hashtags in the subject count too, now that it is no longer part of the content
+    const tags = this.extractTags(`${email.subject || ''}\n${content}`, leafType)
+
+    logger.debug('Classified email content', {
+      metadata: {
+        emailId: context?.emailId,
+        leafType,
+        tagCount: tags.length,
+        mediaCount: mediaUrls.length
+      }
+    })
 
     return {
       content: content.trim(),
       mediaUrls,
       leafType,
-      tags
+      tags,
+      aiCaption: this.generateAICaption(email)
     }
   }
 
@@ -28,26 +48,41 @@ export class EmailProcessor {
     if (email.subject) {
       return email.subject
     }
-    
+
     if (email.text) {
       const firstSentence = email.text.split('.')[0]
-      return firstSentence.length > WEBHOOK_CONFIG.EMAIL.MAX_CAPTION_LENGTH 
+      return firstSentence.length > WEBHOOK_CONFIG.EMAIL.MAX_CAPTION_LENGTH
         ? email.text.substring(0, WEBHOOK_CONFIG.EMAIL.MAX_CAPTION_LENGTH) + '...'
         : firstSentence
     }
-    
+
     return ''
   }
 
-  private buildContentFromEmail(email: IncomingEmail): string {
+  private buildContentFromEmail(email: IncomingEmail, personName?: string): string {
     let content = ''
 
-    if (email.subject) {
-      content += `Subject: ${email.subject}\n\n`
+    if (personName) {
+      content += `📧 Email for: ${personName}\n\n`
     }
-    
+
+    // The subject becomes the caption; it is only used as content when the body is empty
     if (email.text) {
       content += email.text
+    } else if (email.html) {
+      content += convertHtmlToText(email.html).text
+    } else if (email.subject) {
+      content += email.subject
+    }
+
+    const uploadedCount = email.attachments?.filter(attachment => attachment.url).length || 0
+    const failedCount = (email.rawAttachments?.length || 0) - uploadedCount
+
+    if (uploadedCount > 0) {
+      content += `\n\n[${uploadedCount} media file(s) attached]`
+    }
+    if (failedCount > 0) {
+      content += `\n\n[${failedCount} attachment(s) failed to upload]`
     }
 
     return content
@@ -59,36 +94,35 @@ export class EmailProcessor {
     }
 
     return email.attachments
-      .filter(attachment => attachment.url && this.isMediaAttachment(attachment.contentType))
+      .filter(attachment => attachment.url)
       .map(attachment => attachment.url)
   }
 
-  private determineLeafType(
-    email: IncomingEmail, 
-    content: string
-  ): 'photo' | 'video' | 'audio' | 'text' | 'milestone' {
-    // Check for milestone keywords first
+  private determineLeafType(email: IncomingEmail, content: string): EmailLeafType {
+    // Milestone keywords take precedence over attachment types
     if (this.hasMilestoneKeywords(content, email.subject)) {
       return 'milestone'
     }
 
-    // Determine type based on attachments
-    if (email.attachments && email.attachments.length > 0) {
-      for (const attachment of email.attachments) {
-        if (attachment.contentType.startsWith('image/')) {
-          return 'photo'
-        } else if (attachment.contentType.startsWith('video/')) {
-          return 'video'
-        } else if (attachment.contentType.startsWith('audio/')) {
-          return 'audio'
-        }
+    // Otherwise the first media attachment decides the type
+    const mediaAttachment = email.attachments?.find(attachment =>
+      attachment.url && this.isMediaAttachment(attachment.contentType)
+    )
+
+    if (mediaAttachment) {
+      if (mediaAttachment.contentType.startsWith('image/')) {
+        return 'photo'
+      } else if (mediaAttachment.contentType.startsWith('video/')) {
+        return 'video'
+      } else if (mediaAttachment.contentType.startsWith('audio/')) {
+        return 'audio'
       }
     }
 
     return 'text'
   }
 
-  private extractTags(content: string, email: IncomingEmail, leafType: string): string[] {
+  private extractTags(content: string, leafType: EmailLeafType): string[] {
     const tags: string[] = []
 
     // Extract hashtags from content
@@ -116,9 +150,9 @@ export class EmailProcessor {
 
   private hasMilestoneKeywords(content: string, subject?: string): boolean {
     const textToCheck = [content, subject || ''].join(' ').toLowerCase()
-    
-    return WEBHOOK_CONFIG.EMAIL.MILESTONE_KEYWORDS.some(keyword => 
+
+    return WEBHOOK_CONFIG.EMAIL.MILESTONE_KEYWORDS.some(keyword =>
       textToCheck.includes(keyword)
     )
   }
-}
\ No newline at end of file
+}
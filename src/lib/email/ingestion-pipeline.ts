@@ -0,0 +1,531 @@
+/**
+ * Email Ingestion Pipeline
+ * Single entry point for turning an inbound email into a leaf.
+ * Replies to notification emails become comments on the original leaf.
+ * Otherwise runs the parse, resolve recipient, verify sender, resolve commands,
+ * convert content, upload attachments, classify, create leaf, share and queue
+ * AI enhancement and analysis stages in order. Each stage can be swapped out.
+ */
+
+import { NextRequest } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  IncomingEmail,
+  EmailAttachment,
+  ProcessedEmailContent,
+  EmailProcessingResult,
+  EmailIngestionResult,
+  EmailIngestionRecord,
+  ResolvedEmailRecipient,
+  SenderVerificationResult,
+  QuarantinedEmail,
+  ResolvedEmailCommands,
+  EmailReplyTarget
+} from '@/types/email'
+import { EmailRoutingResult, CrossTreeContentShare } from '@/types/database'
+import { EmailProcessingError, PayloadTooLargeError } from '@/lib/errors/webhook-errors'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { createComponentLogger } from '@/lib/logger'
+import { EmailParser } from './email-parser'
+import { UserResolver, splitPlusAddress } from './user-resolver'
+import { AttachmentHandler, getBase64DecodedSize } from './attachment-handler'
+import { EmailProcessor } from './email-processor'
+import { LeafCreator } from './leaf-creator'
+import { EmailIngestionStore } from './ingestion-store'
+import { SenderVerifier } from './sender-verifier'
+import { EmailQuarantineStore } from './quarantine-store'
+import { EmailCommandResolver } from './email-commands'
+import { EmailContentConverter } from './content-converter'
+import { EmailReplyHandler } from './reply-handler'
+import { CrossTreeShareStore } from './cross-tree-share-store'
+import {
+  AIEnhancementQueue,
+  AI_ENHANCEMENT_JOB_TYPES,
+  LEAF_ANALYSIS_JOB_TYPE,
+  type QueueLeafEnhancement
+} from '@/lib/ai/enhancementQueue'
+
+const logger = createComponentLogger('EmailIngestionPipeline')
+
+export interface EmailIngestionContext {
+  supabase: SupabaseClient
+  emailId: string // ingestion record ID, also used for storage paths
+  recipient?: ResolvedEmailRecipient
+  commands?: ResolvedEmailCommands
+  routing?: EmailRoutingResult // person-tree routing, including the other trees to share with
+}
+
+interface RoutedRecipient {
+  address: string
+  recipient: ResolvedEmailRecipient
+}
+
+export type IngestionClaim =
+  | { status: 'new' | 'retry'; record: EmailIngestionRecord }
+  | { status: 'duplicate'; record: EmailIngestionRecord }
+
+export interface IngestionRecordStage {
+  claim(email: IncomingEmail): Promise<IngestionClaim>
+  markCompleted(recordId: string, leafId: string): Promise<void>
+  markFailed(recordId: string, errorMessage: string): Promise<void>
+  markSkipped(recordId: string): Promise<void>
+  markQuarantined(recordId: string): Promise<void>
+}
+
+export interface EmailParseStage {
+  parse(req: NextRequest): Promise<IncomingEmail>
+}
+
+export interface ReplyHandlingStage {
+  // Returns null unless the email is a reply by the recipient of a notification about a leaf
+  resolveReply(email: IncomingEmail, context: EmailIngestionContext): Promise<EmailReplyTarget | null>
+  addReplyComment(target: EmailReplyTarget, content: string, context: EmailIngestionContext): Promise<string>
+}
+
+export interface RecipientResolutionStage {
+  // Returns null when the email is not addressed to a routable recipient
+  resolveRecipient(email: IncomingEmail, context: EmailIngestionContext): Promise<ResolvedEmailRecipient | null>
+}
+
+export interface SenderVerificationStage {
+  // Only called for person-tree email, once context.recipient is set
+  verifySender(email: IncomingEmail, context: EmailIngestionContext): Promise<SenderVerificationResult>
+}
+
+export interface QuarantineStage {
+  quarantine(email: IncomingEmail, context: EmailIngestionContext): Promise<QuarantinedEmail>
+}
+
+export interface CommandResolutionStage {
+  // Reads branch and milestone commands from the address and subject
+  resolveCommands(email: IncomingEmail, context: EmailIngestionContext): Promise<ResolvedEmailCommands>
+}
+
+export interface ContentConversionStage {
+  // Returns the email with a cleaned plain-text body and inline images ordered first
+  convert(email: IncomingEmail): IncomingEmail
+}
+
+export interface ContentSharingStage {
+  // Returns null when the share could not be recorded
+  shareLeaf(
+    share: Omit<CrossTreeContentShare, 'shared_at'>,
+    context: EmailIngestionContext
+  ): Promise<CrossTreeContentShare | null>
+}
+
+export interface EnhancementQueueStage {
+  // Queues background AI captions, tags and analysis; returns the number of jobs queued
+  enqueue(leaf: QueueLeafEnhancement): Promise<number>
+}
+
+export interface AttachmentUploadStage {
+  uploadEmailAttachments(email: IncomingEmail, context: EmailIngestionContext): Promise<EmailAttachment[]>
+}
+
+export interface ClassificationStage {
+  processEmailContent(email: IncomingEmail, context: EmailIngestionContext): Promise<ProcessedEmailContent>
+}
+
+export interface LeafCreationStage {
+  createLeafFromEmail(
+    email: IncomingEmail,
+    processedContent: ProcessedEmailContent,
+    context: EmailIngestionContext
+  ): Promise<EmailProcessingResult>
+}
+
+export interface EmailIngestionStages {
+  parser: EmailParseStage
+  recordStore: IngestionRecordStage
+  replyHandler: ReplyHandlingStage
+  recipientResolver: RecipientResolutionStage
+  senderVerifier: SenderVerificationStage
+  quarantine: QuarantineStage
+  commandResolver: CommandResolutionStage
+  contentConverter: ContentConversionStage
+  attachmentUploader: AttachmentUploadStage
+  classifier: ClassificationStage
+  leafCreator: LeafCreationStage
+  contentSharer: ContentSharingStage
+  enhancementQueue: EnhancementQueueStage
+}
+
+export class EmailIngestionPipeline {
+  private stages: EmailIngestionStages
+
+  constructor(
+    private supabase: SupabaseClient,
+    stages: Partial<EmailIngestionStages> = {}
+  ) {
+    this.stages = {
+      parser: stages.parser || new EmailParser(),
+      recordStore: stages.recordStore || new EmailIngestionStore(supabase),
+      replyHandler: stages.replyHandler || new EmailReplyHandler(),
+      recipientResolver: stages.recipientResolver || new UserResolver(),
+      senderVerifier: stages.senderVerifier || new SenderVerifier(),
+      quarantine: stages.quarantine || new EmailQuarantineStore(supabase),
+      commandResolver: stages.commandResolver || new EmailCommandResolver(),
+      contentConverter: stages.contentConverter || new EmailContentConverter(),
+      attachmentUploader: stages.attachmentUploader || new AttachmentHandler(supabase),
+      classifier: stages.classifier || new EmailProcessor(),
+      leafCreator: stages.leafCreator || new LeafCreator(),
+      contentSharer: stages.contentSharer || new CrossTreeShareStore(supabase),
+      enhancementQueue: stages.enhancementQueue || new AIEnhancementQueue(supabase)
+    }
+  }
+
+  /**
+   * Parse an inbound webhook request and ingest the resulting email
+   */
+  async ingest(req: NextRequest): Promise<EmailIngestionResult> {
+    const email = await this.stages.parser.parse(req)
+    return this.ingestEmail(email)
+  }
+
+  /**
+   * Ingest an already-parsed email
+   */
+  async ingestEmail(email: IncomingEmail): Promise<EmailIngestionResult> {
+    const claim = await this.stages.recordStore.claim(email)
+
+    if (claim.status === 'duplicate') {
+      logger.info('Duplicate email delivery detected', {
+        metadata: {
+          ingestionId: claim.record.id,
+          messageId: email.messageId,
+          status: claim.record.status,
+          leafId: claim.record.leaf_id
+        }
+      })
+      return {
+        success: true,
+        processed: claim.record.status !== 'skipped',
+        duplicate: true,
+        ...(claim.record.status === 'quarantined' && { quarantined: true }),
+        ...(claim.record.leaf_id && { leafId: claim.record.leaf_id })
+      }
+    }
+
+    const context: EmailIngestionContext = {
+      supabase: this.supabase,
+      emailId: claim.record.id
+    }
+
+    logger.info('Ingesting email', {
+      metadata: {
+        emailId: context.emailId,
+        attempt: claim.record.attempt_count,
+        to: email.to,
+        from: email.from,
+        subject: email.subject,
+        rawAttachmentCount: email.rawAttachments?.length || 0
+      }
+    })
+
+    try {
+      const reply = await this.stages.replyHandler.resolveReply(email, context)
+      if (reply) {
+        return await this.addReply(email, reply, context)
+      }
+
+      const routes = await this.resolveRecipients(email, context)
+      if (routes.length === 0) {
+        logger.info('Unrecognized recipient, skipping processing', {
+          metadata: { emailId: context.emailId, to: email.to }
+        })
+        await this.stages.recordStore.markSkipped(claim.record.id)
+        return { success: true, processed: false, skipReason: 'unknown_recipient' }
+      }
+
+      const trusted: RoutedRecipient[] = []
+      for (const route of routes) {
+        if (route.recipient.routingType !== 'person') {
+          trusted.push(route)
+          continue
+        }
+
+        context.recipient = route.recipient
+        const verification = await this.stages.senderVerifier.verifySender({ ...email, to: route.address }, context)
+        if (verification.verified) {
+          trusted.push({
+            ...route,
+            recipient: { ...route.recipient, ...(verification.authorId && { authorId: verification.authorId }) }
+          })
+        }
+      }
+
+      // Person trees take precedence over personal addresses CC'd on the same email
+      const primary = trusted.find(route => route.recipient.routingType === 'person') || trusted[0]
+
+      if (!primary) {
+        // No tree trusts the sender; hold the email for the first one
+        const [first] = routes
+        context.recipient = first.recipient
+        const item = await this.stages.quarantine.quarantine({ ...email, to: first.address }, context)
+        await this.stages.recordStore.markQuarantined(claim.record.id)
+        return {
+          success: true,
+          processed: true,
+          quarantined: true,
+          quarantineId: item.id,
+          routingType: first.recipient.routingType,
+          targetTreeId: first.recipient.treeId
+        }
+      }
+
+      context.recipient = primary.recipient
+      context.routing = this.buildRoutingResult(primary, trusted)
+
+      const untrusted = routes.filter(route => !trusted.some(candidate => candidate.address === route.address))
+      if (untrusted.length > 0) {
+        logger.info('Not sharing with trees that do not trust the sender', {
+          metadata: { emailId: context.emailId, treeIds: untrusted.map(route => route.recipient.treeId) }
+        })
+      }
+
+      return await this.createLeaf({ ...email, to: primary.address }, context)
+    } catch (error) {
+      await this.stages.recordStore.markFailed(
+        claim.record.id,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Create the leaf for a quarantined email a manager has approved. The
+   * ingestion record is only updated on success, so a failed release can be
+   * approved again.
+   */
+  async releaseQuarantined(item: QuarantinedEmail, authorId: string): Promise<EmailIngestionResult> {
+    const email = item.email_payload
+    const context: EmailIngestionContext = {
+      supabase: this.supabase,
+      emailId: item.ingestion_id
+    }
+
+    const recipient = await this.stages.recipientResolver.resolveRecipient(email, context)
+    if (!recipient || recipient.treeId !== item.tree_id) {
+      throw new EmailProcessingError('Quarantined email no longer matches its person tree')
+    }
+    context.recipient = { ...recipient, authorId }
+
+    logger.info('Releasing quarantined email', {
+      metadata: { quarantineId: item.id, emailId: context.emailId, authorId }
+    })
+
+    return this.createLeaf(email, context)
+  }
+
+  /**
+   * Resolve the To address and every other To/CC address. Each person tree
+   * appears once, however many of its addresses were used.
+   */
+  private async resolveRecipients(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<RoutedRecipient[]> {
+    const seenAddresses = new Set<string>()
+    const addresses = [email.to, ...(email.recipients || [])]
+      .filter(address => {
+        const key = splitPlusAddress(address).address
+        if (!key || seenAddresses.has(key)) {
+          return false
+        }
+        seenAddresses.add(key)
+        return true
+      })
+      .slice(0, WEBHOOK_CONFIG.EMAIL.MAX_RECIPIENTS)
+
+    const routes: RoutedRecipient[] = []
+    let firstError: unknown
+
+    for (const address of addresses) {
+      try {
+        const recipient = await this.stages.recipientResolver.resolveRecipient({ ...email, to: address }, context)
+        const isKnownTree = !!recipient?.treeId &&
+          routes.some(route => route.recipient.treeId === recipient.treeId)
+        if (recipient && !isKnownTree) {
+          routes.push({ address, recipient })
+        }
+      } catch (error) {
+        // One bad CC address must not stop delivery to the others
+        logger.warn('Could not resolve email recipient', {
+          metadata: { emailId: context.emailId, address, error: error instanceof Error ? error.message : error }
+        })
+        firstError = firstError ?? error
+      }
+    }
+
+    if (routes.length === 0 && firstError) {
+      throw firstError
+    }
+
+    return routes
+  }
+
+  private buildRoutingResult(primary: RoutedRecipient, trusted: RoutedRecipient[]): EmailRoutingResult | undefined {
+    if (!primary.recipient.treeId) {
+      return undefined
+    }
+
+    const sharedTreeIds = trusted
+      .map(route => route.recipient.treeId)
+      .filter((treeId): treeId is string => !!treeId && treeId !== primary.recipient.treeId)
+
+    return {
+      tree_id: primary.recipient.treeId,
+      person_name: primary.recipient.personName || '',
+      email_address: splitPlusAddress(primary.address).address,
+      routing_success: true,
+      ...(sharedTreeIds.length > 0 && { auto_share_candidates: sharedTreeIds })
+    }
+  }
+
+  /**
+   * Share the leaf with the other recipient trees. A failure here is logged
+   * rather than thrown, since the leaf already exists.
+   */
+  private async shareAcrossTrees(leafId: string, context: EmailIngestionContext): Promise<string[]> {
+    const routing = context.routing
+    if (!routing?.auto_share_candidates?.length || !context.recipient) {
+      return []
+    }
+
+    const share = await this.stages.contentSharer.shareLeaf({
+      leaf_id: leafId,
+      primary_tree_id: routing.tree_id,
+      shared_tree_ids: routing.auto_share_candidates,
+      sharing_reason: 'auto_detected',
+      shared_by: context.recipient.authorId
+    }, context)
+
+    return share?.shared_tree_ids || []
+  }
+
+  /**
+   * Queue AI captions, tags and analysis for the new leaf. A failure here is
+   * logged rather than thrown, since the leaf already exists.
+   */
+  private async queueEnhancement(
+    leafId: string,
+    processedContent: ProcessedEmailContent,
+    context: EmailIngestionContext
+  ): Promise<void> {
+    const recipient = context.recipient as ResolvedEmailRecipient
+
+    try {
+      await this.stages.enhancementQueue.enqueue({
+        request: {
+          leafId,
+          content: processedContent.content,
+          mediaUrls: processedContent.mediaUrls,
+          context: {
+            authorName: '',
+            branchName: '',
+            treeName: recipient.personName || '',
+            existingTags: processedContent.tags
+          }
+        },
+        userId: recipient.authorId,
+        treeId: recipient.treeId,
+        jobTypes: [...AI_ENHANCEMENT_JOB_TYPES, LEAF_ANALYSIS_JOB_TYPE]
+      })
+    } catch (error) {
+      logger.warn('Could not queue AI enhancement for emailed leaf', {
+        metadata: { emailId: context.emailId, leafId, error: error instanceof Error ? error.message : error }
+      })
+    }
+  }
+
+  private async addReply(
+    email: IncomingEmail,
+    target: EmailReplyTarget,
+    context: EmailIngestionContext
+  ): Promise<EmailIngestionResult> {
+    // The quoted notification is dropped here, leaving only what the sender wrote
+    const { text } = this.stages.contentConverter.convert(email)
+    if (!text) {
+      logger.info('Empty reply, skipping processing', {
+        metadata: { emailId: context.emailId, leafId: target.leafId }
+      })
+      await this.stages.recordStore.markSkipped(context.emailId)
+      return { success: true, processed: false, skipReason: 'empty_reply' }
+    }
+
+    if (email.rawAttachments?.length) {
+      logger.info('Attachments on email replies are not added to comments', {
+        metadata: { emailId: context.emailId, count: email.rawAttachments.length }
+      })
+    }
+
+    const commentId = await this.stages.replyHandler.addReplyComment(target, text, context)
+    await this.stages.recordStore.markCompleted(context.emailId, target.leafId)
+
+    logger.info('Added email reply as comment', {
+      metadata: { emailId: context.emailId, leafId: target.leafId, commentId }
+    })
+
+    return {
+      success: true,
+      processed: true,
+      leafId: target.leafId,
+      commentId
+    }
+  }
+
+  private async createLeaf(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<EmailIngestionResult> {
+    const recipient = context.recipient as ResolvedEmailRecipient
+
+    context.commands = await this.stages.commandResolver.resolveCommands(email, context)
+    // Command tokens are instructions, not part of the memory
+    const routedEmail = this.stages.contentConverter.convert({ ...email, subject: context.commands.subject })
+
+    const oversized = (routedEmail.rawAttachments || []).filter(attachment =>
+      getBase64DecodedSize(attachment.content) > WEBHOOK_CONFIG.LIMITS.MAX_ATTACHMENT_SIZE
+    )
+    if (oversized.length > 0) {
+      logger.warn('Leaving out attachments over the size limit', {
+        metadata: { emailId: context.emailId, filenames: oversized.map(attachment => attachment.filename) }
+      })
+      routedEmail.rawAttachments = routedEmail.rawAttachments?.filter(attachment => !oversized.includes(attachment))
+
+      // Nothing would be left of the memory
+      if (!routedEmail.rawAttachments?.length && !routedEmail.text) {
+        throw new PayloadTooLargeError(
+          `Attachment too large: ${oversized.map(attachment => attachment.filename).join(', ')}`
+        )
+      }
+    }
+
+    if (routedEmail.rawAttachments && routedEmail.rawAttachments.length > 0) {
+      const uploaded = await this.stages.attachmentUploader.uploadEmailAttachments(routedEmail, context)
+      routedEmail.attachments = [...(routedEmail.attachments || []), ...uploaded]
+    }
+
+    const processedContent = await this.stages.classifier.processEmailContent(routedEmail, context)
+    const result = await this.stages.leafCreator.createLeafFromEmail(routedEmail, processedContent, context)
+
+    if (!result.success || !result.leafId) {
+      throw new EmailProcessingError(result.error || 'Failed to create leaf')
+    }
+
+    const sharedTreeIds = await this.shareAcrossTrees(result.leafId, context)
+    await this.queueEnhancement(result.leafId, processedContent, context)
+    await this.stages.recordStore.markCompleted(context.emailId, result.leafId)
+
+    return {
+      ...result,
+      processed: true,
+      ...(sharedTreeIds.length > 0 && { sharedTreeIds }),
+      routingType: recipient.routingType,
+      ...(recipient.treeId && { targetTreeId: recipient.treeId }),
+      ...(oversized.length > 0 && { oversizedAttachments: oversized.map(attachment => attachment.filename) })
+    }
+  }
+}
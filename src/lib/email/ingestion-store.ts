@@ -0,0 +1,190 @@
+/**
+ * Email Ingestion Store
+ * Persists one record per inbound email, keyed on Message-ID with a content
+ * hash fallback, so provider retries return the original leaf instead of
+ * creating a new one.
+ */
+
+import { createHash } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { IncomingEmail, EmailIngestionRecord } from '@/types/email'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { EmailProcessingError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import type { IngestionClaim, IngestionRecordStage } from './ingestion-pipeline'
+
+const logger = createComponentLogger('EmailIngestionStore')
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Hash the parts of an email that identify it when no Message-ID is present
+ */
+export function computeEmailContentHash(email: IncomingEmail): string {
+  const hash = createHash('sha256')
+
+  hash.update(JSON.stringify([
+    email.from.trim().toLowerCase(),
+    email.to.trim().toLowerCase(),
+    email.subject,
+    email.text,
+    email.html || ''
+  ]))
+
+  for (const attachment of email.rawAttachments || []) {
+    hash.update(attachment.filename)
+    hash.update(attachment.content)
+  }
+
+  return hash.digest('hex')
+}
+
+export class EmailIngestionStore implements IngestionRecordStage {
+  constructor(private supabase: SupabaseClient) {}
+
+  async claim(email: IncomingEmail): Promise<IngestionClaim> {
+    const messageId = email.messageId?.trim() || null
+    const contentHash = computeEmailContentHash(email)
+
+    const existing = await this.findExisting(messageId, contentHash)
+    if (existing) {
+      return this.reclaim(existing)
+    }
+
+    const { data: record, error } = await this.supabase
+      .from('email_ingestions')
+      .insert({
+        message_id: messageId,
+        content_hash: contentHash,
+        provider: email.provider || null,
+        status: 'processing',
+        recipient: email.to,
+        sender: email.from,
+        subject: email.subject
+      })
+      .select()
+      .single()
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      // A concurrent delivery of the same email inserted first
+      const winner = await this.findExisting(messageId, contentHash)
+      if (winner) {
+        return { status: 'duplicate', record: winner }
+      }
+    }
+
+    if (error || !record) {
+      logger.error('Failed to create email ingestion record', error, {
+        metadata: { messageId, contentHash }
+      })
+      throw new EmailProcessingError('Failed to record email ingestion')
+    }
+
+    return { status: 'new', record: record as EmailIngestionRecord }
+  }
+
+  async markCompleted(recordId: string, leafId: string): Promise<void> {
+    await this.updateRecord(recordId, {
+      status: 'completed',
+      leaf_id: leafId,
+      error_message: null,
+      processed_at: new Date().toISOString()
+    })
+  }
+
+  async markFailed(recordId: string, errorMessage: string): Promise<void> {
+    await this.updateRecord(recordId, {
+      status: 'failed',
+      error_message: errorMessage
+    })
+  }
+
+  async markSkipped(recordId: string): Promise<void> {
+    await this.updateRecord(recordId, {
+      status: 'skipped',
+      processed_at: new Date().toISOString()
+    })
+  }
+
+  async markQuarantined(recordId: string): Promise<void> {
+    await this.updateRecord(recordId, { status: 'quarantined' })
+  }
+
+  private async findExisting(
+    messageId: string | null,
+    contentHash: string
+  ): Promise<EmailIngestionRecord | null> {
+    const query = this.supabase.from('email_ingestions').select('*')
+
+    const { data, error } = messageId
+      ? await query.eq('message_id', messageId).maybeSingle()
+      : await query.eq('content_hash', contentHash).is('message_id', null).maybeSingle()
+
+    if (error) {
+      logger.error('Failed to look up email ingestion record', error, {
+        metadata: { messageId, contentHash }
+      })
+      throw new EmailProcessingError('Failed to look up email ingestion')
+    }
+
+    return data as EmailIngestionRecord | null
+  }
+
+  /**
+   * Decide whether an existing record is a duplicate or may be processed again
+   */
+  private async reclaim(existing: EmailIngestionRecord): Promise<IngestionClaim> {
+    const isStale = Date.now() - new Date(existing.updated_at).getTime() >
+      WEBHOOK_CONFIG.INGESTION.PROCESSING_TIMEOUT_MS
+    const canRetry = existing.status === 'failed' || (existing.status === 'processing' && isStale)
+
+    if (!canRetry) {
+      return { status: 'duplicate', record: existing }
+    }
+
+    // Only claim the record if nobody else has touched it since we read it
+    const { data: record, error } = await this.supabase
+      .from('email_ingestions')
+      .update({
+        status: 'processing',
+        attempt_count: existing.attempt_count + 1,
+        error_message: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', existing.id)
+      .eq('updated_at', existing.updated_at)
+      .select()
+      .maybeSingle()
+
+    if (error || !record) {
+      return { status: 'duplicate', record: existing }
+    }
+
+    logger.info('Retrying previously failed email ingestion', {
+      metadata: {
+        ingestionId: existing.id,
+        previousStatus: existing.status,
+        attempt: existing.attempt_count + 1
+      }
+    })
+
+    return { status: 'retry', record: record as EmailIngestionRecord }
+  }
+
+  private async updateRecord(
+    recordId: string,
+    updates: Partial<EmailIngestionRecord>
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_ingestions')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', recordId)
+
+    if (error) {
+      logger.error('Failed to update email ingestion record', error, {
+        metadata: { recordId, status: updates.status }
+      })
+    }
+  }
+}
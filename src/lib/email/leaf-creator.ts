@@ -3,51 +3,46 @@
  * Handles creating leaves in the database
  */
 
-import { SupabaseClient } from '@supabase/supabase-js'
 import { IncomingEmail, ProcessedEmailContent, EmailProcessingResult } from '@/types/email'
+import { createUnassignedLeaf, assignLeafToBranches } from '@/lib/leaf-assignments'
 import { createComponentLogger } from '@/lib/logger'
-import { EmailProcessor } from './email-processor'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+import type { EmailIngestionContext, LeafCreationStage } from './ingestion-pipeline'
 
 const logger = createComponentLogger('LeafCreator')
 
-export class LeafCreator {
-  private emailProcessor: EmailProcessor
-
-  constructor() {
-    this.emailProcessor = new EmailProcessor()
-  }
-
+export class LeafCreator implements LeafCreationStage {
   async createLeafFromEmail(
-    supabase: SupabaseClient,
-    userId: string,
-    emailData: IncomingEmail
+    emailData: IncomingEmail,
+    processedContent: ProcessedEmailContent,
+    context: EmailIngestionContext
   ): Promise<EmailProcessingResult> {
+    const userId = context.recipient?.authorId
+    if (!userId) {
+      return {
+        success: false,
+        error: 'No author resolved for email'
+      }
+    }
+
+    const commands = context.commands
+
     try {
-      // Process email content
-      const processedContent = await this.emailProcessor.processEmailContent(emailData)
-      const aiCaption = this.emailProcessor.generateAICaption(emailData)
-
-      // Create leaf in database
-      const { data: leaf, error: leafError } = await supabase
-        .from('posts')
-        .insert({
-          author_id: userId,
-          leaf_type: processedContent.leafType,
-          content: processedContent.content,
-          media_urls: processedContent.mediaUrls,
-          tags: processedContent.tags,
-          ai_caption: aiCaption,
-          ai_tags: [],
-          branch_id: null,
-          assignment_status: 'unassigned',
-          message_type: 'post',
-          is_pinned: false
+      const leaf = await createUnassignedLeaf({
+        author_id: userId,
+        leaf_type: processedContent.leafType,
+        content: processedContent.content,
+        media_urls: processedContent.mediaUrls,
+        tags: processedContent.tags,
+        ai_caption: processedContent.aiCaption,
+        ...(commands?.milestoneType && {
+          milestone_type: commands.milestoneType,
+          milestone_date: commands.milestoneDate
         })
-        .select()
-        .single()
+      }, context.supabase)
 
-      if (leafError || !leaf) {
-        logger.error('Failed to create leaf in database', leafError, {
+      if (!leaf) {
+        logger.error('Failed to create leaf in database', {
           metadata: {
             userId,
             emailFrom: emailData.from,
@@ -65,13 +60,18 @@ export class LeafCreator {
         }
       }
 
+      const assignedBranchIds = await this.assignToRequestedBranches(leaf.id, userId, context)
+
       logger.info('Successfully created leaf from email', {
         metadata: {
           leafId: leaf.id,
           userId,
           leafType: leaf.leaf_type,
           hasMedia: processedContent.mediaUrls.length > 0,
-          tagCount: processedContent.tags.length
+          tagCount: processedContent.tags.length,
+          targetTreeId: context.recipient?.treeId,
+          assignedBranchCount: assignedBranchIds.length,
+          milestoneType: commands?.milestoneType
         }
       })
 
@@ -79,7 +79,8 @@ export class LeafCreator {
         success: true,
         leafId: leaf.id,
         leafType: leaf.leaf_type,
-        hasMedia: processedContent.mediaUrls.length > 0
+        hasMedia: processedContent.mediaUrls.length > 0,
+        assignedBranchIds
       }
     } catch (error) {
       logger.error('Unexpected error creating leaf from email', error, {
@@ -96,4 +97,43 @@ export class LeafCreator {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Assign the leaf to branches named in the email that the author may post
+   * in. A failed assignment leaves the leaf unassigned for manual sorting
+   * instead of failing the email.
+   */
+  private async assignToRequestedBranches(
+    leafId: string,
+    userId: string,
+    context: EmailIngestionContext
+  ): Promise<string[]> {
+    const requestedIds = context.commands?.branchIds || []
+    const rbac = createServerRBAC(context.supabase)
+    const permissions = await Promise.all(
+      requestedIds.map(branchId => rbac.getBranchPermissions(userId, branchId))
+    )
+    const branchIds = requestedIds.filter((_, index) => permissions[index].canCreatePosts)
+
+    if (branchIds.length < requestedIds.length) {
+      logger.warn('Author cannot post in some requested branches', {
+        metadata: { leafId, branchIds: requestedIds.filter(branchId => !branchIds.includes(branchId)) }
+      })
+    }
+
+    if (branchIds.length === 0) {
+      return []
+    }
+
+    const assignment = await assignLeafToBranches(leafId, branchIds, userId, undefined, context.supabase)
+
+    if (!assignment.success) {
+      logger.warn('Could not assign emailed leaf to requested branches', {
+        metadata: { leafId, branchIds, error: assignment.error }
+      })
+      return []
+    }
+
+    return assignment.assignments
+  }
+}
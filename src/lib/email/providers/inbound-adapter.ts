@@ -0,0 +1,79 @@
+/**
+ * Inbound Email Provider Adapter
+ * Turns a provider's webhook payload into the shared IncomingEmail type
+ * after verifying that the request really came from that provider.
+ */
+
+import { NextRequest } from 'next/server'
+import { IncomingEmail } from '@/types/email'
+import { getOptionalEnvVar } from '@/config/webhook'
+import { AuthenticationError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import { readAuthentication } from '../email-headers'
+import type { EmailParseStage } from '../ingestion-pipeline'
+
+const logger = createComponentLogger('InboundEmailAdapter')
+
+export type InboundEmailProvider = 'sendgrid' | 'mailgun' | 'postmark' | 'raw'
+
+export interface InboundEmailAdapter extends EmailParseStage {
+  readonly provider: InboundEmailProvider
+  readonly displayName: string
+  verifySignature(req: Request): Promise<boolean>
+}
+
+export abstract class BaseInboundAdapter implements InboundEmailAdapter {
+  abstract readonly provider: InboundEmailProvider
+  abstract readonly displayName: string
+
+  abstract verifySignature(req: Request): Promise<boolean>
+
+  protected abstract parsePayload(req: NextRequest): Promise<IncomingEmail>
+
+  async parse(req: NextRequest): Promise<IncomingEmail> {
+    // Verify against a clone so the payload can still be read afterwards
+    const isVerified = await this.verifySignature(req.clone())
+
+    if (!isVerified) {
+      logger.warn('Inbound email signature verification failed', {
+        metadata: {
+          provider: this.provider,
+          ip: req.headers.get('x-forwarded-for') || 'unknown'
+        }
+      })
+      throw new AuthenticationError(`Invalid ${this.displayName} webhook signature`)
+    }
+
+    const email = await this.parsePayload(req)
+    return {
+      ...email,
+      provider: this.provider,
+      authentication: email.authentication || readAuthentication(email.headers || {})
+    }
+  }
+
+  /**
+   * Read a verification secret. When it is not configured, verification is
+   * skipped outside production and fails closed in production.
+   */
+  protected getSecret(name: string): string | undefined {
+    const secret = getOptionalEnvVar(name)
+    if (!secret) {
+      logger.warn('Inbound email secret not configured', {
+        metadata: { provider: this.provider, envVar: name }
+      })
+    }
+    return secret
+  }
+
+  protected allowUnverified(): boolean {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  protected async safeEqual(a: string, b: string): Promise<boolean> {
+    const crypto = await import('crypto')
+    const aBuffer = Buffer.from(a)
+    const bBuffer = Buffer.from(b)
+    return aBuffer.length === bBuffer.length && crypto.timingSafeEqual(aBuffer, bBuffer)
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Inbound email provider adapters
+ */
+
+import { InboundEmailAdapter, InboundEmailProvider } from './inbound-adapter'
+import { SendGridAdapter } from './sendgrid-adapter'
+import { MailgunAdapter } from './mailgun-adapter'
+import { PostmarkAdapter } from './postmark-adapter'
+import { RawMimeAdapter } from './raw-mime-adapter'
+
+export { BaseInboundAdapter, type InboundEmailAdapter, type InboundEmailProvider } from './inbound-adapter'
+export { SendGridAdapter } from './sendgrid-adapter'
+export { MailgunAdapter } from './mailgun-adapter'
+export { PostmarkAdapter } from './postmark-adapter'
+export { RawMimeAdapter, RAW_EMAIL_SIGNATURE_HEADER } from './raw-mime-adapter'
+
+const ADAPTER_FACTORIES: Record<InboundEmailProvider, () => InboundEmailAdapter> = {
+  sendgrid: () => new SendGridAdapter(),
+  mailgun: () => new MailgunAdapter(),
+  postmark: () => new PostmarkAdapter(),
+  raw: () => new RawMimeAdapter()
+}
+
+export function isInboundEmailProvider(provider: string): provider is InboundEmailProvider {
+  return Object.prototype.hasOwnProperty.call(ADAPTER_FACTORIES, provider)
+}
+
+export function getInboundAdapter(provider: string): InboundEmailAdapter | null {
+  return isInboundEmailProvider(provider) ? ADAPTER_FACTORIES[provider]() : null
+}
@@ -0,0 +1,140 @@
+/**
+ * Mailgun inbound route adapter
+ * Handles the multipart payload posted by a Mailgun `forward()` route
+ */
+
+import { NextRequest } from 'next/server'
+import { IncomingEmail, RawEmailAttachment } from '@/types/email'
+import { ValidationError } from '@/lib/errors/webhook-errors'
+import { verifyWebhookSignature } from '@/lib/security/middleware'
+import { createComponentLogger } from '@/lib/logger'
+import { headersFromPairs, EmailHeaders, splitMessageIds, extractAddresses, readAuthentication } from '../email-headers'
+import { BaseInboundAdapter } from './inbound-adapter'
+
+const logger = createComponentLogger('MailgunAdapter')
+
+// Reject signatures older than this to limit replay attacks
+const MAX_SIGNATURE_AGE_SECONDS = 15 * 60
+
+export class MailgunAdapter extends BaseInboundAdapter {
+  readonly provider = 'mailgun' as const
+  readonly displayName = 'Mailgun'
+
+  async verifySignature(req: Request): Promise<boolean> {
+    const signingKey = this.getSecret('MAILGUN_WEBHOOK_SIGNING_KEY')
+    if (!signingKey) {
+      return this.allowUnverified()
+    }
+
+    let formData: FormData
+    try {
+      formData = await req.formData()
+    } catch {
+      return false
+    }
+
+    const timestamp = formData.get('timestamp') as string
+    const token = formData.get('token') as string
+    const signature = formData.get('signature') as string
+
+    if (!timestamp || !token || !signature) {
+      return false
+    }
+
+    const ageSeconds = Math.abs(Date.now() / 1000 - parseInt(timestamp))
+    if (!Number.isFinite(ageSeconds) || ageSeconds > MAX_SIGNATURE_AGE_SECONDS) {
+      return false
+    }
+
+    // Mailgun signs timestamp + token with the HTTP webhook signing key
+    return verifyWebhookSignature(timestamp + token, signature, signingKey)
+  }
+
+  protected async parsePayload(req: NextRequest): Promise<IncomingEmail> {
+    let formData: FormData
+    try {
+      formData = await req.formData()
+    } catch (error) {
+      logger.error('Failed to parse Mailgun form data', error)
+      throw new ValidationError('Invalid form data')
+    }
+
+    const rawAttachments: RawEmailAttachment[] = []
+    const attachmentCount = parseInt(formData.get('attachment-count') as string) || 0
+    const contentIds = this.parseContentIdMap(formData.get('content-id-map') as string)
+
+    for (let i = 1; i <= attachmentCount; i++) {
+      const attachment = formData.get(`attachment-${i}`)
+      if (!attachment || typeof attachment === 'string' || attachment.size === 0) {
+        continue
+      }
+
+      rawAttachments.push({
+        filename: attachment.name || `attachment-${i}`,
+        contentType: attachment.type || 'application/octet-stream',
+        content: Buffer.from(await attachment.arrayBuffer()).toString('base64'),
+        ...(contentIds[`attachment-${i}`] && { contentId: contentIds[`attachment-${i}`] })
+      })
+    }
+
+    const headers = this.parseMessageHeaders(formData.get('message-headers') as string)
+
+    return {
+      to: formData.get('recipient') as string || formData.get('To') as string || '',
+      recipients: extractAddresses(
+        formData.get('recipient') as string,
+        formData.get('To') as string,
+        formData.get('Cc') as string
+      ),
+      from: formData.get('sender') as string || formData.get('from') as string || '',
+      subject: formData.get('subject') as string || '',
+      text: formData.get('body-plain') as string || '',
+      html: formData.get('body-html') as string || undefined,
+      rawAttachments,
+      messageId: formData.get('Message-Id') as string || undefined,
+      inReplyTo: formData.get('In-Reply-To') as string || undefined,
+      references: splitMessageIds(formData.get('References') as string || undefined),
+      headers,
+      timestamp: formData.get('timestamp') as string || undefined,
+      authentication: readAuthentication(headers, {
+        spf: formData.get('X-Mailgun-Spf') as string,
+        dkim: formData.get('X-Mailgun-Dkim-Check-Result') as string
+      })
+    }
+  }
+
+  /**
+   * Mailgun maps inline Content-IDs to attachment fields as {"<cid>": "attachment-1"};
+   * invert it so attachments can be looked up by field name
+   */
+  private parseContentIdMap(value: string | null): Record<string, string> {
+    if (!value) {
+      return {}
+    }
+
+    try {
+      const map = JSON.parse(value) as Record<string, string>
+      return Object.fromEntries(Object.entries(map).map(([contentId, field]) => [field, contentId]))
+    } catch {
+      logger.warn('Ignoring malformed content-id-map field')
+      return {}
+    }
+  }
+
+  /**
+   * Mailgun posts every original header as a JSON array of [name, value] pairs
+   */
+  private parseMessageHeaders(value: string | null): EmailHeaders {
+    if (!value) {
+      return {}
+    }
+
+    try {
+      const pairs = JSON.parse(value)
+      return Array.isArray(pairs) ? headersFromPairs(pairs) : {}
+    } catch {
+      logger.warn('Ignoring malformed message-headers field')
+      return {}
+    }
+  }
+}
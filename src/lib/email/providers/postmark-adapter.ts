@@ -0,0 +1,110 @@
+/**
+ * Postmark inbound webhook adapter
+ * Postmark does not sign inbound webhooks; it authenticates them with HTTP
+ * basic auth credentials embedded in the webhook URL, so those are verified here.
+ */
+
+import { NextRequest } from 'next/server'
+import { IncomingEmail, RawEmailAttachment } from '@/types/email'
+import { ValidationError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import { headersFromPairs, splitMessageIds, extractAddresses } from '../email-headers'
+import { BaseInboundAdapter } from './inbound-adapter'
+
+const logger = createComponentLogger('PostmarkAdapter')
+
+interface PostmarkAddress {
+  Email: string
+  Name?: string
+}
+
+interface PostmarkInboundPayload {
+  From: string
+  FromFull?: PostmarkAddress
+  To: string
+  ToFull?: PostmarkAddress[]
+  Cc?: string
+  CcFull?: PostmarkAddress[]
+  OriginalRecipient?: string
+  Subject?: string
+  TextBody?: string
+  HtmlBody?: string
+  MessageID?: string
+  Date?: string
+  Headers?: { Name: string; Value: string }[]
+  Attachments?: {
+    Name: string
+    Content: string // base64 encoded
+    ContentType: string
+    ContentLength: number
+    ContentID?: string // set for inline images, e.g. "image001.png@01D9..."
+  }[]
+}
+
+export class PostmarkAdapter extends BaseInboundAdapter {
+  readonly provider = 'postmark' as const
+  readonly displayName = 'Postmark'
+
+  async verifySignature(req: Request): Promise<boolean> {
+    const username = this.getSecret('POSTMARK_INBOUND_USERNAME')
+    const password = this.getSecret('POSTMARK_INBOUND_PASSWORD')
+    if (!username || !password) {
+      return this.allowUnverified()
+    }
+
+    const authHeader = req.headers.get('authorization') || ''
+    if (!authHeader.startsWith('Basic ')) {
+      return false
+    }
+
+    const provided = Buffer.from(authHeader.replace('Basic ', ''), 'base64').toString('utf8')
+    return this.safeEqual(provided, `${username}:${password}`)
+  }
+
+  protected async parsePayload(req: NextRequest): Promise<IncomingEmail> {
+    let payload: PostmarkInboundPayload
+    try {
+      payload = await req.json()
+    } catch (error) {
+      logger.error('Failed to parse Postmark payload', error)
+      throw new ValidationError('Invalid JSON email data')
+    }
+
+    if (!payload.From || !(payload.OriginalRecipient || payload.ToFull?.length || payload.To)) {
+      throw new ValidationError('Missing required email fields (to, from)')
+    }
+
+    const rawAttachments: RawEmailAttachment[] = (payload.Attachments || [])
+      .filter(attachment => attachment.Content)
+      .map(attachment => ({
+        filename: attachment.Name || 'attachment',
+        contentType: attachment.ContentType || 'application/octet-stream',
+        content: attachment.Content,
+        ...(attachment.ContentID && { contentId: attachment.ContentID })
+      }))
+
+    // MessageID is Postmark's own ID; prefer the sender's Message-ID header
+    const headers = headersFromPairs((payload.Headers || []).map(header => [header.Name, header.Value]))
+
+    return {
+      to: payload.OriginalRecipient || payload.ToFull?.[0]?.Email || payload.To,
+      recipients: extractAddresses(
+        payload.OriginalRecipient,
+        ...(payload.ToFull || []).map(address => address.Email),
+        ...(payload.CcFull || []).map(address => address.Email),
+        payload.To,
+        payload.Cc
+      ),
+      from: payload.FromFull?.Email || payload.From,
+      subject: payload.Subject || '',
+      text: payload.TextBody || '',
+      html: payload.HtmlBody || undefined,
+      rawAttachments,
+      messageId: headers['message-id'] || payload.MessageID,
+      inReplyTo: headers['in-reply-to'],
+      references: splitMessageIds(headers['references']),
+      headers,
+      timestamp: payload.Date
+    }
+  }
+}
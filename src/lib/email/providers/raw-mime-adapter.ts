@@ -0,0 +1,52 @@
+/**
+ * Raw RFC 822 / MIME upload adapter
+ * Accepts a complete message as the request body, e.g. from an SMTP relay
+ * or when replaying a saved `.eml` file. The body is signed with an
+ * HMAC-SHA256 of the shared RAW_EMAIL_WEBHOOK_SECRET.
+ */
+
+import { NextRequest } from 'next/server'
+import { IncomingEmail } from '@/types/email'
+import { ValidationError } from '@/lib/errors/webhook-errors'
+import { verifyWebhookSignature } from '@/lib/security/middleware'
+import { EmailParser } from '../email-parser'
+import { BaseInboundAdapter } from './inbound-adapter'
+
+export const RAW_EMAIL_SIGNATURE_HEADER = 'x-email-signature'
+
+export class RawMimeAdapter extends BaseInboundAdapter {
+  readonly provider = 'raw' as const
+  readonly displayName = 'raw MIME'
+
+  private parser = new EmailParser()
+
+  async verifySignature(req: Request): Promise<boolean> {
+    const secret = this.getSecret('RAW_EMAIL_WEBHOOK_SECRET')
+    if (!secret) {
+      return this.allowUnverified()
+    }
+
+    const signature = req.headers.get(RAW_EMAIL_SIGNATURE_HEADER)
+    if (!signature) {
+      return false
+    }
+
+    return verifyWebhookSignature(await req.text(), signature, secret)
+  }
+
+  /**
+   * Parse a raw message without signature verification (e.g. `.eml` replay)
+   */
+  parseRawMessage(rawEmail: string | Buffer): Promise<IncomingEmail> {
+    return this.parser.parseRawMime(rawEmail)
+  }
+
+  protected async parsePayload(req: NextRequest): Promise<IncomingEmail> {
+    const rawEmail = await req.text()
+    if (!rawEmail.trim()) {
+      throw new ValidationError('Empty email body')
+    }
+
+    return this.parseRawMessage(rawEmail)
+  }
+}
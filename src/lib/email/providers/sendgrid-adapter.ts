@@ -0,0 +1,30 @@
+/**
+ * SendGrid Inbound Parse adapter
+ */
+
+import { NextRequest } from 'next/server'
+import { IncomingEmail } from '@/types/email'
+import { EmailParser } from '../email-parser'
+import { BaseInboundAdapter } from './inbound-adapter'
+
+export class SendGridAdapter extends BaseInboundAdapter {
+  readonly provider = 'sendgrid' as const
+  readonly displayName = 'SendGrid'
+
+  private parser = new EmailParser()
+
+  async verifySignature(req: Request): Promise<boolean> {
+    // Inbound Parse has no signature, so the destination URL carries a shared secret header
+    const expectedSecret = this.getSecret('SENDGRID_API_KEY')
+    if (!expectedSecret) {
+      return this.allowUnverified()
+    }
+
+    const providedSecret = req.headers.get('x-sendgrid-api-key') || ''
+    return this.safeEqual(providedSecret, expectedSecret)
+  }
+
+  protected parsePayload(req: NextRequest): Promise<IncomingEmail> {
+    return this.parser.parse(req)
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Email Quarantine Store
+ * Holds person-tree email from unverified senders until a tree manager
+ * approves or rejects it
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { IncomingEmail, QuarantinedEmail, EmailQuarantineStatus } from '@/types/email'
+import { EmailProcessingError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import type { EmailIngestionContext, QuarantineStage } from './ingestion-pipeline'
+
+const logger = createComponentLogger('EmailQuarantineStore')
+
+export class EmailQuarantineStore implements QuarantineStage {
+  constructor(private supabase: SupabaseClient) {}
+
+  async quarantine(email: IncomingEmail, context: EmailIngestionContext): Promise<QuarantinedEmail> {
+    if (!context.recipient?.treeId) {
+      throw new EmailProcessingError('Only person-tree email can be quarantined')
+    }
+
+    const { data: item, error } = await this.supabase
+      .from('email_quarantine')
+      .insert({
+        tree_id: context.recipient.treeId,
+        ingestion_id: context.emailId,
+        sender: email.from,
+        recipient: email.to,
+        subject: email.subject,
+        // Raw attachments are kept so nothing is uploaded before approval
+        email_payload: email,
+        status: 'pending'
+      })
+      .select()
+      .single()
+
+    if (error || !item) {
+      logger.error('Failed to quarantine email', error, {
+        metadata: { emailId: context.emailId, treeId: context.recipient.treeId }
+      })
+      throw new EmailProcessingError('Failed to quarantine email')
+    }
+
+    logger.info('Email quarantined for manager review', {
+      metadata: {
+        quarantineId: item.id,
+        emailId: context.emailId,
+        treeId: context.recipient.treeId,
+        sender: email.from
+      }
+    })
+
+    return item as QuarantinedEmail
+  }
+
+  async get(quarantineId: string): Promise<QuarantinedEmail | null> {
+    const { data, error } = await this.supabase
+      .from('email_quarantine')
+      .select('*')
+      .eq('id', quarantineId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to load quarantined email', error, {
+        metadata: { quarantineId }
+      })
+      throw new EmailProcessingError('Failed to load quarantined email')
+    }
+
+    return data as QuarantinedEmail | null
+  }
+
+  async listPending(treeId: string): Promise<QuarantinedEmail[]> {
+    const { data, error } = await this.supabase
+      .from('email_quarantine')
+      .select('*')
+      .eq('tree_id', treeId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to list quarantined email', error, {
+        metadata: { treeId }
+      })
+      throw new EmailProcessingError('Failed to list quarantined email')
+    }
+
+    return (data || []) as QuarantinedEmail[]
+  }
+
+  /**
+   * Record a manager decision. Only pending items can be reviewed, so a
+   * second approval of the same email is a no-op that returns null.
+   */
+  async markReviewed(
+    quarantineId: string,
+    review: { status: Exclude<EmailQuarantineStatus, 'pending'>; reviewedBy: string }
+  ): Promise<QuarantinedEmail | null> {
+    const { data, error } = await this.supabase
+      .from('email_quarantine')
+      .update({
+        status: review.status,
+        reviewed_by: review.reviewedBy,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', quarantineId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to update quarantined email', error, {
+        metadata: { quarantineId, status: review.status }
+      })
+      throw new EmailProcessingError('Failed to update quarantined email')
+    }
+
+    return data as QuarantinedEmail | null
+  }
+
+  async recordLeaf(quarantineId: string, leafId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_quarantine')
+      .update({ leaf_id: leafId })
+      .eq('id', quarantineId)
+
+    if (error) {
+      logger.error('Failed to link leaf to quarantined email', error, {
+        metadata: { quarantineId, leafId }
+      })
+    }
+  }
+
+  /**
+   * Put an approved item back in the queue when its leaf could not be created
+   */
+  async reopen(quarantineId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_quarantine')
+      .update({ status: 'pending', reviewed_by: null, reviewed_at: null, leaf_id: null })
+      .eq('id', quarantineId)
+
+    if (error) {
+      logger.error('Failed to reopen quarantined email', error, {
+        metadata: { quarantineId }
+      })
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Email Reply Handler
+ * Turns a reply to a notification email into a comment on the leaf the
+ * notification was about, instead of a new leaf
+ */
+
+import { IncomingEmail, EmailReplyTarget } from '@/types/email'
+import { NotificationQueue } from '@/types/database'
+import { EmailProcessingError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import { normalizeEmailAddress } from './user-resolver'
+import { hasFailedAuthentication } from './email-headers'
+import { extractReplyToken, verifyReplyToken, getNotificationLeafId } from './reply-token'
+import type { EmailIngestionContext, ReplyHandlingStage } from './ingestion-pipeline'
+
+const logger = createComponentLogger('EmailReplyHandler')
+
+export class EmailReplyHandler implements ReplyHandlingStage {
+  async resolveReply(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<EmailReplyTarget | null> {
+    const token = extractReplyToken(email)
+    if (!token) {
+      return null
+    }
+
+    const payload = verifyReplyToken(token)
+    if (!payload) {
+      logger.warn('Ignoring reply with an invalid token', {
+        metadata: { emailId: context.emailId }
+      })
+      return null
+    }
+
+    const { data: notification } = await context.supabase
+      .from('notification_queue')
+      .select('id, user_id, context_type, context_id, metadata')
+      .eq('id', payload.notificationId)
+      .maybeSingle()
+
+    const leafId = notification &&
+      getNotificationLeafId(notification as NotificationQueue, payload.memoryIndex)
+
+    if (!notification || !leafId) {
+      logger.info('Reply does not refer to a leaf', {
+        metadata: { emailId: context.emailId, notificationId: payload.notificationId }
+      })
+      return null
+    }
+
+    // Only the person the notification was sent to may reply through it,
+    // from an address the provider did not flag as forged
+    const sender = normalizeEmailAddress(email.from)
+    if (hasFailedAuthentication(email)) {
+      logger.warn('Reply failed sender authentication', {
+        metadata: { emailId: context.emailId, notificationId: notification.id, sender, authentication: email.authentication }
+      })
+      return null
+    }
+
+    const { data: profile } = await context.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', sender)
+      .maybeSingle()
+
+    if (profile?.id !== notification.user_id) {
+      logger.warn('Reply sender does not match the notified user', {
+        metadata: { emailId: context.emailId, notificationId: notification.id, sender }
+      })
+      return null
+    }
+
+    return {
+      notificationId: notification.id,
+      leafId,
+      authorId: notification.user_id
+    }
+  }
+
+  async addReplyComment(
+    target: EmailReplyTarget,
+    content: string,
+    context: EmailIngestionContext
+  ): Promise<string> {
+    const { data: comment, error } = await context.supabase
+      .from('comments')
+      .insert({
+        post_id: target.leafId, // Using post_id for backward compatibility
+        author_id: target.authorId,
+        content
+      })
+      .select('id')
+      .single()
+
+    if (error || !comment) {
+      logger.error('Failed to add email reply as comment', error, {
+        metadata: { emailId: context.emailId, leafId: target.leafId }
+      })
+      throw new EmailProcessingError('Failed to add reply to leaf')
+    }
+
+    return comment.id
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Email Reply Tokens
+ * Notification emails carry a signed token in their Reply-To address and
+ * Message-ID, so a reply can be traced back to the notification and the
+ * leaf it was about without trusting anything else in the reply.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { IncomingEmail } from '@/types/email'
+import { NotificationQueue } from '@/types/database'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { splitPlusAddress } from './user-resolver'
+
+const { EMAIL } = WEBHOOK_CONFIG
+
+// Lowercase hex survives the address normalization applied to inbound mail
+const SIGNATURE_LENGTH = 16
+const TOKEN_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:-(\d))?\.([0-9a-f]{16})$/
+const MESSAGE_ID_PATTERN = /<?notification\.([^@\s>]+)@/i
+
+export interface ReplyTokenPayload {
+  notificationId: string
+  memoryIndex?: number // position of the memory within a digest
+}
+
+function getSecret(): string | null {
+  return process.env.EMAIL_REPLY_TOKEN_SECRET || null
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex').slice(0, SIGNATURE_LENGTH)
+}
+
+/**
+ * Create a token for a notification, or null when reply tokens are not configured
+ */
+export function createReplyToken(notificationId: string, memoryIndex?: number): string | null {
+  const secret = getSecret()
+  if (!secret) {
+    return null
+  }
+
+  const payload = (memoryIndex === undefined ? notificationId : `${notificationId}-${memoryIndex}`).toLowerCase()
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Check a token's signature and return what it refers to
+ */
+export function verifyReplyToken(token: string): ReplyTokenPayload | null {
+  const secret = getSecret()
+  const match = token.toLowerCase().match(TOKEN_PATTERN)
+  if (!secret || !match) {
+    return null
+  }
+
+  const [, notificationId, memoryIndex, signature] = match
+  const payload = memoryIndex === undefined ? notificationId : `${notificationId}-${memoryIndex}`
+  const expected = Buffer.from(sign(payload, secret))
+  if (!timingSafeEqual(expected, Buffer.from(signature))) {
+    return null
+  }
+
+  return {
+    notificationId,
+    ...(memoryIndex !== undefined && { memoryIndex: parseInt(memoryIndex) })
+  }
+}
+
+export function buildReplyAddress(token: string): string {
+  return `${EMAIL.REPLY_LOCAL_PART}${EMAIL.PLUS_TAG_SEPARATOR}${token}@${EMAIL.ALLOWED_DOMAINS[0]}`
+}
+
+export function buildNotificationMessageId(token: string): string {
+  return `<notification.${token}@${EMAIL.ALLOWED_DOMAINS[0]}>`
+}
+
+/**
+ * Find a reply token in the recipient address, or failing that in the
+ * In-Reply-To and References headers (for clients that ignore Reply-To)
+ */
+export function extractReplyToken(email: IncomingEmail): string | null {
+  const { address, tags } = splitPlusAddress(email.to)
+  if (address.split('@')[0] === EMAIL.REPLY_LOCAL_PART && tags.length > 0) {
+    return tags[0]
+  }
+
+  // The most recent message in the thread is the last reference
+  const messageIds = [email.inReplyTo || '', ...[...(email.references || [])].reverse()]
+  for (const messageId of messageIds) {
+    const match = messageId.match(MESSAGE_ID_PATTERN)
+    if (match) {
+      return match[1]
+    }
+  }
+
+  return null
+}
+
+/**
+ * The leaf a notification is about: its context for memory notifications,
+ * or one of the listed memories for digests
+ */
+export function getNotificationLeafId(
+  notification: Pick<NotificationQueue, 'context_type' | 'context_id' | 'metadata'>,
+  memoryIndex?: number
+): string | null {
+  if (memoryIndex === undefined && notification.context_type === 'memory' && notification.context_id) {
+    return notification.context_id
+  }
+
+  const memories = notification.metadata?.memories
+  if (!Array.isArray(memories)) {
+    return null
+  }
+
+  // A reply to a whole digest is only unambiguous when it lists a single memory
+  const memory = memoryIndex === undefined
+    ? (memories.length === 1 ? memories[0] : undefined)
+    : memories[memoryIndex]
+
+  return typeof memory?.id === 'string' ? memory.id : null
+}
@@ -0,0 +1,211 @@
+/**
+ * Sender Feedback
+ * Tells the sender of an inbound email what became of it: a confirmation
+ * with a link to the new leaf, or why nothing was created. Feedback to
+ * senders with an account goes through the notification queue. Senders
+ * without one only hear that their mail is held for review, by plain email:
+ * other failures would answer whatever address spam claims to come from.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { IncomingEmail, EmailIngestionResult } from '@/types/email'
+import { UserNotFoundError, PayloadTooLargeError } from '@/lib/errors/webhook-errors'
+import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { createComponentLogger } from '@/lib/logger'
+import { notifications } from '@/lib/notifications/scheduler'
+import { notificationDelivery } from '@/lib/notifications/delivery'
+import { normalizeEmailAddress } from './user-resolver'
+import { isAutoGeneratedEmail, hasFailedAuthentication } from './email-headers'
+
+const logger = createComponentLogger('SenderFeedback')
+
+const FEEDBACK_TYPES = ['email.processing.success', 'email.processing.failed']
+
+export type EmailFailureReason = 'unknown_tree' | 'attachment_too_large' | 'sender_not_allowed'
+
+const FAILURE_MESSAGES: Record<EmailFailureReason, string> = {
+  unknown_tree: 'The address it was sent to does not belong to any tree. Check the address on the tree settings page.',
+  attachment_too_large: `Attachments must be smaller than ${WEBHOOK_CONFIG.LIMITS.MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB.`,
+  sender_not_allowed: 'Your address is not on the list of allowed senders for this tree. A tree manager has been asked to review it.'
+}
+
+/**
+ * Which explanation fits an ingestion outcome, or null when there is nothing to explain
+ * (including server errors, which the provider will retry)
+ */
+export function getFailureReason(outcome: EmailIngestionResult | unknown): EmailFailureReason | null {
+  if (outcome instanceof UserNotFoundError) {
+    return 'unknown_tree'
+  }
+  if (outcome instanceof PayloadTooLargeError) {
+    return 'attachment_too_large'
+  }
+  if (outcome instanceof Error || !outcome || typeof outcome !== 'object') {
+    return null
+  }
+
+  const result = outcome as EmailIngestionResult
+  if (result.quarantined && !result.duplicate) {
+    return 'sender_not_allowed'
+  }
+  if (!result.processed && result.skipReason === 'unknown_recipient') {
+    return 'unknown_tree'
+  }
+  return null
+}
+
+export class SenderFeedback {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Confirm a newly created leaf to its sender
+   */
+  async confirm(email: IncomingEmail, result: EmailIngestionResult): Promise<void> {
+    if (!result.leafId || result.duplicate || result.commentId) {
+      return
+    }
+
+    const userId = await this.getRecipientUserId(email)
+    if (!userId) {
+      return
+    }
+
+    const { data: branches } = result.assignedBranchIds?.length
+      ? await this.supabase
+        .from('branches')
+        .select('name')
+        .in('id', result.assignedBranchIds)
+      : { data: [] }
+
+    await notifications.notifyEmailProcessingSuccess({
+      userId,
+      emailSubject: email.subject || '(no subject)',
+      memoryId: result.leafId,
+      memoryTitle: email.subject || 'Untitled memory',
+      treeId: result.targetTreeId,
+      branchNames: (branches || []).map(branch => branch.name),
+      oversizedAttachments: result.oversizedAttachments
+    })
+  }
+
+  /**
+   * Explain to the sender why their email did not become a leaf
+   */
+  async explainFailure(email: IncomingEmail, reason: EmailFailureReason): Promise<void> {
+    if (!this.isAnswerable(email)) {
+      return
+    }
+
+    const profileId = await this.findProfileId(email)
+    if (!profileId) {
+      if (reason === 'sender_not_allowed') {
+        await this.emailAddress(email, reason)
+      }
+      return
+    }
+
+    if (!(await this.isUnderFeedbackLimit(profileId))) {
+      return
+    }
+
+    await notifications.notifyEmailProcessingFailed({
+      userId: profileId,
+      emailSubject: email.subject || '(no subject)',
+      errorMessage: FAILURE_MESSAGES[reason]
+    })
+  }
+
+  /**
+   * The sender's profile, unless the email must not be answered
+   */
+  private async getRecipientUserId(email: IncomingEmail): Promise<string | null> {
+    if (!this.isAnswerable(email)) {
+      return null
+    }
+
+    const profileId = await this.findProfileId(email)
+    return profileId && await this.isUnderFeedbackLimit(profileId) ? profileId : null
+  }
+
+  /**
+   * Guards against mail loops with auto-responders by ignoring automated
+   * mail, and against answering forged From addresses
+   */
+  private isAnswerable(email: IncomingEmail): boolean {
+    if (isAutoGeneratedEmail(email)) {
+      logger.info('Not sending feedback for automated email', {
+        metadata: { from: email.from, messageId: email.messageId }
+      })
+      return false
+    }
+    if (hasFailedAuthentication(email)) {
+      logger.info('Not sending feedback for email that failed sender authentication', {
+        metadata: { from: email.from, messageId: email.messageId }
+      })
+      return false
+    }
+    return true
+  }
+
+  private async findProfileId(email: IncomingEmail): Promise<string | null> {
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', normalizeEmailAddress(email.from))
+      .maybeSingle()
+
+    return profile?.id || null
+  }
+
+  /**
+   * Caps how much feedback one sender can receive per hour
+   */
+  private async isUnderFeedbackLimit(userId: string): Promise<boolean> {
+    const since = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const { count } = await this.supabase
+      .from('notification_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('notification_type', FEEDBACK_TYPES)
+      .gte('created_at', since)
+
+    if ((count || 0) >= WEBHOOK_CONFIG.FEEDBACK.MAX_PER_SENDER_PER_HOUR) {
+      logger.warn('Feedback limit reached for sender', {
+        metadata: { userId, count }
+      })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Email a sender without an account, under the same hourly cap, counted
+   * per address in sender_feedback_log
+   */
+  private async emailAddress(email: IncomingEmail, reason: EmailFailureReason): Promise<void> {
+    const address = normalizeEmailAddress(email.from)
+    const since = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const { count } = await this.supabase
+      .from('sender_feedback_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('address', address)
+      .gte('created_at', since)
+
+    if ((count || 0) >= WEBHOOK_CONFIG.FEEDBACK.MAX_PER_SENDER_PER_HOUR) {
+      logger.warn('Feedback limit reached for sender address', {
+        metadata: { address, count }
+      })
+      return
+    }
+
+    await this.supabase
+      .from('sender_feedback_log')
+      .insert({ address, reason })
+
+    await notificationDelivery.sendEmailToAddress(
+      address,
+      `Email Not Posted Yet: ${email.subject || '(no subject)'}`,
+      `Your email "${email.subject || '(no subject)'}" has not been posted. ${FAILURE_MESSAGES[reason]}`
+    )
+  }
+}
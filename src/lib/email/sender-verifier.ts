@@ -0,0 +1,86 @@
+/**
+ * Sender Verifier
+ * Decides whether the sender of a person-tree email is trusted and which
+ * profile the resulting leaf should be credited to. The From address is
+ * only trusted when the provider's SPF and DKIM checks did not fail.
+ */
+
+import { IncomingEmail, SenderVerificationResult } from '@/types/email'
+import { EmailProcessingError } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import { normalizeEmailAddress } from './user-resolver'
+import { hasFailedAuthentication } from './email-headers'
+import type { EmailIngestionContext, SenderVerificationStage } from './ingestion-pipeline'
+
+const logger = createComponentLogger('SenderVerifier')
+
+export class SenderVerifier implements SenderVerificationStage {
+  async verifySender(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<SenderVerificationResult> {
+    const recipient = context.recipient
+    if (!recipient?.treeId) {
+      throw new EmailProcessingError('Sender verification requires a resolved person tree')
+    }
+
+    const sender = normalizeEmailAddress(email.from)
+
+    // A forged From address could match the allowlist, so hold the email for review
+    if (hasFailedAuthentication(email)) {
+      logger.warn('Email failed sender authentication', {
+        metadata: { treeId: recipient.treeId, sender, emailId: context.emailId, authentication: email.authentication }
+      })
+      return { verified: false }
+    }
+
+    const { data: allowed, error } = await context.supabase
+      .from('tree_verified_senders')
+      .select('profile_id')
+      .eq('tree_id', recipient.treeId)
+      .eq('email_address', sender)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to look up verified sender', error, {
+        metadata: { treeId: recipient.treeId, sender }
+      })
+      throw new EmailProcessingError('Failed to verify sender')
+    }
+
+    const senderProfileId = allowed?.profile_id || await this.findProfileIdByEmail(sender, context)
+
+    if (allowed) {
+      return {
+        verified: true,
+        method: 'allowlist',
+        authorId: senderProfileId || recipient.authorId
+      }
+    }
+
+    // Managers never need to add themselves to the allowlist
+    if (senderProfileId && recipient.managerIds?.includes(senderProfileId)) {
+      return { verified: true, method: 'manager', authorId: senderProfileId }
+    }
+
+    logger.info('Email from unverified sender', {
+      metadata: { treeId: recipient.treeId, sender, emailId: context.emailId }
+    })
+
+    return { verified: false }
+  }
+
+  private async findProfileIdByEmail(
+    address: string,
+    context: EmailIngestionContext
+  ): Promise<string | null> {
+    const { data: profile } = await context.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', address)
+      .maybeSingle()
+
+    return profile?.id || null
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Tree Manager Access
+ * Permission checks shared by the person-tree routes
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { SecurityError, ValidationError } from '@/lib/validation/errors'
+import { createServerRBAC } from '@/lib/security/redisPermissionCache'
+import type { TreePermission, TreePermissions } from '@/types/database'
+
+export interface ManagedTree {
+  id: string
+  person_name: string | null
+  managed_by: string[]
+  permissions: TreePermissions
+}
+
+/**
+ * Load a person tree and make sure the user has a tree permission
+ */
+export async function requireTreePermission(
+  supabase: SupabaseClient,
+  treeId: string,
+  userId: string,
+  permission: TreePermission,
+  deniedMessage = 'You do not have permission to do this in this tree'
+): Promise<ManagedTree> {
+  const { data: tree } = await supabase
+    .from('trees')
+    .select('id, person_name, managed_by')
+    .eq('id', treeId)
+    .single()
+
+  if (!tree) {
+    throw new ValidationError('Tree not found', { field: 'treeId', statusCode: 404 })
+  }
+
+  const permissions = await createServerRBAC(supabase).getTreePermissions(userId, treeId)
+  if (!permissions[permission]) {
+    throw new SecurityError(deniedMessage, 'treeId')
+  }
+
+  return { ...tree, managed_by: tree.managed_by || [], permissions } as ManagedTree
+}
+
+/**
+ * Make sure a branch belongs to the tree
+ */
+export async function requireTreeBranch(
+  supabase: SupabaseClient,
+  treeId: string,
+  branchId: string
+): Promise<void> {
+  const { data: branch } = await supabase
+    .from('branches')
+    .select('id')
+    .eq('id', branchId)
+    .eq('tree_id', treeId)
+    .maybeSingle()
+
+  if (!branch) {
+    throw new ValidationError('Branch not found in this tree', { field: 'branch_id', statusCode: 404 })
+  }
+}
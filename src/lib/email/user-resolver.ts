@@ -1,18 +1,70 @@
 /**
  * User Resolver Service
- * Handles extracting and validating user IDs from email addresses
+ * Handles extracting and validating user and tree IDs from email addresses
  */
 
+import { SupabaseClient } from '@supabase/supabase-js'
+import { IncomingEmail, ResolvedEmailRecipient } from '@/types/email'
 import { WEBHOOK_CONFIG } from '@/config/webhook'
+import { ValidationError, UserNotFoundError, EmailProcessingError } from '@/lib/errors/webhook-errors'
 import { createComponentLogger } from '@/lib/logger'
+import type { EmailIngestionContext, RecipientResolutionStage } from './ingestion-pipeline'
 
 const logger = createComponentLogger('UserResolver')
 
-export class UserResolver {
+/**
+ * Reduce `"Name" <address>` forms to a bare lowercase address
+ */
+export function normalizeEmailAddress(address: string): string {
+  const match = address.match(WEBHOOK_CONFIG.PATTERNS.EMAIL_ADDRESS)
+  return (match ? match[1] : address).trim().toLowerCase()
+}
+
+/**
+ * Split `person-x+vacations@domain` into the routable address and its plus tags
+ */
+export function splitPlusAddress(address: string): { address: string; tags: string[] } {
+  const [localPart, domain] = normalizeEmailAddress(address).split('@')
+  const [base, ...tags] = localPart.split(WEBHOOK_CONFIG.EMAIL.PLUS_TAG_SEPARATOR)
+
+  return {
+    address: domain === undefined ? base : `${base}@${domain}`,
+    tags: tags.filter(Boolean)
+  }
+}
+
+export class UserResolver implements RecipientResolutionStage {
+  async resolveRecipient(
+    email: IncomingEmail,
+    context: EmailIngestionContext
+  ): Promise<ResolvedEmailRecipient | null> {
+    // Plus tags are routing commands, not part of the mailbox
+    const recipient = splitPlusAddress(email.to).address
+
+    // Registered addresses and aliases win over parsing the local part
+    const treeId = await this.extractTreeIdFromEmail(recipient, context.supabase)
+    if (treeId) {
+      return this.resolvePersonRecipient(treeId, recipient, context)
+    }
+
+    if (this.isPersonEmail(recipient)) {
+      logger.warn('Could not extract tree ID from person email', {
+        metadata: { emailTo: recipient }
+      })
+      throw new ValidationError('Invalid person email address format')
+    }
+
+    if (this.isUserEmail(recipient)) {
+      return this.resolveUserRecipient(recipient, context)
+    }
+
+    return null
+  }
+
   extractUserIdFromEmail(emailTo: string): string | null {
     try {
-      const [localPart, domain] = emailTo.toLowerCase().split('@')
-      
+      const [localPart, domain] = splitPlusAddress(emailTo).address.split('@')
+
       // Validate domain
       if (!this.isAllowedDomain(domain)) {
         return null
@@ -20,41 +72,162 @@ export class UserResolver {
 
       return this.extractUserIdFromLocalPart(localPart)
     } catch (error) {
-      logger.error('Error extracting user ID from email', error, { 
-        metadata: { emailTo } 
+      logger.error('Error extracting user ID from email', error, {
+        metadata: { emailTo }
+      })
+      return null
+    }
+  }
+
+  /**
+   * Look the address up in tree_email_addresses, falling back to parsing
+   * generated person-{treeId} addresses for trees without a stored address.
+   * Deactivated addresses resolve to null.
+   */
+  async extractTreeIdFromEmail(emailTo: string, supabase: SupabaseClient): Promise<string | null> {
+    try {
+      const address = splitPlusAddress(emailTo).address
+      const [localPart, domain] = address.split('@')
+
+      // Validate domain
+      if (!this.isAllowedDomain(domain)) {
+        return null
+      }
+
+      const { data: registered, error } = await supabase
+        .from('tree_email_addresses')
+        .select('tree_id, is_active')
+        .eq('email_address', address)
+        .maybeSingle()
+
+      if (error) {
+        logger.error('Failed to look up tree email address', error, {
+          metadata: { emailTo }
+        })
+        throw new EmailProcessingError('Failed to look up email address')
+      }
+
+      if (registered) {
+        return registered.is_active ? registered.tree_id : null
+      }
+
+      if (!localPart.startsWith(WEBHOOK_CONFIG.EMAIL.PERSON_EMAIL_PREFIX)) {
+        return null
+      }
+
+      const treeId = localPart.replace(WEBHOOK_CONFIG.EMAIL.PERSON_EMAIL_PREFIX, '')
+      return WEBHOOK_CONFIG.PATTERNS.UUID.test(treeId) ? treeId : null
+    } catch (error) {
+      if (error instanceof EmailProcessingError) {
+        throw error
+      }
+      logger.error('Error extracting tree ID from email', error, {
+        metadata: { emailTo }
       })
       return null
     }
   }
 
   isUserEmail(emailTo: string): boolean {
-    const recipient = emailTo.toLowerCase()
+    const recipient = this.normalizeAddress(emailTo)
     return recipient.startsWith(WEBHOOK_CONFIG.EMAIL.USER_EMAIL_PREFIX)
   }
 
+  isPersonEmail(emailTo: string): boolean {
+    const recipient = this.normalizeAddress(emailTo)
+    return recipient.startsWith(WEBHOOK_CONFIG.EMAIL.PERSON_EMAIL_PREFIX)
+  }
+
+  normalizeAddress(emailTo: string): string {
+    return normalizeEmailAddress(emailTo)
+  }
+
+  private async resolvePersonRecipient(
+    treeId: string,
+    recipient: string,
+    context: EmailIngestionContext
+  ): Promise<ResolvedEmailRecipient> {
+    const { data: tree, error } = await context.supabase
+      .from('trees')
+      .select('id, person_name, managed_by, created_by')
+      .eq('id', treeId)
+      .single()
+
+    if (error || !tree) {
+      logger.warn('Tree not found for person email', {
+        metadata: { treeId, emailTo: recipient }
+      })
+      throw new UserNotFoundError('Person tree not found')
+    }
+
+    const managerIds: string[] = tree.managed_by?.length > 0 ? tree.managed_by : [tree.created_by]
+
+    // Fallback author until the sender has been verified
+    return {
+      routingType: 'person',
+      authorId: managerIds[0],
+      treeId,
+      personName: tree.person_name || undefined,
+      managerIds
+    }
+  }
+
+  private async resolveUserRecipient(
+    recipient: string,
+    context: EmailIngestionContext
+  ): Promise<ResolvedEmailRecipient> {
+    const userId = this.extractUserIdFromEmail(recipient)
+    if (!userId) {
+      logger.warn('Could not extract user ID from email', {
+        metadata: { emailTo: recipient }
+      })
+      throw new ValidationError('Invalid user email address format')
+    }
+
+    const { data: user, error } = await context.supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', userId)
+      .single()
+
+    if (error || !user) {
+      logger.warn('User not found for email', {
+        metadata: { userId, emailTo: recipient }
+      })
+      throw new UserNotFoundError('User not found')
+    }
+
+    return {
+      routingType: 'user',
+      authorId: userId
+    }
+  }
+
   private isAllowedDomain(domain: string): boolean {
-    return WEBHOOK_CONFIG.EMAIL.ALLOWED_DOMAINS.some(allowedDomain => 
+    return WEBHOOK_CONFIG.EMAIL.ALLOWED_DOMAINS.some(allowedDomain =>
       domain.includes(allowedDomain)
     )
   }
 
+  // Only reached for addresses that are not in tree_email_addresses. Aliases
+  // cannot use these forms, see WEBHOOK_CONFIG.ALIASES.RESERVED_PREFIXES.
   private extractUserIdFromLocalPart(localPart: string): string | null {
     // Pattern 1: Direct user ID (user123@domain.com)
     if (localPart.startsWith('user')) {
       return localPart.replace('user', '')
     }
-    
+
     // Pattern 2: Prefixed user ID (u-abc123@domain.com)
     if (localPart.startsWith(WEBHOOK_CONFIG.EMAIL.USER_EMAIL_PREFIX)) {
       return localPart.replace(WEBHOOK_CONFIG.EMAIL.USER_EMAIL_PREFIX, '')
     }
-    
+
     // Pattern 3: Just the user ID (abc123@domain.com)
     // Validate it looks like a UUID
     if (WEBHOOK_CONFIG.PATTERNS.UUID.test(localPart)) {
       return localPart
     }
-    
+
     return null
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,161 @@
+/**
+ * Inbound Email Webhook Handler
+ * Shared request handling for every inbound provider route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { WebhookError, createErrorResponse } from '@/lib/errors/webhook-errors'
+import { createComponentLogger } from '@/lib/logger'
+import { notifications } from '@/lib/notifications/scheduler'
+import { IncomingEmail, EmailIngestionResult } from '@/types/email'
+import { EmailIngestionPipeline } from './ingestion-pipeline'
+import { SenderFeedback, getFailureReason } from './sender-feedback'
+import type { InboundEmailAdapter } from './providers'
+
+const logger = createComponentLogger('InboundEmailWebhook')
+
+export async function handleInboundEmailWebhook(
+  req: NextRequest,
+  adapter: InboundEmailAdapter
+): Promise<NextResponse> {
+  try {
+    logger.info('Inbound email webhook request received', {
+      metadata: {
+        provider: adapter.provider,
+        contentType: req.headers.get('content-type'),
+        userAgent: req.headers.get('user-agent'),
+        ip: req.headers.get('x-forwarded-for')
+      }
+    })
+
+    const supabase = createServiceClient()
+    const pipeline = new EmailIngestionPipeline(supabase, { parser: adapter })
+    const feedback = new SenderFeedback(supabase)
+
+    const email = await adapter.parse(req)
+    let result: EmailIngestionResult
+    try {
+      result = await pipeline.ingestEmail(email)
+    } catch (error) {
+      await sendSenderFeedback(feedback, email, error)
+      throw error
+    }
+    await sendSenderFeedback(feedback, email, result)
+
+    if (result.duplicate) {
+      // Acknowledge retries with 2xx so the provider stops redelivering
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...(result.leafId && { leafId: result.leafId }),
+          duplicate: true
+        },
+        message: 'Email already received'
+      })
+    }
+
+    if (result.quarantined) {
+      if (result.quarantineId && result.targetTreeId) {
+        // Notification failures must not make the provider redeliver the email
+        try {
+          await notifications.notifyEmailQuarantined({
+            treeId: result.targetTreeId,
+            quarantineId: result.quarantineId
+          })
+        } catch (notificationError) {
+          logger.warn('Failed to notify managers about quarantined email', {
+            metadata: { quarantineId: result.quarantineId, error: notificationError }
+          })
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { quarantined: true },
+        message: 'Email from unverified sender is awaiting manager approval'
+      })
+    }
+
+    if (!result.processed) {
+      return NextResponse.json({
+        success: true,
+        message: 'Email notification received but not processed (unrecognized format)'
+      })
+    }
+
+    if (result.commentId) {
+      return NextResponse.json({
+        success: true,
+        data: { leafId: result.leafId, commentId: result.commentId },
+        message: 'Reply added as a comment'
+      })
+    }
+
+    logger.info('Successfully created leaf from inbound email', {
+      metadata: {
+        provider: adapter.provider,
+        leafId: result.leafId,
+        leafType: result.leafType,
+        hasMedia: result.hasMedia,
+        routingType: result.routingType,
+        targetTreeId: result.targetTreeId,
+        sharedTreeIds: result.sharedTreeIds
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        leafId: result.leafId,
+        leafType: result.leafType,
+        routingType: result.routingType,
+        ...(result.targetTreeId && { targetTreeId: result.targetTreeId }),
+        ...(result.sharedTreeIds && { sharedTreeIds: result.sharedTreeIds }),
+        hasMedia: result.hasMedia,
+        assignedBranchIds: result.assignedBranchIds || []
+      },
+      message: `Email processed successfully via ${adapter.displayName}`
+    })
+
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      logger.warn('Inbound email rejected', {
+        metadata: { provider: adapter.provider, code: error.code, message: error.message }
+      })
+      const { statusCode, ...body } = createErrorResponse(error)
+      return NextResponse.json(body, { status: statusCode })
+    }
+
+    logger.error('Unexpected error in inbound email webhook', error, {
+      metadata: { provider: adapter.provider }
+    })
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Confirm the new leaf to the sender or explain why there is none.
+ * Feedback failures must not make the provider redeliver the email.
+ */
+async function sendSenderFeedback(
+  feedback: SenderFeedback,
+  email: IncomingEmail,
+  outcome: EmailIngestionResult | unknown
+): Promise<void> {
+  try {
+    const reason = getFailureReason(outcome)
+    if (reason) {
+      await feedback.explainFailure(email, reason)
+    } else if (!(outcome instanceof Error)) {
+      await feedback.confirm(email, outcome as EmailIngestionResult)
+    }
+  } catch (feedbackError) {
+    logger.warn('Failed to send feedback to email sender', {
+      metadata: { messageId: email.messageId, error: feedbackError }
+    })
+  }
+}
@@ -3,6 +3,7 @@
  * Functions for managing flexible leaf assignments to branches
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase/client'
 import { LeafWithAssignments, UnassignedLeaf, LeafAssignmentResult } from '@/types/common'
 import { Leaf, LeafAssignment } from '@/types/database'
@@ -55,11 +56,14 @@ export async function assignLeafToBranches(
   leafId: string,
   branchIds: string[],
   assignedBy: string,
-  primaryBranchId?: string
+  primaryBranchId?: string,
+  clientOverride?: SupabaseClient
 ): Promise<LeafAssignmentResult> {
+  const client = clientOverride || supabase
+
   try {
     const result = await AsyncUtils.supabaseQuery(
-      async () => supabase.rpc('assign_leaf_to_branches', {
+      async () => client.rpc('assign_leaf_to_branches', {
         p_leaf_id: leafId,
         p_branch_ids: branchIds,
         p_assigned_by: assignedBy,
@@ -108,7 +112,7 @@ export async function createUnassignedLeaf(
     ai_caption?: string
     ai_tags?: string[]
   },
-  clientOverride?: any
+  clientOverride?: SupabaseClient
 ): Promise<Leaf | null> {
   const client = clientOverride || supabase
   
@@ -128,7 +132,7 @@ export async function createUnassignedLeaf(
       .select()
       .single(),
     'Failed to create unassigned leaf'
-  ).then(result => result.data as Leaf)
+  ).then(result => result.data as Leaf | null)
 }
 
 /**
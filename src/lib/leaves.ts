@@ -3,9 +3,11 @@
  * Helper functions for working with the Leaves memory system
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase/client'
 import { Leaf, LeafWithDetails, LeafReaction, LeafShare, Milestone, ReactionType } from '@/types/database'
 import { createComponentLogger } from '@/lib/logger'
+import { getLeafAnalyzer, ResponseAnalysisStore } from '@/lib/ai/responseAnalysisStore'
 
 const logger = createComponentLogger('LeafService')
 
@@ -47,6 +49,10 @@ export async function createLeaf(leafData: CreateLeafData): Promise<Leaf | null>
       action: 'createLeaf', 
       metadata: { leafId: data.id, branchId: leafData.branch_id }
     })
+
+    // Analysis is stored for search and prompting; the new leaf doesn't wait for it
+    void getLeafAnalyzer().analyzeLeaf(data)
+
     return data
   } catch (error) {
     logger.error('Unexpected error creating leaf', error, { metadata: { action: 'createLeaf' } })
@@ -278,7 +284,8 @@ export async function getMilestonesByCategory(category: string): Promise<Milesto
 }
 
 /**
- * Search leaves by content, tags, or milestones
+ * Search leaves by content, tags, or milestones. The query also matches the
+ * topics, people and places found when each leaf was analyzed.
  */
 export async function searchLeaves(
   query: string, 
@@ -298,9 +305,17 @@ export async function searchLeaves(
       .from('leaves_with_details')
       .select('*')
 
-    // Text search
+    // Text search, including leaves whose analysis lists the query as a topic, person or place
     if (query.trim()) {
-      queryBuilder = queryBuilder.or(`content.ilike.%${query}%,ai_caption.ilike.%${query}%`)
+      const analyzedLeafIds = await new ResponseAnalysisStore(supabase).findLeafIds(query).catch(error => {
+        logger.warn('Could not search leaf analysis', { metadata: { query, error: error instanceof Error ? error.message : error } })
+        return [] as string[]
+      })
+      queryBuilder = queryBuilder.or([
+        `content.ilike.%${query}%`,
+        `ai_caption.ilike.%${query}%`,
+        ...(analyzedLeafIds.length > 0 ? [`id.in.(${analyzedLeafIds.join(',')})`] : [])
+      ].join(','))
     }
 
     // Tree/Branch filters
@@ -350,9 +365,13 @@ export async function searchLeaves(
 }
 
 /**
- * Get leaf statistics for a tree
+ * Get leaf statistics for a tree, optionally for leaves created in a period
+ * (`to` is exclusive). Server code passes its own client.
  */
-export async function getTreeStats(treeId: string): Promise<{
+export async function getTreeStats(
+  treeId: string,
+  options: { from?: string; to?: string; client?: SupabaseClient } = {}
+): Promise<{
   totalLeaves: number
   milestoneCount: number
   recentLeaves: number
@@ -360,11 +379,20 @@ export async function getTreeStats(treeId: string): Promise<{
   seasonBreakdown: { [key: string]: number }
 }> {
   try {
-    const { data, error } = await supabase
+    let query = (options.client || supabase)
       .from('leaves_with_details')
       .select('leaf_type, season, milestone_type, created_at')
       .eq('tree_id', treeId)
 
+    if (options.from) {
+      query = query.gte('created_at', options.from)
+    }
+    if (options.to) {
+      query = query.lt('created_at', options.to)
+    }
+
+    const { data, error } = await query
+
     if (error) {
       logger.error('Error fetching tree stats', error, { metadata: { treeId } })
       return {
@@ -0,0 +1,145 @@
+/**
+ * Milestone Tracker
+ * Compares a person tree's captured milestone leaves with the milestones
+ * typically reached at the person's age, so families can see which firsts
+ * are coming up and which they haven't captured yet
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { Milestone, Tree } from '@/types/database'
+import { getMilestones } from './leaves'
+import { createComponentLogger } from './logger'
+
+const logger = createComponentLogger('MilestoneTracker')
+
+export const MILESTONE_TRACKER = {
+  UPCOMING_WINDOW_MONTHS: 3, // how far ahead of the current age "coming up" looks
+} as const
+
+export interface MilestoneLeaf {
+  id: string
+  milestone_type: string
+  milestone_date: string | null
+  created_at: string
+}
+
+export interface AchievedMilestone {
+  milestone: Milestone
+  leafId: string
+  achievedAt: string
+}
+
+export interface MilestoneProgress {
+  treeId: string
+  personName: string
+  ageMonths: number | null
+  achieved: AchievedMilestone[]
+  upcoming: Milestone[]
+  // Milestones typically reached before the current age with no leaf yet
+  uncaptured: Milestone[]
+}
+
+/**
+ * Whole calendar months between a birth date and now, or null when unknown
+ */
+export function calculateAgeInMonths(birthDate: string | null, now: Date = new Date()): number | null {
+  if (!birthDate) return null
+
+  const birth = new Date(birthDate)
+  if (isNaN(birth.getTime()) || birth > now) return null
+
+  let months = (now.getUTCFullYear() - birth.getUTCFullYear()) * 12 + (now.getUTCMonth() - birth.getUTCMonth())
+  if (now.getUTCDate() < birth.getUTCDate()) {
+    months--
+  }
+  return months
+}
+
+/**
+ * Sort milestones into achieved, upcoming and uncaptured for a person's age.
+ * Milestones without a typical age only ever appear as achieved.
+ */
+export function buildMilestoneProgress(
+  tree: Pick<Tree, 'id' | 'person_name' | 'person_birth_date'>,
+  milestones: Milestone[],
+  leaves: MilestoneLeaf[],
+  now: Date = new Date()
+): MilestoneProgress {
+  const ageMonths = calculateAgeInMonths(tree.person_birth_date, now)
+
+  // The earliest leaf for each milestone marks when it was achieved
+  const firstLeaves = new Map<string, MilestoneLeaf>()
+  for (const leaf of leaves) {
+    const current = firstLeaves.get(leaf.milestone_type)
+    if (!current || achievedAt(leaf) < achievedAt(current)) {
+      firstLeaves.set(leaf.milestone_type, leaf)
+    }
+  }
+
+  const achieved: AchievedMilestone[] = []
+  const upcoming: Milestone[] = []
+  const uncaptured: Milestone[] = []
+
+  for (const milestone of milestones) {
+    const leaf = firstLeaves.get(milestone.name)
+    if (leaf) {
+      achieved.push({ milestone, leafId: leaf.id, achievedAt: achievedAt(leaf) })
+      continue
+    }
+
+    const typicalAge = milestone.typical_age_months
+    if (ageMonths === null || typicalAge === null) continue
+
+    if (typicalAge < ageMonths) {
+      uncaptured.push(milestone)
+    } else if (typicalAge <= ageMonths + MILESTONE_TRACKER.UPCOMING_WINDOW_MONTHS) {
+      upcoming.push(milestone)
+    }
+  }
+
+  const byTypicalAge = (a: Milestone, b: Milestone) => (a.typical_age_months ?? 0) - (b.typical_age_months ?? 0)
+  achieved.sort((a, b) => a.achievedAt.localeCompare(b.achievedAt))
+  upcoming.sort(byTypicalAge)
+  uncaptured.sort(byTypicalAge)
+
+  return { treeId: tree.id, personName: tree.person_name, ageMonths, achieved, upcoming, uncaptured }
+}
+
+/**
+ * Get milestone progress for a person tree
+ */
+export async function getMilestoneProgress(treeId: string, now: Date = new Date()): Promise<MilestoneProgress | null> {
+  try {
+    const { data: tree, error: treeError } = await supabase
+      .from('trees')
+      .select('id, person_name, person_birth_date')
+      .eq('id', treeId)
+      .single()
+
+    if (treeError || !tree) {
+      logger.error('Error fetching tree for milestone progress', treeError, { metadata: { treeId } })
+      return null
+    }
+
+    const { data: leaves, error: leavesError } = await supabase
+      .from('leaves_with_details')
+      .select('id, milestone_type, milestone_date, created_at')
+      .eq('tree_id', treeId)
+      .not('milestone_type', 'is', null)
+
+    if (leavesError) {
+      logger.error('Error fetching milestone leaves', leavesError, { metadata: { treeId } })
+      return null
+    }
+
+    const milestones = await getMilestones()
+    return buildMilestoneProgress(tree, milestones, leaves || [], now)
+  } catch (error) {
+    logger.error('Unexpected error building milestone progress', error, { metadata: { treeId } })
+    return null
+  }
+}
+
+function achievedAt(leaf: MilestoneLeaf): string {
+  return leaf.milestone_date || leaf.created_at
+}
@@ -0,0 +1,110 @@
+import sgMail from '@sendgrid/mail'
+import { NotificationDeliveryService } from '../delivery'
+import { createServiceClient } from '@/lib/supabase/service'
+import { createFakeSupabase, type FakeTables } from '@/__tests__/utils/fake-supabase'
+
+jest.mock('@/lib/logger', () => ({
+  createComponentLogger: () => ({
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+  }),
+}))
+
+jest.mock('@sendgrid/mail', () => ({
+  __esModule: true,
+  default: {
+    setApiKey: jest.fn(),
+    send: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/supabase/service', () => ({
+  createServiceClient: jest.fn(),
+}))
+
+const preferences = {
+  email_processing_failed: true,
+  inapp_tree_invitations: true,
+}
+
+function setup(queueItem: Record<string, unknown>) {
+  const tables: FakeTables = {
+    notification_queue: [{
+      id: 'notification-1',
+      status: 'pending',
+      scheduled_for: '2026-10-18T09:00:00.000Z',
+      delivery_attempts: 0,
+      user_notification_preferences: preferences,
+      ...queueItem,
+    }],
+  }
+
+  const client = Object.assign(createFakeSupabase(tables), {
+    auth: {
+      admin: {
+        getUserById: async (id: string) => ({ data: { user: { id, email: 'parent@example.com' } }, error: null }),
+      },
+    },
+  })
+  ;(createServiceClient as jest.Mock).mockReturnValue(client)
+
+  return { tables, service: new NotificationDeliveryService() }
+}
+
+describe('NotificationDeliveryService', () => {
+  const originalApiKey = process.env.SENDGRID_API_KEY
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.SENDGRID_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    process.env.SENDGRID_API_KEY = originalApiKey
+  })
+
+  it('tells tree managers about held mail by email and in the app', async () => {
+    const { tables, service } = setup({
+      user_id: 'manager-1',
+      notification_type: 'email.quarantined',
+      title: 'Email Awaiting Approval',
+      message: 'aunt@example.com emailed "Picnic photos" to Maya. Approve it to add it as a memory.',
+      context_type: 'tree',
+      context_id: 'tree-1',
+      metadata: { quarantine_id: 'quarantine-1', sender: 'aunt@example.com', email_subject: 'Picnic photos' },
+    })
+
+    await service.processNotificationQueue()
+
+    expect(sgMail.send).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'parent@example.com',
+      subject: 'Email Awaiting Approval: Picnic photos',
+    }))
+    expect(tables.inapp_notifications).toEqual([
+      expect.objectContaining({ user_id: 'manager-1', notification_type: 'email.quarantined', context_id: 'tree-1' }),
+    ])
+    expect(tables.notification_queue[0].status).toBe('completed')
+    expect(tables.notification_history[0].delivery_method).toBe('email,inapp')
+  })
+
+  it('escapes memory titles in digests', async () => {
+    const { service } = setup({
+      user_id: 'parent-1',
+      notification_type: 'digest.daily',
+      title: 'Your daily digest',
+      message: '1 new memory',
+      context_type: 'tree',
+      context_id: 'tree-1',
+      user_notification_preferences: { email_daily_digest: true },
+      metadata: { memories: [{ title: '<img src=x onerror=alert(1)> & cake' }] },
+    })
+
+    await service.processNotificationQueue()
+
+    const [{ html, text }] = (sgMail.send as jest.Mock).mock.calls[0]
+    expect(html).toContain('<li>&lt;img src&#x3D;x onerror&#x3D;alert(1)&gt; &amp; cake</li>')
+    expect(html).not.toContain('<img')
+    expect(text).toContain('- <img src=x onerror=alert(1)> & cake')
+  })
+})
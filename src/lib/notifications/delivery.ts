@@ -1,5 +1,12 @@
 import { createServiceClient } from '@/lib/supabase/service'
 import { createComponentLogger } from '@/lib/logger'
+import {
+  createReplyToken,
+  buildReplyAddress,
+  buildNotificationMessageId,
+  getNotificationLeafId
+} from '@/lib/email/reply-token'
+import { escapeHtml } from '@/lib/validation/sanitization'
 import sgMail from '@sendgrid/mail'
 import type { 
   NotificationQueue, 
@@ -27,8 +34,10 @@ interface NotificationContext {
   memory_title?: string
   branch_name?: string
   tree_name?: string
+  context_name?: string // branch or tree a role grant applies to
   sender_name?: string
   error_message?: string
+  action_path?: string // app path the email button links to, defaults to the dashboard
   [key: string]: any
 }
 
@@ -217,8 +226,12 @@ export class NotificationDeliveryService {
       'memory.processing': 'email_memory_processing',
       'email.processing.success': 'email_processing_success',
       'email.processing.failed': 'email_processing_failed',
+      // Held mail is another way an emailed memory didn't arrive, so it follows that setting
+      'email.quarantined': 'email_processing_failed',
       'branch.invitation': 'email_branch_invitations',
       'tree.invitation': 'email_tree_invitations',
+      // Temporary access is handed out like an invitation, so it follows that setting
+      'role.expiring': 'email_branch_invitations',
       'branch.activity': 'email_branch_activity',
       'system.update': 'email_system_updates',
       'digest.daily': 'email_daily_digest',
@@ -238,6 +251,8 @@ export class NotificationDeliveryService {
       'memory.assigned': 'inapp_memory_assignments',
       'branch.invitation': 'inapp_branch_invitations',
       'tree.invitation': 'inapp_tree_invitations',
+      'email.quarantined': 'inapp_tree_invitations',
+      'role.expiring': 'inapp_branch_invitations',
       'system.update': 'inapp_system_updates'
     }
 
@@ -263,19 +278,55 @@ export class NotificationDeliveryService {
       throw new Error('Failed to get user email')
     }
 
-    const template = this.getEmailTemplate(item.notification_type, item.title, item.message, context)
-    
+    const template = this.getEmailTemplate(item.notification_type, item.title, item.message, context, item.id)
+
+    // Replies to notifications about a leaf are added to it as comments
+    const replyToken = getNotificationLeafId(item) ? createReplyToken(item.id) : null
+
     const msg = {
       to: user.user.email,
       from: process.env.FROM_EMAIL || 'noreply@yourdomain.com',
       subject: template.subject,
       text: template.textContent,
       html: template.htmlContent,
+      ...(replyToken && { replyTo: buildReplyAddress(replyToken) }),
+      headers: {
+        // Ask vacation responders and similar not to answer (RFC 3834)
+        'Auto-Submitted': 'auto-generated',
+        'X-Auto-Response-Suppress': 'All',
+        ...(replyToken && { 'Message-ID': buildNotificationMessageId(replyToken) })
+      }
     }
 
     await sgMail.send(msg)
   }
 
+  /**
+   * Email an address that has no account, so there are no preferences to
+   * check and no dashboard to link to
+   */
+  async sendEmailToAddress(to: string, subject: string, message: string): Promise<void> {
+    if (!process.env.SENDGRID_API_KEY) {
+      throw new Error('SendGrid API key not configured')
+    }
+
+    await sgMail.send({
+      to,
+      from: process.env.FROM_EMAIL || 'noreply@yourdomain.com',
+      subject,
+      text: message,
+      html: `
+      <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+        <p style="color: #4b5563; line-height: 1.5;">${escapeHtml(message)}</p>
+      </div>
+    `,
+      headers: {
+        'Auto-Submitted': 'auto-generated',
+        'X-Auto-Response-Suppress': 'All'
+      }
+    })
+  }
+
   /**
    * Send in-app notification
    */
@@ -309,9 +360,13 @@ export class NotificationDeliveryService {
     type: string, 
     title: string, 
     message: string, 
-    context: NotificationContext
+    context: NotificationContext,
+    notificationId: string
   ): EmailTemplate {
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    const actionUrl = `${baseUrl}${context.action_path || '/dashboard'}`
+    const memoryList = this.getDigestMemoryList(type, title, context, notificationId)
+    const recapList = this.getDigestRecaps(type, context, baseUrl)
     
     // Default template
     let subject = title
@@ -320,7 +375,9 @@ export class NotificationDeliveryService {
         <div style="background: #f8fafc; padding: 20px; border-radius: 8px;">
           <h2 style="color: #1f2937; margin: 0 0 16px 0;">${title}</h2>
           <p style="color: #4b5563; margin: 0 0 20px 0; line-height: 1.5;">${message}</p>
-          <a href="${baseUrl}/dashboard" 
+          ${memoryList.html}
+          ${recapList.html}
+          <a href="${actionUrl}" 
              style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
             View in Dashboard
           </a>
@@ -330,7 +387,7 @@ export class NotificationDeliveryService {
         </div>
       </div>
     `
-    const textContent = `${title}\n\n${message}\n\nView in Dashboard: ${baseUrl}/dashboard\n\nManage notifications: ${baseUrl}/settings/notifications`
+    const textContent = `${title}\n\n${message}${memoryList.text}${recapList.text}\n\nView in Dashboard: ${actionUrl}\n\nManage notifications: ${baseUrl}/settings/notifications`
 
     // Customize templates based on notification type
     switch (type) {
@@ -340,8 +397,14 @@ export class NotificationDeliveryService {
       case 'memory.assigned':
         subject = `Memory Assigned: ${context.memory_title || title}`
         break
+      case 'email.processing.success':
+        subject = `Memory Created: ${context.memory_title || title}`
+        break
       case 'email.processing.failed':
-        subject = `Email Processing Failed: ${context.memory_title || title}`
+        subject = `Email Processing Failed: ${context.email_subject || context.memory_title || title}`
+        break
+      case 'email.quarantined':
+        subject = `Email Awaiting Approval: ${context.email_subject || title}`
         break
       case 'branch.invitation':
         subject = `Branch Invitation: ${context.branch_name || title}`
@@ -349,11 +412,80 @@ export class NotificationDeliveryService {
       case 'tree.invitation':
         subject = `Tree Invitation: ${context.tree_name || title}`
         break
+      case 'role.expiring':
+        subject = `Access Ending: ${context.context_name || title}`
+        break
     }
 
     return { subject, htmlContent, textContent }
   }
 
+  /**
+   * List the memories of a digest, each with a reply link whose address is
+   * tied to that memory, since one digest email covers several leaves
+   */
+  private getDigestMemoryList(
+    type: string,
+    title: string,
+    context: NotificationContext,
+    notificationId: string
+  ): { html: string; text: string } {
+    const memories: Array<{ title?: string }> = Array.isArray(context.memories) ? context.memories : []
+    if (!type.startsWith('digest.') || memories.length === 0) {
+      return { html: '', text: '' }
+    }
+
+    const items = memories.map((memory, index) => {
+      const token = createReplyToken(notificationId, index)
+      return {
+        title: memory.title || 'Untitled memory',
+        replyAddress: token ? buildReplyAddress(token) : null
+      }
+    })
+
+    const replySubject = encodeURIComponent(`Re: ${title}`)
+    const html = `
+          <ul style="color: #4b5563; margin: 0 0 20px 0; padding-left: 20px; line-height: 1.8;">
+            ${items.map(item => `<li>${escapeHtml(item.title)}${item.replyAddress
+              ? ` &middot; <a href="mailto:${item.replyAddress}?subject=${replySubject}" style="color: #3b82f6;">Reply</a>`
+              : ''}</li>`).join('')}
+          </ul>`
+    const text = `\n\n${items.map(item =>
+      `- ${item.title}${item.replyAddress ? ` (reply: ${item.replyAddress})` : ''}`
+    ).join('\n')}`
+
+    return { html, text }
+  }
+
+  /**
+   * The recap stories published for the reader's trees during the digest
+   * period, in full, since they are written to be read in the email
+   */
+  private getDigestRecaps(
+    type: string,
+    context: NotificationContext,
+    baseUrl: string
+  ): { html: string; text: string } {
+    const recaps: Array<{ tree_id: string; title: string; narrative: string }> = Array.isArray(context.recaps) ? context.recaps : []
+    if (!type.startsWith('digest.') || recaps.length === 0) {
+      return { html: '', text: '' }
+    }
+
+    const html = recaps.map(recap => `
+          <div style="background: white; padding: 16px; border-radius: 6px; margin: 0 0 20px 0;">
+            <h3 style="color: #1f2937; margin: 0 0 12px 0;">${escapeHtml(recap.title)}</h3>
+            ${recap.narrative.split(/\n{2,}/).map(paragraph =>
+              `<p style="color: #4b5563; margin: 0 0 12px 0; line-height: 1.6;">${escapeHtml(paragraph)}</p>`
+            ).join('')}
+            <a href="${baseUrl}/trees/${recap.tree_id}/leaves" style="color: #3b82f6;">See the memories</a>
+          </div>`).join('')
+    const text = recaps.map(recap =>
+      `\n\n${recap.title}\n\n${recap.narrative}\n\nSee the memories: ${baseUrl}/trees/${recap.tree_id}/leaves`
+    ).join('')
+
+    return { html, text }
+  }
+
   /**
    * Get expiration date for in-app notifications
    */
@@ -363,6 +495,8 @@ export class NotificationDeliveryService {
       'memory.assigned': 60,
       'branch.invitation': 14,
       'tree.invitation': 14,
+      'email.quarantined': 30,
+      'role.expiring': 7,
       'system.update': 90
     }
 
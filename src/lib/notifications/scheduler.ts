@@ -210,8 +210,10 @@ export class NotificationSchedulerService {
         return
       }
 
+      const recaps = await this.getPublishedRecaps(userId, startDate, endDate)
+
       // Skip if no activity
-      if (!recentMemories || recentMemories.length === 0) {
+      if ((!recentMemories || recentMemories.length === 0) && recaps.length === 0) {
         logger.info('No recent activity for user digest', {
           metadata: { userId, type }
         })
@@ -219,9 +221,11 @@ export class NotificationSchedulerService {
       }
 
       // Generate digest content
-      const memoryCount = recentMemories.length
+      const memoryCount = recentMemories?.length || 0
       const title = `Your ${type} memory digest`
-      const message = `You have ${memoryCount} new memor${memoryCount === 1 ? 'y' : 'ies'} from the past ${type === 'daily' ? 'day' : 'week'}.`
+      const message = memoryCount > 0
+        ? `You have ${memoryCount} new memor${memoryCount === 1 ? 'y' : 'ies'} from the past ${type === 'daily' ? 'day' : 'week'}.`
+        : `A new recap story is ready from the past ${type === 'daily' ? 'day' : 'week'}.`
 
       // Queue digest notification
       await this.queueNotification({
@@ -232,16 +236,17 @@ export class NotificationSchedulerService {
         metadata: {
           digest_type: type,
           memory_count: memoryCount,
-          memories: recentMemories.map(m => ({
+          memories: (recentMemories || []).map(m => ({
             id: m.id,
             title: m.title,
             created_at: m.created_at
-          }))
+          })),
+          recaps
         }
       })
 
       logger.info('Digest notification generated', {
-        metadata: { userId, type, memoryCount }
+        metadata: { userId, type, memoryCount, recapCount: recaps.length }
       })
 
     } catch (error) {
@@ -250,6 +255,44 @@ export class NotificationSchedulerService {
       })
     }
   }
+
+  /**
+   * Recap stories published during the digest period for trees the user
+   * belongs to or manages
+   */
+  private async getPublishedRecaps(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Array<{ id: string; tree_id: string; title: string; narrative: string }>> {
+    const [{ data: memberships }, { data: managedTrees }] = await Promise.all([
+      this.supabase.from('tree_members').select('tree_id').eq('user_id', userId),
+      this.supabase.from('trees').select('id').contains('managed_by', [userId])
+    ])
+
+    const treeIds = [...new Set([
+      ...(memberships || []).map(membership => membership.tree_id as string),
+      ...(managedTrees || []).map(tree => tree.id as string)
+    ])]
+    if (treeIds.length === 0) {
+      return []
+    }
+
+    const { data: recaps, error } = await this.supabase
+      .from('person_recaps')
+      .select('id, tree_id, title, narrative')
+      .in('tree_id', treeIds)
+      .eq('status', 'published')
+      .gte('published_at', startDate.toISOString())
+      .lt('published_at', endDate.toISOString())
+      .order('published_at', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to fetch recaps for digest', error, { metadata: { userId } })
+      return []
+    }
+    return recaps || []
+  }
 }
 
 // Export singleton instance
@@ -342,21 +385,75 @@ export const notifications = {
     emailSubject: string
     memoryId: string
     memoryTitle: string
+    treeId?: string
+    branchNames?: string[]
+    oversizedAttachments?: string[]
   }): Promise<void> {
+    const { branchNames = [], oversizedAttachments = [] } = params
+    const placement = branchNames.length > 0
+      ? ` It was added to ${branchNames.join(', ')}.`
+      : ''
+    const attachmentNote = oversizedAttachments.length > 0
+      ? ` ${oversizedAttachments.join(', ')} ${oversizedAttachments.length === 1 ? 'was' : 'were'} too large to attach.`
+      : ''
+
     await notificationScheduler.queueNotification({
       userId: params.userId,
       type: 'email.processing.success',
       title: 'Email Processed Successfully',
-      message: `Email "${params.emailSubject}" has been converted to memory: "${params.memoryTitle}".`,
+      message: `Email "${params.emailSubject}" has been converted to memory: "${params.memoryTitle}".${placement}${attachmentNote}`,
       contextType: 'memory',
       contextId: params.memoryId,
       metadata: {
         email_subject: params.emailSubject,
-        memory_title: params.memoryTitle
+        memory_title: params.memoryTitle,
+        branch_names: branchNames,
+        oversized_attachments: oversizedAttachments,
+        ...(params.treeId && { action_path: `/trees/${params.treeId}/leaves` })
       }
     })
   },
 
+  /**
+   * Notify tree managers that an email from an unverified sender is waiting for review
+   */
+  async notifyEmailQuarantined(params: {
+    treeId: string
+    quarantineId: string
+  }): Promise<void> {
+    const supabase = createServiceClient()
+    const { data: item, error } = await supabase
+      .from('email_quarantine')
+      .select('sender, subject, trees(person_name, managed_by)')
+      .eq('id', params.quarantineId)
+      .single()
+
+    if (error || !item) {
+      logger.error('Failed to fetch quarantined email for notification', error, {
+        metadata: { quarantineId: params.quarantineId }
+      })
+      return
+    }
+
+    const tree = item.trees as unknown as { person_name: string | null; managed_by: string[] | null }
+
+    for (const userId of tree?.managed_by || []) {
+      await notificationScheduler.queueNotification({
+        userId,
+        type: 'email.quarantined',
+        title: 'Email Awaiting Approval',
+        message: `${item.sender} emailed "${item.subject || '(no subject)'}" to ${tree.person_name || 'a tree you manage'}. Approve it to add it as a memory.`,
+        contextType: 'tree',
+        contextId: params.treeId,
+        metadata: {
+          quarantine_id: params.quarantineId,
+          sender: item.sender,
+          email_subject: item.subject
+        }
+      })
+    }
+  },
+
   /**
    * Notify about branch invitation
    */
@@ -407,6 +504,54 @@ export const notifications = {
     })
   },
 
+  /**
+   * Warn a grantee, and whoever granted the role, that temporary access ends soon
+   */
+  async notifyRoleExpiring(params: {
+    userId: string
+    userName: string
+    grantedBy: string | null
+    roleName: string
+    contextType: string
+    contextId: string | null
+    contextName: string
+    expiresAt: string
+  }): Promise<void> {
+    const endsAt = new Date(params.expiresAt).toLocaleString('en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: 'UTC'
+    })
+    const metadata = {
+      role_name: params.roleName,
+      context_name: params.contextName,
+      expires_at: params.expiresAt,
+      grantee_id: params.userId
+    }
+
+    await notificationScheduler.queueNotification({
+      userId: params.userId,
+      type: 'role.expiring',
+      title: 'Access Ending Soon',
+      message: `Your ${params.roleName} access to ${params.contextName} ends on ${endsAt} UTC.`,
+      contextType: params.contextType,
+      contextId: params.contextId || undefined,
+      metadata
+    })
+
+    if (params.grantedBy && params.grantedBy !== params.userId) {
+      await notificationScheduler.queueNotification({
+        userId: params.grantedBy,
+        type: 'role.expiring',
+        title: 'Access Ending Soon',
+        message: `The ${params.roleName} access you gave ${params.userName} to ${params.contextName} ends on ${endsAt} UTC. Grant it again to extend it.`,
+        contextType: params.contextType,
+        contextId: params.contextId || undefined,
+        metadata
+      })
+    }
+  },
+
   /**
    * Notify about system updates
    */
@@ -0,0 +1,114 @@
+/**
+ * Permission cache
+ *
+ * RBACService caches resolved roles and permissions for a bounded time. The
+ * store is pluggable: each process keeps its own in-memory store by default,
+ * and server code can share a Redis store across instances (see
+ * src/lib/security/redisPermissionCache.ts). Entries are keyed by user so a
+ * user's entries can be dropped together when their roles or memberships change.
+ */
+
+// Changes made elsewhere (another instance, the browser) show up within this long
+export const PERMISSION_CACHE_TTL_MS = 5 * 60 * 1000
+
+export interface PermissionCacheStore {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  deleteByPrefix(prefix: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export interface PermissionCacheMetrics {
+  hits: number
+  misses: number
+  hitRate: number
+}
+
+export class MemoryPermissionCacheStore implements PermissionCacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>()
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+export class PermissionCache {
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private store: PermissionCacheStore = new MemoryPermissionCacheStore(),
+    private ttlMs: number = PERMISSION_CACHE_TTL_MS
+  ) {}
+
+  static key(userId: string, ...parts: string[]): string {
+    return [userId, ...parts].join(':')
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.store.get(key)
+    if (value === null) {
+      this.misses++
+      return undefined
+    }
+
+    this.hits++
+    return JSON.parse(value) as T
+  }
+
+  /**
+   * Cache a value for the TTL, or until `expiresAt` (ms) if that comes first,
+   * e.g. when a temporary role grant it was derived from ends
+   */
+  async set<T>(key: string, value: T, expiresAt: number | null = null): Promise<void> {
+    const ttlMs = expiresAt === null ? this.ttlMs : Math.min(this.ttlMs, expiresAt - Date.now())
+    if (ttlMs <= 0) return
+
+    await this.store.set(key, JSON.stringify(value), ttlMs)
+  }
+
+  async invalidateUser(userId: string): Promise<void> {
+    await this.store.deleteByPrefix(`${userId}:`)
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear()
+  }
+
+  getMetrics(): PermissionCacheMetrics {
+    const lookups = this.hits + this.misses
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    }
+  }
+
+  resetMetrics(): void {
+    this.hits = 0
+    this.misses = 0
+  }
+}
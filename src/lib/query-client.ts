@@ -57,6 +57,7 @@ export const queryKeys = {
     byId: (treeId: string) => ['trees', 'detail', treeId] as const,
     withRelations: (treeId: string) => ['trees', 'relations', treeId] as const,
     stats: (treeId: string) => ['trees', 'stats', treeId] as const,
+    permissions: (userId: string, treeId: string) => ['trees', 'permissions', treeId, userId] as const,
   },
   // Branch-related queries
   branches: {
@@ -1,19 +1,42 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from './supabase/client'
 import type { 
   UserRole, 
   BranchPermissions, 
+  TreePermissions,
   RBACContext, 
   UserPermissions,
-  CrossTreeAccess
+  UserRoleAssignment,
+  CrossTreeAccess,
+  CustomRole
 } from '@/types/database'
 import { createComponentLogger } from './logger'
+import { PermissionCache, type PermissionCacheMetrics } from './permission-cache'
+import { applyPermissionGrants } from './custom-roles'
 
 const logger = createComponentLogger('RBACService')
 
+// Grants without an expiry never lapse; the rest only count until expires_at
+function activeGrantFilter(now: Date = new Date()): string {
+  return `expires_at.is.null,expires_at.gt.${now.toISOString()}`
+}
+
+function earliestExpiry(grants: Array<{ expires_at?: string | null }>): number | null {
+  const expiries = grants
+    .map(grant => grant.expires_at ? new Date(grant.expires_at).getTime() : null)
+    .filter((expiry): expiry is number => expiry !== null)
+  return expiries.length > 0 ? Math.min(...expiries) : null
+}
+
 export class RBACService {
   private static instance: RBACService
-  private permissionsCache: Map<string, UserPermissions> = new Map()
-  private roleCache: Map<string, UserRole | 'none'> = new Map()
+
+  // Server code passes its own client, and usually the shared server cache;
+  // the shared instance uses the browser client and an in-memory cache
+  constructor(
+    private client: SupabaseClient = supabase,
+    private cache: PermissionCache = new PermissionCache()
+  ) {}
 
   static getInstance(): RBACService {
     if (!RBACService.instance) {
@@ -22,45 +45,62 @@ export class RBACService {
     return RBACService.instance
   }
 
-  // Clear caches when user context changes
-  clearCache(userId?: string): void {
+  // Clear caches when user context changes, e.g. after role or membership changes
+  async clearCache(userId?: string): Promise<void> {
     if (userId) {
-      this.permissionsCache.delete(userId)
-      this.roleCache.delete(userId)
+      await this.cache.invalidateUser(userId)
     } else {
-      this.permissionsCache.clear()
-      this.roleCache.clear()
+      await this.cache.clear()
     }
   }
 
+  getCacheMetrics(): PermissionCacheMetrics {
+    return this.cache.getMetrics()
+  }
+
   // Get user's role in a specific context (branch, tree, global)
   async getUserRole(
     userId: string, 
     context: RBACContext
   ): Promise<UserRole | 'none'> {
-    const cacheKey = `${userId}:${context.type}:${context.id || 'global'}`
-    
-    if (this.roleCache.has(cacheKey)) {
-      return this.roleCache.get(cacheKey)!
+    const cacheKey = PermissionCache.key(userId, 'role', context.type, context.id || 'global')
+
+    const cachedRole = await this.cache.get<UserRole | 'none'>(cacheKey)
+    if (cachedRole !== undefined) {
+      return cachedRole
     }
 
     try {
       // First check if user is branch creator (automatic owner)
       if (context.type === 'branch' && context.id) {
-        const { data: branch } = await supabase
+        const { data: branch } = await this.client
           .from('branches')
           .select('created_by')
           .eq('id', context.id)
           .single()
         
         if (branch?.created_by === userId) {
-          this.roleCache.set(cacheKey, 'owner')
+          await this.cache.set(cacheKey, 'owner')
           return 'owner'
         }
       }
 
-      // Check assigned roles
-      const query = supabase
+      // Likewise the tree creator owns the tree
+      if (context.type === 'tree' && context.id) {
+        const { data: tree } = await this.client
+          .from('trees')
+          .select('created_by')
+          .eq('id', context.id)
+          .maybeSingle()
+
+        if (tree?.created_by === userId) {
+          await this.cache.set(cacheKey, 'owner')
+          return 'owner'
+        }
+      }
+
+      // Check assigned roles that haven't expired
+      const query = this.client
         .from('user_roles')
         .select(`
           *,
@@ -68,6 +108,7 @@ export class RBACService {
         `)
         .eq('user_id', userId)
         .eq('context_type', context.type)
+        .or(activeGrantFilter())
 
       if (context.id) {
         query.eq('context_id', context.id)
@@ -80,19 +121,20 @@ export class RBACService {
       if (error) throw error
 
       if (!userRoles || userRoles.length === 0) {
-        this.roleCache.set(cacheKey, 'none')
+        await this.cache.set(cacheKey, 'none')
         return 'none'
       }
 
-      // Get the highest priority role
+      // Get the highest priority role; a tree's custom roles are resolved by getCustomRole
       const roleHierarchy = ['owner', 'admin', 'moderator', 'member', 'viewer']
       const highestRole = userRoles
+        .filter(ur => ur.role?.is_system_role !== false)
         .map(ur => ur.role?.name)
-        .filter(Boolean)
+        .filter(name => roleHierarchy.includes(name))
         .sort((a, b) => roleHierarchy.indexOf(a) - roleHierarchy.indexOf(b))[0]
 
       const role = (highestRole as UserRole) || 'none'
-      this.roleCache.set(cacheKey, role)
+      await this.cache.set(cacheKey, role, earliestExpiry(userRoles))
       return role
 
     } catch (error) {
@@ -101,6 +143,57 @@ export class RBACService {
     }
   }
 
+  // Get the tree-defined role a user holds in a context, with its permissions
+  async getCustomRole(
+    userId: string,
+    context: RBACContext
+  ): Promise<Pick<CustomRole, 'id' | 'name' | 'permissions'> | null> {
+    const cacheKey = PermissionCache.key(userId, 'customRole', context.type, context.id || 'global')
+
+    const cachedRole = await this.cache.get<Pick<CustomRole, 'id' | 'name' | 'permissions'> | null>(cacheKey)
+    if (cachedRole !== undefined) {
+      return cachedRole
+    }
+
+    try {
+      const { data: userRoles, error } = await this.client
+        .from('user_roles')
+        .select(`
+          *,
+          role:roles(
+            *,
+            role_permissions(
+              permission:permissions(resource_type, action)
+            )
+          )
+        `)
+        .eq('user_id', userId)
+        .eq('context_type', context.type)
+        .eq('context_id', context.id)
+        .or(activeGrantFilter())
+
+      if (error) throw error
+
+      const grant = (userRoles || []).find(ur => ur.role && ur.role.is_system_role === false)
+      const customRole = grant
+        ? {
+            id: grant.role.id,
+            name: grant.role.name,
+            permissions: (grant.role.role_permissions || [])
+              .map((rp: { permission?: CustomRole['permissions'][number] }) => rp.permission)
+              .filter(Boolean)
+          }
+        : null
+
+      await this.cache.set(cacheKey, customRole, grant ? earliestExpiry([grant]) : null)
+      return customRole
+
+    } catch (error) {
+      logger.error('Error getting custom role', error, { metadata: { userId, context } })
+      return null
+    }
+  }
+
   // Check if user has specific permission
   async hasPermission(
     userId: string,
@@ -108,7 +201,7 @@ export class RBACService {
     permissionName: string
   ): Promise<boolean> {
     try {
-      const { data, error } = await supabase.rpc('user_has_permission', {
+      const { data, error } = await this.client.rpc('user_has_permission', {
         check_user_id: userId,
         context_type: context.type,
         context_id: context.id || null,
@@ -129,14 +222,15 @@ export class RBACService {
     userId: string,
     context: RBACContext
   ): Promise<UserPermissions> {
-    const cacheKey = `${userId}:${context.type}:${context.id || 'global'}`
-    
-    if (this.permissionsCache.has(cacheKey)) {
-      return this.permissionsCache.get(cacheKey)!
+    const cacheKey = PermissionCache.key(userId, 'permissions', context.type, context.id || 'global')
+
+    const cachedPermissions = await this.cache.get<UserPermissions>(cacheKey)
+    if (cachedPermissions !== undefined) {
+      return cachedPermissions
     }
 
     try {
-      const { data: userRoles, error } = await supabase
+      const { data: userRoles, error } = await this.client
         .from('user_roles')
         .select(`
           *,
@@ -151,6 +245,7 @@ export class RBACService {
         .eq('user_id', userId)
         .eq('context_type', context.type)
         .eq('context_id', context.id)
+        .or(activeGrantFilter())
 
       if (error) throw error
 
@@ -164,7 +259,7 @@ export class RBACService {
         })
       })
 
-      this.permissionsCache.set(cacheKey, permissions)
+      await this.cache.set(cacheKey, permissions, earliestExpiry(userRoles || []))
       return permissions
 
     } catch (error) {
@@ -181,6 +276,7 @@ export class RBACService {
     try {
       const context: RBACContext = { type: 'branch', id: branchId }
       const userRole = await this.getUserRole(userId, context)
+      const customRole = await this.getCustomRole(userId, context)
       
       // Base permissions object
       const permissions: BranchPermissions = {
@@ -194,13 +290,14 @@ export class RBACService {
         isOwner: userRole === 'owner',
         isAdmin: ['owner', 'admin'].includes(userRole),
         isModerator: ['owner', 'admin', 'moderator'].includes(userRole),
-        userRole
+        userRole,
+        customRole: customRole ? { id: customRole.id, name: customRole.name } : null
       }
 
       // If no role in the branch's tree, check for cross-tree access only (no public branches)
-      if (userRole === 'none') {
+      if (userRole === 'none' && !customRole) {
         // Check for cross-tree access
-        const hasCrossTreeAccess = await hasUserCrossTreeAccess(userId, branchId)
+        const hasCrossTreeAccess = await hasUserCrossTreeAccess(userId, branchId, this.client)
         if (hasCrossTreeAccess) {
           // Get cross-tree permissions - for now, assume basic permissions
           permissions.canRead = true
@@ -264,7 +361,8 @@ export class RBACService {
           break
       }
 
-      return permissions
+      // A custom role adds the permissions its tree owner picked
+      return customRole ? applyPermissionGrants(permissions, customRole.permissions) : permissions
 
     } catch (error) {
       logger.error('Error getting branch permissions', error, { metadata: { userId, branchId } })
@@ -284,53 +382,209 @@ export class RBACService {
     }
   }
 
-  // Assign role to user in context
+  // Get comprehensive tree permissions for a user. Tree managers
+  // (Tree.managed_by) manage the person whatever their role.
+  async getTreePermissions(
+    userId: string,
+    treeId: string
+  ): Promise<TreePermissions> {
+    const permissions: TreePermissions = {
+      canRead: false,
+      canUpdate: false,
+      canDelete: false,
+      canManagePerson: false,
+      canEditRelationships: false,
+      canManageEmailAddresses: false,
+      canInviteMembers: false,
+      canManageMembers: false,
+      canExport: false,
+      isOwner: false,
+      isAdmin: false,
+      isManager: false,
+      userRole: 'none'
+    }
+
+    try {
+      const { data: tree, error } = await this.client
+        .from('trees')
+        .select('id, managed_by')
+        .eq('id', treeId)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!tree) return permissions
+
+      const userRole = await this.getUserRole(userId, { type: 'tree', id: treeId })
+      const isManager = (tree.managed_by || []).includes(userId)
+
+      permissions.userRole = userRole
+      permissions.isOwner = userRole === 'owner'
+      permissions.isAdmin = ['owner', 'admin'].includes(userRole)
+      permissions.isManager = isManager
+
+      // Define permissions based on role
+      switch (userRole) {
+        case 'owner':
+          permissions.canRead = true
+          permissions.canUpdate = true
+          permissions.canDelete = true
+          permissions.canManagePerson = true
+          permissions.canEditRelationships = true
+          permissions.canManageEmailAddresses = true
+          permissions.canInviteMembers = true
+          permissions.canManageMembers = true
+          permissions.canExport = true
+          break
+
+        case 'admin':
+          permissions.canRead = true
+          permissions.canUpdate = true
+          permissions.canInviteMembers = true
+          permissions.canManageMembers = true
+          permissions.canExport = true
+          break
+
+        case 'moderator':
+        case 'member':
+        case 'viewer':
+          permissions.canRead = true
+          break
+
+        case 'none': {
+          // Members without an assigned role can still read the tree
+          const { data: membership } = await this.client
+            .from('tree_members')
+            .select('id')
+            .eq('tree_id', treeId)
+            .eq('user_id', userId)
+            .maybeSingle()
+
+          permissions.canRead = Boolean(membership)
+          break
+        }
+      }
+
+      if (isManager) {
+        permissions.canRead = true
+        permissions.canUpdate = true
+        permissions.canManagePerson = true
+        permissions.canEditRelationships = true
+        permissions.canManageEmailAddresses = true
+        permissions.canInviteMembers = true
+        permissions.canManageMembers = true
+        permissions.canExport = true
+      }
+
+      return permissions
+
+    } catch (error) {
+      logger.error('Error getting tree permissions', error, { metadata: { userId, treeId } })
+      return permissions
+    }
+  }
+
+  // Assign role to user in context, optionally only until expiresAt
   async assignRole(
     userId: string,
     roleName: string,
     context: RBACContext,
-    grantedBy: string
+    grantedBy: string,
+    expiresAt: string | null = null
   ): Promise<boolean> {
     try {
-      // Get role ID
-      const { data: role, error: roleError } = await supabase
+      // Get role ID; custom roles can share a system role's name only in their own tree
+      const { data: role, error: roleError } = await this.client
         .from('roles')
         .select('id')
         .eq('name', roleName)
+        .is('tree_id', null)
         .single()
 
       if (roleError || !role) throw new Error(`Role ${roleName} not found`)
 
-      // Assign role
-      const { error } = await supabase
-        .from('user_roles')
-        .upsert({
-          user_id: userId,
-          role_id: role.id,
-          context_type: context.type,
-          context_id: context.id || null,
-          granted_by: grantedBy
-        })
+      await this.grantRole(userId, role.id, context, grantedBy, expiresAt)
+      return true
 
-      if (error) throw error
+    } catch (error) {
+      logger.error('Error assigning role', error, { metadata: { userId, roleName, context, grantedBy, expiresAt } })
+      return false
+    }
+  }
 
-      // Clear cache
-      this.clearCache(userId)
+  // Assign one of a tree's custom roles, by id, in the tree or one of its branches
+  async assignCustomRole(
+    userId: string,
+    roleId: string,
+    context: RBACContext,
+    grantedBy: string,
+    expiresAt: string | null = null
+  ): Promise<boolean> {
+    try {
+      await this.grantRole(userId, roleId, context, grantedBy, expiresAt)
       return true
 
     } catch (error) {
-      logger.error('Error assigning role', error, { metadata: { userId, roleName, context, grantedBy } })
+      logger.error('Error assigning custom role', error, { metadata: { userId, roleId, context, grantedBy, expiresAt } })
       return false
     }
   }
 
+  // A member holds one role per context, so a new role replaces the old one
+  private async grantRole(
+    userId: string,
+    roleId: string,
+    context: RBACContext,
+    grantedBy: string,
+    expiresAt: string | null
+  ): Promise<void> {
+    // One upsert on the context, so the member is never left without a role
+    const { error } = await this.client
+      .from('user_roles')
+      .upsert({
+        user_id: userId,
+        role_id: roleId,
+        context_type: context.type,
+        context_id: context.id || null,
+        granted_by: grantedBy,
+        expires_at: expiresAt,
+        expiry_notified_at: null
+      }, { onConflict: 'user_id,context_type,context_id' })
+
+    if (error) throw error
+
+    // Clear cache
+    await this.clearCache(userId)
+  }
+
+  // Active role grants in a context, e.g. to show when temporary access ends
+  async getRoleGrants(context: RBACContext): Promise<UserRoleAssignment[]> {
+    try {
+      const { data, error } = await this.client
+        .from('user_roles')
+        .select(`
+          *,
+          role:roles(*)
+        `)
+        .eq('context_type', context.type)
+        .eq('context_id', context.id)
+        .or(activeGrantFilter())
+
+      if (error) throw error
+      return data || []
+
+    } catch (error) {
+      logger.error('Error getting role grants', error, { metadata: { context } })
+      return []
+    }
+  }
+
   // Remove role from user in context
   async removeRole(
     userId: string,
     context: RBACContext
   ): Promise<boolean> {
     try {
-      const { error } = await supabase
+      const { error } = await this.client
         .from('user_roles')
         .delete()
         .eq('user_id', userId)
@@ -340,7 +594,7 @@ export class RBACService {
       if (error) throw error
 
       // Clear cache
-      this.clearCache(userId)
+      await this.clearCache(userId)
       return true
 
     } catch (error) {
@@ -361,6 +615,10 @@ export async function getUserBranchPermissions(userId: string, branchId: string)
   return rbac.getBranchPermissions(userId, branchId)
 }
 
+export async function getUserTreePermissions(userId: string, treeId: string): Promise<TreePermissions> {
+  return rbac.getTreePermissions(userId, treeId)
+}
+
 export async function canUserCreatePosts(userId: string, branchId: string): Promise<boolean> {
   const permissions = await rbac.getBranchPermissions(userId, branchId)
   return permissions.canCreatePosts
@@ -447,10 +705,14 @@ export async function revokeCrossTreeAccess(crossTreeAccessId: string): Promise<
   }
 }
 
-export async function hasUserCrossTreeAccess(userId: string, branchId: string): Promise<boolean> {
+export async function hasUserCrossTreeAccess(
+  userId: string,
+  branchId: string,
+  client: SupabaseClient = supabase
+): Promise<boolean> {
   try {
     // Get user's trees
-    const { data: userTrees, error: treesError } = await supabase
+    const { data: userTrees, error: treesError } = await client
       .from('tree_members')
       .select('tree_id')
       .eq('user_id', userId)
@@ -460,7 +722,7 @@ export async function hasUserCrossTreeAccess(userId: string, branchId: string):
     // Check if any of user's trees have cross-tree access to this branch
     const treeIds = userTrees.map(tm => tm.tree_id)
     
-    const { data: crossTreeAccess, error: accessError } = await supabase
+    const { data: crossTreeAccess, error: accessError } = await client
       .from('cross_tree_access')
       .select('id')
       .eq('branch_id', branchId)
@@ -0,0 +1,182 @@
+/**
+ * Expiring role grants
+ *
+ * Roles can be granted until a set time, e.g. a babysitter who views a branch
+ * for one weekend. RBACService already ignores grants once they lapse; this
+ * job warns the grantee and the granter shortly before, then deletes the
+ * expired rows along with the matching branch or tree membership, which is
+ * what row level security checks, and clears the grantee's cached permissions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createComponentLogger } from './logger'
+import { notifications } from './notifications/scheduler'
+import type { PermissionCache } from './permission-cache'
+import { getSharedPermissionCache } from './security/redisPermissionCache'
+import type { UserRoleAssignment } from '@/types/database'
+
+const logger = createComponentLogger('RoleGrantExpiry')
+
+// How long before a grant ends the grantee and granter hear about it
+export const ROLE_EXPIRY_NOTICE_HOURS = 48
+
+export interface RoleExpiryRunSummary {
+  notified: number
+  expired: number
+  failed: number
+}
+
+type ExpiringGrant = UserRoleAssignment & { expires_at: string; role?: { name: string } | null }
+
+export class RoleGrantExpiryService {
+  constructor(
+    private supabase: SupabaseClient,
+    private cache: PermissionCache = getSharedPermissionCache()
+  ) {}
+
+  /**
+   * Warn about grants ending within the notice window. Each grant is only
+   * announced once; granting the role again resets that.
+   */
+  async notifyExpiringGrants(now = new Date()): Promise<Pick<RoleExpiryRunSummary, 'notified' | 'failed'>> {
+    const summary = { notified: 0, failed: 0 }
+    const noticeEnd = new Date(now.getTime() + ROLE_EXPIRY_NOTICE_HOURS * 60 * 60 * 1000)
+
+    const { data: grants, error } = await this.supabase
+      .from('user_roles')
+      .select('*, role:roles(name)')
+      .gt('expires_at', now.toISOString())
+      .lte('expires_at', noticeEnd.toISOString())
+      .is('expiry_notified_at', null)
+
+    if (error) {
+      throw error
+    }
+
+    for (const grant of (grants || []) as ExpiringGrant[]) {
+      try {
+        await notifications.notifyRoleExpiring({
+          userId: grant.user_id,
+          userName: await this.getUserName(grant.user_id),
+          grantedBy: grant.granted_by,
+          roleName: grant.role?.name || 'member',
+          contextType: grant.context_type,
+          contextId: grant.context_id,
+          contextName: await this.getContextName(grant),
+          expiresAt: grant.expires_at
+        })
+
+        await this.supabase
+          .from('user_roles')
+          .update({ expiry_notified_at: now.toISOString() })
+          .eq('id', grant.id)
+
+        summary.notified++
+      } catch (notifyError) {
+        summary.failed++
+        logger.error('Failed to announce expiring role', notifyError, {
+          metadata: { grantId: grant.id, userId: grant.user_id }
+        })
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Delete grants that have already expired and the memberships they gave
+   */
+  async sweepExpiredGrants(now = new Date()): Promise<number> {
+    const { data: expired, error } = await this.supabase
+      .from('user_roles')
+      .delete()
+      .lte('expires_at', now.toISOString())
+      .select('id, user_id, context_type, context_id')
+
+    if (error) {
+      throw error
+    }
+
+    for (const grant of expired || []) {
+      await this.removeMembership(grant)
+      logger.info('Role grant expired', {
+        userId: grant.user_id,
+        metadata: { grantId: grant.id, contextType: grant.context_type, contextId: grant.context_id }
+      })
+    }
+
+    for (const userId of new Set((expired || []).map(grant => grant.user_id))) {
+      await this.cache.invalidateUser(userId)
+    }
+
+    return expired?.length || 0
+  }
+
+  async run(now = new Date()): Promise<RoleExpiryRunSummary> {
+    const { notified, failed } = await this.notifyExpiringGrants(now)
+    const expired = await this.sweepExpiredGrants(now)
+    const summary: RoleExpiryRunSummary = { notified, expired, failed }
+
+    logger.info('Role expiry run finished', { metadata: { ...summary } })
+    return summary
+  }
+
+  /**
+   * A member holds one role per context, so once it lapses they are no
+   * longer a member there
+   */
+  private async removeMembership(grant: Pick<UserRoleAssignment, 'user_id' | 'context_type' | 'context_id'>): Promise<void> {
+    const membership = grant.context_type === 'branch'
+      ? { table: 'branch_members', column: 'branch_id' }
+      : grant.context_type === 'tree'
+        ? { table: 'tree_members', column: 'tree_id' }
+        : null
+
+    if (!membership || !grant.context_id) {
+      return
+    }
+
+    const { error } = await this.supabase
+      .from(membership.table)
+      .delete()
+      .eq(membership.column, grant.context_id)
+      .eq('user_id', grant.user_id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  private async getUserName(userId: string): Promise<string> {
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('first_name, last_name, email')
+      .eq('id', userId)
+      .maybeSingle()
+
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+    return name || profile?.email || 'a member'
+  }
+
+  private async getContextName(grant: UserRoleAssignment): Promise<string> {
+    if (grant.context_type === 'branch' && grant.context_id) {
+      const { data: branch } = await this.supabase
+        .from('branches')
+        .select('name')
+        .eq('id', grant.context_id)
+        .maybeSingle()
+      return branch?.name || 'a branch'
+    }
+
+    if (grant.context_type === 'tree' && grant.context_id) {
+      const { data: tree } = await this.supabase
+        .from('trees')
+        .select('name')
+        .eq('id', grant.context_id)
+        .maybeSingle()
+      return tree?.name || 'a tree'
+    }
+
+    return 'Tribe'
+  }
+}
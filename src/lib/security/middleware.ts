@@ -268,7 +268,7 @@ export function withWebhookSecurity(
 /**
  * Verify webhook HMAC signature
  */
-async function verifyWebhookSignature(
+export async function verifyWebhookSignature(
   payload: string,
   signature: string,
   secret: string
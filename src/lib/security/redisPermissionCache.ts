@@ -0,0 +1,112 @@
+/**
+ * Redis-backed permission cache shared by every server instance
+ * Falls back to an in-memory store for development or when Redis is down
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createComponentLogger } from '@/lib/logger'
+import { RBACService } from '@/lib/rbac'
+import {
+  MemoryPermissionCacheStore,
+  PermissionCache,
+  type PermissionCacheStore
+} from '@/lib/permission-cache'
+
+const logger = createComponentLogger('PermissionCache')
+
+const KEY_PREFIX = 'rbac:'
+
+export class RedisPermissionCacheStore implements PermissionCacheStore {
+  private redis: import('ioredis').Redis | null = null
+  private ready: Promise<void>
+
+  constructor(private fallback: PermissionCacheStore = new MemoryPermissionCacheStore()) {
+    this.ready = this.initRedis()
+  }
+
+  private async initRedis() {
+    if (process.env.NODE_ENV === 'production' && process.env.REDIS_URL) {
+      try {
+        // Dynamic import to avoid issues if Redis isn't available
+        const Redis = (await import('ioredis')).default
+        this.redis = new Redis(process.env.REDIS_URL, {
+          maxRetriesPerRequest: 3,
+          lazyConnect: true,
+        })
+
+        await this.redis.connect()
+        logger.info('Redis connected for permission cache')
+      } catch (error) {
+        logger.error('Failed to connect to Redis, falling back to memory cache', error)
+        this.redis = null
+      }
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.ready
+    if (!this.redis) return this.fallback.get(key)
+
+    try {
+      return await this.redis.get(KEY_PREFIX + key)
+    } catch (error) {
+      // Fail open: a miss only means the permission is resolved again
+      logger.error('Redis permission cache read failed', error, { metadata: { key } })
+      return null
+    }
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.ready
+    if (!this.redis) return this.fallback.set(key, value, ttlMs)
+
+    try {
+      await this.redis.set(KEY_PREFIX + key, value, 'PX', ttlMs)
+    } catch (error) {
+      logger.error('Redis permission cache write failed', error, { metadata: { key } })
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    await this.ready
+    if (!this.redis) return this.fallback.deleteByPrefix(prefix)
+
+    try {
+      let cursor = '0'
+      do {
+        const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${KEY_PREFIX}${prefix}*`, 'COUNT', 100)
+        if (keys.length > 0) {
+          await this.redis.del(...keys)
+        }
+        cursor = next
+      } while (cursor !== '0')
+    } catch (error) {
+      // Stale entries still expire with the cache TTL
+      logger.error('Redis permission cache invalidation failed', error, { metadata: { prefix } })
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix('')
+  }
+}
+
+let sharedCache: PermissionCache | null = null
+
+/**
+ * The permission cache shared by server code in this process, backed by Redis
+ * in production so role changes invalidate every instance's entries
+ */
+export function getSharedPermissionCache(): PermissionCache {
+  if (!sharedCache) {
+    sharedCache = new PermissionCache(new RedisPermissionCacheStore())
+  }
+  return sharedCache
+}
+
+/**
+ * RBACService for route handlers and server components
+ */
+export function createServerRBAC(client: SupabaseClient): RBACService {
+  return new RBACService(client, getSharedPermissionCache())
+}
@@ -0,0 +1,64 @@
+/**
+ * Time Zone Helpers
+ * Wall-clock conversions for IANA time zones using Intl, so server-side jobs
+ * can work in each user's local time
+ */
+
+export interface ZonedDateTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number // 0-23
+  minute: number
+}
+
+/**
+ * The time zone if Intl recognises it, otherwise UTC
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return 'UTC'
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return timeZone
+  } catch {
+    return 'UTC'
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') }
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. Days, hours and
+ * minutes past their range roll over, so `day + 1` is tomorrow.
+ */
+export function zonedTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  const offset = getOffsetMs(asUtc, timeZone)
+  const instant = asUtc - offset
+
+  // Around a DST change the offset at the result can differ from the guess
+  const correctedOffset = getOffsetMs(instant, timeZone)
+  return new Date(correctedOffset === offset ? instant : asUtc - correctedOffset)
+}
+
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const local = getZonedDateTime(new Date(timestamp), timeZone)
+  const wholeMinute = timestamp - (timestamp % (60 * 1000))
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - wholeMinute
+}
@@ -28,11 +28,13 @@ export function sanitizeText(input: string, options: {
   maxLength?: number
   allowNewlines?: boolean
   trim?: boolean
+  escapeHtml?: boolean
 } = {}): string {
   const {
     maxLength = 10000,
     allowNewlines = true,
     trim = true,
+    escapeHtml: shouldEscapeHtml = true,
   } = options
 
   if (typeof input !== 'string') {
@@ -51,8 +53,10 @@ export function sanitizeText(input: string, options: {
     sanitized = sanitized.replace(/[\r\n]/g, ' ')
   }
 
-  // Escape HTML entities
-  sanitized = escapeHtml(sanitized)
+  // Escape HTML entities, unless the text is only ever rendered as text
+  if (shouldEscapeHtml) {
+    sanitized = escapeHtml(sanitized)
+  }
 
   // Truncate if exceeds max length
   if (sanitized.length > maxLength) {
@@ -158,11 +162,13 @@ export function sanitizeUserContent(content: string, options: {
   maxLength?: number
   allowNewlines?: boolean
   preserveFormatting?: boolean
+  escapeHtml?: boolean
 } = {}): string {
   const {
     maxLength = 5000,
     allowNewlines = true,
     preserveFormatting = false,
+    escapeHtml: shouldEscapeHtml = true,
   } = options
 
   if (typeof content !== 'string') {
@@ -185,6 +191,7 @@ export function sanitizeUserContent(content: string, options: {
     maxLength,
     allowNewlines,
     trim: true,
+    escapeHtml: shouldEscapeHtml,
   })
 
   return sanitized
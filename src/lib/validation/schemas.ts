@@ -1,4 +1,12 @@
 import { z } from 'zod'
+import { getAliasValidationError } from '@/lib/email/email-alias'
+import {
+  AGE_GROUPS,
+  PROMPT_TEMPLATE_CATEGORIES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  PROMPT_TEMPLATE_TYPES,
+} from '@/lib/ai/promptTemplates'
+import { PERMISSION_ACTIONS, RESOURCE_TYPES, SYSTEM_ROLE_NAMES } from '@/lib/custom-roles'
 
 // Common validation patterns
 export const emailSchema = z.string().email('Please enter a valid email address')
@@ -59,6 +67,19 @@ export const branchCreateSchema = z.object({
 
 export const branchUpdateSchema = branchCreateSchema.partial()
 
+// A new user's first tree and its family branches, created together at onboarding
+export const onboardingSchema = z.object({
+  tree: z.object({
+    name: sanitizedTextSchema(1, 100),
+    description: sanitizedTextSchema(0, 500),
+  }),
+  branches: z.array(z.object({
+    name: sanitizedTextSchema(1, 100),
+    description: sanitizedTextSchema(0, 500),
+    color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Color must be a valid hex code'),
+  })).max(10, 'Maximum 10 branches allowed'),
+})
+
 // Leaf (post) validation schemas
 export const leafCreateSchema = z.object({
   content: sanitizedTextSchema(0, 5000),
@@ -100,6 +121,128 @@ export const memberRoleUpdateSchema = z.object({
   context_id: uuidSchema,
 })
 
+// A branch member's new role: a system role by name, or one of the tree's custom roles by id
+export const branchMemberRoleSchema = z.object({
+  role: z.union([z.enum(['owner', 'admin', 'moderator', 'member', 'viewer']), uuidSchema]),
+  expires_at: z.string().datetime().nullable().default(null),
+})
+
+// Email sender allowlist schemas
+export const verifiedSenderCreateSchema = z.object({
+  email_address: emailSchema,
+  label: sanitizedTextSchema(0, 100).optional(),
+})
+
+export const quarantineReviewSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  trust_sender: z.boolean().default(false), // Add the sender to the allowlist on approval
+})
+
+export const emailAliasCreateSchema = z.object({
+  alias: z.string().trim().toLowerCase().superRefine((alias, ctx) => {
+    const error = getAliasValidationError(alias)
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error })
+    }
+  }),
+  replaces: uuidSchema.optional(), // Alias to deactivate once the new one is claimed
+})
+
+export const emailAddressUpdateSchema = z.object({
+  is_active: z.boolean(),
+})
+
+// AI gateway schemas
+export const aiGatewayRequestSchema = z.object({
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string().min(1).max(20000),
+  })).min(1).max(40),
+  maxTokens: z.number().int().min(1).max(2000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  responseFormat: z.enum(['text', 'json']).optional(),
+})
+
+// AI interview schemas
+export const interviewStartSchema = z.object({
+  subject: sanitizedTextSchema(3, 500), // the photo or event, in the user's words
+  tree_id: uuidSchema.optional(),
+  media_count: z.number().int().min(0).max(20).default(0),
+  question_count: z.number().int().min(3).max(5).optional(),
+})
+
+export const interviewAnswerSchema = z.object({
+  answer: sanitizedTextSchema(1, 2000),
+  finish: z.boolean().default(false), // write the draft now instead of asking more
+})
+
+// Prompt template schemas
+const promptTemplateTextSchema = (minLength: number, maxLength: number) =>
+  sanitizedTextSchema(minLength, maxLength).superRefine((text, ctx) => {
+    const unknown = [...text.matchAll(/{(\w+)}/g)]
+      .map(match => match[1])
+      .filter(name => !(PROMPT_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name))
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unknown placeholder ${unknown.map(name => `{${name}}`).join(', ')}. Use ${PROMPT_TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`,
+      })
+    }
+  })
+
+const promptTemplateFieldsSchema = z.object({
+  type: z.enum(PROMPT_TEMPLATE_TYPES),
+  category: z.enum(PROMPT_TEMPLATE_CATEGORIES),
+  title: sanitizedTextSchema(1, 100),
+  prompt: promptTemplateTextSchema(10, 1000),
+  follow_up_questions: z.array(promptTemplateTextSchema(1, 300)).max(10),
+  suggested_responses: z.array(sanitizedTextSchema(1, 100)).max(6),
+  triggers: z.object({
+    timeOfDay: z.array(z.enum(['morning', 'afternoon', 'evening'])).min(1).optional(),
+    dayOfWeek: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).min(1).optional(),
+    keywords: z.array(z.string().trim().toLowerCase().min(2).max(40)).min(1).max(20).optional(),
+    milestones: z.array(z.string().trim().regex(/^[a-z0-9_]+$/, 'Use milestone names like first_steps')).min(1).max(20).optional(),
+  }).strict(),
+  personalization: z.object({
+    familyRole: z.array(z.enum(['parent', 'child', 'grandparent'])).min(1).optional(),
+    branchType: z.array(z.enum(['family', 'community'])).min(1).optional(),
+    ageGroups: z.array(z.enum(AGE_GROUPS)).min(1).optional(),
+  }).strict(),
+})
+
+export const promptTemplateCreateSchema = promptTemplateFieldsSchema.extend({
+  follow_up_questions: promptTemplateFieldsSchema.shape.follow_up_questions.default([]),
+  suggested_responses: promptTemplateFieldsSchema.shape.suggested_responses.default([]),
+  triggers: promptTemplateFieldsSchema.shape.triggers.default({}),
+  personalization: promptTemplateFieldsSchema.shape.personalization.default({}),
+  shared_tree_ids: z.array(uuidSchema).max(20).default([]),
+})
+
+export const promptTemplateUpdateSchema = promptTemplateFieldsSchema.partial().extend({
+  shared_tree_ids: z.array(uuidSchema).max(20).optional(),
+}).refine(data => Object.keys(data).length > 0, 'Nothing to update')
+
+export const promptTemplateBranchSettingSchema = z.object({
+  branch_id: uuidSchema,
+  enabled: z.boolean(),
+})
+
+// Recap story schemas
+export const recapGenerateSchema = z.object({
+  period_type: z.enum(['monthly', 'yearly']),
+  period_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(), // any day in the period; defaults to the last full one
+  regenerate: z.boolean().default(false),
+})
+
+export const recapUpdateSchema = z.object({
+  title: sanitizedTextSchema(1, 200).optional(),
+  narrative: sanitizedTextSchema(1, 5000).optional(),
+  publish: z.boolean().optional(),
+  branch_id: uuidSchema.optional(), // where to publish; defaults to the tree's first branch
+}).refine(data => data.title !== undefined || data.narrative !== undefined || data.publish, {
+  message: 'Nothing to update',
+})
+
 // Comment validation schemas
 export const commentCreateSchema = z.object({
   content: sanitizedTextSchema(1, 2000),
@@ -125,6 +268,31 @@ export const searchSchema = z.object({
   offset: z.number().min(0).default(0),
 })
 
+export const auditLogQuerySchema = z.object({
+  actor_id: uuidSchema.optional(),
+  category: z.enum(['members', 'sharing']).optional(),
+  before: z.string().datetime().optional(), // created_at of the oldest entry already shown
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+// Custom tree roles pick cells of the resource × action matrix
+const customRoleFieldsSchema = z.object({
+  name: sanitizedTextSchema(1, 50).refine(
+    name => !(SYSTEM_ROLE_NAMES as readonly string[]).includes(name.toLowerCase()),
+    'This name is taken by a built-in role'
+  ),
+  description: sanitizedTextSchema(0, 200).nullable().optional(),
+  permissions: z.array(z.object({
+    resource_type: z.enum(RESOURCE_TYPES),
+    action: z.enum(PERMISSION_ACTIONS),
+  })).min(1, 'Pick at least one permission').max(RESOURCE_TYPES.length * PERMISSION_ACTIONS.length),
+})
+
+export const customRoleCreateSchema = customRoleFieldsSchema
+
+export const customRoleUpdateSchema = customRoleFieldsSchema.partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update')
+
 // Settings schemas
 export const userSettingsUpdateSchema = z.object({
   email_notifications: z.boolean().default(true),
@@ -287,6 +287,7 @@ export interface NotificationPreferencesForm {
   
   // Notification frequency and timing
   digest_frequency: 'daily' | 'weekly' | 'never'
+  prompt_frequency: 'daily' | 'every_few_days' | 'weekly' | 'never'
   quiet_hours_start: string
   quiet_hours_end: string
   timezone: string
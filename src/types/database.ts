@@ -134,9 +134,25 @@ export interface TreeEmailAddress {
   id: string
   tree_id: string
   email_address: string
+  address_type: 'system' | 'alias'  // system = generated person-{treeId} address
   is_active: boolean
+  deactivated_at: string | null
   created_at: string
   created_by: string
+  updated_at: string
+}
+
+// Addresses allowed to email memories into a person tree
+export interface TreeVerifiedSender {
+  id: string
+  tree_id: string
+  email_address: string
+  profile_id: string | null  // Credited as the leaf author when set
+  label: string | null
+  is_active: boolean
+  added_by: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface BranchMember {
@@ -377,9 +393,23 @@ export interface Role {
   name: string
   description: string | null
   is_system_role: boolean
+  tree_id?: string | null     // set for a tree's custom roles
+  created_by?: string | null
   created_at: string
 }
 
+// One cell of the resource × action matrix
+export interface PermissionGrant {
+  resource_type: ResourceType
+  action: PermissionAction
+}
+
+// A role a tree owner defined, with the permissions they picked
+export interface CustomRole extends Role {
+  tree_id: string
+  permissions: PermissionGrant[]
+}
+
 export interface RolePermission {
   id: string
   role_id: string
@@ -398,9 +428,25 @@ export interface UserRoleAssignment {
   granted_by: string | null
   granted_at: string
   expires_at: string | null
+  expiry_notified_at?: string | null
   role?: Role
 }
 
+// Append-only record of a role, membership, invitation or sharing change
+export interface AuditLogEntry {
+  id: string
+  tree_id: string | null
+  branch_id: string | null
+  actor_id: string | null  // null when the change was made by the system
+  action: 'insert' | 'update' | 'delete'
+  target_table: string
+  target_id: string | null
+  target_user_id: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  created_at: string
+}
+
 // RBAC Utility Types
 export interface RBACContext {
   type: 'branch' | 'tree' | 'global'
@@ -423,8 +469,28 @@ export interface BranchPermissions {
   isAdmin: boolean
   isModerator: boolean
   userRole: UserRole | 'none'
+  customRole?: { id: string; name: string } | null  // a tree's own role, see src/lib/custom-roles.ts
+}
+
+export interface TreePermissions {
+  canRead: boolean
+  canUpdate: boolean
+  canDelete: boolean
+  canManagePerson: boolean        // person details, recaps and prompt templates
+  canEditRelationships: boolean
+  canManageEmailAddresses: boolean // addresses, verified senders and quarantine
+  canInviteMembers: boolean
+  canManageMembers: boolean
+  canExport: boolean
+  isOwner: boolean
+  isAdmin: boolean
+  isManager: boolean              // listed in Tree.managed_by
+  userRole: UserRole | 'none'
 }
 
+// The can* flags, for checks such as requireTreePermission
+export type TreePermission = Exclude<keyof TreePermissions, 'isOwner' | 'isAdmin' | 'isManager' | 'userRole'>
+
 // Chat and Conversation Types
 export interface ConversationMetadata {
   pinned_message_id?: string
@@ -639,6 +705,7 @@ export interface UserNotificationPreferences {
   
   // Notification frequency and timing
   digest_frequency: 'daily' | 'weekly' | 'never'
+  prompt_frequency: 'daily' | 'every_few_days' | 'weekly' | 'never' // proactive AI prompts
   quiet_hours_start: string // TIME format
   quiet_hours_end: string // TIME format
   timezone: string
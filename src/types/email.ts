@@ -10,14 +10,38 @@ export interface EmailAttachment {
   storagePath?: string
 }
 
+// Attachment as received from the inbound provider, before upload to storage
+export interface RawEmailAttachment {
+  filename: string
+  contentType: string
+  content: string // base64 encoded
+  contentId?: string // set for inline parts referenced from the HTML body as cid:
+}
+
+// SPF or DKIM result reported by the receiving provider
+export type EmailAuthVerdict = 'pass' | 'fail' | 'none'
+
+export interface EmailAuthentication {
+  spf: EmailAuthVerdict
+  dkim: EmailAuthVerdict // 'pass' when any signature verified
+}
+
 export interface IncomingEmail {
   to: string
+  recipients?: string[] // every To and CC address; `to` is the one the email is routed by
   from: string
   subject: string
   text: string
   html?: string
   attachments?: EmailAttachment[]
+  rawAttachments?: RawEmailAttachment[]
+  messageId?: string
+  inReplyTo?: string
+  references?: string[]
+  headers?: Record<string, string> // lowercase header names
   timestamp?: string
+  provider?: string
+  authentication?: EmailAuthentication // absent when the provider reports neither result
 }
 
 export interface WebhookFormData {
@@ -41,6 +65,43 @@ export interface ProcessedEmailContent {
   mediaUrls: string[]
   leafType: 'photo' | 'video' | 'audio' | 'text' | 'milestone'
   tags: string[]
+  aiCaption: string
+}
+
+export type EmailRoutingType = 'user' | 'person'
+
+export interface ResolvedEmailRecipient {
+  routingType: EmailRoutingType
+  authorId: string
+  treeId?: string
+  personName?: string
+  managerIds?: string[] // person trees only: profiles that manage the tree
+}
+
+// A reply to a notification email, traced back to the leaf it was about
+export interface EmailReplyTarget {
+  notificationId: string
+  leafId: string
+  authorId: string // the notified user, who must also be the sender
+}
+
+export interface SenderVerificationResult {
+  verified: boolean
+  method?: 'allowlist' | 'manager'
+  authorId?: string // profile credited as the leaf author when verified
+}
+
+// Routing instructions written into the address or subject by the sender
+export interface EmailCommands {
+  subject: string // subject with command tokens removed
+  branchNames: string[]
+  milestoneType?: string
+  milestoneDate?: string // YYYY-MM-DD
+}
+
+export interface ResolvedEmailCommands extends EmailCommands {
+  branchIds: string[]
+  unmatchedBranchNames: string[]
 }
 
 export interface EmailProcessingResult {
@@ -48,9 +109,59 @@ export interface EmailProcessingResult {
   leafId?: string
   leafType?: string
   hasMedia?: boolean
+  assignedBranchIds?: string[]
   error?: string
 }
 
+export interface EmailIngestionResult extends EmailProcessingResult {
+  processed: boolean // false when the recipient is not one we route
+  duplicate?: boolean // true when this email was already ingested or is in progress
+  quarantined?: boolean // true when held for manager review
+  quarantineId?: string
+  commentId?: string // set when the email was a reply added as a comment on leafId
+  skipReason?: 'unknown_recipient' | 'empty_reply' // set when processed is false
+  oversizedAttachments?: string[] // filenames left out for exceeding the size limit
+  sharedTreeIds?: string[] // other recipient trees the leaf was shared with
+  routingType?: EmailRoutingType
+  targetTreeId?: string
+}
+
+export type EmailIngestionStatus = 'processing' | 'completed' | 'failed' | 'skipped' | 'quarantined'
+
+export interface EmailIngestionRecord {
+  id: string
+  message_id: string | null
+  content_hash: string
+  provider: string | null
+  status: EmailIngestionStatus
+  recipient: string | null
+  sender: string | null
+  subject: string | null
+  leaf_id: string | null
+  error_message: string | null
+  attempt_count: number
+  processed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type EmailQuarantineStatus = 'pending' | 'approved' | 'rejected'
+
+export interface QuarantinedEmail {
+  id: string
+  tree_id: string
+  ingestion_id: string
+  sender: string
+  recipient: string
+  subject: string | null
+  email_payload: IncomingEmail
+  status: EmailQuarantineStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+  leaf_id: string | null
+  created_at: string
+}
+
 export interface AuthenticationResult {
   isValid: boolean
   method?: 'api-key' | 'sendgrid-webhook'